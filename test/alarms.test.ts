@@ -0,0 +1,254 @@
+/**
+ * Tests for alarms.ts: fire times for absolute and relative alarms (one-off,
+ * repeating across DST, all-day), the notification report and its flagged
+ * alarms, and reminders created through the server.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {
+  AlarmError,
+  describeOffset,
+  fireTimes,
+  formatNotifications,
+  notificationReport,
+} from './alarms';
+import {buildRequest, tokenize} from './cli';
+import {MCPClient} from './mcp-client';
+import type {QueriedReminder} from './tool-results';
+
+const timeZone = 'America/New_York';
+const from = new Date('2026-03-06T00:00:00-05:00');
+
+const reminders: QueriedReminder[] = [
+  {
+    id: 'A',
+    title: 'Standup',
+    listName: 'Work',
+    dueDate: '2026-03-06T09:00:00-05:00',
+    dueDateIncludesTime: true,
+    alarms: [{type: 'relative', offset: 900}],
+    recurrenceRules: [{frequency: 'daily', interval: 1}],
+  },
+  {
+    id: 'B',
+    title: 'Bins',
+    dueDate: '2026-03-09',
+    dueDateIncludesTime: false,
+    alarms: [
+      {type: 'relative', offset: 3 * 3600},
+      {type: 'absolute', date: '2026-03-07T12:00:00-05:00'},
+    ],
+  },
+  {
+    id: 'C',
+    title: 'Call mum',
+    listName: 'Family',
+    alarms: [
+      {type: 'relative', offset: 3600},
+      {type: 'absolute', date: '2026-03-06T18:00:00-05:00'},
+    ],
+  },
+  {
+    id: 'D',
+    title: 'Done',
+    dueDate: '2026-03-06T10:00:00-05:00',
+    isCompleted: true,
+    alarms: [{type: 'relative', offset: 0}],
+  },
+];
+
+describe('Alarm fire times', () => {
+  test('relative alarms follow each occurrence, across DST', () => {
+    const times = fireTimes(
+      reminders[0],
+      from,
+      new Date('2026-03-10T00:00:00-04:00'),
+      {timeZone},
+    );
+    // 08:45 local every day; the offset changes on March 8
+    expect(times.map((t) => t.date.toISOString())).toEqual([
+      '2026-03-06T13:45:00.000Z',
+      '2026-03-07T13:45:00.000Z',
+      '2026-03-08T12:45:00.000Z',
+      '2026-03-09T12:45:00.000Z',
+    ]);
+    expect(times[2]).toMatchObject({
+      dueDate: '2026-03-08T09:00:00-04:00',
+      occurrence: 2,
+    });
+  });
+
+  test('window edges, all-day due dates and absolute alarms', () => {
+    // Due Monday (all day): fires Sunday 21:00, and at Saturday noon
+    const times = fireTimes(reminders[1], from, new Date(2026, 2, 20), {
+      timeZone,
+    });
+    expect(times.map((t) => [t.date.toISOString(), t.alarm.type])).toEqual([
+      ['2026-03-07T17:00:00.000Z', 'absolute'],
+      ['2026-03-09T01:00:00.000Z', 'relative'],
+    ]);
+    // The start of the window is included, the end is not
+    expect(
+      fireTimes(
+        reminders[1],
+        new Date('2026-03-07T12:00:00-05:00'),
+        new Date('2026-03-08T21:00:00-04:00'),
+        {timeZone},
+      ).map((t) => t.alarm.type),
+    ).toEqual(['absolute']);
+    // No due date: only the absolute alarm can fire
+    expect(
+      fireTimes(reminders[2], from, new Date('2026-03-07T00:00:00-05:00')),
+    ).toEqual([
+      {date: new Date('2026-03-06T23:00:00Z'), alarm: reminders[2].alarms![1]},
+    ]);
+    expect(() =>
+      fireTimes(
+        {id: 'X', title: 'Bad', alarms: [{type: 'absolute', date: 'soon'}]},
+        from,
+        new Date(),
+      ),
+    ).toThrow(new AlarmError("Invalid alarm date on 'Bad': soon"));
+  });
+
+  test('negative offsets fire after the due date', () => {
+    // Set after the due date in Reminders.app: the server reports -offset
+    const late: QueriedReminder = {
+      ...reminders[0],
+      id: 'L',
+      title: 'Follow up',
+      alarms: [{type: 'relative', offset: -1800}],
+    };
+    const report = notificationReport([late], {from, days: 2, timeZone});
+    expect(report.notifications.map((n) => n.fireDate)).toEqual([
+      '2026-03-06T09:30:00-05:00',
+      '2026-03-07T09:30:00-05:00',
+    ]);
+    expect(formatNotifications(report)).toContain(
+      '  09:30  Follow up [Work]: 30m after 2026-03-06T09:00:00-05:00 (repeats)',
+    );
+    // An occurrence due just before the window still fires inside it
+    expect(
+      fireTimes(
+        late,
+        new Date('2026-03-06T09:15:00-05:00'),
+        new Date('2026-03-06T10:00:00-05:00'),
+        {
+          timeZone,
+        },
+      ).map((t) => t.dueDate),
+    ).toEqual(['2026-03-06T09:00:00-05:00']);
+  });
+
+  test('the report lists notifications and flags alarms that never fire', () => {
+    const report = notificationReport(reminders, {from, days: 3, timeZone});
+    expect(report.from).toBe('2026-03-06T00:00:00-05:00');
+    expect(report.to).toBe('2026-03-09T01:00:00-04:00');
+    expect(report.notifications.map((n) => [n.id, n.fireDate])).toEqual([
+      ['A', '2026-03-06T08:45:00-05:00'],
+      ['C', '2026-03-06T18:00:00-05:00'],
+      ['A', '2026-03-07T08:45:00-05:00'],
+      ['B', '2026-03-07T12:00:00-05:00'],
+      ['A', '2026-03-08T08:45:00-04:00'],
+      ['B', '2026-03-08T21:00:00-04:00'],
+    ]);
+    expect(report.neverFire).toEqual([
+      {
+        id: 'C',
+        title: 'Call mum',
+        listName: 'Family',
+        alarm: {type: 'relative', offset: 3600},
+      },
+    ]);
+
+    expect(formatNotifications(report)).toBe(
+      [
+        '2026-03-06',
+        '  08:45  Standup [Work]: 15m before 2026-03-06T09:00:00-05:00 (repeats)',
+        '  18:00  Call mum [Family]: at a set time',
+        '',
+        '2026-03-07',
+        '  08:45  Standup [Work]: 15m before 2026-03-07T09:00:00-05:00 (repeats)',
+        '  12:00  Bins: at a set time',
+        '',
+        '2026-03-08',
+        '  08:45  Standup [Work]: 15m before 2026-03-08T09:00:00-04:00 (repeats)',
+        '  21:00  Bins: 3h before 2026-03-09',
+        '',
+        'Never fire (relative alarms on reminders without a due date):',
+        '  Call mum [Family]: 1h before (C)',
+      ].join('\n'),
+    );
+    expect(
+      formatNotifications({from: '', to: '', notifications: [], neverFire: []}),
+    ).toBe('No notifications');
+    expect(describeOffset(90061)).toBe('1d 1h 1m 1s before');
+    expect(describeOffset(0)).toBe('at due time');
+    expect(describeOffset(-600)).toBe('10m after');
+  });
+
+  test('cli notifications queries full incomplete reminders', () => {
+    const request = buildRequest(
+      tokenize('notifications --days 3 --time-zone America/New_York'),
+      from,
+    );
+    expect(request.tool).toBe('query_reminders');
+    expect(request.args).toEqual({
+      list: {all: true},
+      status: 'incomplete',
+      outputDetail: 'full',
+      limit: 200,
+    });
+    expect(request.view!(reminders).data).toEqual(
+      notificationReport(reminders, {from, days: 3, timeZone}),
+    );
+  });
+});
+
+describe('Alarms created through the server', () => {
+  let client: MCPClient;
+  let listName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    listName = await client.createTestList();
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('stored alarms resolve to the expected fire times', async () => {
+    await client.tools.createReminders({
+      reminders: [
+        {
+          title: 'Weekly review',
+          list: {name: listName},
+          dueDate: '2026-06-19T16:00:00-04:00',
+          alarms: [{type: 'relative', offset: 7200}],
+          recurrenceRule: {frequency: 'weekly', endCount: 2},
+        },
+        {
+          title: 'Undated',
+          list: {name: listName},
+          alarms: [{type: 'relative', offset: 60}],
+        },
+      ],
+    });
+    const stored = await client.tools.queryReminders<QueriedReminder[]>({
+      list: {name: listName},
+      outputDetail: 'full',
+    });
+
+    const report = notificationReport(stored, {
+      from: new Date('2026-06-15T00:00:00-04:00'),
+      days: 30,
+      timeZone,
+    });
+    expect(report.notifications.map((n) => [n.title, n.fireDate])).toEqual([
+      ['Weekly review', '2026-06-19T14:00:00-04:00'],
+      ['Weekly review', '2026-06-26T14:00:00-04:00'],
+    ]);
+    expect(report.neverFire.map((s) => s.title)).toEqual(['Undated']);
+  });
+});
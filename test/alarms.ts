@@ -0,0 +1,345 @@
+#!/usr/bin/env bun
+
+/**
+ * Resolves reminders' alarms into the times their notifications fire, and
+ * reports what will notify in a window.
+ *
+ *   {type: 'absolute', date}    fires once, at `date`, even on a repeating
+ *                               reminder
+ *   {type: 'relative', offset}  fires `offset` seconds before each due
+ *                               date (after it, when negative): the
+ *                               reminder's own and, if it repeats, every
+ *                               later occurrence (see recurrence.ts);
+ *                               all-day due dates count from midnight in
+ *                               the zone
+ *
+ * A relative alarm on a reminder without a dueDate has nothing to count
+ * from and never fires; the report lists those separately. Completed
+ * reminders don't notify and are left out.
+ *
+ * Usage:
+ *   bun test/alarms.ts notifications [--days N] [--list <name>] [--time-zone <iana>]
+ *                                    [--mock] [--test-mode] [--json]
+ *
+ * `bun test/cli.ts notifications` shows the same report.
+ */
+
+import {MCPClient} from './mcp-client';
+import {occurrencesBetween, type UpcomingOptions} from './recurrence';
+import {type AlarmOutput, fromISO8601} from './reference-models';
+import {readCurrentState} from './restore-export';
+import {formatInZone, isValidTimeZone, localTimeZone} from './time-zones';
+import type {QueriedReminder} from './tool-results';
+
+export class AlarmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlarmError';
+  }
+}
+
+export interface FireTime {
+  date: Date;
+  alarm: AlarmOutput;
+  /** For relative alarms: the due date of the occurrence it belongs to */
+  dueDate?: string;
+  /** For relative alarms: 0 for the reminder's own due date, n for the nth repeat */
+  occurrence?: number;
+}
+
+/**
+ * When `reminder`'s alarms fire at or after `from` and before `to`, soonest
+ * first. Relative alarms without a dueDate have no fire times.
+ */
+export function fireTimes(
+  reminder: QueriedReminder,
+  from: Date,
+  to: Date,
+  options: {timeZone?: string} = {},
+): FireTime[] {
+  const times: FireTime[] = [];
+  for (const alarm of reminder.alarms ?? []) {
+    if (alarm.type === 'absolute') {
+      const date = alarm.date ? fromISO8601(alarm.date) : null;
+      if (!date) {
+        throw new AlarmError(
+          `Invalid alarm date on '${reminder.title}': ${alarm.date}`,
+        );
+      }
+      if (date >= from && date < to) times.push({date, alarm});
+      continue;
+    }
+
+    const offset = alarm.offset ?? 0;
+    if (!Number.isFinite(offset)) {
+      throw new AlarmError(
+        `Invalid alarm offset on '${reminder.title}': ${alarm.offset}`,
+      );
+    }
+    if (!reminder.dueDate) continue;
+    // An alarm fires inside the window when its due date is `offset` later
+    // (earlier for an alarm set after the due date)
+    const shift = offset * 1000;
+    const found = occurrencesBetween(
+      reminder.recurrenceRules?.[0] ?? {frequency: 'daily', endCount: 1},
+      {
+        dueDate: reminder.dueDate,
+        dueDateIncludesTime: reminder.dueDateIncludesTime,
+      },
+      new Date(from.getTime() + shift),
+      new Date(to.getTime() + shift),
+      options,
+    );
+    for (const occurrence of found) {
+      times.push({
+        date: new Date(occurrence.date.getTime() - shift),
+        alarm,
+        dueDate: occurrence.dueDate,
+        occurrence: occurrence.index,
+      });
+    }
+  }
+  return times.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Notification report
+
+export interface Notification {
+  id: string;
+  title: string;
+  listName?: string;
+  /** When it fires, with the zone's offset */
+  fireDate: string;
+  alarm: AlarmOutput;
+  dueDate?: string;
+  occurrence?: number;
+  recurring: boolean;
+}
+
+/** A relative alarm that never fires because its reminder has no dueDate */
+export interface SilentAlarm {
+  id: string;
+  title: string;
+  listName?: string;
+  alarm: AlarmOutput;
+}
+
+export interface NotificationReport {
+  from: string;
+  to: string;
+  notifications: Notification[];
+  neverFire: SilentAlarm[];
+}
+
+/**
+ * Every notification firing in the window, soonest first, for reminders
+ * from query_reminders with outputDetail 'full' (other details leave out
+ * alarms), plus the relative alarms that can never fire.
+ */
+export function notificationReport(
+  reminders: QueriedReminder[],
+  options: UpcomingOptions = {},
+): NotificationReport {
+  const timeZone = options.timeZone ?? localTimeZone();
+  if (!isValidTimeZone(timeZone)) {
+    throw new AlarmError(`Unknown time zone: ${timeZone}`);
+  }
+  const from = options.from ?? new Date();
+  const to = new Date(from.getTime() + (options.days ?? 7) * 86_400_000);
+  const notifications: Array<Notification & {date: Date}> = [];
+  const neverFire: SilentAlarm[] = [];
+
+  for (const reminder of reminders) {
+    if (reminder.isCompleted || !reminder.alarms?.length) continue;
+    const about = {
+      id: reminder.id,
+      title: reminder.title,
+      ...(reminder.listName !== undefined && {listName: reminder.listName}),
+    };
+    if (!reminder.dueDate) {
+      for (const alarm of reminder.alarms) {
+        if (alarm.type === 'relative') neverFire.push({...about, alarm});
+      }
+    }
+    for (const time of fireTimes(reminder, from, to, {timeZone})) {
+      notifications.push({
+        ...about,
+        fireDate: formatInZone(time.date, timeZone),
+        alarm: time.alarm,
+        ...(time.dueDate !== undefined && {
+          dueDate: time.dueDate,
+          occurrence: time.occurrence,
+        }),
+        recurring: Boolean(reminder.recurrenceRules?.length),
+        date: time.date,
+      });
+    }
+  }
+
+  return {
+    from: formatInZone(from, timeZone),
+    to: formatInZone(to, timeZone),
+    notifications: notifications
+      .sort(
+        (a, b) =>
+          a.date.getTime() - b.date.getTime() || a.title.localeCompare(b.title),
+      )
+      .map(({date: _date, ...notification}) => notification),
+    neverFire,
+  };
+}
+
+/** Seconds before due as text: 5400 → `1h 30m before`, -600 → `10m after` */
+export function describeOffset(seconds: number): string {
+  if (seconds === 0) return 'at due time';
+  if (seconds < 0) return describeOffset(-seconds).replace(/before$/, 'after');
+  const units: Array<[string, number]> = [
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+  ];
+  const parts: string[] = [];
+  let rest = seconds;
+  for (const [unit, size] of units) {
+    if (rest >= size) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return `${parts.join(' ')} before`;
+}
+
+/** One line per notification grouped by day, then the alarms that never fire */
+export function formatNotifications(report: NotificationReport): string {
+  const lines: string[] = [];
+  let day = '';
+  for (const notification of report.notifications) {
+    const date = notification.fireDate.slice(0, 10);
+    if (date !== day) {
+      if (day) lines.push('');
+      lines.push(date);
+      day = date;
+    }
+    const time = notification.fireDate.slice(11, 16);
+    const list = notification.listName ? ` [${notification.listName}]` : '';
+    const when =
+      notification.alarm.type === 'absolute'
+        ? 'at a set time'
+        : `${describeOffset(notification.alarm.offset ?? 0)} ${notification.dueDate}`;
+    const repeat = notification.recurring ? ' (repeats)' : '';
+    lines.push(`  ${time}  ${notification.title}${list}: ${when}${repeat}`);
+  }
+  if (lines.length === 0) lines.push('No notifications');
+
+  if (report.neverFire.length > 0) {
+    lines.push(
+      '',
+      'Never fire (relative alarms on reminders without a due date):',
+    );
+    for (const silent of report.neverFire) {
+      const list = silent.listName ? ` [${silent.listName}]` : '';
+      lines.push(
+        `  ${silent.title}${list}: ${describeOffset(silent.alarm.offset ?? 0)} (${silent.id})`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+function parseArgs(args: string[]) {
+  const [command, ...rest] = args;
+  const options = {
+    command,
+    days: 7,
+    list: undefined as string | undefined,
+    timeZone: undefined as string | undefined,
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--days':
+        options.days = Number(rest[++i]);
+        if (!Number.isInteger(options.days) || options.days < 1) {
+          throw new Error(`Invalid --days: ${rest[i]}`);
+        }
+        break;
+      case '--list':
+        options.list = rest[++i];
+        break;
+      case '--time-zone':
+        options.timeZone = rest[++i];
+        if (!isValidTimeZone(options.timeZone ?? '')) {
+          throw new Error(`Unknown time zone: ${options.timeZone}`);
+        }
+        break;
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (command !== 'notifications') {
+    throw new Error(`Unknown command: ${command ?? '(none)'}`);
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/alarms.ts notifications [--days N] [--list <name>] [--time-zone <iana>] [--mock] [--test-mode] [--json]',
+    );
+    process.exit(2);
+  }
+
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+  });
+  try {
+    // Through export: query_reminders returns at most 200
+    const {lists, reminders: all} = await readCurrentState(client);
+    const list = options.list?.toLowerCase();
+    if (
+      list !== undefined &&
+      !lists.some((l) => l.name.toLowerCase() === list)
+    ) {
+      throw new AlarmError(`List not found: ${options.list}`);
+    }
+    const reminders = all.filter(
+      (r) =>
+        !r.isCompleted &&
+        (list === undefined || r.listName.toLowerCase() === list),
+    );
+    const report = notificationReport(reminders, options);
+    console.log(
+      options.json
+        ? JSON.stringify(report, null, 2)
+        : formatNotifications(report),
+    );
+  } finally {
+    await client.cleanup();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Notifications failed:', error);
+    process.exit(1);
+  });
+}
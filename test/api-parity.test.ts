@@ -6,7 +6,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('API Parity features', () => {
   let client: MCPClient;
@@ -96,7 +96,9 @@ describe('API Parity features', () => {
         dueDate: string;
       }>;
       expect(reminders[0].dueDateIncludesTime).toBe(true);
-      expect(reminders[0].dueDate).toBeDefined();
+      expect(Date.parse(reminders[0].dueDate)).toBe(
+        Date.parse('2026-06-15T14:00:00-05:00'),
+      );
     });
 
     test('creates reminder with dueDateIncludesTime=false (all-day)', async () => {
@@ -155,7 +157,7 @@ describe('API Parity features', () => {
       const reminders = result as Array<{
         alarms: Array<{type: string; offset: number}>;
       }>;
-      expect(reminders[0].alarms).toBeDefined();
+      expect(validators.reminders('encoded')(result)).toEqual([]);
       expect(reminders[0].alarms.length).toBe(1);
       expect(reminders[0].alarms[0].type).toBe('relative');
       expect(reminders[0].alarms[0].offset).toBe(3600);
@@ -175,10 +177,12 @@ describe('API Parity features', () => {
       const reminders = result as Array<{
         alarms: Array<{type: string; date: string}>;
       }>;
-      expect(reminders[0].alarms).toBeDefined();
+      expect(validators.reminders('encoded')(result)).toEqual([]);
       expect(reminders[0].alarms.length).toBe(1);
       expect(reminders[0].alarms[0].type).toBe('absolute');
-      expect(reminders[0].alarms[0].date).toBeDefined();
+      expect(Date.parse(reminders[0].alarms[0].date)).toBe(
+        Date.parse('2026-06-15T13:00:00-05:00'),
+      );
     });
 
     test('creates reminder with multiple alarms', async () => {
@@ -247,7 +251,7 @@ describe('API Parity features', () => {
       const reminders = result as Array<{
         recurrenceRules: Array<{frequency: string; interval: number}>;
       }>;
-      expect(reminders[0].recurrenceRules).toBeDefined();
+      expect(validators.reminders('encoded')(result)).toEqual([]);
       expect(reminders[0].recurrenceRules.length).toBe(1);
       expect(reminders[0].recurrenceRules[0].frequency).toBe('daily');
       expect(reminders[0].recurrenceRules[0].interval).toBe(1);
@@ -0,0 +1,198 @@
+/**
+ * Tests for audit-proxy.ts: the proxy wraps the reference server, stays
+ * transparent to the client, and logs before/after state for writes.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {mkdirSync, mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {type AuditRecord, readAuditLog} from './audit-proxy';
+import {MCPClient} from './mcp-client';
+import type {EncodedReminder} from './tool-results';
+
+const PROXY_PATH = `${import.meta.dir}/audit-proxy.ts`;
+const SERVER_PATH = `${import.meta.dir}/reference-server.ts`;
+
+describe('Audit proxy', () => {
+  let client: MCPClient;
+  let dir: string;
+  let logPath: string;
+  let listName: string;
+  let ids: string[];
+
+  const records = (tool?: string): AuditRecord[] =>
+    readAuditLog(logPath).filter((r) => !tool || r.tool === tool);
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-proxy-'));
+    logPath = join(dir, 'logs', 'audit.jsonl');
+    client = await MCPClient.create({
+      command: [
+        process.execPath,
+        PROXY_PATH,
+        '--log',
+        logPath,
+        '--',
+        process.execPath,
+        SERVER_PATH,
+      ],
+    });
+
+    listName = await client.createTestList();
+    const created = await client.tools.createReminders({
+      reminders: [
+        {title: 'Audited one', list: {name: listName}, priority: 'low'},
+        {title: 'Audited two', list: {name: listName}},
+      ],
+    });
+    ids = (created as EncodedReminder[]).map((r) => r.id);
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('forwards protocol messages unchanged', async () => {
+    const tools = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain('query_reminders');
+    expect(client.getServerInfo()?.name).toBeDefined();
+  });
+
+  test('logs every tools/call with arguments and result', async () => {
+    const create = records('create_reminders');
+    expect(create.length).toBe(1);
+    expect(create[0].isError).toBe(false);
+    expect(create[0].arguments).toEqual({
+      reminders: [
+        {title: 'Audited one', list: {name: listName}, priority: 'low'},
+        {title: 'Audited two', list: {name: listName}},
+      ],
+    });
+    expect((create[0].result as EncodedReminder[]).map((r) => r.id)).toEqual(
+      ids,
+    );
+    expect(create[0].before).toBeUndefined();
+    expect(Date.parse(create[0].timestamp)).not.toBeNaN();
+
+    // The proxy's own state queries are not logged or forwarded
+    expect(records('query_reminders')).toEqual([]);
+  });
+
+  test('records before and after state for update_reminders', async () => {
+    await client.tools.updateReminders({
+      reminders: [{id: ids[0], title: 'Renamed', priority: 'high'}],
+    });
+
+    const [update] = records('update_reminders');
+    expect(update.before![ids[0]]).toMatchObject({
+      title: 'Audited one',
+      priority: 'low',
+      isCompleted: false,
+    });
+    expect(update.after![ids[0]]).toMatchObject({
+      title: 'Renamed',
+      priority: 'high',
+    });
+  });
+
+  test('records deleted reminders as null afterwards', async () => {
+    await client.tools.deleteReminders({ids: [ids[1], 'missing-id']});
+
+    const [deletion] = records('delete_reminders');
+    expect(deletion.before![ids[1]]?.title).toBe('Audited two');
+    expect(deletion.before!['missing-id']).toBeNull();
+    expect(deletion.after).toEqual({[ids[1]]: null, 'missing-id': null});
+    expect(deletion.result).toMatchObject({deleted: [ids[1]]});
+  });
+
+  test('logs tool errors and partial failures', async () => {
+    const result = await client.callTool('update_reminders', {});
+    expect(result._isError).toBe(true);
+
+    const failed = records().at(-1)!;
+    expect(failed.tool).toBe('update_reminders');
+    expect(failed.isError).toBe(true);
+    expect(typeof failed.result).toBe('string');
+
+    await client.callTool('update_reminders', {
+      reminders: [{id: ids[0], priority: 'urgent'}],
+    });
+    const partial = records().at(-1)!;
+    expect(partial.isError).toBe(false);
+    expect(partial.result).toMatchObject({updated: [], failed: [{id: ids[0]}]});
+    expect(partial.after).toEqual(partial.before);
+  });
+
+  test('keeps concurrent calls matched to their responses', async () => {
+    const before = records().length;
+    const results = await Promise.all([
+      client.tools.updateReminders({reminders: [{id: ids[0], notes: 'a'}]}),
+      client.tools.queryReminders({list: {name: listName}}),
+      client.tools.updateReminders({reminders: [{id: ids[0], notes: 'b'}]}),
+    ]);
+
+    expect(results[1]).toHaveLength(1);
+    const logged = records().slice(before);
+    expect(logged.map((r) => r.tool).sort()).toEqual([
+      'query_reminders',
+      'update_reminders',
+      'update_reminders',
+    ]);
+    const updates = logged.filter((r) => r.tool === 'update_reminders');
+    expect(updates.map((r) => r.after![ids[0]]?.notes)).toEqual(['a', 'b']);
+    expect(updates[1].before![ids[0]]?.notes).toBe('a');
+  });
+});
+
+describe('Audit proxy with a log it cannot write', () => {
+  let client: MCPClient;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-proxy-'));
+    // A directory where the log file should be: every append fails
+    const logPath = join(dir, 'audit.jsonl');
+    mkdirSync(logPath);
+    client = await MCPClient.create({
+      command: [
+        process.execPath,
+        PROXY_PATH,
+        '--log',
+        logPath,
+        '--no-snapshots',
+        '--',
+        process.execPath,
+        SERVER_PATH,
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('keeps forwarding in both directions', async () => {
+    const listName = await client.createTestList();
+    const [reminder] = (await client.tools.createReminders({
+      reminders: [{title: 'Unlogged', list: {name: listName}}],
+    })) as EncodedReminder[];
+    await client.tools.updateReminders({
+      reminders: [{id: reminder.id, notes: 'still works'}],
+    });
+    const operations = await client.callTool('list_recent_operations', {});
+
+    // Answered, as an error about the unreadable log
+    expect(operations).toMatchObject({
+      _isError: true,
+      error: expect.stringContaining('EISDIR'),
+    });
+    const [found] = (await client.tools.queryReminders({
+      list: {name: listName},
+      outputDetail: 'full',
+    })) as EncodedReminder[];
+    expect(found.notes).toBe('still works');
+  });
+});
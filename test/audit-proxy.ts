@@ -0,0 +1,710 @@
+#!/usr/bin/env bun
+
+/**
+ * Audit-logging stdio proxy for the MCP server. Launch it in place of the
+ * server binary (e.g. from Claude Desktop); it forwards every JSON-RPC
+ * message unchanged and appends one JSONL record per tools/call with the
+ * arguments, result and isError. A tool response reaches the client only
+ * after its record has been written.
+ *
+ * For update_reminders and delete_reminders the record also holds the
+ * state of each affected reminder before and after the call, read with
+ * query_reminders (outputDetail 'full'). Reminders that don't exist are
+ * recorded as null. Calls are forwarded one at a time while a before/after
+ * capture is in progress, so the states belong to that call.
+ *
+ * Before a destructive batch (see safety-snapshot.ts) the proxy exports the
+ * affected lists into a snapshot directory and adds the snapshot path to
+ * the tool result. If the snapshot fails, the call is not forwarded.
+ *
+ * With a policy file (see policy.ts) the proxy rejects calls that break
+ * its rules before they reach the server, and hides denied tools from
+ * tools/list. Undo's own calls are checked too.
+ *
+ * The proxy also adds two tools of its own to tools/list, answered from the
+ * log (see operation-journal.ts): list_recent_operations and
+ * undo_operation. Their calls are logged too; undo records carry the
+ * inverse calls that were issued.
+ *
+ * Usage: bun test/audit-proxy.ts [options] [-- <server command...>]
+ *   --log <path>              Audit log file. Default: AR_MCP_AUDIT_LOG, or
+ *                             ~/.apple-reminders-mcp/audit.jsonl
+ *   --snapshot-dir <path>     Default: AR_MCP_SNAPSHOT_DIR, or
+ *                             ~/.apple-reminders-mcp/snapshots
+ *   --snapshot-threshold <n>  Snapshot batches above n reminders (default 10)
+ *   --snapshot-keep <n>       Snapshots to keep (default 50)
+ *   --no-snapshots            Disable safety snapshots
+ *   --policy <path>           Policy file. Default: AR_MCP_POLICY, if set
+ *   Server command defaults to the built Swift binary. The environment
+ *   (AR_MCP_MOCK_MODE, AR_MCP_TEST_MODE, ...) is passed through.
+ *
+ * Claude Desktop config:
+ *   "command": "bun",
+ *   "args": ["/path/to/repo/test/audit-proxy.ts", "--log", "/path/to/audit.jsonl"]
+ */
+
+import {spawn, type Subprocess} from 'bun';
+import {randomUUID} from 'crypto';
+import {appendFileSync, existsSync, mkdirSync, readFileSync} from 'fs';
+import {homedir} from 'os';
+import {dirname, join} from 'path';
+import * as readline from 'node:readline';
+import {
+  JOURNAL_TOOL_NAMES,
+  JOURNAL_TOOLS,
+  listRecentOperations,
+  undoOperations,
+} from './operation-journal';
+import {
+  formatViolation,
+  loadPolicy,
+  type Policy,
+  type PolicyViolation,
+} from './policy';
+import type {ExportResult, ReminderListOutput} from './reference-models';
+import {
+  affectedListIds,
+  defaultSnapshotOptions,
+  destructiveIds,
+  pruneSnapshots,
+  snapshotPath,
+  snapshotReason,
+  type SnapshotOptions,
+} from './safety-snapshot';
+import type {EncodedReminder} from './tool-results';
+
+const DEFAULT_SERVER_COMMAND = [
+  join(import.meta.dir, '..', '.build/release/apple-reminders-mcp'),
+];
+const DEFAULT_LOG_PATH = join(homedir(), '.apple-reminders-mcp', 'audit.jsonl');
+
+/** query_reminders caps results at 200 */
+const STATE_QUERY_BATCH = 200;
+
+/** Tools whose records carry before/after state */
+const STATEFUL_TOOLS = new Set(['update_reminders', 'delete_reminders']);
+
+type RequestID = string | number;
+
+interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: RequestID;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: {
+    content?: Array<{type: string; text: string}>;
+    isError?: boolean;
+    tools?: unknown[];
+  };
+  error?: {code: number; message: string};
+}
+
+/** Reminder state by id; null when the id does not exist */
+export type ReminderStates = Record<string, EncodedReminder | null>;
+
+export interface AuditRecord {
+  /** Identifies the call for list_recent_operations / undo_operation */
+  operationId: string;
+  timestamp: string;
+  /** JSON-RPC id of the client's request */
+  requestId: RequestID;
+  tool: string;
+  arguments: Record<string, unknown>;
+  /** Parsed JSON result, or the raw text when it isn't JSON */
+  result: unknown;
+  isError: boolean;
+  durationMs: number;
+  before?: ReminderStates;
+  after?: ReminderStates;
+  /** Why before/after state could not be captured */
+  stateError?: string;
+  /** Safety snapshot written before the call */
+  snapshot?: string;
+}
+
+export interface AuditProxyOptions {
+  command?: string[];
+  logPath?: string;
+  /** false disables safety snapshots; fields default as in safety-snapshot.ts */
+  snapshots?: Partial<SnapshotOptions> | false;
+  policy?: Policy;
+}
+
+/** Reminder ids an update/delete call will touch. */
+export function affectedIds(
+  tool: string,
+  args: Record<string, unknown>,
+): string[] {
+  if (tool === 'update_reminders' && Array.isArray(args.reminders)) {
+    return args.reminders
+      .map((r: {id?: unknown}) => r?.id)
+      .filter((id): id is string => typeof id === 'string');
+  }
+  if (tool === 'delete_reminders' && Array.isArray(args.ids)) {
+    return args.ids.filter((id): id is string => typeof id === 'string');
+  }
+  return [];
+}
+
+/** Parsed tool result text; falls back to the raw text. */
+function parseResult(message: JSONRPCMessage): unknown {
+  if (message.error) return message.error.message;
+  const text = message.result?.content?.[0]?.text;
+  if (text === undefined) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Errors inside the forwarding queues go to stderr; forwarding carries on. */
+function reportError(error: unknown): void {
+  console.error('[audit-proxy]', (error as Error).message ?? error);
+}
+
+/** Read all records from an audit log (skipping a torn last line). */
+export function readAuditLog(path: string): AuditRecord[] {
+  if (!existsSync(path)) return [];
+  const records: AuditRecord[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      records.push(JSON.parse(line) as AuditRecord);
+    } catch {
+      // A crash mid-write leaves a partial line; the rest is still valid
+    }
+  }
+  return records;
+}
+
+export class AuditProxy {
+  private server: Subprocess<'pipe', 'pipe', 'inherit'>;
+  private logPath: string;
+  private snapshots: SnapshotOptions | false;
+  private policy?: Policy;
+  private nextInternalId = 0;
+  /** Requests sent by the proxy itself; their responses are not forwarded */
+  private internal = new Map<string, (message: JSONRPCMessage) => void>();
+  /** Forwarded tools/call requests awaiting a response, by id */
+  private calls = new Map<
+    RequestID,
+    {tool: string; args: Record<string, unknown>; started: number}
+  >();
+  /** before-state, capture errors and snapshots for stateful calls, by request id */
+  private pendingRecords = new Map<
+    RequestID,
+    {before?: ReminderStates; stateError?: string; snapshot?: string}
+  >();
+  /** Waiters for the response to a forwarded stateful call */
+  private responseWaiters = new Map<RequestID, () => void>();
+  /** tools/list requests whose response gets the journal tools appended */
+  private toolListRequests = new Set<RequestID>();
+  /** Serializes client messages while a stateful call is captured */
+  private queue: Promise<void> = Promise.resolve();
+  /** Serializes forwarding and logging of server messages */
+  private handled: Promise<void> = Promise.resolve();
+
+  constructor(options: AuditProxyOptions = {}) {
+    this.logPath =
+      options.logPath ?? process.env.AR_MCP_AUDIT_LOG ?? DEFAULT_LOG_PATH;
+    mkdirSync(dirname(this.logPath), {recursive: true});
+    this.snapshots =
+      options.snapshots === false
+        ? false
+        : {...defaultSnapshotOptions(), ...options.snapshots};
+    this.policy =
+      options.policy ??
+      (process.env.AR_MCP_POLICY
+        ? loadPolicy(process.env.AR_MCP_POLICY)
+        : undefined);
+
+    this.server = spawn(options.command ?? DEFAULT_SERVER_COMMAND, {
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'inherit',
+      env: process.env,
+    });
+  }
+
+  /** Proxy stdin/stdout until either side closes; resolves with the server's exit code. */
+  async run(): Promise<number> {
+    const input = readline.createInterface({input: process.stdin});
+    input.on('line', (line) => {
+      if (line.trim() === '') return;
+      this.queue = this.queue
+        .then(() => this.handleClientLine(line))
+        .catch(reportError);
+    });
+    input.on('close', () => {
+      void this.queue.then(() => this.server.stdin.end());
+    });
+
+    await this.readServer();
+    return await this.server.exited;
+  }
+
+  private async handleClientLine(line: string): Promise<void> {
+    let message: JSONRPCMessage;
+    try {
+      message = JSON.parse(line) as JSONRPCMessage;
+    } catch {
+      await this.writeServer(line); // Let the server report the parse error
+      return;
+    }
+
+    if (message.method === 'tools/list' && message.id !== undefined) {
+      this.toolListRequests.add(message.id);
+    }
+
+    const tool = message.params?.name;
+    if (
+      message.method !== 'tools/call' ||
+      message.id === undefined ||
+      typeof tool !== 'string'
+    ) {
+      await this.writeServer(line);
+      return;
+    }
+
+    const args = (message.params?.arguments ?? {}) as Record<string, unknown>;
+    if (this.policy) {
+      let rejection: string | undefined;
+      try {
+        const violation = await this.checkPolicy(tool, args);
+        if (violation) rejection = formatViolation(violation);
+      } catch (error) {
+        rejection = `Could not check the policy, so the call was not run: ${(error as Error).message}`;
+      }
+      if (rejection) {
+        await this.respondLocally(
+          message.id,
+          tool,
+          args,
+          Date.now(),
+          rejection,
+          true,
+        );
+        return;
+      }
+    }
+
+    if (JOURNAL_TOOL_NAMES.has(tool)) {
+      await this.handleJournalCall(message.id, tool, args);
+      return;
+    }
+
+    const ids = affectedIds(tool, args);
+    if (!STATEFUL_TOOLS.has(tool) || ids.length === 0) {
+      this.calls.set(message.id, {tool, args, started: Date.now()});
+      await this.writeServer(line);
+      return;
+    }
+
+    // Hold later messages until this call's after-state is captured
+    let before: ReminderStates | undefined;
+    let stateError: string | undefined;
+    try {
+      before = await this.captureState(ids);
+    } catch (error) {
+      stateError = `before: ${(error as Error).message}`;
+    }
+
+    let snapshot: string | undefined;
+    const destructive = destructiveIds(tool, args);
+    const reason =
+      this.snapshots &&
+      snapshotReason(destructive, before ?? {}, this.snapshots.threshold);
+    if (reason) {
+      try {
+        snapshot = await this.takeSnapshot(
+          tool,
+          affectedListIds(destructive, before ?? {}),
+        );
+      } catch (error) {
+        await this.respondLocally(
+          message.id,
+          tool,
+          args,
+          Date.now(),
+          `Safety snapshot before this call (${reason}) failed, so it was not run: ${(error as Error).message}`,
+          true,
+        );
+        return;
+      }
+    }
+
+    const responded = new Promise<void>((resolve) =>
+      this.responseWaiters.set(message.id!, resolve),
+    );
+    this.calls.set(message.id, {tool, args, started: Date.now()});
+    this.pendingRecords.set(message.id, {before, stateError, snapshot});
+    await this.writeServer(line);
+    await responded;
+  }
+
+  /**
+   * Responses to the proxy's own requests resolve immediately (a record may
+   * be waiting on one); everything else is logged and forwarded in order.
+   */
+  private dispatchServerLine(line: string): void {
+    let message: JSONRPCMessage | null = null;
+    try {
+      message = JSON.parse(line) as JSONRPCMessage;
+    } catch {
+      // Not JSON; forwarded as-is
+    }
+
+    const id = message?.id;
+    if (typeof id === 'string' && this.internal.has(id)) {
+      this.internal.get(id)!(message!);
+      this.internal.delete(id);
+      return;
+    }
+    this.handled = this.handled
+      .then(() => this.handleServerMessage(line, message))
+      .catch(reportError);
+  }
+
+  private async handleServerMessage(
+    line: string,
+    message: JSONRPCMessage | null,
+  ): Promise<void> {
+    if (
+      message?.id !== undefined &&
+      this.toolListRequests.delete(message.id) &&
+      Array.isArray(message.result?.tools)
+    ) {
+      message.result.tools.push(...JOURNAL_TOOLS);
+      if (this.policy) {
+        const policy = this.policy;
+        message.result.tools = message.result.tools.filter((t) =>
+          policy.isToolAllowed((t as {name: string}).name),
+        );
+      }
+      process.stdout.write(JSON.stringify(message) + '\n');
+      return;
+    }
+
+    const call =
+      message?.id !== undefined && message.method === undefined
+        ? this.calls.get(message.id)
+        : undefined;
+    if (!message || !call) {
+      process.stdout.write(line + '\n');
+      return;
+    }
+    this.calls.delete(message.id!);
+
+    const record: AuditRecord = {
+      operationId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      requestId: message.id!,
+      tool: call.tool,
+      arguments: call.args,
+      result: parseResult(message),
+      isError: Boolean(message.error || message.result?.isError),
+      durationMs: Date.now() - call.started,
+    };
+
+    let output = line;
+    const pending = this.pendingRecords.get(message.id!);
+    if (pending) {
+      this.pendingRecords.delete(message.id!);
+      record.before = pending.before;
+      record.stateError = pending.stateError;
+      if (pending.snapshot && message.result?.content) {
+        record.snapshot = pending.snapshot;
+        message.result.content.push({
+          type: 'text',
+          text: `Safety snapshot of the affected lists was saved before this call: ${pending.snapshot}\nTo revert this call, use undo_operation with operationId ${record.operationId}. \`bun run export:restore ${pending.snapshot}\` only re-creates reminders that no longer exist (it skips existing ones), so it can't undo updates.`,
+        });
+        output = JSON.stringify(message);
+      }
+      try {
+        record.after = await this.captureState(
+          affectedIds(call.tool, call.args),
+        );
+      } catch (error) {
+        const after = `after: ${(error as Error).message}`;
+        record.stateError = record.stateError
+          ? `${record.stateError}; ${after}`
+          : after;
+      }
+    }
+
+    // The client sees the response only once it is on record
+    this.append(record);
+    process.stdout.write(output + '\n');
+    this.responseWaiters.get(message.id!)?.();
+    this.responseWaiters.delete(message.id!);
+  }
+
+  /**
+   * Answer list_recent_operations / undo_operation from the log. Runs in the
+   * client queue, so no other call interleaves with an undo.
+   */
+  private async handleJournalCall(
+    id: RequestID,
+    tool: string,
+    args: Record<string, unknown>,
+  ): Promise<void> {
+    const started = Date.now();
+    let result: unknown;
+    let isError = false;
+    try {
+      const records = readAuditLog(this.logPath);
+      result =
+        tool === 'list_recent_operations'
+          ? listRecentOperations(records, args.limit as number | undefined)
+          : await undoOperations(records, args, {
+              call: (name, callArgs) => this.callToolChecked(name, callArgs),
+              readState: (ids) => this.captureState(ids),
+            });
+    } catch (error) {
+      result = (error as Error).message;
+      isError = true;
+    }
+    await this.respondLocally(id, tool, args, started, result, isError);
+  }
+
+  /** Log and send a response the proxy produced itself. */
+  private async respondLocally(
+    id: RequestID,
+    tool: string,
+    args: Record<string, unknown>,
+    started: number,
+    result: unknown,
+    isError: boolean,
+  ): Promise<void> {
+    this.append({
+      operationId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      requestId: id,
+      tool,
+      arguments: args,
+      result,
+      isError,
+      durationMs: Date.now() - started,
+    });
+
+    const text =
+      typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+    const response: JSONRPCMessage = {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{type: 'text', text}],
+        ...(isError ? {isError: true} : {}),
+      },
+    };
+    // Queue behind server messages already being forwarded
+    this.handled = this.handled
+      .then(() => {
+        process.stdout.write(JSON.stringify(response) + '\n');
+      })
+      .catch(reportError);
+    await this.handled;
+  }
+
+  /** Export the given lists (all when empty) and rotate old snapshots. */
+  private async takeSnapshot(tool: string, listIds: string[]): Promise<string> {
+    const {dir, keep} = this.snapshots as SnapshotOptions;
+    const result = (await this.callTool('export_reminders', {
+      path: snapshotPath(dir, tool),
+      ...(listIds.length > 0 ? {lists: listIds.map((id) => ({id}))} : {}),
+    })) as ExportResult;
+    pruneSnapshots(dir, {keep});
+    return result.path;
+  }
+
+  /**
+   * Policy violation for a call, or null. List rules read the current lists
+   * and the state of the reminders involved.
+   */
+  private async checkPolicy(
+    tool: string,
+    args: Record<string, unknown>,
+  ): Promise<PolicyViolation | null> {
+    const policy = this.policy!;
+    const violation = policy.checkCall(tool, args);
+    if (violation || !policy.usesLists(tool)) return violation;
+
+    const lists = (await this.callTool(
+      'get_lists',
+      {},
+    )) as ReminderListOutput[];
+    const before = await this.captureState(affectedIds(tool, args));
+    return policy.checkLists(tool, args, {lists, before});
+  }
+
+  /** callTool for calls made on the client's behalf (undo), under the policy. */
+  private async callToolChecked(name: string, args: object): Promise<unknown> {
+    const violation =
+      this.policy &&
+      (await this.checkPolicy(name, args as Record<string, unknown>));
+    if (violation) throw new Error(formatViolation(violation));
+    return this.callTool(name, args);
+  }
+
+  /** Call a server tool for the proxy itself; rejects on a tool error. */
+  private async callTool(name: string, args: object): Promise<unknown> {
+    const response = await this.callServer('tools/call', {
+      name,
+      arguments: args,
+    });
+    const result = parseResult(response);
+    if (response.error || response.result?.isError) {
+      throw new Error(String(result));
+    }
+    return result;
+  }
+
+  /** A record that can't be written is reported; the call still goes through. */
+  private append(record: AuditRecord): void {
+    try {
+      appendFileSync(this.logPath, JSON.stringify(record) + '\n');
+    } catch (error) {
+      reportError(
+        new Error(
+          `Could not log ${record.tool} to ${this.logPath}: ${(error as Error).message}`,
+        ),
+      );
+    }
+  }
+
+  /** Full state of each id, via query_reminders over all lists. */
+  private async captureState(ids: string[]): Promise<ReminderStates> {
+    const states: ReminderStates = Object.fromEntries(
+      ids.map((id) => [id, null]),
+    );
+    const unique = [...new Set(ids)];
+
+    for (let start = 0; start < unique.length; start += STATE_QUERY_BATCH) {
+      const batch = unique.slice(start, start + STATE_QUERY_BATCH);
+      const literal = JSON.stringify(batch).replace(/`/g, '\\`');
+      const result = (await this.callTool('query_reminders', {
+        list: {all: true},
+        status: 'all',
+        outputDetail: 'full',
+        query: `[?contains(\`${literal}\`, id)]`,
+        limit: STATE_QUERY_BATCH,
+      })) as EncodedReminder[];
+      for (const reminder of result) {
+        states[reminder.id] = reminder;
+      }
+    }
+    return states;
+  }
+
+  /** Send a request of the proxy's own; ids are strings so they can't clash with the client's. */
+  private async callServer(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<JSONRPCMessage> {
+    const id = `audit-proxy-${++this.nextInternalId}`;
+    const response = new Promise<JSONRPCMessage>((resolve) =>
+      this.internal.set(id, resolve),
+    );
+    await this.writeServer(
+      JSON.stringify({jsonrpc: '2.0', id, method, params}),
+    );
+    return response;
+  }
+
+  private async writeServer(line: string): Promise<void> {
+    this.server.stdin.write(line + '\n');
+    await this.server.stdin.flush();
+  }
+
+  private async readServer(): Promise<void> {
+    const reader = this.server.stdout.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const {value, done} = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, {stream: true});
+
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex !== -1) {
+          const line = buffer.slice(0, newlineIndex);
+          buffer = buffer.slice(newlineIndex + 1);
+          if (line.trim() !== '') this.dispatchServerLine(line);
+          newlineIndex = buffer.indexOf('\n');
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    await this.handled;
+  }
+}
+
+function parseArgs(argv: string[]): AuditProxyOptions {
+  const options: AuditProxyOptions = {};
+  const separator = argv.indexOf('--');
+  const own = separator === -1 ? argv : argv.slice(0, separator);
+  if (separator !== -1) options.command = argv.slice(separator + 1);
+
+  const snapshots: Partial<SnapshotOptions> = {};
+  let snapshotsEnabled = true;
+  for (let i = 0; i < own.length; i++) {
+    switch (own[i]) {
+      case '--log':
+        options.logPath = own[++i];
+        break;
+      case '--snapshot-dir':
+        snapshots.dir = own[++i];
+        break;
+      case '--snapshot-threshold':
+        snapshots.threshold = parseCount(own[i], own[++i]);
+        break;
+      case '--snapshot-keep':
+        snapshots.keep = parseCount(own[i], own[++i]);
+        break;
+      case '--no-snapshots':
+        snapshotsEnabled = false;
+        break;
+      case '--policy':
+        options.policy = loadPolicy(own[++i]);
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${own[i]}`);
+    }
+  }
+  options.snapshots = snapshotsEnabled && snapshots;
+  return options;
+}
+
+function parseCount(flag: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${flag} expects a non-negative integer`);
+  }
+  return count;
+}
+
+if (import.meta.main) {
+  let options: AuditProxyOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/audit-proxy.ts [--log <path>] [--snapshot-dir <path>] [--snapshot-threshold <n>] [--snapshot-keep <n>] [--no-snapshots] [--policy <path>] [-- <server command...>]',
+    );
+    process.exit(2);
+  }
+
+  const proxy = new AuditProxy(options);
+  proxy.run().then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error('[audit-proxy]', error);
+      process.exit(1);
+    },
+  );
+}
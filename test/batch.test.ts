@@ -6,7 +6,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('Batch operations', () => {
   let client: MCPClient;
@@ -40,10 +40,7 @@ describe('Batch operations', () => {
       const reminders = result as Array<{id: string; title: string}>;
       expect(reminders.length).toBe(3);
 
-      for (const reminder of reminders) {
-        expect(reminder.id).toBeDefined();
-        expect(reminder.title).toBeDefined();
-      }
+      expect(validators.reminders('encoded')(result)).toEqual([]);
     });
 
     test('handles partial failure (bad list name)', async () => {
@@ -55,17 +52,15 @@ describe('Batch operations', () => {
       });
 
       // Partial failure returns {created, failed}
-      expect(result.created).toBeDefined();
-      expect(result.failed).toBeDefined();
-      expect(Array.isArray(result.created)).toBe(true);
-      expect(Array.isArray(result.failed)).toBe(true);
+      expect(validators.createRemindersResult(result)).toEqual([]);
+      expect(Array.isArray(result)).toBe(false);
       expect(result.created.length).toBe(1);
       expect(result.failed.length).toBe(1);
 
       // Check the failure details
       const failure = result.failed[0] as {index: number; error: string};
       expect(failure.index).toBe(1);
-      expect(failure.error).toBeDefined();
+      expect(failure.error).toContain('NonexistentList12345');
     });
 
     test('validates required fields', async () => {
@@ -112,8 +107,8 @@ describe('Batch operations', () => {
       });
 
       // Partial failure returns {updated, failed}
-      expect(result.updated).toBeDefined();
-      expect(result.failed).toBeDefined();
+      expect(validators.updateRemindersResult(result)).toEqual([]);
+      expect(Array.isArray(result)).toBe(false);
       expect(result.updated.length).toBe(0);
       expect(result.failed.length).toBe(1);
 
@@ -142,8 +137,7 @@ describe('Batch operations', () => {
         ids,
       });
 
-      expect(deleteResult.deleted).toBeDefined();
-      expect(deleteResult.failed).toBeDefined();
+      expect(validators.deleteRemindersResult(deleteResult)).toEqual([]);
       expect(deleteResult.deleted.length).toBe(2);
       expect(deleteResult.failed.length).toBe(0);
     });
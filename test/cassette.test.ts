@@ -0,0 +1,199 @@
+/**
+ * Tests for cassette.ts: normalization of volatile values, recording a
+ * session and replaying it without a server, and per-describe opt-in.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {mkdtempSync, readFileSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+  type Cassette,
+  cassette,
+  CassetteMismatchError,
+  NORMALIZED_DATE,
+  Normalizer,
+} from './cassette';
+import {MCPClient} from './mcp-client';
+import type {EncodedReminder} from './tool-results';
+
+describe('Cassette normalization', () => {
+  test('replaces ids, test-list suffixes and volatile dates consistently', () => {
+    const normalizer = new Normalizer();
+    const id = '5C1B2E0A-93F1-4F4B-A2D7-0E6C2B3F9A11';
+    const listId = 'e2b9c6d4-1f0a-4c3e-9b8d-7a6f5e4d3c2b';
+
+    const request = normalizer.normalize({
+      method: 'tools/call',
+      params: {name: 'create_list', arguments: {name: 'Test List (1a2b3c4d)'}},
+    });
+    const response = normalizer.normalize({
+      result: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify([
+              {
+                id,
+                listId,
+                listName: 'Test List (1a2b3c4d)',
+                createdDate: '2026-10-19T09:15:00-07:00',
+                dueDate: '2026-11-01T09:00:00-07:00',
+              },
+            ]),
+          },
+        ],
+      },
+    });
+
+    expect(request.params.arguments.name).toBe('Test List (t0000001)');
+    expect(JSON.parse(response.result.content[0].text)).toEqual([
+      {
+        id: '00000000-0000-4000-8000-000000000002',
+        listId: '00000000-0000-4000-8000-000000000003',
+        listName: 'Test List (t0000001)',
+        createdDate: NORMALIZED_DATE,
+        dueDate: '2026-11-01T09:00:00-07:00',
+      },
+    ]);
+
+    // The same id is mapped to the same placeholder, whatever its case
+    expect(normalizer.normalize({ids: [id.toLowerCase()]})).toEqual({
+      ids: ['00000000-0000-4000-8000-000000000002'],
+    });
+    expect(normalizer.restore({name: 'Test List (t0000001)', id: 'x'})).toEqual(
+      {name: 'Test List (1a2b3c4d)', id: 'x'},
+    );
+    // Real-mode names carry a creation time, normalized with the id
+    expect(
+      normalizer.normalize('[AR-MCP TEST] - TMP (5e6f7a8b 20261019T161500Z)'),
+    ).toMatch(/^\[AR-MCP TEST\] - TMP \(t\d{7}\)$/);
+  });
+});
+
+describe('Cassette record and replay', () => {
+  let dir: string;
+  let path: string;
+  let recorded: {listName: string; titles: string[]};
+
+  /** The same session, run against whichever client is given */
+  async function session(client: MCPClient) {
+    const listName = await client.createTestList();
+    const created = (await client.tools.createReminders({
+      reminders: [
+        {title: 'Taped one', list: {name: listName}, priority: 'high'},
+        {title: 'Taped two', list: {name: listName}},
+      ],
+    })) as EncodedReminder[];
+    await client.tools.updateReminders({
+      reminders: [{id: created[1].id, completed: true}],
+    });
+    const all = (await client.tools.queryReminders({
+      list: {name: listName},
+      status: 'all',
+    })) as EncodedReminder[];
+    return {listName, created, all};
+  }
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    path = join(dir, 'session.json');
+
+    const client = await MCPClient.create({cassette: {path, mode: 'record'}});
+    const {listName, all} = await session(client);
+    recorded = {listName, titles: all.map((r) => r.title).sort()};
+    await client.cleanup();
+  });
+
+  afterAll(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('saves normalized requests and responses, initialize first', () => {
+    const saved = JSON.parse(readFileSync(path, 'utf8')) as Cassette;
+    const methods = saved.interactions.map((i) => i.request.method);
+    expect(methods[0]).toBe('initialize');
+    expect(methods.slice(1).every((m) => m === 'tools/call')).toBe(true);
+
+    const text = readFileSync(path, 'utf8');
+    expect(text).not.toContain(recorded.listName);
+    expect(text).toContain('Test List (t0000001)');
+    expect(text).not.toMatch(/"createdDate": "(?!2000-01-01)/);
+  });
+
+  test('replays the session without a server', async () => {
+    const client = await MCPClient.create({cassette: {path, mode: 'replay'}});
+    expect(client.getBackend()).toBe('cassette');
+    expect(client.getServerInfo()?.name).toBeDefined();
+
+    const {listName, created, all} = await session(client);
+
+    // The replaying client's own list name comes back in results
+    expect(listName).not.toBe(recorded.listName);
+    expect(created.map((r) => r.listName)).toEqual([listName, listName]);
+    expect(all.map((r) => r.title).sort()).toEqual(recorded.titles);
+    expect(all.find((r) => r.id === created[1].id)?.isCompleted).toBe(true);
+    await client.cleanup();
+  });
+
+  test('rejects requests the cassette does not expect', async () => {
+    const client = await MCPClient.create({cassette: {path, mode: 'replay'}});
+    const listName = await client.createTestList();
+
+    const attempt = client.tools.createReminders({
+      reminders: [{title: 'Not on tape', list: {name: listName}}],
+    });
+    await expect(attempt).rejects.toThrow(CassetteMismatchError);
+    await expect(attempt).rejects.toThrow(/Request #3 does not match/);
+  });
+});
+
+describe('Cassette opt-in', () => {
+  test('picks the mode from AR_MCP_CASSETTE and the cassette file', () => {
+    expect(cassette('no such cassette', undefined)).toEqual({});
+    expect(cassette('no such cassette', 'record').cassette).toMatchObject({
+      mode: 'record',
+      path: expect.stringMatching(/__cassettes__\/no-such-cassette\.json$/),
+    });
+    expect(cassette('reminder basics', undefined).cassette?.mode).toBe(
+      'replay',
+    );
+    expect(cassette('reminder basics', 'off')).toEqual({});
+  });
+
+  describe('a describe block on tape', () => {
+    let client: MCPClient;
+    let listName: string;
+
+    beforeAll(async () => {
+      client = await MCPClient.create(cassette('reminder basics'));
+      listName = await client.createTestList();
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+    });
+
+    test('creates and finds a reminder', async () => {
+      const [created] = (await client.tools.createReminders({
+        reminders: [
+          {
+            title: 'Recorded reminder',
+            list: {name: listName},
+            dueDate: '2026-11-02T09:00:00Z',
+          },
+        ],
+      })) as EncodedReminder[];
+
+      const found = (await client.tools.queryReminders({
+        list: {name: listName},
+        searchText: 'recorded',
+      })) as EncodedReminder[];
+      expect(found).toHaveLength(1);
+      expect(found[0]).toMatchObject({
+        id: created.id,
+        title: 'Recorded reminder',
+      });
+    });
+  });
+});
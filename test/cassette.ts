@@ -0,0 +1,284 @@
+/**
+ * Record-and-replay cassettes for MCPClient sessions.
+ *
+ * In 'record' mode the client talks to a real server and saves every
+ * request and response (initialize included) to a cassette file when it is
+ * cleaned up. In 'replay' mode no server is spawned: each request must match
+ * the next recorded one and gets its recorded response; anything else
+ * rejects with CassetteMismatchError.
+ *
+ * Cassettes are normalized so a recording made against EventKit on macOS
+ * replays anywhere:
+ * - UUIDs (reminder and list ids) become 00000000-0000-4000-8000-00000000000N
+ *   and test-list suffixes like "Test List (1a2b3c4d)" become t000000N, in
+ *   order of first appearance. During replay the client's own values (such
+ *   as a fresh test-list name) map onto the same placeholders and back.
+ * - createdDate, lastModifiedDate and exportDate become a fixed date.
+ * - JSON inside tool result text is normalized the same way.
+ *
+ * Describe blocks opt in through `cassette(name)`:
+ *
+ *   client = await MCPClient.create(cassette('crud basics'));
+ *
+ * AR_MCP_CASSETTE=record records test/__cassettes__/<name>.json;
+ * AR_MCP_CASSETTE=off runs live. Otherwise the block replays its cassette
+ * when there is one and runs live when there isn't.
+ */
+
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, join} from 'path';
+
+export const CASSETTE_DIR = join(import.meta.dir, '__cassettes__');
+
+/** Stands in for volatile timestamps in cassettes */
+export const NORMALIZED_DATE = '2000-01-01T00:00:00Z';
+const VOLATILE_DATE_KEYS = new Set([
+  'createdDate',
+  'lastModifiedDate',
+  'exportDate',
+]);
+
+const UUID_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+/**
+ * Random suffix of MCPClient test-list names, e.g. "Test List (1a2b3c4d)"
+ * or "[AR-MCP TEST] - TMP (1a2b3c4d 20261019T120000Z)", or its placeholder
+ */
+const LIST_SUFFIX_PATTERN =
+  /(?<=\()(?:[0-9a-f]{8}(?: \d{8}T\d{6}Z)?|t\d{7})(?=\))/g;
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  path: string;
+  mode: CassetteMode;
+}
+
+export interface CassetteInteraction {
+  request: {method: string; params?: Record<string, unknown>};
+  response: {result?: unknown; error?: unknown};
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/** A replayed request that the cassette did not expect. */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Client options for a describe block that opts into cassettes, by name.
+ * Spread other options alongside: `{...cassette('x'), requestTimeoutMs}`.
+ */
+export function cassette(
+  name: string,
+  env = process.env.AR_MCP_CASSETTE,
+): {cassette?: CassetteOptions} {
+  const path = join(CASSETTE_DIR, `${name.replace(/[^\w.-]+/g, '-')}.json`);
+  if (env === 'record') return {cassette: {path, mode: 'record'}};
+  if (env === 'off' || !existsSync(path)) return {};
+  return {cassette: {path, mode: 'replay'}};
+}
+
+/** Canonical JSON (sorted keys) for comparing requests */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : v,
+  );
+}
+
+/**
+ * Maps volatile values to stable placeholders, in order of first
+ * appearance, and placeholders back to the live values they stand for.
+ */
+export class Normalizer {
+  private placeholders = new Map<string, string>();
+  private liveValues = new Map<string, string>();
+  private count = 0;
+
+  normalize<T>(value: T): T {
+    return this.walk(value, (text) => this.normalizeText(text)) as T;
+  }
+
+  /** Put live values back in place of placeholders seen so far. */
+  restore<T>(value: T): T {
+    return this.walk(
+      value,
+      (text) =>
+        text
+          .replace(UUID_PATTERN, (token) => this.liveValues.get(token) ?? token)
+          .replace(
+            /\bt\d{7}\b/g,
+            (token) => this.liveValues.get(token) ?? token,
+          ),
+      false,
+    ) as T;
+  }
+
+  private placeholderFor(token: string, kind: 'uuid' | 'suffix'): string {
+    const key = kind === 'uuid' ? token.toUpperCase() : token;
+    const existing = this.placeholders.get(key);
+    if (existing) return existing;
+    if (this.liveValues.has(token)) return token;
+    if (this.isPlaceholder(token)) {
+      // Already normalized (a replayed value); count it to stay in step
+      this.placeholders.set(key, token);
+      this.count++;
+      return token;
+    }
+    const n = ++this.count;
+    const placeholder =
+      kind === 'uuid'
+        ? `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`
+        : `t${String(n).padStart(7, '0')}`;
+    this.placeholders.set(key, placeholder);
+    this.liveValues.set(placeholder, token);
+    return placeholder;
+  }
+
+  private isPlaceholder(token: string): boolean {
+    return /^00000000-0000-4000-8000-\d{12}$|^t\d{7}$/.test(token);
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .replace(UUID_PATTERN, (token) => this.placeholderFor(token, 'uuid'))
+      .replace(LIST_SUFFIX_PATTERN, (token) =>
+        this.placeholderFor(token, 'suffix'),
+      );
+  }
+
+  /** Apply `mapText` to every string, including JSON embedded in strings. */
+  private walk(
+    value: unknown,
+    mapText: (text: string) => string,
+    normalizeDates = true,
+  ): unknown {
+    if (typeof value === 'string') {
+      const trimmed = value.trimStart();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          const parsed: unknown = JSON.parse(value);
+          return JSON.stringify(
+            this.walk(parsed, mapText, normalizeDates),
+            null,
+            2,
+          );
+        } catch {
+          // Not JSON; treat as plain text
+        }
+      }
+      return mapText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => this.walk(v, mapText, normalizeDates));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [
+          key,
+          normalizeDates && VOLATILE_DATE_KEYS.has(key) && typeof v === 'string'
+            ? NORMALIZED_DATE
+            : this.walk(v, mapText, normalizeDates),
+        ]),
+      );
+    }
+    return value;
+  }
+}
+
+/** Collects live interactions in request order; normalizes them on save. */
+export class CassetteRecorder {
+  private interactions: Array<{
+    request: CassetteInteraction['request'];
+    response?: CassetteInteraction['response'];
+  }> = [];
+
+  constructor(private path: string) {}
+
+  /** Register a request as it is sent; call the returned function with its response. */
+  begin(
+    method: string,
+    params: Record<string, unknown> | undefined,
+  ): (response: CassetteInteraction['response']) => void {
+    const interaction: (typeof this.interactions)[number] = {
+      request: params === undefined ? {method} : {method, params},
+    };
+    this.interactions.push(interaction);
+    return ({result, error}) => {
+      interaction.response = error === undefined ? {result} : {error};
+    };
+  }
+
+  /** Write the cassette. Requests that never got a response are left out. */
+  save(): void {
+    const normalizer = new Normalizer();
+    const cassette: Cassette = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions
+        .filter((i) => i.response !== undefined)
+        .map((i) => ({
+          request: normalizer.normalize(i.request),
+          response: normalizer.normalize(i.response!),
+        })),
+    };
+    mkdirSync(dirname(this.path), {recursive: true});
+    writeFileSync(this.path, JSON.stringify(cassette, null, 2) + '\n');
+  }
+}
+
+/** Serves recorded responses to matching requests, in order. */
+export class CassettePlayer {
+  private interactions: CassetteInteraction[];
+  private next = 0;
+  private normalizer = new Normalizer();
+
+  constructor(private path: string) {
+    const cassette = JSON.parse(readFileSync(path, 'utf8')) as Cassette;
+    this.interactions = cassette.interactions;
+  }
+
+  /** Recorded response for the next request; throws when it doesn't match. */
+  respond(
+    method: string,
+    params: Record<string, unknown> | undefined,
+  ): CassetteInteraction['response'] {
+    const request = this.normalizer.normalize(
+      params === undefined ? {method} : {method, params},
+    );
+    const expected = this.interactions[this.next];
+    if (!expected) {
+      throw new CassetteMismatchError(
+        `Unexpected request #${this.next + 1} (${this.path} has ${this.interactions.length}): ${canonical(request)}`,
+      );
+    }
+    if (canonical(request) !== canonical(expected.request)) {
+      throw new CassetteMismatchError(
+        `Request #${this.next + 1} does not match ${this.path}\n` +
+          `  expected: ${canonical(expected.request)}\n` +
+          `  received: ${canonical(request)}`,
+      );
+    }
+    this.next++;
+    // Count the response's placeholders so later requests line up
+    this.normalizer.normalize(expected.response);
+    return this.normalizer.restore(expected.response);
+  }
+
+  /** Recorded requests not replayed yet */
+  remaining(): number {
+    return this.interactions.length - this.next;
+  }
+}
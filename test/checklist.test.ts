@@ -0,0 +1,314 @@
+/**
+ * Tests for checklist.ts: Markdown and todo.txt rendering, parsing, and
+ * applying edited files back to the server by id marker.
+ */
+
+import {describe, test, expect, beforeAll, afterAll, spyOn} from 'bun:test';
+import {
+  applyChecklist,
+  type ChecklistReminder,
+  parseMarkdown,
+  parseTodoTxt,
+  renderMarkdown,
+  renderTodoTxt,
+} from './checklist';
+import {MCPClient} from './mcp-client';
+import {toISO8601WithTimezone} from './reference-models';
+import {readCurrentState} from './restore-export';
+import type {UpdateRemindersArgs} from './tool-types.generated';
+
+describe('Markdown and todo.txt checklists', () => {
+  let client: MCPClient;
+  let listName: string;
+  const ids: Record<string, string> = {};
+
+  const query = () =>
+    client.tools.queryReminders<ChecklistReminder[]>({
+      list: {name: listName},
+      status: 'all',
+      outputDetail: 'full',
+      sortBy: 'oldest',
+    });
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    listName = await client.createTestList();
+    const created = await client.tools.createReminders({
+      reminders: [
+        {
+          title: 'Send agenda',
+          list: {name: listName},
+          dueDate: '2026-06-15',
+          dueDateIncludesTime: false,
+          priority: 'high',
+        },
+        {title: 'Book room', list: {name: listName}, priority: 'low'},
+        {title: 'Write minutes', list: {name: listName}},
+      ],
+    });
+    for (const reminder of created as Array<{id: string; title: string}>) {
+      ids[reminder.title] = reminder.id;
+    }
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('renders Markdown task lists with id markers', async () => {
+    expect(renderMarkdown(await query())).toBe(
+      [
+        `## ${listName}`,
+        '',
+        `- [ ] Send agenda (due 2026-06-15) !high <!-- id:${ids['Send agenda']} -->`,
+        `- [ ] Book room !low <!-- id:${ids['Book room']} -->`,
+        `- [ ] Write minutes <!-- id:${ids['Write minutes']} -->`,
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('renders and parses todo.txt lines', () => {
+    const reminders: ChecklistReminder[] = [
+      {
+        id: 'A1',
+        title: 'Call Sam',
+        listName: 'Work Items',
+        priority: 'medium',
+        isCompleted: false,
+        dueDate: toISO8601WithTimezone(new Date(2026, 5, 15, 14, 30)),
+        dueDateIncludesTime: true,
+      },
+      {
+        id: 'B2',
+        title: 'File taxes',
+        listName: 'Home',
+        priority: 'high',
+        isCompleted: true,
+        completionDate: '2026-05-01T12:00:00Z',
+      },
+    ];
+    const text = renderTodoTxt(reminders);
+
+    expect(text).toBe(
+      '(B) Call Sam due:2026-06-15T14:30 +Work_Items id:A1\n' +
+        'x 2026-05-01 File taxes pri:A +Home id:B2\n',
+    );
+    expect(parseTodoTxt(text)).toEqual([
+      {
+        line: 1,
+        title: 'Call Sam',
+        completed: false,
+        priority: 'medium',
+        id: 'A1',
+        listName: 'Work Items',
+        due: '2026-06-15 14:30',
+      },
+      {
+        line: 2,
+        title: 'File taxes',
+        completed: true,
+        priority: 'high',
+        id: 'B2',
+        listName: 'Home',
+      },
+    ]);
+  });
+
+  test('todo.txt titles that look like metadata survive a round trip', () => {
+    const titles = [
+      'Buy +1 cable',
+      'Email re: id:42 ticket',
+      'x marks the spot',
+      '(A) team offsite',
+      '2026-01-01 review',
+      'Ends in +1',
+      'Path \\server\\share',
+    ];
+    const reminders: ChecklistReminder[] = titles.map((title, index) => ({
+      id: `T${index}`,
+      title,
+      listName: 'Work',
+      priority: 'none',
+      isCompleted: false,
+    }));
+    const text = renderTodoTxt(reminders);
+
+    expect(text.split('\n')[0]).toBe('Buy \\+1 cable +Work id:T0');
+    expect(
+      parseTodoTxt(text).map((t) => [t.title, t.completed, t.listName, t.id]),
+    ).toEqual(
+      titles.map((title, index) => [title, false, 'Work', `T${index}`]),
+    );
+    // Tags in the middle of a hand-written line stay in the title
+    expect(parseTodoTxt('Ping +1 about it +Home')[0]).toMatchObject({
+      title: 'Ping +1 about it',
+      listName: 'Home',
+    });
+  });
+
+  test('parses tasks out of meeting notes', () => {
+    const tasks = parseMarkdown(
+      [
+        '# Weekly sync',
+        'Discussed the launch.',
+        '## Follow-ups',
+        '* [X] Ship it (due 2026-07-01 09:00) !MEDIUM',
+        '  - [ ] Nested   <!-- id:XYZ -->',
+        '- [] not a task',
+      ].join('\n'),
+    );
+
+    expect(tasks).toEqual([
+      {
+        line: 4,
+        title: 'Ship it',
+        completed: true,
+        priority: 'medium',
+        listName: 'Follow-ups',
+        listFromHeading: true,
+        due: '2026-07-01 09:00',
+      },
+      {
+        line: 5,
+        title: 'Nested',
+        completed: false,
+        priority: 'none',
+        listName: 'Follow-ups',
+        listFromHeading: true,
+        id: 'XYZ',
+      },
+    ]);
+  });
+
+  test('applies edits: checked boxes complete, new tasks are created', async () => {
+    const edited = renderMarkdown(await query())
+      .replace('- [ ] Send agenda', '- [x] Send agenda')
+      .replace('Book room !low', 'Book the big room (due 2026-06-20 10:00)')
+      .concat('- [x] Already done\n- [ ] Order lunch !medium\n');
+
+    const tasks = parseMarkdown(edited);
+    const dryRun = await applyChecklist(client, tasks, {dryRun: true});
+    expect(dryRun.created.map((c) => c.title)).toEqual([
+      'Already done',
+      'Order lunch',
+    ]);
+    expect((await query()).length).toBe(3);
+
+    const report = await applyChecklist(client, tasks);
+    expect(report.failed).toEqual([]);
+    expect(report.unchanged).toBe(1);
+    expect(report.updated).toEqual([
+      {
+        line: 3,
+        id: ids['Send agenda'],
+        title: 'Send agenda',
+        fields: ['completed'],
+      },
+      {
+        line: 4,
+        id: ids['Book room'],
+        title: 'Book the big room',
+        fields: ['title', 'priority', 'dueDate', 'dueDateIncludesTime'],
+      },
+    ]);
+
+    const byTitle = new Map((await query()).map((r) => [r.title, r]));
+    expect(byTitle.get('Send agenda')?.isCompleted).toBe(true);
+    expect(byTitle.get('Book the big room')?.priority).toBe('none');
+    expect(byTitle.get('Already done')?.isCompleted).toBe(true);
+    expect(byTitle.get('Order lunch')?.priority).toBe('medium');
+
+    // Applying the rendered state again changes nothing
+    const again = await applyChecklist(
+      client,
+      parseMarkdown(renderMarkdown(await query())),
+    );
+    expect(again.created).toEqual([]);
+    expect(again.updated).toEqual([]);
+    expect(again.unchanged).toBe(5);
+  });
+
+  test('checked tasks that fail to complete are reported by line', async () => {
+    const update = spyOn(
+      client.tools,
+      'updateReminders',
+    ).mockImplementationOnce(
+      async <T>(args: UpdateRemindersArgs) =>
+        ({
+          updated: [],
+          failed: args.reminders.map((r) => ({id: r.id, error: 'Read-only'})),
+        }) as T,
+    );
+    const report = await applyChecklist(
+      client,
+      parseMarkdown('- [x] Stuck open\n'),
+      {defaultList: listName},
+    );
+    update.mockRestore();
+
+    const [created] = report.created;
+    expect(report.failed).toEqual([
+      {
+        line: 1,
+        title: 'Stuck open',
+        error: `Created as ${created.id} but not completed: Read-only`,
+      },
+    ]);
+    const state = await readCurrentState(client);
+    expect(state.reminders.find((r) => r.id === created.id)?.isCompleted).toBe(
+      false,
+    );
+  });
+
+  test('headings that are not lists leave tasks where they are', async () => {
+    const notes = [
+      '# Planning notes',
+      '## Action items',
+      `- [ ] Write minutes !medium <!-- id:${ids['Write minutes']} -->`,
+      '- [ ] Draft follow-up email',
+    ].join('\n');
+
+    const report = await applyChecklist(client, parseMarkdown(notes), {
+      defaultList: listName,
+    });
+    expect(report.lists.created).toEqual([]);
+    expect(report.updated.map((u) => u.fields)).toEqual([['priority']]);
+    const state = await readCurrentState(client);
+    const lists = Object.fromEntries(
+      state.reminders.map((r) => [r.title, r.listName]),
+    );
+    expect(lists['Write minutes']).toBe(listName);
+    expect(lists['Draft follow-up email']).toBe(listName);
+
+    const opted = await applyChecklist(client, parseMarkdown(notes), {
+      dryRun: true,
+      headingLists: true,
+    });
+    expect(opted.lists.created).toEqual(['Action items']);
+  });
+
+  test('todo.txt projects resolve to existing lists and create new ones', async () => {
+    const project = listName.replace(/\s+/g, '_');
+    const report = await applyChecklist(
+      client,
+      parseTodoTxt(
+        `(C) From todo.txt +${project}\n` +
+          'New list task +Todo_Inbox\n' +
+          'Unknown id:does-not-exist\n',
+      ),
+    );
+
+    expect(report.lists.created).toEqual(['Todo Inbox']);
+    expect(report.failed).toEqual([
+      {line: 3, title: 'Unknown', error: 'No reminder with id does-not-exist'},
+    ]);
+
+    const state = await readCurrentState(client);
+    const lists = Object.fromEntries(
+      state.reminders.map((r) => [r.title, r.listName]),
+    );
+    expect(lists['From todo.txt']).toBe(listName);
+    expect(lists['New list task']).toBe('Todo Inbox');
+  });
+});
@@ -0,0 +1,762 @@
+#!/usr/bin/env bun
+
+/**
+ * Render reminders as Markdown task lists or todo.txt, and apply edited
+ * files back through create_reminders / update_reminders.
+ *
+ * Markdown (one `## List` heading per list):
+ *   - [ ] Title (due 2026-06-15 14:30) !high <!-- id:ABC -->
+ *   - [x] Done (due 2026-06-15) <!-- id:DEF -->
+ *
+ * todo.txt (priority A/B/C = high/medium/low, list as +project):
+ *   (A) Title due:2026-06-15T14:30 +Work id:ABC
+ *   x 2026-05-01 Done due:2026-06-15 pri:B +Work id:DEF
+ *   \x marks the \+1 spot +Work id:GHI
+ * Tags are read from the end of the line only. Title words that would read
+ * as metadata (a tag, or a leading `x`, `(A)` or date) get a `\` prefix.
+ *
+ * Due times are local. Tasks with an id marker update that reminder
+ * (title, due date, priority, list and completion); tasks without one are
+ * created. Other lines (meeting notes, headings without tasks) are ignored.
+ * A Markdown heading only names a list if that list exists, so tasks under
+ * "## Action items" in ordinary notes stay where they are; --heading-lists
+ * creates lists for the other headings too.
+ *
+ * Usage:
+ *   bun test/checklist.ts render [--format markdown|todotxt] [--from export.json]
+ *                                [--list <name>] [--status incomplete|completed|all]
+ *   bun test/checklist.ts apply <file> [--format markdown|todotxt] [--list <default>]
+ *                               [--heading-lists] [--dry-run] [--test-mode] [--mock] [--json]
+ */
+
+import {readFileSync} from 'fs';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import {
+  fromISO8601,
+  type PriorityName,
+  toISO8601WithTimezone,
+} from './reference-models';
+import {readCurrentState, targetListName} from './restore-export';
+import type {EncodedReminder} from './tool-results';
+import type {
+  CreateRemindersArgs,
+  UpdateRemindersArgs,
+} from './tool-types.generated';
+
+/** create_reminders / update_reminders batch size */
+const BATCH_SIZE = 50;
+
+export type ChecklistFormat = 'markdown' | 'todotxt';
+
+/** The reminder fields a checklist shows; query results (full) and export entries both fit. */
+export type ChecklistReminder = Pick<
+  EncodedReminder,
+  'id' | 'title' | 'listName' | 'priority' | 'isCompleted'
+> &
+  Partial<
+    Pick<EncodedReminder, 'dueDate' | 'dueDateIncludesTime' | 'completionDate'>
+  >;
+
+export interface ParsedTask {
+  /** 1-based line number in the source file */
+  line: number;
+  title: string;
+  completed: boolean;
+  priority: PriorityName;
+  id?: string;
+  listName?: string;
+  /** listName is the Markdown heading above the task, not a +project */
+  listFromHeading?: boolean;
+  /** Local due date as rendered: `2026-06-15` or `2026-06-15 14:30` */
+  due?: string;
+}
+
+export interface ApplyOptions {
+  dryRun?: boolean;
+  /** List for new tasks that have no heading or +project. Default: the server's default list */
+  defaultList?: string;
+  /** Prefix list names with the test list prefix */
+  testMode?: boolean;
+  /** Create lists for Markdown headings that don't match one. Default: such headings are ignored */
+  headingLists?: boolean;
+}
+
+export interface ApplyReport {
+  dryRun: boolean;
+  lists: {created: string[]};
+  created: Array<{line: number; title: string; id?: string}>;
+  updated: Array<{line: number; id: string; title: string; fields: string[]}>;
+  unchanged: number;
+  failed: Array<{line: number; title: string; error: string}>;
+}
+
+type ReminderInput = CreateRemindersArgs['reminders'][number];
+type ReminderUpdate = UpdateRemindersArgs['reminders'][number];
+
+const TODO_PRIORITIES: Record<PriorityName, string> = {
+  high: 'A',
+  medium: 'B',
+  low: 'C',
+  none: '',
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function localDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Due date as shown in a checklist; all-day dates keep their calendar date. */
+export function formatDue(reminder: {
+  dueDate?: string | null;
+  dueDateIncludesTime?: boolean | null;
+}): string | undefined {
+  if (!reminder.dueDate) return undefined;
+  if (reminder.dueDateIncludesTime === false) {
+    return reminder.dueDate.slice(0, 10);
+  }
+  const date = fromISO8601(reminder.dueDate)!;
+  return `${localDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function dueFields(due: string): {
+  dueDate: string;
+  dueDateIncludesTime: boolean;
+} {
+  const [date, time] = due.split(' ');
+  if (!time) return {dueDate: date, dueDateIncludesTime: false};
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return {
+    dueDate: toISO8601WithTimezone(
+      new Date(year, month - 1, day, hour, minute),
+    ),
+    dueDateIncludesTime: true,
+  };
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ');
+}
+
+// Rendering
+
+function groupByList(
+  reminders: ChecklistReminder[],
+): Map<string, ChecklistReminder[]> {
+  const groups = new Map<string, ChecklistReminder[]>();
+  for (const reminder of reminders) {
+    const group = groups.get(reminder.listName) ?? [];
+    group.push(reminder);
+    groups.set(reminder.listName, group);
+  }
+  return groups;
+}
+
+export function renderMarkdown(reminders: ChecklistReminder[]): string {
+  const sections: string[] = [];
+  for (const [listName, group] of groupByList(reminders)) {
+    const lines = [`## ${listName}`, ''];
+    for (const reminder of group) {
+      const due = formatDue(reminder);
+      lines.push(
+        `- [${reminder.isCompleted ? 'x' : ' '}] ${singleLine(reminder.title)}` +
+          (due ? ` (due ${due})` : '') +
+          (reminder.priority !== 'none' ? ` !${reminder.priority}` : '') +
+          ` <!-- id:${reminder.id} -->`,
+      );
+    }
+    sections.push(lines.join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+const TODO_TAG = /^(?:\+\S|(?:id|due|pri):\S)/;
+const TODO_PREFIX = /^(?:x|\([A-Z]\)|\d{4}-\d{2}-\d{2})$/;
+
+/** Prefixes title words that parseTodoTxt would take for metadata with `\` */
+function escapeTodoTitle(title: string): string {
+  return title
+    .split(' ')
+    .map((word, index) =>
+      word.startsWith('\\') ||
+      TODO_TAG.test(word) ||
+      (index === 0 && TODO_PREFIX.test(word))
+        ? `\\${word}`
+        : word,
+    )
+    .join(' ');
+}
+
+export function renderTodoTxt(reminders: ChecklistReminder[]): string {
+  return (
+    reminders
+      .map((reminder) => {
+        const parts: string[] = [];
+        const priority = TODO_PRIORITIES[reminder.priority];
+        if (reminder.isCompleted) {
+          parts.push('x');
+          if (reminder.completionDate) {
+            parts.push(localDate(fromISO8601(reminder.completionDate)!));
+          }
+        } else if (priority) {
+          parts.push(`(${priority})`);
+        }
+        parts.push(escapeTodoTitle(singleLine(reminder.title)));
+
+        const due = formatDue(reminder);
+        if (due) parts.push(`due:${due.replace(' ', 'T')}`);
+        // todo.txt drops the (A) prefix on completion; keep it as a tag
+        if (reminder.isCompleted && priority) parts.push(`pri:${priority}`);
+        parts.push(`+${reminder.listName.replace(/\s+/g, '_')}`);
+        parts.push(`id:${reminder.id}`);
+        return parts.join(' ');
+      })
+      .join('\n') + '\n'
+  );
+}
+
+export function renderChecklist(
+  reminders: ChecklistReminder[],
+  format: ChecklistFormat,
+): string {
+  return format === 'markdown'
+    ? renderMarkdown(reminders)
+    : renderTodoTxt(reminders);
+}
+
+// Parsing
+
+const TASK_LINE = /^\s*[-*+] \[([ xX])\] (.*)$/;
+const HEADING_LINE = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+export function parseMarkdown(text: string): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+  let listName: string | undefined;
+
+  text.split(/\r?\n/).forEach((source, index) => {
+    const heading = HEADING_LINE.exec(source);
+    if (heading) {
+      listName = heading[1];
+      return;
+    }
+    const match = TASK_LINE.exec(source);
+    if (!match) return;
+
+    let rest = match[2];
+    const task: ParsedTask = {
+      line: index + 1,
+      title: '',
+      completed: match[1] !== ' ',
+      priority: 'none',
+      ...(listName && {listName, listFromHeading: true}),
+    };
+
+    const id = /\s*<!--\s*id:(\S+)\s*-->\s*$/.exec(rest);
+    if (id) {
+      task.id = id[1];
+      rest = rest.slice(0, id.index);
+    }
+    const priority = /\s+!(high|medium|low)\s*$/i.exec(rest);
+    if (priority) {
+      task.priority = priority[1].toLowerCase() as PriorityName;
+      rest = rest.slice(0, priority.index);
+    }
+    const due = /\s*\(due (\d{4}-\d{2}-\d{2}(?: \d{2}:\d{2})?)\)\s*$/.exec(
+      rest,
+    );
+    if (due) {
+      task.due = due[1];
+      rest = rest.slice(0, due.index);
+    }
+
+    task.title = rest.trim();
+    if (task.title) tasks.push(task);
+  });
+  return tasks;
+}
+
+const DATE_TOKEN = /^\d{4}-\d{2}-\d{2}$/;
+
+function todoPriority(letter: string): PriorityName {
+  if (letter === 'A') return 'high';
+  if (letter === 'B') return 'medium';
+  return 'low';
+}
+
+export function parseTodoTxt(text: string): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+
+  text.split(/\r?\n/).forEach((source, index) => {
+    const tokens = source.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return;
+
+    const task: ParsedTask = {
+      line: index + 1,
+      title: '',
+      completed: false,
+      priority: 'none',
+    };
+
+    if (tokens[0] === 'x') {
+      task.completed = true;
+      tokens.shift();
+      // Completion date, then creation date
+      if (DATE_TOKEN.test(tokens[0] ?? '')) tokens.shift();
+      if (DATE_TOKEN.test(tokens[0] ?? '')) tokens.shift();
+    } else {
+      const priority = /^\(([A-Z])\)$/.exec(tokens[0]);
+      if (priority) {
+        task.priority = todoPriority(priority[1]);
+        tokens.shift();
+      }
+      if (DATE_TOKEN.test(tokens[0] ?? '')) tokens.shift();
+    }
+
+    // Tags trail the title; the first token that isn't one ends them
+    while (tokens.length > 1) {
+      const token = tokens[tokens.length - 1];
+      const tag = /^(id|due|pri):(\S+)$/.exec(token);
+      if (tag?.[1] === 'id') {
+        task.id = tag[2];
+      } else if (
+        tag?.[1] === 'due' &&
+        /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/.test(tag[2])
+      ) {
+        task.due = tag[2].replace('T', ' ');
+      } else if (tag?.[1] === 'pri' && /^[A-Z]$/.test(tag[2])) {
+        task.priority = todoPriority(tag[2]);
+      } else if (token.length > 1 && token.startsWith('+')) {
+        // The first +project wins
+        task.listName = token.slice(1).replace(/_/g, ' ');
+      } else {
+        break;
+      }
+      tokens.pop();
+    }
+
+    task.title = tokens
+      .map((word) => (word.startsWith('\\') ? word.slice(1) : word))
+      .join(' ');
+    if (task.title) tasks.push(task);
+  });
+  return tasks;
+}
+
+export function parseChecklist(
+  text: string,
+  format: ChecklistFormat,
+): ParsedTask[] {
+  return format === 'markdown' ? parseMarkdown(text) : parseTodoTxt(text);
+}
+
+// Applying
+
+/** Case-insensitive, and `_` matches a space (todo.txt projects have no spaces) */
+function listKey(name: string): string {
+  return name.toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+function changedFields(
+  task: ParsedTask,
+  reminder: EncodedReminder,
+  listName: string | undefined,
+): ReminderUpdate {
+  const update: ReminderUpdate = {id: reminder.id};
+  if (task.title !== singleLine(reminder.title)) update.title = task.title;
+  if (task.priority !== reminder.priority) update.priority = task.priority;
+  if (task.due !== formatDue(reminder)) {
+    Object.assign(update, task.due ? dueFields(task.due) : {dueDate: null});
+  }
+  if (task.completed !== reminder.isCompleted) {
+    update.completed = task.completed;
+  }
+  if (listName && listKey(listName) !== listKey(reminder.listName)) {
+    update.list = {name: listName};
+  }
+  return update;
+}
+
+/**
+ * Create tasks without an id marker and update reminders whose rendered
+ * fields differ. Checked boxes on new tasks are completed after creation.
+ */
+export async function applyChecklist(
+  client: MCPClient,
+  tasks: ParsedTask[],
+  options: ApplyOptions = {},
+): Promise<ApplyReport> {
+  const {dryRun = false, testMode = false} = options;
+  const report: ApplyReport = {
+    dryRun,
+    lists: {created: []},
+    created: [],
+    updated: [],
+    unchanged: 0,
+    failed: [],
+  };
+
+  const current = await readCurrentState(client);
+  const byId = new Map(current.reminders.map((r) => [r.id, r]));
+  const lists = new Map(current.lists.map((l) => [listKey(l.name), l.name]));
+
+  // Existing list names win over the spelling in the file
+  const resolveList = (name: string | undefined, fromHeading = false) => {
+    if (!name) return undefined;
+    const target = targetListName(name, testMode);
+    const existing = lists.get(listKey(target));
+    if (existing) return existing;
+    if (fromHeading && !options.headingLists) return undefined;
+    lists.set(listKey(target), target);
+    report.lists.created.push(target);
+    return target;
+  };
+
+  const creates: Array<{task: ParsedTask; input: ReminderInput}> = [];
+  const updates: Array<{task: ParsedTask; update: ReminderUpdate}> = [];
+
+  for (const task of tasks) {
+    if (task.id === undefined) {
+      const listName =
+        resolveList(task.listName, task.listFromHeading) ??
+        resolveList(options.defaultList);
+      const input: ReminderInput = {title: task.title, priority: task.priority};
+      if (listName) input.list = {name: listName};
+      if (task.due) Object.assign(input, dueFields(task.due));
+      creates.push({task, input});
+      continue;
+    }
+
+    const reminder = byId.get(task.id);
+    if (!reminder) {
+      report.failed.push({
+        line: task.line,
+        title: task.title,
+        error: `No reminder with id ${task.id}`,
+      });
+      continue;
+    }
+    const update = changedFields(
+      task,
+      reminder,
+      resolveList(task.listName, task.listFromHeading),
+    );
+    if (Object.keys(update).length === 1) {
+      report.unchanged++;
+    } else {
+      updates.push({task, update});
+    }
+  }
+
+  if (dryRun) {
+    report.created = creates.map(({task}) => ({
+      line: task.line,
+      title: task.title,
+    }));
+    report.updated = updates.map(({task, update}) => ({
+      line: task.line,
+      id: update.id,
+      title: task.title,
+      fields: Object.keys(update).filter((k) => k !== 'id'),
+    }));
+    return report;
+  }
+
+  for (const name of report.lists.created) {
+    await client.tools.createList({name});
+  }
+
+  const completions: Array<{task: ParsedTask; update: ReminderUpdate}> = [];
+  for (let start = 0; start < creates.length; start += BATCH_SIZE) {
+    const batch = creates.slice(start, start + BATCH_SIZE);
+    await createBatch(client, batch, report, completions);
+  }
+  for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+    await updateBatch(client, updates.slice(start, start + BATCH_SIZE), report);
+  }
+  if (completions.length > 0) {
+    await completeCreated(client, completions, report);
+  }
+
+  return report;
+}
+
+async function createBatch(
+  client: MCPClient,
+  batch: Array<{task: ParsedTask; input: ReminderInput}>,
+  report: ApplyReport,
+  completions: Array<{task: ParsedTask; update: ReminderUpdate}>,
+): Promise<void> {
+  let result;
+  try {
+    result = await client.tools.createReminders({
+      reminders: batch.map((b) => b.input),
+    });
+  } catch (error) {
+    for (const {task} of batch) {
+      report.failed.push({
+        line: task.line,
+        title: task.title,
+        error: (error as Error).message,
+      });
+    }
+    return;
+  }
+
+  // {created, failed} on partial failure; created keeps input order
+  const created = Array.isArray(result) ? result : result.created;
+  const failedByIndex = new Map(
+    (Array.isArray(result) ? [] : result.failed).map((f) => [f.index, f.error]),
+  );
+
+  let next = 0;
+  batch.forEach(({task}, index) => {
+    const error = failedByIndex.get(index);
+    if (error !== undefined) {
+      report.failed.push({line: task.line, title: task.title, error});
+      return;
+    }
+    const id = created[next++].id;
+    report.created.push({line: task.line, title: task.title, id});
+    if (task.completed) completions.push({task, update: {id, completed: true}});
+  });
+}
+
+/** Completes `[x]` tasks that were just created; failures are reported by line */
+async function completeCreated(
+  client: MCPClient,
+  completions: Array<{task: ParsedTask; update: ReminderUpdate}>,
+  report: ApplyReport,
+): Promise<void> {
+  let failedById = new Map<string, string>();
+  try {
+    const result = await client.tools.updateReminders({
+      reminders: completions.map((c) => c.update),
+    });
+    if (!Array.isArray(result)) {
+      failedById = new Map(result.failed.map((f) => [f.id, f.error]));
+    }
+  } catch (error) {
+    const message = (error as Error).message;
+    failedById = new Map(completions.map((c) => [c.update.id, message]));
+  }
+
+  for (const {task, update} of completions) {
+    const error = failedById.get(update.id);
+    if (error === undefined) continue;
+    report.failed.push({
+      line: task.line,
+      title: task.title,
+      error: `Created as ${update.id} but not completed: ${error}`,
+    });
+  }
+}
+
+async function updateBatch(
+  client: MCPClient,
+  batch: Array<{task: ParsedTask; update: ReminderUpdate}>,
+  report: ApplyReport,
+): Promise<void> {
+  let failedById = new Map<string, string>();
+  try {
+    const result = await client.tools.updateReminders({
+      reminders: batch.map((b) => b.update),
+    });
+    if (!Array.isArray(result)) {
+      failedById = new Map(result.failed.map((f) => [f.id, f.error]));
+    }
+  } catch (error) {
+    const message = (error as Error).message;
+    failedById = new Map(batch.map((b) => [b.update.id, message]));
+  }
+
+  for (const {task, update} of batch) {
+    const error = failedById.get(update.id);
+    if (error !== undefined) {
+      report.failed.push({line: task.line, title: task.title, error});
+    } else {
+      report.updated.push({
+        line: task.line,
+        id: update.id,
+        title: task.title,
+        fields: Object.keys(update).filter((k) => k !== 'id'),
+      });
+    }
+  }
+}
+
+export function formatApplyReport(report: ApplyReport): string {
+  const create = report.dryRun ? 'Would create' : 'Created';
+  const update = report.dryRun ? 'Would update' : 'Updated';
+  const lines = [
+    report.dryRun ? 'Dry run: nothing was written.\n' : '',
+    ...report.lists.created.map((name) => `${create} list ${name}`),
+    `${create} ${report.created.length} reminder(s)`,
+    ...report.created.map((c) => `  + line ${c.line}: ${c.title}`),
+    `${update} ${report.updated.length} reminder(s)`,
+    ...report.updated.map(
+      (u) => `  ~ line ${u.line}: ${u.title} (${u.fields.join(', ')})`,
+    ),
+    `Unchanged: ${report.unchanged}`,
+  ];
+  if (report.failed.length > 0) {
+    lines.push(`Failed ${report.failed.length}:`);
+    for (const f of report.failed) {
+      lines.push(`  ! line ${f.line}: ${f.title}: ${f.error}`);
+    }
+  }
+  return lines.filter((line) => line !== '').join('\n');
+}
+
+// CLI
+
+function parseArgs(argv: string[]) {
+  const [command, ...rest] = argv;
+  const options: ApplyOptions & {
+    command?: string;
+    path?: string;
+    format?: ChecklistFormat;
+    from?: string;
+    list?: string;
+    status: 'incomplete' | 'completed' | 'all';
+    mock: boolean;
+    json: boolean;
+  } = {
+    command,
+    status: 'incomplete',
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--format': {
+        const format = rest[++i];
+        if (format !== 'markdown' && format !== 'todotxt') {
+          throw new Error(`Unknown format: ${format}`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--from':
+        options.from = rest[++i];
+        break;
+      case '--list':
+        options.list = rest[++i];
+        break;
+      case '--status':
+        options.status = rest[++i] as typeof options.status;
+        break;
+      case '--heading-lists':
+        options.headingLists = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (arg.startsWith('--') || options.path) {
+          throw new Error(`Unexpected argument: ${arg}`);
+        }
+        options.path = arg;
+    }
+  }
+  return options;
+}
+
+async function render(options: ReturnType<typeof parseArgs>): Promise<void> {
+  const format = options.format ?? 'markdown';
+  const matchesList = (r: ChecklistReminder) =>
+    !options.list || r.listName.toLowerCase() === options.list.toLowerCase();
+  const matchesStatus = (r: ChecklistReminder) =>
+    options.status === 'all' ||
+    r.isCompleted === (options.status === 'completed');
+
+  let reminders: ChecklistReminder[];
+  if (options.from) {
+    reminders = loadExport(options.from).reminders;
+  } else {
+    const client = await MCPClient.create({
+      mockMode: options.mock,
+      testMode: options.testMode,
+    });
+    try {
+      // Through export: query_reminders returns at most 200
+      reminders = (await readCurrentState(client)).reminders;
+    } finally {
+      await client.cleanup();
+    }
+  }
+  process.stdout.write(
+    renderChecklist(
+      reminders.filter((r) => matchesList(r) && matchesStatus(r)),
+      format,
+    ),
+  );
+}
+
+async function apply(options: ReturnType<typeof parseArgs>): Promise<void> {
+  const path = options.path!;
+  const format =
+    options.format ?? (path.endsWith('.txt') ? 'todotxt' : 'markdown');
+  const tasks = parseChecklist(readFileSync(path, 'utf8'), format);
+
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+  });
+  try {
+    const report = await applyChecklist(client, tasks, {
+      ...options,
+      defaultList: options.list,
+    });
+    console.log(
+      options.json
+        ? JSON.stringify(report, null, 2)
+        : formatApplyReport(report),
+    );
+    if (report.failed.length > 0) process.exitCode = 1;
+  } finally {
+    await client.cleanup();
+  }
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (options.command === 'apply' && !options.path) {
+      throw new Error('Missing checklist file');
+    }
+    if (options.command !== 'render' && options.command !== 'apply') {
+      throw new Error(`Unknown command: ${options.command ?? '(none)'}`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error('Usage: bun test/checklist.ts render [options]');
+    console.error('       bun test/checklist.ts apply <file> [options]');
+    process.exit(2);
+  }
+
+  await (options.command === 'render' ? render(options) : apply(options));
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Checklist failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * Tests for cleanup-test-lists.ts: picking lists by prefix and age, the
+ * creation time in createTestList names, emptying lists over MCP (mock
+ * mode), failures, and the non-interactive CLI.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {spawnSync} from 'bun';
+import {
+  type CleanupBackend,
+  executeCleanup,
+  formatCleanupReport,
+  mcpBackend,
+  parseDuration,
+  planCleanup,
+} from './cleanup-test-lists';
+import {
+  MCPClient,
+  temporaryListCreatedAt,
+  temporaryListName,
+} from './mcp-client';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const old = temporaryListName(new Date('2026-10-18T09:30:00Z'), '1a2b3c4d');
+const recent = temporaryListName(new Date('2026-10-19T11:45:00Z'), '5e6f7a8b');
+
+describe('Planning', () => {
+  test('createTestList names carry their creation time', () => {
+    expect(old).toBe('[AR-MCP TEST] - TMP (1a2b3c4d 20261018T093000Z)');
+    expect(temporaryListCreatedAt(old)).toEqual(
+      new Date('2026-10-18T09:30:00Z'),
+    );
+    expect(temporaryListCreatedAt('[AR-MCP TEST] - TMP (1a2b3c4d)')).toBeNull();
+    expect(temporaryListCreatedAt('Groceries')).toBeNull();
+  });
+
+  test('durations', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('30m')).toBe(1_800_000);
+    expect(parseDuration('2h')).toBe(7_200_000);
+    expect(parseDuration('7d')).toBe(604_800_000);
+    expect(() => parseDuration('2 hours')).toThrow('Invalid duration');
+  });
+
+  test('only test lists; --older-than keeps recent and undated ones', () => {
+    const names = [
+      'Groceries',
+      old,
+      recent,
+      '[AR-MCP TEST] - Work, Home',
+      '[AR-MCP TEST] - TMP (9c9c9c9c)',
+      old,
+    ];
+    expect(planCleanup(names, {now}).map((l) => l.name)).toEqual([
+      old,
+      recent,
+      '[AR-MCP TEST] - TMP (9c9c9c9c)',
+      '[AR-MCP TEST] - Work, Home',
+    ]);
+    expect(planCleanup(names, {now, olderThan: parseDuration('1h')})).toEqual([
+      {name: old, createdAt: '2026-10-18T09:30:00.000Z', action: 'planned'},
+      {
+        name: recent,
+        createdAt: '2026-10-19T11:45:00.000Z',
+        action: 'skipped',
+        detail: 'too recent',
+      },
+      {
+        name: '[AR-MCP TEST] - TMP (9c9c9c9c)',
+        createdAt: null,
+        action: 'skipped',
+        detail: 'creation time unknown',
+      },
+      {
+        name: '[AR-MCP TEST] - Work, Home',
+        createdAt: null,
+        action: 'skipped',
+        detail: 'creation time unknown',
+      },
+    ]);
+  });
+});
+
+describe('Cleanup over MCP', () => {
+  let client: MCPClient;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    for (const name of [old, '[AR-MCP TEST] - Work, Home', 'Groceries']) {
+      await client.tools.createList({name});
+      await client.tools.createReminders({
+        reminders: [
+          {title: `${name} one`, list: {name}},
+          {title: `${name} two`, list: {name}},
+        ],
+      });
+    }
+    await client.tools.updateReminders({
+      reminders: [
+        {
+          id: (await client.tools.queryReminders({list: {name: old}}))[0].id,
+          completed: true,
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('empties every test list, names with commas included', async () => {
+    const backend = mcpBackend(client);
+    const plan = planCleanup(await backend.listNames(), {now});
+    const report = {
+      mode: backend.mode,
+      dryRun: false,
+      lists: await executeCleanup(backend, plan),
+    };
+    expect(report.lists.map((l) => [l.name, l.action, l.detail])).toEqual([
+      [old, 'emptied', '2 reminder(s) deleted'],
+      ['[AR-MCP TEST] - Work, Home', 'emptied', '2 reminder(s) deleted'],
+    ]);
+    expect(formatCleanupReport(report)).toBe(
+      [
+        "Test lists prefixed with '[AR-MCP TEST]', via MCP (lists are emptied):",
+        `  emptied      ${old} (2 reminder(s) deleted)`,
+        '  emptied      [AR-MCP TEST] - Work, Home (2 reminder(s) deleted)',
+      ].join('\n'),
+    );
+
+    const left = await client.tools.queryReminders({
+      list: {all: true},
+      status: 'all',
+    });
+    expect(left.map((r) => r.title).sort()).toEqual([
+      'Groceries one',
+      'Groceries two',
+    ]);
+  });
+
+  test('a failure is reported and the rest still run', async () => {
+    const flaky: CleanupBackend = {
+      mode: 'applescript',
+      listNames: async () => [],
+      remove: async (name) => {
+        if (name === old) throw new Error('Reminders got an error');
+        return undefined;
+      },
+    };
+    const lists = await executeCleanup(
+      flaky,
+      planCleanup([old, recent], {now}),
+    );
+    expect(lists.map((l) => [l.action, l.detail])).toEqual([
+      ['failed', 'Reminders got an error'],
+      ['deleted', undefined],
+    ]);
+  });
+});
+
+describe('Cleanup CLI', () => {
+  const run = (...args: string[]) =>
+    spawnSync(
+      [process.execPath, `${import.meta.dir}/cleanup-test-lists.ts`, ...args],
+      {stdin: 'ignore'},
+    );
+
+  test('refuses to prompt without a terminal', () => {
+    const result = run('--mock');
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr.toString()).toContain('pass --yes to delete');
+  });
+
+  test('--dry-run --json reports without asking', () => {
+    const result = run('--mock', '--dry-run', '--json', '--older-than', '1d');
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout.toString())).toEqual({
+      mode: 'mcp',
+      dryRun: true,
+      lists: [],
+    });
+  });
+});
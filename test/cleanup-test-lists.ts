@@ -1,16 +1,300 @@
 #!/usr/bin/env bun
 
 /**
- * Cleanup script to delete test lists created by the test suite.
- * Uses AppleScript via osascript since EventKit doesn't support deleting lists.
+ * Cleanup script for test lists left behind by the test suite: every list
+ * whose name starts with '[AR-MCP TEST]'.
  *
- * Usage: bun test/cleanup-test-lists.ts
+ * On macOS the lists are deleted through Reminders' scripting interface
+ * (osascript), since EventKit can't delete lists over MCP. Where osascript
+ * is missing or fails, the lists are emptied instead: the MCP server (real
+ * EventKit, test mode on) deletes their reminders with query_reminders and
+ * delete_reminders, and the empty lists stay behind.
+ *
+ * --older-than only picks lists whose age is known: throwaway lists from
+ * MCPClient.createTestList carry their creation time in the name
+ * ('[AR-MCP TEST] - TMP (1a2b3c4d 20261019T120000Z)'). Any other test list
+ * is kept when --older-than is given.
+ *
+ * Usage: bun test/cleanup-test-lists.ts [--yes] [--dry-run] [--json]
+ *                                       [--older-than <30m|2h|7d>] [--mcp] [--mock]
+ *   --yes         Delete without asking (needed when stdin is not a terminal)
+ *   --dry-run     Only show what would be removed
+ *   --json        Print the report as JSON
+ *   --older-than  Only lists created longer ago than this
+ *   --mcp         Empty lists over MCP even where osascript works
+ *   --mock        Use the mock server (implies --mcp)
+ *
+ * Exits 0 when every selected list was removed, 1 when any failed and 2 on
+ * usage errors.
  */
 
 import {$} from 'bun';
 import * as readline from 'node:readline';
+import {MCPClient, temporaryListCreatedAt} from './mcp-client';
+import {TestModeConfig} from './reference-models';
+import type {QueriedReminder} from './tool-results';
+
+const TEST_LIST_PREFIX = TestModeConfig.testListPrefix;
+
+export type CleanupMode = 'applescript' | 'mcp';
+
+/** Where a test list ends up; 'planned' until the plan runs */
+export type CleanupAction =
+  | 'planned'
+  | 'skipped'
+  | 'deleted'
+  | 'emptied'
+  | 'failed';
+
+export interface ListOutcome {
+  name: string;
+  /** From the name; null when the name doesn't carry it */
+  createdAt: string | null;
+  action: CleanupAction;
+  /** Why a list was skipped or failed, or how many reminders were deleted */
+  detail?: string;
+}
+
+export interface CleanupReport {
+  mode: CleanupMode;
+  dryRun: boolean;
+  lists: ListOutcome[];
+}
+
+/** Finds and removes lists by name; one per mode */
+export interface CleanupBackend {
+  mode: CleanupMode;
+  listNames(): Promise<string[]>;
+  /** Deletes or empties the list; resolves with the outcome's detail */
+  remove(name: string): Promise<string | undefined>;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** `90s`, `30m`, `2h`, `7d` or `1w` in milliseconds */
+export function parseDuration(text: string): number {
+  const match = /^(\d+)([smhdw])$/.exec(text);
+  if (!match) {
+    throw new Error(
+      `Invalid duration '${text}'; expected a number and s, m, h, d or w, e.g. 2h`,
+    );
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Which of `names` to remove: the test lists, minus (with `olderThan`)
+ * those that are newer or of unknown age. Other names are ignored.
+ */
+export function planCleanup(
+  names: string[],
+  options: {now?: Date; olderThan?: number} = {},
+): ListOutcome[] {
+  const now = options.now ?? new Date();
+  const unique = [...new Set(names)].filter((name) =>
+    name.startsWith(TEST_LIST_PREFIX),
+  );
+  return unique.sort().map((name): ListOutcome => {
+    const created = temporaryListCreatedAt(name);
+    const createdAt = created ? created.toISOString() : null;
+    if (options.olderThan === undefined) {
+      return {name, createdAt, action: 'planned'};
+    }
+    if (!created) {
+      return {
+        name,
+        createdAt,
+        action: 'skipped',
+        detail: 'creation time unknown',
+      };
+    }
+    if (now.getTime() - created.getTime() <= options.olderThan) {
+      return {name, createdAt, action: 'skipped', detail: 'too recent'};
+    }
+    return {name, createdAt, action: 'planned'};
+  });
+}
+
+/** Removes every planned list, one at a time; a failure doesn't stop the rest */
+export async function executeCleanup(
+  backend: CleanupBackend,
+  plan: ListOutcome[],
+): Promise<ListOutcome[]> {
+  const done: ListOutcome[] = [];
+  for (const outcome of plan) {
+    if (outcome.action !== 'planned') {
+      done.push(outcome);
+      continue;
+    }
+    try {
+      const detail = await backend.remove(outcome.name);
+      done.push({
+        ...outcome,
+        action: backend.mode === 'applescript' ? 'deleted' : 'emptied',
+        ...(detail !== undefined && {detail}),
+      });
+    } catch (error) {
+      done.push({
+        ...outcome,
+        action: 'failed',
+        detail: (error as Error).message,
+      });
+    }
+  }
+  return done;
+}
+
+// AppleScript (JavaScript for Automation, so names travel as JSON and argv)
+
+const LIST_NAMES_SCRIPT = `JSON.stringify(Application('Reminders').lists.name())`;
+
+const DELETE_LIST_SCRIPT = `
+function run(argv) {
+  const matches = Application('Reminders').lists.whose({name: argv[0]})();
+  if (matches.length === 0) throw new Error('List not found');
+  matches.forEach((list) => list.delete());
+  return String(matches.length);
+}`;
 
-const TEST_LIST_PREFIX = '[AR-MCP TEST]';
+export function appleScriptBackend(): CleanupBackend {
+  return {
+    mode: 'applescript',
+    listNames: async () => {
+      const output =
+        await $`osascript -l JavaScript -e ${LIST_NAMES_SCRIPT}`.text();
+      const names: unknown = JSON.parse(output);
+      if (!Array.isArray(names) || names.some((n) => typeof n !== 'string')) {
+        throw new Error(`Unexpected list names from osascript: ${output}`);
+      }
+      return names as string[];
+    },
+    remove: async (name) => {
+      const result =
+        await $`osascript -l JavaScript -e ${DELETE_LIST_SCRIPT} ${name}`
+          .nothrow()
+          .quiet();
+      if (result.exitCode !== 0) {
+        throw new Error(result.stderr.toString().trim() || 'osascript failed');
+      }
+      return undefined;
+    },
+  };
+}
+
+/** Empties lists over MCP; the lists themselves can't be deleted this way */
+export function mcpBackend(client: MCPClient): CleanupBackend {
+  return {
+    mode: 'mcp',
+    listNames: async () => (await client.tools.getLists()).map((l) => l.name),
+    remove: async (name) => {
+      let deleted = 0;
+      for (;;) {
+        const reminders = await client.tools.queryReminders<QueriedReminder[]>({
+          list: {name},
+          status: 'all',
+          outputDetail: 'minimal',
+          limit: 200,
+        });
+        if (reminders.length === 0) break;
+        const result = await client.tools.deleteReminders({
+          ids: reminders.map((r) => r.id),
+        });
+        deleted += result.deleted.length;
+        if (result.failed.length > 0 || result.deleted.length === 0) {
+          throw new Error(
+            `Deleted ${deleted} reminder(s), then: ${result.failed[0]?.error ?? 'nothing was deleted'}`,
+          );
+        }
+      }
+      return `${deleted} reminder(s) deleted`;
+    },
+  };
+}
+
+export function formatCleanupReport(report: CleanupReport): string {
+  const how =
+    report.mode === 'applescript' ? 'AppleScript' : 'MCP (lists are emptied)';
+  const lines = [
+    `Test lists prefixed with '${TEST_LIST_PREFIX}', via ${how}${report.dryRun ? ', dry run' : ''}:`,
+  ];
+  if (report.lists.length === 0) {
+    lines.push('  none found');
+    return lines.join('\n');
+  }
+  const verbs: Record<CleanupAction, string> = {
+    planned: report.dryRun ? 'would remove' : 'to remove',
+    skipped: 'kept',
+    deleted: 'deleted',
+    emptied: 'emptied',
+    failed: 'failed',
+  };
+  for (const list of report.lists) {
+    const detail = list.detail ? ` (${list.detail})` : '';
+    lines.push(`  ${verbs[list.action].padEnd(12)} ${list.name}${detail}`);
+  }
+  return lines.join('\n');
+}
+
+interface Options {
+  yes: boolean;
+  dryRun: boolean;
+  json: boolean;
+  olderThan?: number;
+  mcp: boolean;
+  mock: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    yes: false,
+    dryRun: false,
+    json: false,
+    mcp: false,
+    mock: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--yes':
+      case '-y':
+        options.yes = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--older-than':
+        options.olderThan = parseDuration(argv[++i] ?? '');
+        break;
+      case '--mcp':
+        options.mcp = true;
+        break;
+      case '--mock':
+        options.mcp = true;
+        options.mock = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  if (
+    !options.yes &&
+    !options.dryRun &&
+    (options.json || !process.stdin.isTTY)
+  ) {
+    throw new Error(
+      'Not asking for confirmation here; pass --yes to delete, or --dry-run',
+    );
+  }
+  return options;
+}
 
 async function prompt(question: string): Promise<string> {
   const rl = readline.createInterface({
@@ -26,85 +310,79 @@ async function prompt(question: string): Promise<string> {
   });
 }
 
-async function findTestLists(): Promise<string[]> {
-  const appleScript = `
-    tell application "Reminders"
-      set testLists to {}
-      repeat with aList in lists
-        if name of aList starts with "${TEST_LIST_PREFIX}" then
-          set end of testLists to name of aList
-        end if
-      end repeat
-      return testLists as string
-    end tell
-  `;
-
-  const result = await $`osascript -e ${appleScript}`.text();
-  const trimmed = result.trim();
-
-  if (!trimmed) {
-    return [];
+async function main(): Promise<void> {
+  let options: Options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/cleanup-test-lists.ts [--yes] [--dry-run] [--json] [--older-than <30m|2h|7d>] [--mcp] [--mock]',
+    );
+    process.exit(2);
   }
 
-  return trimmed.split(', ');
-}
-
-async function deleteLists(listNames: string[]): Promise<void> {
-  for (const listName of listNames) {
-    const appleScript = `
-      tell application "Reminders"
-        try
-          delete (first list whose name is "${listName}")
-          return "OK"
-        on error errMsg
-          return "ERROR: " & errMsg
-        end try
-      end tell
-    `;
-
-    const result = await $`osascript -e ${appleScript}`.text();
-    const trimmed = result.trim();
-
-    if (trimmed === 'OK') {
-      console.log(`  Deleted: ${listName}`);
-    } else {
-      console.log(`  Failed: ${listName} - ${trimmed}`);
+  let client: MCPClient | null = null;
+  try {
+    let backend: CleanupBackend | null = null;
+    let names: string[] | null = null;
+    if (!options.mcp && Bun.which('osascript')) {
+      backend = appleScriptBackend();
+      try {
+        names = await backend.listNames();
+      } catch (error) {
+        console.error(
+          `osascript failed (${(error as Error).message.trim()}); emptying lists over MCP instead`,
+        );
+      }
+    }
+    if (names === null) {
+      client = options.mock
+        ? await MCPClient.create()
+        : await MCPClient.createWithRealEventKit();
+      backend = mcpBackend(client);
+      names = await backend.listNames();
     }
-  }
-}
-
-async function cleanupTestLists(): Promise<void> {
-  console.log(
-    `Searching for test lists prefixed with '${TEST_LIST_PREFIX}'...\n`,
-  );
 
-  try {
-    const testLists = await findTestLists();
+    const plan = planCleanup(names, {olderThan: options.olderThan});
+    const report: CleanupReport = {
+      mode: backend!.mode,
+      dryRun: options.dryRun,
+      lists: plan,
+    };
+    const show = () =>
+      console.log(
+        options.json
+          ? JSON.stringify(report, null, 2)
+          : formatCleanupReport(report),
+      );
 
-    if (testLists.length === 0) {
-      console.log('No test lists found.');
+    const planned = plan.filter((l) => l.action === 'planned');
+    if (options.dryRun || planned.length === 0) {
+      show();
       return;
     }
-
-    console.log(`Found ${testLists.length} test list(s):`);
-    for (const list of testLists) {
-      console.log(`  - ${list}`);
+    if (!options.yes) {
+      console.log(formatCleanupReport(report), '\n');
+      const answer = await prompt(`Remove ${planned.length} list(s)? [y/N] `);
+      if (answer !== 'y' && answer !== 'yes') {
+        console.log('\nCancelled. No lists were changed.');
+        return;
+      }
+      console.log();
     }
-    console.log();
 
-    const answer = await prompt('Delete these lists? [y/N] ');
+    report.lists = await executeCleanup(backend!, plan);
+    show();
+    if (report.lists.some((l) => l.action === 'failed')) process.exitCode = 1;
+  } finally {
+    await client?.cleanup();
+  }
+}
 
-    if (answer === 'y' || answer === 'yes') {
-      console.log('\nDeleting...');
-      await deleteLists(testLists);
-      console.log('\nDone.');
-    } else {
-      console.log('\nCancelled. No lists were deleted.');
-    }
-  } catch (error) {
+if (import.meta.main) {
+  main().catch((error) => {
     console.error('Failed to run cleanup:', error);
     process.exit(1);
-  }
+  });
 }
-
-cleanupTestLists();
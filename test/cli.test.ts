@@ -0,0 +1,305 @@
+/**
+ * Tests for cli.ts: command parsing into tool calls, table output, REPL
+ * completion, and the CLI end to end against the mock server.
+ */
+
+import {describe, test, expect, spyOn} from 'bun:test';
+import {Readable} from 'stream';
+import {
+  buildRequest,
+  completeLine,
+  formatReminders,
+  formatTable,
+  repl,
+  tokenize,
+  UsageError,
+} from './cli';
+
+const CLI = `${import.meta.dir}/cli.ts`;
+
+describe('CLI parsing', () => {
+  test('tokenize handles quotes and escapes', () => {
+    expect(tokenize(`create "Buy milk" --list 'Work Tasks'`)).toEqual([
+      'create',
+      'Buy milk',
+      '--list',
+      'Work Tasks',
+    ]);
+    expect(tokenize(String.raw`create Say\ \"hi\" --notes ""`)).toEqual([
+      'create',
+      'Say "hi"',
+      '--notes',
+      '',
+    ]);
+    expect(() => tokenize('create "Buy')).toThrow(UsageError);
+  });
+
+  test('query maps every filter flag onto query_reminders', () => {
+    expect(
+      buildRequest(
+        tokenize(
+          'query --list Work --status all --search-text milk --date-from 2026-06-01 --date-to 2026-06-30 --sort-by dueDate --output-detail full --limit 10',
+        ),
+      ),
+    ).toEqual({
+      tool: 'query_reminders',
+      args: {
+        list: {name: 'Work'},
+        status: 'all',
+        searchText: 'milk',
+        dateFrom: '2026-06-01',
+        dateTo: '2026-06-30',
+        sortBy: 'dueDate',
+        outputDetail: 'full',
+        limit: 10,
+      },
+    });
+    expect(
+      buildRequest(['query', '--all-lists', '--query', '[].title']).args,
+    ).toEqual({list: {all: true}, query: '[].title'});
+    expect(buildRequest(['query', '--list-id', 'L1']).args).toEqual({
+      list: {id: 'L1'},
+    });
+  });
+
+  test('create, update, complete and delete', () => {
+    expect(
+      buildRequest(
+        tokenize(
+          'create "Pay rent" --list Home --due-date 2026-07-01 --all-day --priority high --alarm 3600 --alarm 2026-06-30T09:00:00Z --recurrence monthly --interval 1',
+        ),
+      ),
+    ).toEqual({
+      tool: 'create_reminders',
+      args: {
+        reminders: [
+          {
+            title: 'Pay rent',
+            list: {name: 'Home'},
+            dueDate: '2026-07-01',
+            dueDateIncludesTime: false,
+            priority: 'high',
+            alarms: [
+              {type: 'relative', offset: 3600},
+              {type: 'absolute', date: '2026-06-30T09:00:00Z'},
+            ],
+            recurrenceRule: {frequency: 'monthly', interval: 1},
+          },
+        ],
+      },
+    });
+
+    expect(
+      buildRequest(
+        tokenize('update R1 --title Renamed --clear notes --clear due-date'),
+      ).args,
+    ).toEqual({
+      reminders: [{id: 'R1', title: 'Renamed', notes: null, dueDate: null}],
+    });
+    expect(buildRequest(['complete', 'R1', 'R2', '--undo']).args).toEqual({
+      reminders: [
+        {id: 'R1', completed: false},
+        {id: 'R2', completed: false},
+      ],
+    });
+    expect(buildRequest(['delete', 'R1'])).toEqual({
+      tool: 'delete_reminders',
+      args: {ids: ['R1']},
+    });
+  });
+
+  test('today queries incomplete reminders due by the end of the day', () => {
+    const {args} = buildRequest(['today'], new Date(2026, 5, 15, 9, 30));
+    expect(args.list).toEqual({all: true});
+    expect(args.status).toBe('incomplete');
+    expect(String(args.dateTo)).toStartWith('2026-06-15T23:59:59');
+  });
+
+  test('usage errors', () => {
+    const fails = (line: string, message: string) =>
+      expect(() => buildRequest(tokenize(line))).toThrow(
+        new UsageError(message),
+      );
+    fails('frobnicate', 'Unknown command: frobnicate');
+    fails('create', 'Missing title');
+    fails(
+      'create Buy milk',
+      'Unexpected argument: milk (quote titles with spaces)',
+    );
+    fails('query --colour red', 'Unknown option for query: --colour');
+    fails('query --limit ten', "--limit expects an integer, got 'ten'");
+    fails('query --list', '--list needs a value');
+    fails(
+      'query --list A --all-lists',
+      'Use only one of --list, --list-id and --all-lists',
+    );
+    fails('update R1', 'Nothing to update');
+    fails(
+      'update R1 --clear title',
+      "Cannot clear 'title' (one of: notes, due-date, url, alarms, recurrence)",
+    );
+    fails('create x --interval 2', '--interval needs --recurrence');
+  });
+});
+
+describe('CLI output', () => {
+  test('formatTable aligns columns', () => {
+    expect(
+      formatTable(
+        ['Name', 'ID'],
+        [
+          ['Work', 'L1'],
+          ['Groceries', 'L22'],
+        ],
+      ),
+    ).toBe(
+      [
+        'Name       ID',
+        '---------  ---',
+        'Work       L1',
+        'Groceries  L22',
+      ].join('\n'),
+    );
+  });
+
+  test('formatReminders shows short due dates and only set priorities', () => {
+    expect(
+      formatReminders([
+        {
+          id: 'R1',
+          title: 'Call',
+          dueDate: '2026-06-15T14:30:00+02:00',
+          priority: 'none',
+        },
+        {
+          id: 'R2',
+          title: 'Rent',
+          dueDate: '2026-07-01T00:00:00Z',
+          dueDateIncludesTime: false,
+          priority: 'high',
+          isCompleted: true,
+        },
+      ]),
+    ).toBe(
+      [
+        'ID  Title  Due               Priority  Done',
+        '--  -----  ----------------  --------  ----',
+        'R1  Call   2026-06-15 14:30',
+        'R2  Rent   2026-07-01        high      x',
+      ].join('\n'),
+    );
+    expect(formatReminders([])).toBe('No reminders');
+  });
+});
+
+describe('REPL completion', () => {
+  const lists = ['Work', 'Work Tasks', 'Groceries'];
+
+  test('commands, flags and --clear fields', () => {
+    expect(completeLine('', lists)[0]).toContain('query');
+    expect(completeLine('co', lists)).toEqual([['complete'], 'co']);
+    expect(completeLine('query --s', lists)).toEqual([
+      ['--status', '--search-text', '--sort-by'],
+      '--s',
+    ]);
+    expect(completeLine('update R1 --clear d', lists)).toEqual([
+      ['due-date'],
+      'd',
+    ]);
+  });
+
+  test('list names after --list, quoted when they contain spaces', () => {
+    expect(completeLine('query --list ', lists)).toEqual([
+      ['Work', '"Work Tasks"', 'Groceries'],
+      '',
+    ]);
+    expect(completeLine('create x --list wo', lists)).toEqual([
+      ['Work', '"Work Tasks"'],
+      'wo',
+    ]);
+    expect(completeLine('query --list "Work T', lists)).toEqual([
+      ['"Work Tasks"'],
+      '"Work T',
+    ]);
+    expect(completeLine('lists --list ', lists)).toEqual([[], '']);
+  });
+});
+
+describe('CLI end to end', () => {
+  const run = async (args: string[], stdin?: string) => {
+    const proc = Bun.spawn(['bun', CLI, '--mock', ...args], {
+      stdin: stdin === undefined ? 'ignore' : new Blob([stdin]),
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+    const [stdout, stderr, code] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    return {stdout, stderr, code};
+  };
+
+  test('lists prints a table; --json prints the raw result', async () => {
+    const table = await run(['lists']);
+    expect(table.code).toBe(0);
+    expect(table.stdout).toStartWith('Name');
+    expect(table.stdout).toContain('Reminders');
+
+    const json = await run(['--json', 'lists']);
+    expect(JSON.parse(json.stdout)).toBeArray();
+  });
+
+  test('exit codes: 2 for usage errors, 1 for tool errors', async () => {
+    const usage = await run(['create']);
+    expect(usage.code).toBe(2);
+    expect(usage.stderr).toContain('Missing title');
+
+    const failed = await run(['query', '--list', 'No Such List']);
+    expect(failed.code).toBe(1);
+    expect(failed.stderr).toContain("Tool 'query_reminders' failed");
+  });
+
+  test('the REPL runs commands from stdin', async () => {
+    const {stdout, stderr, code} = await run(
+      ['repl'],
+      [
+        'create-list "CLI Test"',
+        'create "Buy milk" --list "CLI Test" --priority high',
+        'query --list "CLI Test"',
+        'create',
+        'exit',
+        'lists',
+      ].join('\n'),
+    );
+    expect(code).toBe(0);
+    expect(stdout).toContain('Created list "CLI Test"');
+    expect(stdout.match(/Buy milk .*high/g)).toHaveLength(2);
+    expect(stderr).toContain('Missing title');
+    // Nothing runs after exit
+    expect(stdout).not.toContain('Default');
+  }, 20000);
+
+  test('the REPL prints unexpected errors and keeps going', async () => {
+    const call = async (name: string) => {
+      if (name === 'get_lists') return [];
+      if (name === 'delete_reminders') throw new TypeError('socket closed');
+      return {deleted: ['R1'], failed: []};
+    };
+    const log = spyOn(console, 'log').mockImplementation(() => {});
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await repl(call, false, Readable.from(['delete R1\n', 'lists\n']));
+      expect(error.mock.calls).toEqual([
+        ['Command failed:', expect.any(TypeError)],
+      ]);
+      // The command after the failure still ran
+      expect(log.mock.calls.map(([line]) => line)).toEqual([
+        expect.stringContaining('Name'),
+      ]);
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+});
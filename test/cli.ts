@@ -0,0 +1,895 @@
+#!/usr/bin/env bun
+
+/**
+ * Command-line client for the server, built on MCPClient: one subcommand per
+ * everyday operation, plus a REPL that tab-completes commands, flags and
+ * list names (from get_lists) and prints results as tables.
+ *
+ * Usage:
+ *   bun test/cli.ts [--mock] [--test-mode] [--json] <command> [args]
+ *   bun test/cli.ts [--mock] [--test-mode] [--json] repl
+ *
+ * Commands:
+ *   lists                         All lists
+ *   create-list <name>            Create a list
+ *   query [filters]               query_reminders; every filter is a flag:
+ *                                 --list <name> | --list-id <id> | --all-lists
+ *                                 --status incomplete|completed|all
+ *                                 --search-text <text> --date-from <iso>
+ *                                 --date-to <iso> --sort-by <order>
+ *                                 --query <jmespath> --output-detail <level>
+ *                                 --limit <n>
+ *   today [--list <name>]         Incomplete reminders due by end of today
+ *   upcoming [--days N]           Occurrences due in the next N days (default
+ *                                 7), repeats expanded; --list, --time-zone
+ *   notifications [--days N]      Alarms firing in the next N days (default
+ *                                 7) and relative alarms that never fire
+ *                                 because there is no due date; --list,
+ *                                 --time-zone
+ *   create <title> [fields]       --list --notes --due-date --all-day
+ *                                 --priority --url --alarm <seconds|iso>...
+ *                                 --recurrence <frequency> --interval <n>
+ *   add <text...>                 Quick add from natural language, e.g.
+ *                                 add Call mum friday 6pm !high #Family
+ *                                 (see quick-add.ts; --time-zone <iana>)
+ *   update <id> [fields]          As create, plus --title; --clear <field>
+ *                                 sends null (notes, due-date, url, alarms,
+ *                                 recurrence)
+ *   complete <id>... [--undo]     Mark complete (or incomplete)
+ *   delete <id>...                Delete reminders
+ *
+ * --mock runs against the mock store. Without it the CLI talks to EventKit;
+ * --test-mode (or AR_MCP_TEST_MODE=1) turns on the server's test mode, which
+ * refuses writes to lists whose names don't already start with
+ * '[AR-MCP TEST]'. --json prints raw tool results.
+ * Exits 1 when a tool call fails and 2 on usage errors.
+ */
+
+import {createInterface} from 'readline';
+import {formatNotifications, notificationReport} from './alarms';
+import {MCPClient, MCPToolCallError} from './mcp-client';
+import {parseQuickAdd, QuickAddError, type QuickAddReminder} from './quick-add';
+import {formatUpcoming, upcoming} from './recurrence';
+import {toISO8601WithTimezone} from './reference-models';
+import type {ReminderListOutput} from './reference-models';
+import {isValidTimeZone} from './time-zones';
+import type {
+  CreateRemindersResult,
+  DeleteRemindersResult,
+  QueriedReminder,
+  ToolCaller,
+  UpdateRemindersResult,
+} from './tool-results';
+import type {
+  CreateRemindersArgs,
+  QueryRemindersArgs,
+  UpdateRemindersArgs,
+} from './tool-types.generated';
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type ReminderInput = CreateRemindersArgs['reminders'][number];
+type ReminderUpdate = UpdateRemindersArgs['reminders'][number];
+
+export interface ParsedCommand {
+  name: string;
+  positionals: string[];
+  /** Value flags by name (without `--`); repeatable flags keep every value */
+  options: Record<string, string[]>;
+  switches: Set<string>;
+}
+
+export interface ToolRequest {
+  tool: string;
+  args: Record<string, unknown>;
+  /**
+   * For commands that post-process the result: what to print instead, and
+   * a warning for stderr when the result may be incomplete
+   */
+  view?: (result: unknown) => {data: unknown; text: string; warning?: string};
+}
+
+interface CommandSpec {
+  usage: string;
+  /** Flags that take a value */
+  options: string[];
+  /** Value flags that may be given more than once */
+  repeatable?: string[];
+  /** Flags without a value */
+  switches?: string[];
+  positionals: {min: number; max: number; name: string};
+  build(command: ParsedCommand, now: Date): ToolRequest;
+}
+
+const REMINDER_FIELDS = [
+  'list',
+  'notes',
+  'due-date',
+  'priority',
+  'url',
+  'alarm',
+  'recurrence',
+  'interval',
+];
+
+/** update --clear values and the field each one sends as null */
+const CLEARABLE: Record<string, keyof ReminderUpdate> = {
+  notes: 'notes',
+  'due-date': 'dueDate',
+  url: 'url',
+  alarms: 'alarms',
+  recurrence: 'recurrenceRule',
+};
+
+/** query_reminders' maximum; upcoming and notifications read one page */
+const UPCOMING_LIMIT = 200;
+
+function truncationWarning(reminders: unknown[]): string | undefined {
+  if (reminders.length < UPCOMING_LIMIT) return undefined;
+  return `Only the first ${UPCOMING_LIMIT} incomplete reminders were read, so some may be missing; narrow it down with --list`;
+}
+
+export const COMMANDS: Record<string, CommandSpec> = {
+  lists: {
+    usage: 'lists',
+    options: [],
+    positionals: {min: 0, max: 0, name: ''},
+    build: () => ({tool: 'get_lists', args: {}}),
+  },
+  'create-list': {
+    usage: 'create-list <name>',
+    options: [],
+    positionals: {min: 1, max: 1, name: 'list name'},
+    build: (command) => ({
+      tool: 'create_list',
+      args: {name: command.positionals[0]},
+    }),
+  },
+  query: {
+    usage:
+      'query [--list <name> | --list-id <id> | --all-lists] [--status <s>] [--search-text <t>] [--date-from <iso>] [--date-to <iso>] [--sort-by <order>] [--query <jmespath>] [--output-detail <level>] [--limit <n>]',
+    options: [
+      'list',
+      'list-id',
+      'status',
+      'search-text',
+      'date-from',
+      'date-to',
+      'sort-by',
+      'query',
+      'output-detail',
+      'limit',
+    ],
+    switches: ['all-lists'],
+    positionals: {min: 0, max: 0, name: ''},
+    build: (command) => {
+      const args: QueryRemindersArgs = {};
+      const list = listSelector(command);
+      if (list) args.list = list;
+      const status = option(command, 'status');
+      if (status) args.status = status as QueryRemindersArgs['status'];
+      const searchText = option(command, 'search-text');
+      if (searchText !== undefined) args.searchText = searchText;
+      const dateFrom = option(command, 'date-from');
+      if (dateFrom) args.dateFrom = dateFrom;
+      const dateTo = option(command, 'date-to');
+      if (dateTo) args.dateTo = dateTo;
+      const sortBy = option(command, 'sort-by');
+      if (sortBy) args.sortBy = sortBy as QueryRemindersArgs['sortBy'];
+      const query = option(command, 'query');
+      if (query) args.query = query;
+      const outputDetail = option(command, 'output-detail');
+      if (outputDetail) {
+        args.outputDetail = outputDetail as QueryRemindersArgs['outputDetail'];
+      }
+      const limit = option(command, 'limit');
+      if (limit !== undefined) args.limit = integer('--limit', limit);
+      return {tool: 'query_reminders', args: {...args}};
+    },
+  },
+  today: {
+    usage: 'today [--list <name>]',
+    options: ['list'],
+    positionals: {min: 0, max: 0, name: ''},
+    build: (command, now) => {
+      const endOfDay = new Date(now);
+      endOfDay.setHours(23, 59, 59, 0);
+      const name = option(command, 'list');
+      return {
+        tool: 'query_reminders',
+        args: {
+          list: name ? {name} : {all: true},
+          status: 'incomplete',
+          dateTo: toISO8601WithTimezone(endOfDay),
+          sortBy: 'dueDate',
+        },
+      };
+    },
+  },
+  upcoming: {
+    usage: 'upcoming [--days <n>] [--list <name>] [--time-zone <iana>]',
+    options: ['days', 'list', 'time-zone'],
+    positionals: {min: 0, max: 0, name: ''},
+    build: (command, now) => {
+      const days = integer('--days', option(command, 'days') ?? '7');
+      if (days < 1) throw new UsageError('--days must be at least 1');
+      const timeZone = option(command, 'time-zone');
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        throw new UsageError(`Unknown time zone: ${timeZone}`);
+      }
+      const name = option(command, 'list');
+      return {
+        tool: 'query_reminders',
+        args: {
+          list: name ? {name} : {all: true},
+          status: 'incomplete',
+          outputDetail: 'full',
+          limit: UPCOMING_LIMIT,
+        },
+        view: (result) => {
+          const reminders = result as QueriedReminder[];
+          const entries = upcoming(reminders, {from: now, days, timeZone});
+          return {
+            data: entries,
+            text: formatUpcoming(entries),
+            warning: truncationWarning(reminders),
+          };
+        },
+      };
+    },
+  },
+  notifications: {
+    usage: 'notifications [--days <n>] [--list <name>] [--time-zone <iana>]',
+    options: ['days', 'list', 'time-zone'],
+    positionals: {min: 0, max: 0, name: ''},
+    build: (command, now) => {
+      const request = COMMANDS.upcoming.build(command, now);
+      const days = Number(option(command, 'days') ?? '7');
+      const timeZone = option(command, 'time-zone');
+      return {
+        ...request,
+        view: (result) => {
+          const reminders = result as QueriedReminder[];
+          const report = notificationReport(reminders, {
+            from: now,
+            days,
+            timeZone,
+          });
+          return {
+            data: report,
+            text: formatNotifications(report),
+            warning: truncationWarning(reminders),
+          };
+        },
+      };
+    },
+  },
+  create: {
+    usage:
+      'create <title> [--list <name>] [--notes <text>] [--due-date <iso>] [--all-day] [--priority <p>] [--url <url>] [--alarm <seconds|iso>]... [--recurrence <frequency>] [--interval <n>]',
+    options: REMINDER_FIELDS,
+    repeatable: ['alarm'],
+    switches: ['all-day'],
+    positionals: {min: 1, max: 1, name: 'title'},
+    build: (command) => {
+      const reminder: ReminderInput = {title: command.positionals[0]};
+      Object.assign(reminder, reminderFields(command));
+      return {tool: 'create_reminders', args: {reminders: [reminder]}};
+    },
+  },
+  add: {
+    usage: 'add <text...> [--time-zone <iana>]',
+    options: ['time-zone'],
+    positionals: {min: 1, max: Infinity, name: 'text'},
+    build: (command, now) => {
+      let reminder: QuickAddReminder;
+      try {
+        reminder = parseQuickAdd(command.positionals.join(' '), {
+          now,
+          timeZone: option(command, 'time-zone'),
+        });
+      } catch (error) {
+        if (error instanceof QuickAddError) throw new UsageError(error.message);
+        throw error;
+      }
+      return {tool: 'create_reminders', args: {reminders: [reminder]}};
+    },
+  },
+  update: {
+    usage:
+      'update <id> [--title <title>] [create flags] [--clear notes|due-date|url|alarms|recurrence]...',
+    options: ['title', ...REMINDER_FIELDS, 'clear'],
+    repeatable: ['alarm', 'clear'],
+    switches: ['all-day'],
+    positionals: {min: 1, max: 1, name: 'reminder id'},
+    build: (command) => {
+      const update: Record<string, unknown> = {id: command.positionals[0]};
+      const title = option(command, 'title');
+      if (title !== undefined) update.title = title;
+      Object.assign(update, reminderFields(command));
+      for (const field of command.options.clear ?? []) {
+        const key = CLEARABLE[field];
+        if (!key) {
+          throw new UsageError(
+            `Cannot clear '${field}' (one of: ${Object.keys(CLEARABLE).join(', ')})`,
+          );
+        }
+        update[key] = null;
+      }
+      if (Object.keys(update).length === 1) {
+        throw new UsageError('Nothing to update');
+      }
+      return {tool: 'update_reminders', args: {reminders: [update]}};
+    },
+  },
+  complete: {
+    usage: 'complete <id>... [--undo]',
+    options: [],
+    switches: ['undo'],
+    positionals: {min: 1, max: Infinity, name: 'reminder id'},
+    build: (command) => ({
+      tool: 'update_reminders',
+      args: {
+        reminders: command.positionals.map((id) => ({
+          id,
+          completed: !command.switches.has('undo'),
+        })),
+      },
+    }),
+  },
+  delete: {
+    usage: 'delete <id>...',
+    options: [],
+    positionals: {min: 1, max: Infinity, name: 'reminder id'},
+    build: (command) => ({
+      tool: 'delete_reminders',
+      args: {ids: command.positionals},
+    }),
+  },
+};
+
+/** REPL-only commands, offered alongside COMMANDS for completion */
+const REPL_COMMANDS = ['help', 'exit', 'quit'];
+
+function option(command: ParsedCommand, name: string): string | undefined {
+  return command.options[name]?.at(-1);
+}
+
+function integer(flag: string, value: string): number {
+  if (!/^-?\d+$/.test(value)) {
+    throw new UsageError(`${flag} expects an integer, got '${value}'`);
+  }
+  return Number(value);
+}
+
+function listSelector(
+  command: ParsedCommand,
+): QueryRemindersArgs['list'] | undefined {
+  const name = option(command, 'list');
+  const id = option(command, 'list-id');
+  const all = command.switches.has('all-lists');
+  if ([name !== undefined, id !== undefined, all].filter(Boolean).length > 1) {
+    throw new UsageError('Use only one of --list, --list-id and --all-lists');
+  }
+  if (name !== undefined) return {name};
+  if (id !== undefined) return {id};
+  if (all) return {all: true};
+  return undefined;
+}
+
+/** The fields create and update share, from their flags */
+function reminderFields(command: ParsedCommand): Partial<ReminderInput> {
+  const fields: Partial<ReminderInput> = {};
+  const list = option(command, 'list');
+  if (list !== undefined) fields.list = {name: list};
+  const notes = option(command, 'notes');
+  if (notes !== undefined) fields.notes = notes;
+  const dueDate = option(command, 'due-date');
+  if (dueDate !== undefined) fields.dueDate = dueDate;
+  if (command.switches.has('all-day')) fields.dueDateIncludesTime = false;
+  const priority = option(command, 'priority');
+  if (priority !== undefined) {
+    fields.priority = priority as ReminderInput['priority'];
+  }
+  const url = option(command, 'url');
+  if (url !== undefined) fields.url = url;
+
+  const alarms = command.options.alarm;
+  if (alarms) {
+    // A bare number is seconds before the due date; anything else a date
+    fields.alarms = alarms.map((alarm) =>
+      /^\d+$/.test(alarm)
+        ? {type: 'relative', offset: Number(alarm)}
+        : {type: 'absolute', date: alarm},
+    );
+  }
+
+  const frequency = option(command, 'recurrence');
+  const interval = option(command, 'interval');
+  if (interval !== undefined && frequency === undefined) {
+    throw new UsageError('--interval needs --recurrence');
+  }
+  if (frequency !== undefined) {
+    fields.recurrenceRule = {
+      frequency: frequency as NonNullable<
+        ReminderInput['recurrenceRule']
+      >['frequency'],
+    };
+    if (interval !== undefined) {
+      fields.recurrenceRule.interval = integer('--interval', interval);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Splits a command line into words. Single or double quotes group words
+ * and a backslash escapes the next character.
+ */
+export function tokenize(line: string): string[] {
+  const {words, open} = scan(line);
+  if (open) throw new UsageError('Unterminated quote');
+  return words;
+}
+
+/**
+ * Words of a (possibly unfinished) line, plus the last word as typed (with
+ * any opening quote) when the line doesn't end in whitespace, for completion.
+ */
+function scan(line: string): {words: string[]; partial: string; open: boolean} {
+  const words: string[] = [];
+  let word: string | null = null;
+  let raw = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      raw += char;
+      if (char === quote) quote = null;
+      else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+        word += line[++i];
+        raw += line[i];
+      } else word += char;
+    } else if (/\s/.test(char)) {
+      if (word !== null) words.push(word);
+      word = null;
+      raw = '';
+    } else {
+      word ??= '';
+      raw += char;
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '\\' && i + 1 < line.length) {
+        word += line[++i];
+        raw += line[i];
+      } else word += char;
+    }
+  }
+  if (word !== null) words.push(word);
+  return {words, partial: word === null ? '' : raw, open: quote !== null};
+}
+
+/** Parses `<command> [args]` against its spec; throws UsageError. */
+export function parseCommand(words: string[]): ParsedCommand {
+  const [name, ...rest] = words;
+  const spec = COMMANDS[name];
+  if (!spec) throw new UsageError(`Unknown command: ${name ?? '(none)'}`);
+
+  const command: ParsedCommand = {
+    name,
+    positionals: [],
+    options: {},
+    switches: new Set(),
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--') || arg === '--') {
+      command.positionals.push(arg);
+      continue;
+    }
+    const flag = arg.slice(2);
+    if (spec.switches?.includes(flag)) {
+      command.switches.add(flag);
+    } else if (spec.options.includes(flag)) {
+      if (i + 1 >= rest.length) throw new UsageError(`${arg} needs a value`);
+      const values = command.options[flag] ?? [];
+      if (values.length > 0 && !spec.repeatable?.includes(flag)) {
+        throw new UsageError(`${arg} given more than once`);
+      }
+      command.options[flag] = [...values, rest[++i]];
+    } else {
+      throw new UsageError(`Unknown option for ${name}: ${arg}`);
+    }
+  }
+
+  const {min, max} = spec.positionals;
+  if (command.positionals.length < min) {
+    throw new UsageError(`Missing ${spec.positionals.name}`);
+  }
+  if (command.positionals.length > max) {
+    throw new UsageError(
+      `Unexpected argument: ${command.positionals[max]} (quote titles with spaces)`,
+    );
+  }
+  return command;
+}
+
+/** The tool call for a command line. `now` anchors `today`. */
+export function buildRequest(words: string[], now = new Date()): ToolRequest {
+  const command = parseCommand(words);
+  return COMMANDS[command.name].build(command, now);
+}
+
+/** Aligned columns with a dashed rule under the header */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+  return [
+    line(headers),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(line),
+  ].join('\n');
+}
+
+const MAX_TITLE = 50;
+
+/** `2026-06-15 14:30` for timed due dates, `2026-06-15` for all-day ones */
+function shortDue(reminder: QueriedReminder): string {
+  if (!reminder.dueDate) return '';
+  return reminder.dueDateIncludesTime === false
+    ? reminder.dueDate.slice(0, 10)
+    : reminder.dueDate.slice(0, 16).replace('T', ' ');
+}
+
+export function formatReminders(reminders: QueriedReminder[]): string {
+  if (reminders.length === 0) return 'No reminders';
+  const showList = reminders.some((r) => r.listName !== undefined);
+  const headers = ['ID', 'Title', ...(showList ? ['List'] : []), 'Due'];
+  headers.push('Priority', 'Done');
+  const rows = reminders.map((r) => {
+    const title =
+      r.title.length > MAX_TITLE
+        ? `${r.title.slice(0, MAX_TITLE - 1)}…`
+        : r.title;
+    return [
+      r.id,
+      title,
+      ...(showList ? [r.listName ?? ''] : []),
+      shortDue(r),
+      r.priority && r.priority !== 'none' ? r.priority : '',
+      r.isCompleted ? 'x' : '',
+    ];
+  });
+  return formatTable(headers, rows);
+}
+
+function isReminderArray(value: unknown): value is QueriedReminder[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (item) =>
+        item !== null &&
+        typeof item === 'object' &&
+        typeof item.id === 'string' &&
+        typeof item.title === 'string',
+    )
+  );
+}
+
+/** Human-readable output for a tool's result */
+export function formatResult(tool: string, result: unknown): string {
+  switch (tool) {
+    case 'get_lists': {
+      const lists = result as ReminderListOutput[];
+      return formatTable(
+        ['Name', 'Default', 'ID'],
+        lists.map((l) => [l.name, l.isDefault ? 'yes' : '', l.id]),
+      );
+    }
+    case 'create_list': {
+      const list = result as ReminderListOutput;
+      return `Created list "${list.name}" (${list.id})`;
+    }
+    case 'create_reminders':
+    case 'update_reminders': {
+      const partial = result as Exclude<
+        CreateRemindersResult | UpdateRemindersResult,
+        unknown[]
+      >;
+      if (Array.isArray(result)) return formatReminders(result);
+      const done = 'created' in partial ? partial.created : partial.updated;
+      return [
+        formatReminders(done),
+        ...partial.failed.map(
+          (f) => `Failed ${'id' in f ? f.id : `#${f.index}`}: ${f.error}`,
+        ),
+      ].join('\n');
+    }
+    case 'delete_reminders': {
+      const {deleted, failed} = result as DeleteRemindersResult;
+      return [
+        `Deleted ${deleted.length} reminder(s)`,
+        ...failed.map((f) => `Failed ${f.id}: ${f.error}`),
+      ].join('\n');
+    }
+    default:
+      // query_reminders; JMESPath queries can return any JSON
+      return isReminderArray(result)
+        ? formatReminders(result)
+        : JSON.stringify(result, null, 2);
+  }
+}
+
+/** Whether a result reports per-item failures (partial success) */
+function hasFailures(result: unknown): boolean {
+  const failed = (result as {failed?: unknown[]} | null)?.failed;
+  return Array.isArray(failed) && failed.length > 0;
+}
+
+/**
+ * Runs one command line and returns what to print. Rejects with UsageError
+ * or, when the tool fails, whatever `call` rejects with. `failed` is set
+ * when a batch partly failed; `warning` is for stderr.
+ */
+export async function runCommand(
+  call: ToolCaller,
+  words: string[],
+  options: {json?: boolean; now?: Date} = {},
+): Promise<{
+  output: string;
+  request: ToolRequest;
+  failed: boolean;
+  warning?: string;
+}> {
+  const request = buildRequest(words, options.now);
+  const result = await call(request.tool, request.args);
+  const view = request.view?.(result) ?? {
+    data: result,
+    text: formatResult(request.tool, result),
+  };
+  return {
+    output: options.json ? JSON.stringify(view.data, null, 2) : view.text,
+    request,
+    failed: hasFailures(result),
+    warning: view.warning,
+  };
+}
+
+/** callTool, rejecting with MCPToolCallError when the tool fails */
+export function callerFor(client: MCPClient): ToolCaller {
+  return async (name, args) => {
+    const result = await client.callTool(name, args as Record<string, unknown>);
+    if (!Array.isArray(result) && result._isError) {
+      throw new MCPToolCallError(
+        name,
+        args as Record<string, unknown>,
+        String(result.error),
+      );
+    }
+    return result;
+  };
+}
+
+/**
+ * REPL completion: command names first, then the command's flags, list
+ * names after `--list`, and field names after `--clear`. List names with
+ * spaces complete quoted.
+ */
+export function completeLine(
+  line: string,
+  listNames: string[],
+): [string[], string] {
+  const scanned = scan(line);
+  const {partial} = scanned;
+  const words = partial ? scanned.words.slice(0, -1) : scanned.words;
+
+  const matching = (candidates: string[], prefix: string) =>
+    candidates.filter((c) => c.startsWith(prefix));
+
+  if (words.length === 0) {
+    const names = [...Object.keys(COMMANDS), ...REPL_COMMANDS];
+    return [matching(names, partial), partial];
+  }
+
+  const spec = COMMANDS[words[0]];
+  if (!spec) return [[], partial];
+  const previous = words.at(-1);
+
+  if (previous === '--list' && spec.options.includes('list')) {
+    const typed = partial.replace(/^["']/, '').toLowerCase();
+    const quote = partial.startsWith("'") ? "'" : '"';
+    const hits = listNames
+      .filter((name) => name.toLowerCase().startsWith(typed))
+      .map((name) =>
+        /[\s"'\\]/.test(name) || partial.startsWith(quote)
+          ? `${quote}${name.replaceAll('\\', '\\\\').replaceAll(quote, `\\${quote}`)}${quote}`
+          : name,
+      );
+    return [hits, partial];
+  }
+  if (previous === '--clear' && spec.options.includes('clear')) {
+    return [matching(Object.keys(CLEARABLE), partial), partial];
+  }
+  if (partial.startsWith('-')) {
+    const flags = [...spec.options, ...(spec.switches ?? [])].map(
+      (flag) => `--${flag}`,
+    );
+    return [matching(flags, partial), partial];
+  }
+  return [[], partial];
+}
+
+export function usage(): string {
+  return [
+    'Commands:',
+    ...Object.values(COMMANDS).map((spec) => `  ${spec.usage}`),
+  ].join('\n');
+}
+
+async function listNamesOf(call: ToolCaller): Promise<string[]> {
+  const lists = (await call('get_lists', {})) as ReminderListOutput[];
+  return lists.map((l) => l.name);
+}
+
+/**
+ * Prints an error from a command; returns the exit code it maps to. Other
+ * errors are rethrown, unless `keepGoing` (the REPL): then they are printed
+ * with their stack so one bad command doesn't end the session.
+ */
+function report(error: unknown, keepGoing = false): number {
+  if (error instanceof UsageError) {
+    console.error(error.message);
+    return 2;
+  }
+  if (error instanceof MCPToolCallError) {
+    console.error(error.message);
+    return 1;
+  }
+  if (!keepGoing) throw error;
+  console.error('Command failed:', error);
+  return 1;
+}
+
+/** Reads commands from `input` (stdin) until it ends or `exit`. */
+export async function repl(
+  call: ToolCaller,
+  json: boolean,
+  input: NodeJS.ReadableStream = process.stdin,
+): Promise<void> {
+  let listNames = await listNamesOf(call);
+  const rl = createInterface({
+    input,
+    output: process.stdout,
+    completer: (line: string) => completeLine(line, listNames),
+  });
+  // Piped input (scripts, tests) gets output only, no prompts
+  const interactive = Boolean((input as NodeJS.ReadStream).isTTY);
+  const prompt = () => interactive && rl.prompt();
+  rl.setPrompt('reminders> ');
+  if (interactive) {
+    console.log('Type help for commands, Tab to complete, exit to quit.');
+  }
+  prompt();
+
+  for await (const line of rl) {
+    let words: string[] = [];
+    try {
+      words = tokenize(line);
+    } catch (error) {
+      report(error, true);
+    }
+    const [name] = words;
+    if (name === 'exit' || name === 'quit') break;
+    if (name === 'help') {
+      console.log(usage());
+    } else if (name) {
+      try {
+        const {output, request, warning} = await runCommand(call, words, {
+          json,
+        });
+        console.log(output);
+        if (warning) console.error(warning);
+        if (request.tool === 'create_list' || request.tool === 'get_lists') {
+          listNames = await listNamesOf(call);
+        }
+      } catch (error) {
+        report(error, true);
+      }
+    }
+    prompt();
+  }
+  rl.close();
+}
+
+function parseArgs(args: string[]) {
+  const options = {
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+    words: [] as string[],
+  };
+
+  // Global flags come before the command
+  let i = 0;
+  for (; i < args.length && args[i].startsWith('--'); i++) {
+    switch (args[i]) {
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option: ${args[i]}`);
+    }
+  }
+  options.words = args.slice(i);
+  if (options.words.length === 0) throw new UsageError('Missing command');
+  const [name] = options.words;
+  if (name !== 'repl' && name !== 'help') parseCommand(options.words);
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/cli.ts [--mock] [--test-mode] [--json] <command> [args]',
+    );
+    console.error(usage());
+    process.exit(2);
+  }
+  if (options.words[0] === 'help') {
+    console.log(usage());
+    return;
+  }
+
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+    validateArgs: true,
+  });
+  const call = callerFor(client);
+  try {
+    if (options.words[0] === 'repl') {
+      await repl(call, options.json);
+      return;
+    }
+    try {
+      const {output, failed, warning} = await runCommand(call, options.words, {
+        json: options.json,
+      });
+      console.log(output);
+      if (warning) console.error(warning);
+      if (failed) process.exitCode = 1;
+    } catch (error) {
+      process.exitCode = report(error);
+    }
+  } finally {
+    await client.cleanup();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('CLI failed:', error);
+    process.exit(1);
+  });
+}
@@ -6,7 +6,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('CRUD operations (isolated to test list)', () => {
   let client: MCPClient;
@@ -30,7 +30,7 @@ describe('CRUD operations (isolated to test list)', () => {
     expect(Array.isArray(result)).toBe(true);
     const reminders = result as Array<{id: string; title: string}>;
     expect(reminders.length).toBe(1);
-    expect(reminders[0].id).toBeDefined();
+    expect(validators.reminders('encoded')(result)).toEqual([]);
     expect(reminders[0].title).toBe('Test Reminder 1');
   });
 
@@ -53,9 +53,11 @@ describe('CRUD operations (isolated to test list)', () => {
       dueDate: string;
     }>;
     expect(reminders.length).toBe(1);
-    expect(reminders[0].id).toBeDefined();
+    expect(validators.reminders('encoded')(result)).toEqual([]);
     expect(reminders[0].notes).toBe('These are test notes');
-    expect(reminders[0].dueDate).toBeDefined();
+    expect(Date.parse(reminders[0].dueDate)).toBe(
+      Date.parse('2025-12-31T10:00:00-05:00'),
+    );
   });
 
   test('queries reminders in test list', async () => {
@@ -147,8 +149,7 @@ describe('CRUD operations (isolated to test list)', () => {
       ids: [reminderId],
     });
 
-    expect(deleteResult.deleted).toBeDefined();
-    expect(Array.isArray(deleteResult.deleted)).toBe(true);
+    expect(validators.deleteRemindersResult(deleteResult)).toEqual([]);
     expect(deleteResult.deleted).toContain(reminderId);
   });
 
@@ -159,7 +160,7 @@ describe('CRUD operations (isolated to test list)', () => {
     });
 
     expect(result._isError).toBeUndefined();
-    expect(result.id).toBeDefined();
+    expect(validators.reminderList(result)).toEqual([]);
     expect(result.name).toBe(`${prefix} - Another Test List`);
     expect(result.isDefault).toBe(false);
   });
@@ -0,0 +1,186 @@
+/**
+ * Tests for csv.ts: RFC 4180 parsing, export with a column mapping, and
+ * imports whose row errors point back to CSV line numbers.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+  CsvError,
+  csvToReminderInputs,
+  exportToCSV,
+  importCSV,
+  parseCSV,
+} from './csv';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import type {ExportData} from './reference-models';
+
+describe('CSV import/export', () => {
+  let client: MCPClient;
+  let dir: string;
+  let listName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    dir = mkdtempSync(join(tmpdir(), 'csv-'));
+    listName = await client.createTestList();
+  });
+
+  afterAll(async () => {
+    rmSync(dir, {recursive: true, force: true});
+    await client.cleanup();
+  });
+
+  test('parses quoted fields and tracks the line each record starts on', () => {
+    const records = parseCSV(
+      '\uFEFFTitle,Notes\r\n' +
+        '"Buy milk, eggs","He said ""now"""\r\n' +
+        '\r\n' +
+        'Plan trip,"Day 1\nDay 2"\n' +
+        'Last,\n',
+    );
+
+    expect(records).toEqual([
+      {line: 1, values: ['Title', 'Notes']},
+      {line: 2, values: ['Buy milk, eggs', 'He said "now"']},
+      {line: 4, values: ['Plan trip', 'Day 1\nDay 2']},
+      {line: 6, values: ['Last', '']},
+    ]);
+    expect(() => parseCSV('Title\n"open')).toThrow(
+      'Unterminated quoted field starting on line 2',
+    );
+  });
+
+  test('exports with a custom column mapping and imports it back', async () => {
+    await client.tools.createReminders({
+      reminders: [
+        {
+          title: 'Quarterly "review", part 1',
+          list: {name: listName},
+          notes: 'Bring:\n- numbers',
+          dueDate: '2026-07-01',
+          dueDateIncludesTime: false,
+          priority: 'medium',
+          url: 'https://example.com/q3',
+        },
+        {
+          title: 'Timed',
+          list: {name: listName},
+          dueDate: '2026-07-02T09:30:00Z',
+        },
+      ],
+    });
+    const path = join(dir, 'export.json');
+    await client.tools.exportReminders({path, lists: [{name: listName}]});
+
+    const mapping = {title: 'Task', dueDate: 'Due'};
+    const csv = exportToCSV(loadExport(path), mapping);
+    const [header, first] = csv.split('\r\n');
+    expect(header).toBe('Task,Notes,List,Due,Priority,URL');
+    expect(first).toBe(
+      `"Quarterly ""review"", part 1","Bring:\n- numbers",${listName},2026-07-01,medium,https://example.com/q3`,
+    );
+
+    const rows = csvToReminderInputs(csv, {mapping});
+    expect(rows.map((r) => r.input)).toEqual([
+      {
+        title: 'Quarterly "review", part 1',
+        list: {name: listName},
+        notes: 'Bring:\n- numbers',
+        dueDate: '2026-07-01',
+        dueDateIncludesTime: false,
+        priority: 'medium',
+        url: 'https://example.com/q3',
+      },
+      {
+        title: 'Timed',
+        list: {name: listName},
+        dueDate: expect.stringMatching(/^2026-07-02T/),
+        dueDateIncludesTime: true,
+      },
+    ]);
+    expect(rows.map((r) => r.line)).toEqual([2, 4]);
+  });
+
+  test('values that look like formulas are exported as text', () => {
+    const reminder = {
+      id: 'R1',
+      title: '=HYPERLINK("https://example.com","click")',
+      notes: '-1 day, +2 hours',
+      listName: '@home',
+      isCompleted: false,
+      priority: 'none',
+    };
+    const data = {reminders: [reminder]} as unknown as ExportData;
+    const csv = exportToCSV(data);
+    expect(csv.split('\r\n')[1]).toBe(
+      `"'=HYPERLINK(""https://example.com"",""click"")","'-1 day, +2 hours",'@home,,,`,
+    );
+
+    const [row] = csvToReminderInputs(csv);
+    expect(row.input).toEqual({
+      title: '=HYPERLINK("https://example.com","click")',
+      list: {name: '@home'},
+      notes: '-1 day, +2 hours',
+    });
+    // Only a quote in front of a formula character is removed
+    expect(csvToReminderInputs("Title\n'quoted\n")[0].input?.title).toBe(
+      "'quoted",
+    );
+  });
+
+  test('reports invalid rows and server failures by CSV line', async () => {
+    const csv = [
+      'Title,List,Priority,Due Date,URL',
+      `Valid,${listName},High,,`,
+      `"Multi\nline",${listName},urgent,,`,
+      `,${listName},,,`,
+      `Bad date,${listName},,next week,`,
+      `Bad url,${listName},,,not a url`,
+      'New list,CSV Import Inbox,low,2026-08-01,',
+    ].join('\n');
+
+    const result = await importCSV(client, csv);
+
+    expect(result.created.map((r) => r.title)).toEqual(['Valid', 'New list']);
+    expect(result.created[0].priority).toBe('high');
+    expect(result.lists.created).toEqual(['CSV Import Inbox']);
+    expect(result.failed).toEqual([
+      {
+        index: 1,
+        line: 3,
+        error: "Invalid priority 'urgent' (expected none, low, medium or high)",
+      },
+      {index: 2, line: 5, error: 'Title is empty'},
+      {
+        index: 3,
+        line: 6,
+        error:
+          "Invalid due date 'next week' (expected YYYY-MM-DD or ISO 8601 date-time)",
+      },
+      {index: 4, line: 7, error: expect.stringContaining('Invalid URL')},
+    ]);
+  });
+
+  test('dry run validates without writing', async () => {
+    const csv = 'Title,List\nDry,Never Created List\n';
+    const result = await importCSV(client, csv, {dryRun: true});
+
+    expect(result).toEqual({
+      created: [],
+      failed: [],
+      lists: {created: ['Never Created List']},
+    });
+    const lists = await client.tools.getLists();
+    expect(lists.map((l) => l.name)).not.toContain('Never Created List');
+  });
+
+  test('requires a title column', () => {
+    expect(() =>
+      csvToReminderInputs('Name,Notes\nx,y\n', {mapping: {title: 'Task'}}),
+    ).toThrow(CsvError);
+  });
+});
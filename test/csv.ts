@@ -0,0 +1,507 @@
+#!/usr/bin/env bun
+
+/**
+ * CSV export of export_reminders files and CSV import through
+ * create_reminders, for editing task lists in a spreadsheet.
+ *
+ * Columns are mapped to fields by header name. The default mapping is
+ * Title, Notes, List, Due Date, Priority, URL; override a column with
+ * `--map <field>=<header>` (fields: title, notes, list, dueDate, priority, url).
+ *
+ * Exported values that start with =, +, -, @, a tab or a carriage return
+ * get a leading ' so spreadsheets show them as text instead of running
+ * them as formulas; import removes it again.
+ *
+ * Due dates are ISO 8601; a bare `YYYY-MM-DD` is an all-day reminder.
+ * Priority must be none, low, medium or high (any case) or empty.
+ * Missing lists are created before importing.
+ *
+ * Import errors use the create_reminders partial-failure shape, with the
+ * CSV line each row started on: {created, failed: [{index, line, error}]}.
+ *
+ * Usage:
+ *   bun test/csv.ts export <export.json> [-o out.csv] [--map field=Header]...
+ *   bun test/csv.ts import <file.csv> [--map field=Header]... [--list <default>]
+ *                          [--dry-run] [--test-mode] [--mock] [--json]
+ */
+
+import {readFileSync, writeFileSync} from 'fs';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import {type ExportData, fromISO8601, Priority} from './reference-models';
+import {targetListName} from './restore-export';
+import type {EncodedReminder} from './tool-results';
+import type {CreateRemindersArgs} from './tool-types.generated';
+
+/** create_reminders batch size */
+const BATCH_SIZE = 50;
+
+export type CsvField =
+  | 'title'
+  | 'notes'
+  | 'list'
+  | 'dueDate'
+  | 'priority'
+  | 'url';
+
+/** Field → CSV header. Export writes the columns in this order. */
+export type ColumnMapping = Record<CsvField, string>;
+
+export const DEFAULT_MAPPING: ColumnMapping = {
+  title: 'Title',
+  notes: 'Notes',
+  list: 'List',
+  dueDate: 'Due Date',
+  priority: 'Priority',
+  url: 'URL',
+};
+
+export interface CsvImportOptions {
+  mapping?: Partial<ColumnMapping>;
+  /** List for rows with an empty list column. Default: the server's default list */
+  defaultList?: string;
+  dryRun?: boolean;
+  /** Prefix list names with the test list prefix */
+  testMode?: boolean;
+}
+
+export interface CsvImportResult {
+  /** Reminders created, in row order (empty on a dry run) */
+  created: EncodedReminder[];
+  /** `index` is the 0-based data row; `line` is where the row starts in the file */
+  failed: Array<{index: number; line: number; error: string}>;
+  lists: {created: string[]};
+}
+
+/** A file-level problem (unterminated quote, missing title column). */
+export class CsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvError';
+  }
+}
+
+type ReminderInput = CreateRemindersArgs['reminders'][number];
+
+// CSV encoding (RFC 4180)
+
+function quote(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Characters a spreadsheet reads as the start of a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeFormula(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+export interface CsvRecord {
+  /** 1-based line the record starts on */
+  line: number;
+  values: string[];
+}
+
+/** Parses RFC 4180 CSV: quoted fields may contain commas, quotes and newlines. */
+export function parseCSV(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  // A leading BOM is common in spreadsheet exports
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      values.push(field);
+      records.push({line: recordLine, values});
+      values = [];
+      field = '';
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new CsvError(
+      `Unterminated quoted field starting on line ${recordLine}`,
+    );
+  }
+  if (field !== '' || values.length > 0) {
+    values.push(field);
+    records.push({line: recordLine, values});
+  }
+
+  // Blank lines are not records
+  return records.filter((r) => r.values.length > 1 || r.values[0] !== '');
+}
+
+// Export
+
+function fieldValue(reminder: EncodedReminder, field: CsvField): string {
+  switch (field) {
+    case 'title':
+      return reminder.title;
+    case 'notes':
+      return reminder.notes ?? '';
+    case 'list':
+      return reminder.listName;
+    case 'dueDate':
+      if (!reminder.dueDate) return '';
+      return reminder.dueDateIncludesTime === false
+        ? reminder.dueDate.slice(0, 10)
+        : reminder.dueDate;
+    case 'priority':
+      return reminder.priority === 'none' ? '' : reminder.priority;
+    case 'url':
+      return reminder.url ?? '';
+  }
+}
+
+export function exportToCSV(
+  data: ExportData,
+  mapping: Partial<ColumnMapping> = {},
+): string {
+  const columns = Object.entries({...DEFAULT_MAPPING, ...mapping}) as Array<
+    [CsvField, string]
+  >;
+  const rows = [
+    columns.map(([, header]) => quote(header)),
+    ...data.reminders.map((reminder) =>
+      columns.map(([field]) =>
+        quote(escapeFormula(fieldValue(reminder, field))),
+      ),
+    ),
+  ];
+  return rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+// Import
+
+/** One data row: create_reminders input, or why the row can't be imported */
+export interface CsvRow {
+  index: number;
+  line: number;
+  input?: ReminderInput;
+  error?: string;
+}
+
+function rowToInput(
+  get: (field: CsvField) => string,
+  options: CsvImportOptions,
+): ReminderInput {
+  const title = get('title');
+  if (!title) throw new Error('Title is empty');
+  const input: ReminderInput = {title};
+
+  const listName = get('list') || options.defaultList;
+  if (listName) {
+    input.list = {name: targetListName(listName, options.testMode ?? false)};
+  }
+
+  const notes = get('notes');
+  if (notes) input.notes = notes;
+
+  const dueDate = get('dueDate');
+  if (dueDate) {
+    if (!fromISO8601(dueDate)) {
+      throw new Error(
+        `Invalid due date '${dueDate}' (expected YYYY-MM-DD or ISO 8601 date-time)`,
+      );
+    }
+    input.dueDate = dueDate;
+    input.dueDateIncludesTime = dueDate.length > 10;
+  }
+
+  const priority = get('priority').toLowerCase();
+  if (priority) {
+    const parsed = Priority.fromString(priority);
+    if (!parsed) {
+      throw new Error(
+        `Invalid priority '${get('priority')}' (expected none, low, medium or high)`,
+      );
+    }
+    input.priority = parsed;
+  }
+
+  const url = get('url');
+  if (url) input.url = url;
+  return input;
+}
+
+/** Maps each data row to create_reminders input, or the reason it can't be imported. */
+export function csvToReminderInputs(
+  text: string,
+  options: CsvImportOptions = {},
+): CsvRow[] {
+  const mapping = {...DEFAULT_MAPPING, ...options.mapping};
+  const [header, ...records] = parseCSV(text);
+  if (!header) throw new CsvError('CSV file is empty');
+
+  const headers = header.values.map((h) => h.trim().toLowerCase());
+  const columns = new Map<CsvField, number>();
+  for (const [field, name] of Object.entries(mapping) as Array<
+    [CsvField, string]
+  >) {
+    const column = headers.indexOf(name.trim().toLowerCase());
+    if (column !== -1) columns.set(field, column);
+  }
+  if (!columns.has('title')) {
+    throw new CsvError(
+      `No '${mapping.title}' column for titles (header: ${header.values.join(', ')})`,
+    );
+  }
+
+  return records.map((record, index) => {
+    const get = (field: CsvField) => {
+      const column = columns.get(field);
+      return column === undefined
+        ? ''
+        : unescapeFormula((record.values[column] ?? '').trim());
+    };
+    try {
+      return {index, line: record.line, input: rowToInput(get, options)};
+    } catch (error) {
+      return {index, line: record.line, error: (error as Error).message};
+    }
+  });
+}
+
+/**
+ * Import CSV rows with create_reminders in batches. Invalid rows are
+ * reported without being sent; server-side failures are mapped back to
+ * their rows.
+ */
+export async function importCSV(
+  client: MCPClient,
+  text: string,
+  options: CsvImportOptions = {},
+): Promise<CsvImportResult> {
+  const rows = csvToReminderInputs(text, options);
+  const result: CsvImportResult = {
+    created: [],
+    failed: [],
+    lists: {created: []},
+  };
+
+  const valid: Array<Required<Pick<CsvRow, 'index' | 'line' | 'input'>>> = [];
+  for (const row of rows) {
+    if (row.input) {
+      valid.push({index: row.index, line: row.line, input: row.input});
+    } else {
+      result.failed.push({index: row.index, line: row.line, error: row.error!});
+    }
+  }
+
+  const existing = new Set(
+    (await client.tools.getLists()).map((l) => l.name.toLowerCase()),
+  );
+  for (const {input} of valid) {
+    const name = input.list?.name;
+    if (name && !existing.has(name.toLowerCase())) {
+      existing.add(name.toLowerCase());
+      result.lists.created.push(name);
+    }
+  }
+
+  if (!options.dryRun) {
+    for (const name of result.lists.created) {
+      await client.tools.createList({name});
+    }
+    for (let start = 0; start < valid.length; start += BATCH_SIZE) {
+      await createBatch(client, valid.slice(start, start + BATCH_SIZE), result);
+    }
+  }
+
+  result.failed.sort((a, b) => a.index - b.index);
+  return result;
+}
+
+async function createBatch(
+  client: MCPClient,
+  batch: Array<{index: number; line: number; input: ReminderInput}>,
+  result: CsvImportResult,
+): Promise<void> {
+  let response;
+  try {
+    response = await client.tools.createReminders({
+      reminders: batch.map((row) => row.input),
+    });
+  } catch (error) {
+    for (const {index, line} of batch) {
+      result.failed.push({index, line, error: (error as Error).message});
+    }
+    return;
+  }
+
+  // {created, failed} on partial failure; indexes are within the batch
+  if (Array.isArray(response)) {
+    result.created.push(...response);
+    return;
+  }
+  result.created.push(...response.created);
+  for (const failure of response.failed) {
+    const {index, line} = batch[failure.index];
+    result.failed.push({index, line, error: failure.error});
+  }
+}
+
+export function formatImportResult(
+  result: CsvImportResult,
+  dryRun: boolean,
+  total: number,
+): string {
+  const lines = [dryRun ? 'Dry run: nothing was written.\n' : ''];
+  for (const name of result.lists.created) {
+    lines.push(`${dryRun ? 'Would create' : 'Created'} list ${name}`);
+  }
+  lines.push(
+    dryRun
+      ? `Would create ${total - result.failed.length} reminder(s)`
+      : `Created ${result.created.length} reminder(s)`,
+  );
+  if (result.failed.length > 0) {
+    lines.push(`Failed ${result.failed.length} row(s):`);
+    for (const f of result.failed) lines.push(`  ! line ${f.line}: ${f.error}`);
+  }
+  return lines.filter((line) => line !== '').join('\n');
+}
+
+// CLI
+
+const FIELDS = Object.keys(DEFAULT_MAPPING) as CsvField[];
+
+function parseArgs(argv: string[]) {
+  const [command, ...rest] = argv;
+  const options: CsvImportOptions & {
+    command?: string;
+    path?: string;
+    output?: string;
+    mapping: Partial<ColumnMapping>;
+    mock: boolean;
+    json: boolean;
+  } = {
+    command,
+    mapping: {},
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--map': {
+        const [field, header] = (rest[++i] ?? '').split(/=(.*)/);
+        if (!FIELDS.includes(field as CsvField) || !header) {
+          throw new Error(
+            `Invalid --map '${rest[i]}' (expected <field>=<header>, field one of ${FIELDS.join(', ')})`,
+          );
+        }
+        options.mapping[field as CsvField] = header;
+        break;
+      }
+      case '-o':
+        options.output = rest[++i];
+        break;
+      case '--list':
+        options.defaultList = rest[++i];
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (arg.startsWith('-') || options.path) {
+          throw new Error(`Unexpected argument: ${arg}`);
+        }
+        options.path = arg;
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (options.command !== 'export' && options.command !== 'import') {
+      throw new Error(`Unknown command: ${options.command ?? '(none)'}`);
+    }
+    if (!options.path) throw new Error('Missing input file');
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error('Usage: bun test/csv.ts export <export.json> [-o out.csv]');
+    console.error('       bun test/csv.ts import <file.csv> [options]');
+    process.exit(2);
+  }
+
+  if (options.command === 'export') {
+    const csv = exportToCSV(loadExport(options.path), options.mapping);
+    if (options.output) {
+      writeFileSync(options.output, csv);
+      console.log(`Wrote ${options.output}`);
+    } else {
+      process.stdout.write(csv);
+    }
+    return;
+  }
+
+  const text = readFileSync(options.path, 'utf8');
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+  });
+  try {
+    const result = await importCSV(client, text, options);
+    const total = csvToReminderInputs(text, options).length;
+    console.log(
+      options.json
+        ? JSON.stringify(result, null, 2)
+        : formatImportResult(result, options.dryRun ?? false, total),
+    );
+    if (result.failed.length > 0) process.exitCode = 1;
+  } finally {
+    await client.cleanup();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof CsvError ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Tests for diff-exports.ts: two real exports taken before and after a set
+ * of changes, compared through the library and the CLI.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {spawnSync} from 'bun';
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+  diffExports,
+  type ExportDiff,
+  formatDiff,
+  loadExport,
+} from './diff-exports';
+import {MCPClient} from './mcp-client';
+
+describe('diff-exports', () => {
+  let client: MCPClient;
+  let dir: string;
+  let beforePath: string;
+  let afterPath: string;
+  let diff: ExportDiff;
+  const ids: Record<string, string> = {};
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    dir = mkdtempSync(join(tmpdir(), 'diff-exports-'));
+    beforePath = join(dir, 'before.json');
+    afterPath = join(dir, 'after.json');
+
+    const listName = await client.createTestList();
+    const created = await client.tools.createReminders({
+      reminders: ['Rename me', 'Complete me', 'Delete me', 'Leave me'].map(
+        (title) => ({title, list: {name: listName}}),
+      ),
+    });
+    for (const reminder of created as Array<{id: string; title: string}>) {
+      ids[reminder.title] = reminder.id;
+    }
+
+    await client.tools.exportReminders({path: beforePath});
+
+    await client.tools.updateReminders({
+      reminders: [
+        {id: ids['Rename me'], title: 'Renamed', priority: 'high'},
+        {
+          id: ids['Complete me'],
+          completedDate: '2026-10-18T09:00:00Z',
+          alarms: [{type: 'relative', offset: 600}],
+        },
+      ],
+    });
+    await client.tools.deleteReminders({ids: [ids['Delete me']]});
+    await client.tools.createList({name: 'Added List'});
+    await client.tools.createReminders({
+      reminders: [{title: 'Added reminder', list: {name: 'Added List'}}],
+    });
+
+    await client.tools.exportReminders({path: afterPath});
+    diff = diffExports(loadExport(beforePath), loadExport(afterPath));
+  });
+
+  afterAll(async () => {
+    rmSync(dir, {recursive: true, force: true});
+    await client.cleanup();
+  });
+
+  test('reports added and removed lists and reminders', () => {
+    expect(diff.lists.added.map((l) => l.name)).toEqual(['Added List']);
+    expect(diff.lists.removed).toEqual([]);
+    expect(diff.reminders.added.map((r) => r.title)).toEqual([
+      'Added reminder',
+    ]);
+    expect(diff.reminders.removed.map((r) => r.id)).toEqual([ids['Delete me']]);
+  });
+
+  test('reports field-level changes by reminder id', () => {
+    const byId = new Map(diff.reminders.changed.map((c) => [c.id, c]));
+    expect(byId.size).toBe(2);
+
+    expect(byId.get(ids['Rename me'])?.changes).toEqual([
+      {field: 'title', before: 'Rename me', after: 'Renamed'},
+      {field: 'priority', before: 'none', after: 'high'},
+    ]);
+
+    const completed = byId.get(ids['Complete me'])!;
+    expect(completed.changes.map((c) => c.field)).toEqual([
+      'alarms',
+      'completion',
+    ]);
+    expect(completed.changes[1].before).toEqual({
+      isCompleted: false,
+      completionDate: null,
+    });
+    expect(
+      (completed.changes[1].after as {isCompleted: boolean}).isCompleted,
+    ).toBe(true);
+  });
+
+  test('formats a human-readable report', () => {
+    const report = formatDiff(diff);
+
+    expect(report).toContain('Lists: 1 added, 0 removed, 0 renamed');
+    expect(report).toContain('Reminders: 1 added, 1 removed, 2 changed');
+    expect(report).toContain('  + [Added List] Added reminder');
+    expect(report).toContain('      title: "Rename me" → "Renamed"');
+    expect(report).toContain('      alarms: (none) → 600s before');
+    expect(report).toMatch(/completion: incomplete → completed \d{4}-/);
+  });
+
+  test('switching between all-day and timed is a change', () => {
+    const before = loadExport(afterPath);
+    const due = (dueDateIncludesTime: boolean) => ({
+      ...before,
+      reminders: before.reminders.map((r) =>
+        r.id === ids['Leave me']
+          ? {...r, dueDate: '2026-11-01T00:00:00Z', dueDateIncludesTime}
+          : r,
+      ),
+    });
+    const switched = diffExports(due(true), due(false));
+
+    expect(switched.reminders.changed).toEqual([
+      {
+        id: ids['Leave me'],
+        title: 'Leave me',
+        listName: expect.any(String),
+        changes: [{field: 'dueDateIncludesTime', before: true, after: false}],
+      },
+    ]);
+    expect(formatDiff(switched)).toContain(
+      '      dueDateIncludesTime: timed → all day',
+    );
+  });
+
+  test('identical exports have no differences', () => {
+    const same = diffExports(loadExport(afterPath), loadExport(afterPath));
+    expect(formatDiff(same)).toEndWith('No differences.');
+  });
+
+  test('CLI prints JSON and exits 1 when exports differ', () => {
+    const result = spawnSync([
+      process.execPath,
+      `${import.meta.dir}/diff-exports.ts`,
+      beforePath,
+      afterPath,
+      '--json',
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    const output = JSON.parse(result.stdout.toString()) as ExportDiff;
+    expect(output.reminders.changed.length).toBe(2);
+  });
+
+  test('rejects files with an unsupported exportVersion', () => {
+    const path = join(dir, 'future.json');
+    writeFileSync(path, JSON.stringify({exportVersion: '2.0'}));
+
+    expect(() => loadExport(path)).toThrow('unsupported exportVersion "2.0"');
+  });
+});
@@ -0,0 +1,285 @@
+#!/usr/bin/env bun
+
+/**
+ * Compare two export_reminders files (ExportData, exportVersion "1.0").
+ * Reports lists and reminders that were added or removed, and field-level
+ * changes to reminders matched by id.
+ *
+ * Usage: bun test/diff-exports.ts <old.json> <new.json> [--json]
+ *
+ * Exit status follows diff(1): 0 = no differences, 1 = differences,
+ * 2 = error (unreadable or invalid export file).
+ */
+
+import {readFileSync} from 'fs';
+import type {ExportData, ReminderListOutput} from './reference-models';
+import type {EncodedReminder} from './tool-results';
+import {ValidationError, validators} from './validators';
+
+const SUPPORTED_EXPORT_VERSION = '1.0';
+
+export type DiffField =
+  | 'title'
+  | 'notes'
+  | 'list'
+  | 'dueDate'
+  | 'dueDateIncludesTime'
+  | 'priority'
+  | 'alarms'
+  | 'recurrenceRules'
+  | 'completion';
+
+export interface FieldChange {
+  field: DiffField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ReminderChange {
+  id: string;
+  title: string;
+  listName: string;
+  changes: FieldChange[];
+}
+
+export interface ExportDiff {
+  from: {exportDate: string};
+  to: {exportDate: string};
+  lists: {
+    added: ReminderListOutput[];
+    removed: ReminderListOutput[];
+    renamed: Array<{id: string; before: string; after: string}>;
+  };
+  reminders: {
+    added: EncodedReminder[];
+    removed: EncodedReminder[];
+    changed: ReminderChange[];
+  };
+}
+
+/** Read and validate an export file. */
+export function loadExport(path: string): ExportData {
+  const data = JSON.parse(readFileSync(path, 'utf8')) as ExportData;
+
+  if (data?.exportVersion !== SUPPORTED_EXPORT_VERSION) {
+    throw new Error(
+      `${path}: unsupported exportVersion ${JSON.stringify(data?.exportVersion)} (expected "${SUPPORTED_EXPORT_VERSION}")`,
+    );
+  }
+  const issues = validators.exportData(data);
+  if (issues.length > 0) {
+    throw new ValidationError(path, issues);
+  }
+  return data;
+}
+
+/** Key order independent comparison for alarm and recurrence objects */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : v,
+  );
+}
+
+function completionOf(reminder: EncodedReminder) {
+  return {
+    isCompleted: reminder.isCompleted,
+    completionDate: reminder.completionDate ?? null,
+  };
+}
+
+function compareReminders(
+  before: EncodedReminder,
+  after: EncodedReminder,
+): FieldChange[] {
+  const pairs: Array<[DiffField, unknown, unknown]> = [
+    ['title', before.title, after.title],
+    ['notes', before.notes ?? null, after.notes ?? null],
+    ['list', before.listName, after.listName],
+    ['dueDate', before.dueDate ?? null, after.dueDate ?? null],
+    [
+      'dueDateIncludesTime',
+      before.dueDateIncludesTime ?? null,
+      after.dueDateIncludesTime ?? null,
+    ],
+    ['priority', before.priority, after.priority],
+    ['alarms', before.alarms ?? [], after.alarms ?? []],
+    [
+      'recurrenceRules',
+      before.recurrenceRules ?? [],
+      after.recurrenceRules ?? [],
+    ],
+    ['completion', completionOf(before), completionOf(after)],
+  ];
+
+  return pairs
+    .filter(([, a, b]) => canonical(a) !== canonical(b))
+    .map(([field, a, b]) => ({field, before: a, after: b}));
+}
+
+export function diffExports(before: ExportData, after: ExportData): ExportDiff {
+  const beforeLists = new Map(before.lists.map((l) => [l.id, l]));
+  const afterLists = new Map(after.lists.map((l) => [l.id, l]));
+  const beforeReminders = new Map(before.reminders.map((r) => [r.id, r]));
+  const afterReminders = new Map(after.reminders.map((r) => [r.id, r]));
+
+  const renamed: ExportDiff['lists']['renamed'] = [];
+  for (const [id, list] of afterLists) {
+    const previous = beforeLists.get(id);
+    if (previous && previous.name !== list.name) {
+      renamed.push({id, before: previous.name, after: list.name});
+    }
+  }
+
+  const changed: ReminderChange[] = [];
+  for (const [id, reminder] of afterReminders) {
+    const previous = beforeReminders.get(id);
+    if (!previous) continue;
+    const changes = compareReminders(previous, reminder);
+    if (changes.length > 0) {
+      changed.push({
+        id,
+        title: reminder.title,
+        listName: reminder.listName,
+        changes,
+      });
+    }
+  }
+
+  return {
+    from: {exportDate: before.exportDate},
+    to: {exportDate: after.exportDate},
+    lists: {
+      added: after.lists.filter((l) => !beforeLists.has(l.id)),
+      removed: before.lists.filter((l) => !afterLists.has(l.id)),
+      renamed,
+    },
+    reminders: {
+      added: after.reminders.filter((r) => !beforeReminders.has(r.id)),
+      removed: before.reminders.filter((r) => !afterReminders.has(r.id)),
+      changed,
+    },
+  };
+}
+
+export function hasDifferences(diff: ExportDiff): boolean {
+  return (
+    diff.lists.added.length +
+      diff.lists.removed.length +
+      diff.lists.renamed.length +
+      diff.reminders.added.length +
+      diff.reminders.removed.length +
+      diff.reminders.changed.length >
+    0
+  );
+}
+
+// Human-readable output
+
+function formatValue(field: DiffField, value: unknown): string {
+  switch (field) {
+    case 'completion': {
+      const {isCompleted, completionDate} = value as {
+        isCompleted: boolean;
+        completionDate: string | null;
+      };
+      if (!isCompleted) return 'incomplete';
+      return completionDate ? `completed ${completionDate}` : 'completed';
+    }
+    case 'dueDateIncludesTime':
+      if (value === null) return '(none)';
+      return value ? 'timed' : 'all day';
+    case 'alarms': {
+      const alarms = value as Array<{
+        type: string;
+        offset?: number;
+        date?: string;
+      }>;
+      if (alarms.length === 0) return '(none)';
+      return alarms
+        .map((a) =>
+          a.type === 'relative' ? `${a.offset}s before` : `at ${a.date}`,
+        )
+        .join(', ');
+    }
+    case 'recurrenceRules': {
+      const rules = value as Array<{frequency: string; interval: number}>;
+      if (rules.length === 0) return '(none)';
+      return rules.map((r) => canonical(r)).join(', ');
+    }
+    default:
+      return value === null ? '(none)' : JSON.stringify(value);
+  }
+}
+
+export function formatDiff(diff: ExportDiff): string {
+  const lines: string[] = [
+    `Comparing export from ${diff.from.exportDate} to ${diff.to.exportDate}`,
+    '',
+  ];
+
+  if (!hasDifferences(diff)) {
+    lines.push('No differences.');
+    return lines.join('\n');
+  }
+
+  const {lists, reminders} = diff;
+  lines.push(
+    `Lists: ${lists.added.length} added, ${lists.removed.length} removed, ${lists.renamed.length} renamed`,
+  );
+  for (const list of lists.added) lines.push(`  + ${list.name}`);
+  for (const list of lists.removed) lines.push(`  - ${list.name}`);
+  for (const list of lists.renamed) {
+    lines.push(`  ~ ${list.before} → ${list.after}`);
+  }
+
+  lines.push(
+    '',
+    `Reminders: ${reminders.added.length} added, ${reminders.removed.length} removed, ${reminders.changed.length} changed`,
+  );
+  for (const r of reminders.added) lines.push(`  + [${r.listName}] ${r.title}`);
+  for (const r of reminders.removed) {
+    lines.push(`  - [${r.listName}] ${r.title}`);
+  }
+  for (const r of reminders.changed) {
+    lines.push(`  ~ [${r.listName}] ${r.title}`);
+    for (const change of r.changes) {
+      lines.push(
+        `      ${change.field}: ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`,
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const paths = args.filter((arg) => !arg.startsWith('--'));
+
+  if (paths.length !== 2) {
+    console.error(
+      'Usage: bun test/diff-exports.ts <old.json> <new.json> [--json]',
+    );
+    process.exit(2);
+  }
+
+  let diff: ExportDiff;
+  try {
+    diff = diffExports(loadExport(paths[0]), loadExport(paths[1]));
+  } catch (error) {
+    console.error(`Failed to compare exports: ${(error as Error).message}`);
+    process.exit(2);
+  }
+
+  console.log(json ? JSON.stringify(diff, null, 2) : formatDiff(diff));
+  process.exit(hasDifferences(diff) ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,212 @@
+/**
+ * Tests for differential.ts: the core scenario runs cleanly in mock mode,
+ * two runs normalize to the same outputs, and drift in each area shows up
+ * in the report. Mock vs real EventKit runs only on macOS with the built
+ * binary and AR_MCP_DIFFERENTIAL=1.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {existsSync} from 'fs';
+import {
+  compareRuns,
+  CORE_SCENARIO,
+  formatReport,
+  normalizeOutput,
+  runDifferential,
+  runScenario,
+  type ScenarioRun,
+  type ScenarioStep,
+} from './differential';
+import {MCPClient} from './mcp-client';
+
+describe('Differential scenario in mock mode', () => {
+  let left: MCPClient;
+  let right: MCPClient;
+
+  beforeAll(async () => {
+    left = await MCPClient.create();
+    right = await MCPClient.create();
+  });
+
+  afterAll(async () => {
+    await left.cleanup();
+    await right.cleanup();
+  });
+
+  test('every step succeeds', async () => {
+    const run = await runScenario(left, 'mock');
+    expect(run.outputs).toHaveLength(CORE_SCENARIO.length);
+    const failed = run.outputs.flatMap((output, i) =>
+      'error' in output ? [`${CORE_SCENARIO[i].name}: ${output.error}`] : [],
+    );
+    expect(failed).toEqual([]);
+
+    // Only the reminder completed at a given date keeps its completionDate
+    const completed = run.outputs[CORE_SCENARIO.length - 2] as {
+      result: Array<{title: string; completionDate?: string}>;
+    };
+    expect(
+      completed.result.map((r) => [r.title, r.completionDate]).sort(),
+    ).toEqual([
+      ['Priority high too', expect.stringMatching(/^2026-10-01T/)],
+      ['Priority none', undefined],
+    ]);
+  });
+
+  test('two mock servers agree once ids and lists are normalized', async () => {
+    const report = await runDifferential(
+      {client: left, label: 'mock'},
+      {client: right, label: 'mock again'},
+    );
+    expect(report.divergences).toEqual([]);
+    expect(formatReport(report)).toEndWith('No divergences.');
+  });
+});
+
+describe('Differential report', () => {
+  const step = (name: string, area: ScenarioStep['area']): ScenarioStep => ({
+    name,
+    area,
+    tool: 'query_reminders',
+    args: () => ({}),
+  });
+  const steps = [
+    step('all-day', 'all-day dates'),
+    step('priority', 'priority'),
+    step('alarms', 'alarms'),
+    step('sort', 'sort order'),
+  ];
+
+  test('normalizes ids, test lists and volatile dates', () => {
+    const ctx = {
+      listName: 'Test List (1a2b3c4d)',
+      ids: {Milk: 'R-1', Eggs: 'R-2'},
+      datedCompletions: new Set(['R-2']),
+    };
+    expect(
+      normalizeOutput(
+        [
+          {
+            id: 'R-1',
+            listId: 'L-9',
+            listName: 'Test List (1a2b3c4d)',
+            createdDate: '2026-10-19T10:00:00Z',
+            completionDate: '2026-10-19T10:00:01Z',
+            dueDate: '2026-11-01',
+          },
+          {
+            id: 'R-2',
+            lastModifiedDate: '2026-10-19T10:00:00Z',
+            completionDate: '2026-10-01T12:00:00Z',
+          },
+        ],
+        ctx,
+      ),
+    ).toEqual([
+      {
+        id: '<id:Milk>',
+        listId: '<list>',
+        listName: '<test list>',
+        dueDate: '2026-11-01',
+      },
+      {id: '<id:Eggs>', completionDate: '2026-10-01T12:00:00Z'},
+    ]);
+  });
+
+  test('groups date, priority, alarm and order drift by area', () => {
+    const mock: ScenarioRun = {
+      label: 'mock',
+      outputs: [
+        {
+          result: [
+            {title: 'A', dueDate: '2026-11-05', dueDateIncludesTime: false},
+          ],
+        },
+        {result: [{title: 'B', priority: 'low'}]},
+        {result: [{title: 'C', alarms: [{type: 'relative', offset: 900}]}]},
+        {result: [{title: 'B'}, {title: 'A'}]},
+      ],
+    };
+    const real: ScenarioRun = {
+      label: 'EventKit',
+      outputs: [
+        {
+          result: [
+            {
+              title: 'A',
+              dueDate: '2026-11-05T00:00:00-08:00',
+              dueDateIncludesTime: true,
+            },
+          ],
+        },
+        {result: [{title: 'B', priority: 'medium'}]},
+        {result: [{title: 'C', alarms: [{type: 'relative', offset: -900}]}]},
+        {error: 'Invalid sortBy'},
+      ],
+    };
+
+    const report = compareRuns(steps, mock, real);
+    expect(report.divergences.map((d) => [d.area, d.path])).toEqual([
+      ['all-day dates', '$[0].dueDate'],
+      ['all-day dates', '$[0].dueDateIncludesTime'],
+      ['priority', '$[0].priority'],
+      ['alarms', '$[0].alarms[0].offset'],
+      ['sort order', '$.error'],
+      ['sort order', '$'],
+    ]);
+
+    const text = formatReport(report);
+    expect(text).toStartWith(
+      'Differential run: mock vs EventKit — 4 steps, 6 divergence(s)',
+    );
+    expect(text).toContain(
+      [
+        '## priority',
+        '- priority › $[0].priority',
+        '    mock:     "low"',
+        '    EventKit: "medium"',
+      ].join('\n'),
+    );
+    expect(text).toContain('    EventKit: "Invalid sortBy"');
+  });
+
+  test('reports order changes element by element', () => {
+    const run = (label: string, titles: string[]): ScenarioRun => ({
+      label,
+      outputs: [{result: titles.map((title) => ({title}))}],
+    });
+    const report = compareRuns(
+      [step('sort', 'sort order')],
+      run('mock', ['A', 'B', 'C']),
+      run('EventKit', ['B', 'A']),
+    );
+    expect(report.divergences.map((d) => [d.path, d.left, d.right])).toEqual([
+      ['$.length', 3, 2],
+      ['$[0].title', 'A', 'B'],
+      ['$[1].title', 'B', 'A'],
+    ]);
+  });
+});
+
+const realEventKit =
+  process.platform === 'darwin' &&
+  process.env.AR_MCP_DIFFERENTIAL === '1' &&
+  existsSync('.build/release/apple-reminders-mcp');
+
+describe.skipIf(!realEventKit)('Differential: mock vs real EventKit', () => {
+  test('the mock matches EventKit', async () => {
+    const mock = await MCPClient.create();
+    const real = await MCPClient.createWithRealEventKit();
+    try {
+      const report = await runDifferential(
+        {client: mock, label: 'mock'},
+        {client: real, label: 'EventKit'},
+      );
+      if (report.divergences.length > 0) console.log(formatReport(report));
+      expect(report.divergences).toEqual([]);
+    } finally {
+      await mock.cleanup();
+      await real.cleanup();
+    }
+  });
+});
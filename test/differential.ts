@@ -0,0 +1,462 @@
+#!/usr/bin/env bun
+
+/**
+ * Differential runner: plays the same scripted tool calls against mock mode
+ * and against real EventKit (inside an [AR-MCP TEST] list, test mode on),
+ * normalizes both sets of outputs and reports where they diverge. Steps are
+ * grouped by what they exercise (all-day dates, priority mapping, alarm
+ * encoding, recurrence, sort order, completion) so MockStore drift shows up
+ * by area.
+ *
+ * Outputs are compared after replacing reminder ids with `<id:Title>`, list
+ * ids with `<list>`, the test list's name with `<test list>`, and dropping
+ * createdDate, lastModifiedDate and the completionDate of reminders
+ * completed without an explicit completedDate. Everything else, including
+ * result order, must match.
+ *
+ * Usage: bun test/differential.ts [--json] [-o <report>]
+ *   Needs macOS, Reminders access and the built Swift binary. Exits 0 when
+ *   the backends agree, 1 on divergences, 2 on error. The test list is left
+ *   behind; remove it with `bun run test:cleanup`.
+ */
+
+import {existsSync, writeFileSync} from 'fs';
+import {MCPClient} from './mcp-client';
+
+export type StepArea =
+  | 'all-day dates'
+  | 'priority'
+  | 'alarms'
+  | 'recurrence'
+  | 'sort order'
+  | 'completion';
+
+export interface ScenarioContext {
+  listName: string;
+  /** Reminder id by title, from earlier create results */
+  ids: Record<string, string>;
+  /** Ids completed with an explicit completedDate: their completionDate is compared */
+  datedCompletions: Set<string>;
+}
+
+export interface ScenarioStep {
+  name: string;
+  /** What the step exercises; the report groups divergences by it */
+  area: StepArea;
+  tool: string;
+  args: (ctx: ScenarioContext) => Record<string, unknown>;
+}
+
+/** A step's normalized result, or the error it returned */
+export type StepOutput = {result: unknown} | {error: string};
+
+export interface ScenarioRun {
+  label: string;
+  outputs: StepOutput[];
+}
+
+export interface Divergence {
+  step: string;
+  area: StepArea;
+  /** JSONPath-style location, e.g. $[0].dueDateIncludesTime */
+  path: string;
+  left: unknown;
+  right: unknown;
+}
+
+export interface DifferentialReport {
+  left: string;
+  right: string;
+  steps: number;
+  divergences: Divergence[];
+}
+
+const VOLATILE_KEYS = new Set(['createdDate', 'lastModifiedDate']);
+
+const EXECUTABLE_PATH = '.build/release/apple-reminders-mcp';
+
+const create = (
+  name: string,
+  area: StepArea,
+  reminders: Array<Record<string, unknown>>,
+): ScenarioStep => ({
+  name,
+  area,
+  tool: 'create_reminders',
+  args: (ctx) => ({
+    reminders: reminders.map((r) => ({...r, list: {name: ctx.listName}})),
+  }),
+});
+
+const query = (
+  name: string,
+  area: StepArea,
+  args: Record<string, unknown> = {},
+): ScenarioStep => ({
+  name,
+  area,
+  tool: 'query_reminders',
+  args: (ctx) => ({
+    list: {name: ctx.listName},
+    status: 'all',
+    outputDetail: 'full',
+    ...args,
+  }),
+});
+
+/** The default scenario; titles are unique so ids can be named by them. */
+export const CORE_SCENARIO: ScenarioStep[] = [
+  create('create all-day and timed reminders', 'all-day dates', [
+    {
+      title: 'All-day explicit',
+      dueDate: '2026-11-05',
+      dueDateIncludesTime: false,
+    },
+    {title: 'Date only', dueDate: '2026-11-06'},
+    {title: 'Timed UTC', dueDate: '2026-11-07T15:30:00Z'},
+    {title: 'Timed offset', dueDate: '2026-11-08T09:00:00-05:00'},
+  ]),
+  create('create one reminder per priority', 'priority', [
+    {title: 'Priority high', priority: 'high', dueDate: '2026-11-10'},
+    {title: 'Priority medium', priority: 'medium', dueDate: '2026-11-09'},
+    {title: 'Priority low', priority: 'low'},
+    {title: 'Priority none', priority: 'none'},
+    {title: 'Priority high too', priority: 'high'},
+  ]),
+  create('create relative and absolute alarms', 'alarms', [
+    {
+      title: 'Alarms',
+      dueDate: '2026-11-12T10:00:00Z',
+      alarms: [
+        {type: 'relative', offset: 900},
+        {type: 'absolute', date: '2026-11-12T08:00:00Z'},
+      ],
+    },
+  ]),
+  create('create recurring reminders', 'recurrence', [
+    {
+      title: 'Every other Tuesday and Thursday',
+      dueDate: '2026-11-03T09:00:00Z',
+      recurrenceRule: {
+        frequency: 'weekly',
+        interval: 2,
+        daysOfWeek: [3, 5],
+        endCount: 10,
+      },
+    },
+    {
+      title: 'Last Friday monthly',
+      dueDate: '2026-11-27',
+      dueDateIncludesTime: false,
+      recurrenceRule: {frequency: 'monthly', daysOfWeek: [6], weekPosition: -1},
+    },
+  ]),
+  query('read back every field', 'all-day dates'),
+  {
+    name: 'switch between all-day and timed',
+    area: 'all-day dates',
+    tool: 'update_reminders',
+    args: (ctx) => ({
+      reminders: [
+        {id: ctx.ids['Timed UTC'], dueDateIncludesTime: false},
+        {
+          id: ctx.ids['All-day explicit'],
+          dueDate: '2026-11-05T18:45:00Z',
+          dueDateIncludesTime: true,
+        },
+        {id: ctx.ids['Date only'], dueDate: null},
+      ],
+    }),
+  },
+  {
+    name: 'change priority and clear alarms',
+    area: 'alarms',
+    tool: 'update_reminders',
+    args: (ctx) => ({
+      reminders: [
+        {id: ctx.ids['Alarms'], alarms: null},
+        {id: ctx.ids['Priority low'], priority: 'medium'},
+      ],
+    }),
+  },
+  query('sort by priority', 'sort order', {
+    sortBy: 'priority',
+    outputDetail: 'minimal',
+  }),
+  query('sort by due date', 'sort order', {
+    sortBy: 'dueDate',
+    outputDetail: 'minimal',
+  }),
+  query('sort oldest first', 'sort order', {
+    sortBy: 'oldest',
+    outputDetail: 'minimal',
+  }),
+  query('filter with JMESPath', 'priority', {
+    query: "[?priority == 'high'].title | sort(@)",
+  }),
+  {
+    name: 'complete with and without a date',
+    area: 'completion',
+    tool: 'update_reminders',
+    args: (ctx) => ({
+      reminders: [
+        {id: ctx.ids['Priority none'], completed: true},
+        {
+          id: ctx.ids['Priority high too'],
+          completedDate: '2026-10-01T12:00:00Z',
+        },
+      ],
+    }),
+  },
+  query('completed only', 'completion', {status: 'completed'}),
+  query('read back every field again', 'all-day dates'),
+];
+
+/** Collect id → title from create/update results. */
+function rememberIds(result: unknown, ctx: ScenarioContext): void {
+  const reminders = Array.isArray(result)
+    ? result
+    : ((result as {created?: unknown[]; updated?: unknown[]})?.created ??
+      (result as {updated?: unknown[]})?.updated ??
+      []);
+  for (const r of reminders as Array<{id?: string; title?: string}>) {
+    if (r?.id && r.title) ctx.ids[r.title] = r.id;
+  }
+}
+
+/** Collect the ids an update_reminders call completed at a given date. */
+function rememberCompletionDates(
+  tool: string,
+  args: Record<string, unknown>,
+  ctx: ScenarioContext,
+): void {
+  if (tool !== 'update_reminders' || !Array.isArray(args.reminders)) return;
+  for (const r of args.reminders as Array<Record<string, unknown>>) {
+    if (typeof r?.id !== 'string') continue;
+    if (typeof r.completedDate === 'string') ctx.datedCompletions.add(r.id);
+    else if ('completed' in r || 'completedDate' in r) {
+      ctx.datedCompletions.delete(r.id);
+    }
+  }
+}
+
+/** Replace backend-specific values so two runs can be compared. */
+export function normalizeOutput(value: unknown, ctx: ScenarioContext): unknown {
+  const titles = new Map(Object.entries(ctx.ids).map(([t, id]) => [id, t]));
+  const walk = (v: unknown, key?: string): unknown => {
+    if (typeof v === 'string') {
+      if (titles.has(v)) return `<id:${titles.get(v)}>`;
+      if (key === 'listId') return '<list>';
+      return v === ctx.listName ? '<test list>' : v;
+    }
+    if (Array.isArray(v)) return v.map((item) => walk(item));
+    if (v && typeof v === 'object') {
+      const id = (v as {id?: unknown}).id;
+      // Only a completion time the scenario chose can match across backends
+      const dated = typeof id === 'string' && ctx.datedCompletions.has(id);
+      return Object.fromEntries(
+        Object.entries(v)
+          .filter(([k]) => !VOLATILE_KEYS.has(k))
+          .filter(([k]) => k !== 'completionDate' || dated)
+          .map(([k, item]) => [k, walk(item, k)]),
+      );
+    }
+    return v;
+  };
+  return walk(value);
+}
+
+/** Run the steps against one client, in a fresh test list. */
+export async function runScenario(
+  client: MCPClient,
+  label: string,
+  steps: ScenarioStep[] = CORE_SCENARIO,
+): Promise<ScenarioRun> {
+  const ctx: ScenarioContext = {
+    listName: await client.createTestList(),
+    ids: {},
+    datedCompletions: new Set(),
+  };
+  const outputs: StepOutput[] = [];
+
+  for (const step of steps) {
+    const args = step.args(ctx);
+    const result = await client.callTool(step.tool, args);
+    if (!Array.isArray(result) && result._isError) {
+      outputs.push({error: String(result.error)});
+      continue;
+    }
+    rememberIds(result, ctx);
+    rememberCompletionDates(step.tool, args, ctx);
+    outputs.push({result});
+  }
+
+  // Normalize once every id is known (later steps can name earlier ids)
+  const normalized = outputs.map((output) =>
+    'result' in output
+      ? {result: normalizeOutput(output.result, ctx)}
+      : {error: output.error.replace(ctx.listName, '<test list>')},
+  );
+
+  const ids = Object.values(ctx.ids);
+  if (ids.length > 0) await client.callTool('delete_reminders', {ids});
+  return {label, outputs: normalized};
+}
+
+/** Appends every difference between two JSON values, by path, to `out` */
+export function diffValues(
+  left: unknown,
+  right: unknown,
+  path: string,
+  out: Array<{path: string; left: unknown; right: unknown}>,
+): void {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    if (left.length !== right.length) {
+      out.push({
+        path: `${path}.length`,
+        left: left.length,
+        right: right.length,
+      });
+    }
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      diffValues(left[i], right[i], `${path}[${i}]`, out);
+    }
+    return;
+  }
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    v !== null && typeof v === 'object' && !Array.isArray(v);
+  if (isObject(left) && isObject(right)) {
+    const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])];
+    for (const key of keys.sort()) {
+      diffValues(left[key], right[key], `${path}.${key}`, out);
+    }
+    return;
+  }
+  if (JSON.stringify(left) !== JSON.stringify(right)) {
+    out.push({path, left, right});
+  }
+}
+
+export function compareRuns(
+  steps: ScenarioStep[],
+  left: ScenarioRun,
+  right: ScenarioRun,
+): DifferentialReport {
+  const divergences: Divergence[] = [];
+  steps.forEach((step, index) => {
+    const found: Array<{path: string; left: unknown; right: unknown}> = [];
+    diffValues(left.outputs[index], right.outputs[index], '$', found);
+    for (const d of found) {
+      divergences.push({
+        step: step.name,
+        area: step.area,
+        // Outputs are wrapped in {result} / {error}; report from the result
+        path: d.path.replace(/^\$\.result/, '$'),
+        left: d.left,
+        right: d.right,
+      });
+    }
+  });
+  return {
+    left: left.label,
+    right: right.label,
+    steps: steps.length,
+    divergences,
+  };
+}
+
+/** Run the scenario on both clients, one after the other, and compare. */
+export async function runDifferential(
+  left: {client: MCPClient; label: string},
+  right: {client: MCPClient; label: string},
+  steps: ScenarioStep[] = CORE_SCENARIO,
+): Promise<DifferentialReport> {
+  const leftRun = await runScenario(left.client, left.label, steps);
+  const rightRun = await runScenario(right.client, right.label, steps);
+  return compareRuns(steps, leftRun, rightRun);
+}
+
+const show = (value: unknown) =>
+  value === undefined ? '(missing)' : JSON.stringify(value);
+
+export function formatReport(report: DifferentialReport): string {
+  const header = `Differential run: ${report.left} vs ${report.right} — ${report.steps} steps, ${report.divergences.length} divergence(s)`;
+  if (report.divergences.length === 0) return `${header}\n\nNo divergences.`;
+
+  const lines = [header];
+  const areas = [...new Set(report.divergences.map((d) => d.area))];
+  const width = Math.max(report.left.length, report.right.length) + 1;
+  for (const area of areas) {
+    lines.push('', `## ${area}`);
+    for (const d of report.divergences.filter((x) => x.area === area)) {
+      lines.push(
+        `- ${d.step} › ${d.path}`,
+        `    ${`${report.left}:`.padEnd(width)} ${show(d.left)}`,
+        `    ${`${report.right}:`.padEnd(width)} ${show(d.right)}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+function parseArgs(argv: string[]): {json: boolean; output?: string} {
+  const options: {json: boolean; output?: string} = {json: false};
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--json':
+        options.json = true;
+        break;
+      case '-o':
+      case '--output':
+        options.output = argv[++i];
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: {json: boolean; output?: string};
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error('Usage: bun test/differential.ts [--json] [-o <report>]');
+    process.exit(2);
+  }
+  if (process.platform !== 'darwin' || !existsSync(EXECUTABLE_PATH)) {
+    console.error(
+      `Real EventKit needs macOS and the built binary (${EXECUTABLE_PATH}); run 'swift build -c release' on a Mac.`,
+    );
+    process.exit(2);
+  }
+
+  const mock = await MCPClient.create();
+  const real = await MCPClient.createWithRealEventKit();
+  let report: DifferentialReport;
+  try {
+    report = await runDifferential(
+      {client: mock, label: 'mock'},
+      {client: real, label: 'EventKit'},
+    );
+  } finally {
+    await mock.cleanup();
+    await real.cleanup();
+  }
+
+  const text = options.json
+    ? JSON.stringify(report, null, 2)
+    : formatReport(report);
+  if (options.output) writeFileSync(options.output, text + '\n');
+  else console.log(text);
+  process.exit(report.divergences.length === 0 ? 0 : 1);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(2);
+  });
+}
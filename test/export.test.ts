@@ -4,7 +4,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('export_reminders', () => {
   let client: MCPClient;
@@ -50,12 +50,9 @@ describe('export_reminders', () => {
   test('exports all reminders to temp directory', async () => {
     const result = await client.callTool('export_reminders', {});
 
+    expect(validators.exportResult(result)).toEqual([]);
     expect(result.success).toBe(true);
-    expect(result.path).toBeDefined();
-    expect(typeof result.path).toBe('string');
-    expect(result.exportDate).toBeDefined();
     expect(result.fileSizeBytes).toBeGreaterThan(0);
-    expect(result.note).toBeDefined();
 
     // Stats should reflect our test data
     const stats = result.stats as {
@@ -0,0 +1,293 @@
+#!/usr/bin/env bun
+
+/**
+ * Generates test/tool-types.generated.ts: argument types for every MCP tool
+ * and a ToolWrappers class exposed as `client.tools`, e.g.
+ * `client.tools.queryReminders({list: {all: true}, status: 'completed'})`.
+ *
+ * Schemas come from a live server (tools/list) or, with --from-snapshot,
+ * from the schema snapshot file. Result types are hand-maintained in
+ * tool-results.ts since tools/list does not describe outputs.
+ *
+ * Usage:
+ *   bun test/generate-tool-types.ts                  # write the file
+ *   bun test/generate-tool-types.ts --check          # exit 1 if it is stale
+ *   bun test/generate-tool-types.ts --from-snapshot  # read the .snap file
+ */
+
+import {readFileSync, writeFileSync} from 'fs';
+import * as prettier from 'prettier';
+import {MCPClient} from './mcp-client';
+
+export const GENERATED_PATH = `${import.meta.dir}/tool-types.generated.ts`;
+export const SNAPSHOT_PATH = `${import.meta.dir}/__snapshots__/schema-snapshot.test.ts.snap`;
+const SNAPSHOT_KEY_PATTERN = /^MCP schema snapshots tool schemas (\w+) 1$/;
+
+export interface ToolSchema {
+  name: string;
+  description: string;
+  inputSchema?: JSONSchema;
+}
+
+interface JSONSchema {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+}
+
+// Snapshot parsing
+
+/**
+ * Reads tool schemas from the bun snapshot file. Values there are in
+ * pretty-format (trailing commas, unescaped quotes in strings), so they are
+ * parsed line by line rather than as JSON.
+ */
+export function parseSnapshotTools(source: string): ToolSchema[] {
+  const snapshots: Record<string, string> = {};
+  new Function('exports', source)(snapshots);
+
+  const tools: ToolSchema[] = [];
+  for (const [key, value] of Object.entries(snapshots)) {
+    if (SNAPSHOT_KEY_PATTERN.test(key)) {
+      tools.push(parsePrettyFormat(value.trim()) as ToolSchema);
+    }
+  }
+  return tools;
+}
+
+function parsePrettyFormat(text: string): unknown {
+  const lines = text.split('\n');
+  let index = 0;
+
+  function parseValue(rest: string): unknown {
+    if (rest === '') {
+      // Multi-line strings start on the line after their key and end with
+      // a quote followed by a line holding only the comma. Quotes inside
+      // strings are not escaped, so this is the only reliable terminator.
+      let buffer = lines[++index].slice(1);
+      while (!(buffer.endsWith('"') && lines[index + 1] === ',')) {
+        buffer += '\n' + lines[++index];
+      }
+      index++;
+      return buffer.slice(0, -1);
+    }
+    const value = rest.replace(/,$/, '');
+
+    if (value === '{}') return {};
+    if (value === '[]') return [];
+
+    if (value === '{') {
+      const object: Record<string, unknown> = {};
+      while (!/^\s*},?$/.test(lines[++index])) {
+        const match = /^\s*"([^"]+)": ?(.*)$/.exec(lines[index]);
+        if (!match) {
+          throw new Error(`Unexpected snapshot line: ${lines[index]}`);
+        }
+        object[match[1]] = parseValue(match[2]);
+      }
+      return object;
+    }
+
+    if (value === '[') {
+      const array: unknown[] = [];
+      while (!/^\s*],?$/.test(lines[++index])) {
+        array.push(parseValue(lines[index].trim()));
+      }
+      return array;
+    }
+
+    if (rest.startsWith('"')) {
+      return rest.slice(1).replace(/",?$/, '');
+    }
+
+    return JSON.parse(value);
+  }
+
+  return parseValue(lines[index].trim());
+}
+
+// Code generation
+
+function pascalCase(name: string): string {
+  return name.replace(/(^|_)(\w)/g, (_, __, c: string) => c.toUpperCase());
+}
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function docComment(lines: string[]): string {
+  const escaped = lines.map((line) => line.replace(/\*\//g, '*\\/'));
+  if (escaped.length === 1) return `/** ${escaped[0]} */\n`;
+  return `/**\n${escaped.map((line) => ` * ${line}`.trimEnd()).join('\n')}\n */\n`;
+}
+
+function propertyDoc(schema: JSONSchema): string {
+  const lines = schema.description ? schema.description.split('\n') : [];
+  if (schema.default !== undefined) {
+    lines.push(`@default ${JSON.stringify(schema.default)}`);
+  }
+  return lines.length > 0 ? docComment(lines) : '';
+}
+
+/**
+ * The schemas cannot express "null clears the field", so any property
+ * documented with "Set to null" also accepts null.
+ */
+function isClearable(schema: JSONSchema): boolean {
+  return /set to null/i.test(schema.description ?? '');
+}
+
+/**
+ * Required properties first, then alphabetical. The snapshot file stores
+ * keys sorted, so source order cannot be recovered from it; this keeps the
+ * output identical whichever source the schemas come from.
+ */
+function objectType(schema: JSONSchema): string {
+  const required = new Set(schema.required ?? []);
+  const properties = Object.entries(schema.properties ?? {}).sort(
+    ([a], [b]) =>
+      Number(required.has(b)) - Number(required.has(a)) || a.localeCompare(b),
+  );
+  if (properties.length === 0) {
+    return schema.additionalProperties === false
+      ? 'Record<string, never>'
+      : 'Record<string, unknown>';
+  }
+
+  const members = properties.map(([key, property]) => {
+    const optional = required.has(key) ? '' : '?';
+    const nullable = isClearable(property) ? ' | null' : '';
+    return `${propertyDoc(property)}${key}${optional}: ${schemaToType(property)}${nullable};`;
+  });
+  return `{\n${members.join('\n')}\n}`;
+}
+
+export function schemaToType(schema: JSONSchema): string {
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = schema.items ? schemaToType(schema.items) : 'unknown';
+      return /^\w+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      return objectType(schema);
+    default:
+      return 'unknown';
+  }
+}
+
+export async function generateToolTypes(tools: ToolSchema[]): Promise<string> {
+  const sorted = [...tools].sort((a, b) => a.name.localeCompare(b.name));
+
+  const argTypes = sorted.map((tool) => {
+    const name = `${pascalCase(tool.name)}Args`;
+    const type = objectType(tool.inputSchema ?? {type: 'object'});
+    return type.startsWith('{')
+      ? `export interface ${name} ${type}`
+      : `export type ${name} = ${type};`;
+  });
+
+  const argMap = sorted.map(
+    (tool) => `${tool.name}: ${pascalCase(tool.name)}Args;`,
+  );
+
+  const methods = sorted.map((tool) => {
+    const argsType = `${pascalCase(tool.name)}Args`;
+    const hasRequired = (tool.inputSchema?.required ?? []).length > 0;
+    const param = hasRequired ? `args: ${argsType}` : `args: ${argsType} = {}`;
+    const summary = tool.description.split('\n')[0];
+    return (
+      docComment([summary]) +
+      `${camelCase(tool.name)}<T = ResultOf<'${tool.name}'>>(${param}): Promise<T> {\n` +
+      `return this.call('${tool.name}', args) as Promise<T>;\n}`
+    );
+  });
+
+  const source = `/**
+ * Typed wrappers for the MCP tools, generated from their tools/list input
+ * schemas by test/generate-tool-types.ts. Do not edit by hand.
+ *
+ * Regenerate: bun run generate:tools
+ */
+
+import type {ResultOf, ToolCaller} from './tool-results';
+
+${argTypes.join('\n\n')}
+
+export interface ToolArgs {
+${argMap.join('\n')}
+}
+
+export type ToolName = keyof ToolArgs;
+
+/** One method per tool. Methods reject when the tool returns isError. */
+export class ToolWrappers {
+  private call: ToolCaller;
+
+  constructor(call: ToolCaller) {
+    this.call = call;
+  }
+
+${methods.join('\n\n')}
+}
+`;
+
+  const config = await prettier.resolveConfig(GENERATED_PATH);
+  return prettier.format(source, {...config, parser: 'typescript'});
+}
+
+async function loadLiveTools(): Promise<ToolSchema[]> {
+  const client = await MCPClient.create();
+  try {
+    return (await client.listToolsWithSchemas()) as ToolSchema[];
+  } finally {
+    await client.cleanup();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const tools = args.includes('--from-snapshot')
+    ? parseSnapshotTools(readFileSync(SNAPSHOT_PATH, 'utf8'))
+    : await loadLiveTools();
+  const generated = await generateToolTypes(tools);
+
+  if (args.includes('--check')) {
+    const current = readFileSync(GENERATED_PATH, 'utf8');
+    if (current !== generated) {
+      console.error(
+        'tool-types.generated.ts is out of date. Run: bun run generate:tools',
+      );
+      process.exit(1);
+    }
+    console.log('tool-types.generated.ts is up to date.');
+    return;
+  }
+
+  writeFileSync(GENERATED_PATH, generated);
+  console.log(`Wrote ${GENERATED_PATH} (${tools.length} tools)`);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Failed to generate tool types:', error);
+    process.exit(1);
+  });
+}
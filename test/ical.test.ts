@@ -0,0 +1,271 @@
+/**
+ * Tests for ical.ts: a real export converted to .ics and back keeps every
+ * field, and .ics files from other apps parse into create_reminders input.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {spawnSync} from 'bun';
+import {mkdtempSync, readFileSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {loadExport} from './diff-exports';
+import {
+  exportToICalendar,
+  ICalendarError,
+  icalendarToCreatePayload,
+  parseICalendar,
+} from './ical';
+import {MCPClient} from './mcp-client';
+import type {ExportData} from './reference-models';
+import {restoreExport} from './restore-export';
+import type {EncodedReminder} from './tool-results';
+import {validators} from './validators';
+
+/** The fields an .ics round trip is expected to keep */
+function portable(reminder: EncodedReminder) {
+  return {
+    title: reminder.title,
+    notes: reminder.notes ?? null,
+    listName: reminder.listName,
+    dueDate: reminder.dueDate ?? null,
+    dueDateIncludesTime: reminder.dueDate ? reminder.dueDateIncludesTime : null,
+    priority: reminder.priority,
+    url: reminder.url ?? null,
+    alarms: reminder.alarms ?? [],
+    recurrenceRules: reminder.recurrenceRules ?? [],
+    isCompleted: reminder.isCompleted,
+    completionDate: reminder.completionDate ?? null,
+  };
+}
+
+function byTitle(data: ExportData) {
+  return [...data.reminders]
+    .sort((a, b) => (a.title < b.title ? -1 : 1))
+    .map(portable);
+}
+
+describe('iCalendar export/import', () => {
+  let client: MCPClient;
+  let dir: string;
+  let exportPath: string;
+  let original: ExportData;
+  let ics: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    dir = mkdtempSync(join(tmpdir(), 'ical-'));
+    exportPath = join(dir, 'export.json');
+
+    const listName = await client.createTestList();
+    const list = {name: listName};
+    const created = await client.tools.createReminders({
+      reminders: [
+        {
+          title: 'Timed, with alarms',
+          list,
+          notes: 'Line one; with a comma, a backslash \\\nand a second line',
+          dueDate: '2026-06-15T14:30:00Z',
+          priority: 'high',
+          url: 'https://example.com/task?id=1',
+          alarms: [
+            {type: 'relative', offset: 900},
+            {type: 'relative', offset: 90000},
+            {type: 'absolute', date: '2026-06-15T08:00:00Z'},
+          ],
+        },
+        {
+          title: 'All-day monthly',
+          list,
+          dueDate: '2026-07-01',
+          dueDateIncludesTime: false,
+          priority: 'medium',
+          recurrenceRule: {
+            frequency: 'monthly',
+            daysOfWeek: [2],
+            weekPosition: -1,
+          },
+        },
+        {
+          title: 'Weekly with count',
+          list,
+          dueDate: '2026-06-16T09:00:00Z',
+          priority: 'low',
+          recurrenceRule: {
+            frequency: 'weekly',
+            interval: 2,
+            daysOfWeek: [2, 4, 6],
+            endCount: 10,
+          },
+        },
+        {
+          title: 'Yearly until',
+          list,
+          dueDate: '2026-03-01T12:00:00Z',
+          recurrenceRule: {
+            frequency: 'yearly',
+            monthsOfYear: [3, 9],
+            daysOfMonth: [1],
+            endDate: '2030-12-31T23:00:00Z',
+          },
+        },
+        {
+          title: 'Done — ünïcödé '.repeat(6).trim(),
+          list,
+        },
+      ],
+    });
+    const done = (created as Array<{id: string}>).at(-1)!.id;
+    await client.tools.updateReminders({
+      reminders: [{id: done, completedDate: '2026-05-01T10:00:00Z'}],
+    });
+
+    await client.tools.exportReminders({path: exportPath});
+    original = loadExport(exportPath);
+    ics = exportToICalendar(original);
+  });
+
+  afterAll(async () => {
+    rmSync(dir, {recursive: true, force: true});
+    await client.cleanup();
+  });
+
+  test('writes RFC 5545 content lines', () => {
+    expect(ics).toStartWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n');
+    expect(ics).toEndWith('END:VCALENDAR\r\n');
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain('DUE:20260615T143000Z');
+    expect(unfolded).toContain('DUE;VALUE=DATE:20260701');
+    expect(unfolded).toContain('PRIORITY:1');
+    expect(unfolded).toContain(
+      'DESCRIPTION:Line one\\; with a comma\\, a backslash \\\\\\nand a second line',
+    );
+    expect(unfolded).toContain('TRIGGER;RELATED=END:-PT15M');
+    expect(unfolded).toContain('TRIGGER;RELATED=END:-P1DT1H');
+    expect(unfolded).toContain('TRIGGER;VALUE=DATE-TIME:20260615T080000Z');
+    expect(unfolded).toContain('RRULE:FREQ=MONTHLY;BYDAY=-1MO');
+    expect(unfolded).toContain(
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=10',
+    );
+    expect(unfolded).toContain(
+      'STATUS:COMPLETED\r\nCOMPLETED:20260501T100000Z',
+    );
+  });
+
+  test('parsing the .ics gives back the exported fields', () => {
+    const parsed = parseICalendar(ics);
+
+    expect(validators.exportData(parsed)).toEqual([]);
+    expect(parsed.reminders.map((r) => r.id)).toEqual(
+      original.reminders.map((r) => r.id),
+    );
+    expect(byTitle(parsed)).toEqual(byTitle(original));
+  });
+
+  test('round trip through create_reminders keeps the data', async () => {
+    const target = await MCPClient.create();
+    try {
+      const report = await restoreExport(target, parseICalendar(ics));
+      expect(report.reminders.failed).toEqual([]);
+      expect(report.reminders.created).toBe(original.reminders.length);
+
+      const path = join(dir, 'restored.json');
+      await target.tools.exportReminders({path});
+      const restored = loadExport(path);
+      expect(byTitle(restored)).toEqual(byTitle(original));
+    } finally {
+      await target.cleanup();
+    }
+  });
+
+  test('parses VTODOs written by other apps', () => {
+    const payload = icalendarToCreatePayload(
+      [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Berlin',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'SUMMARY:Not a task',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'UID:abc@example.com',
+        'SUMMARY:Pay rent\\, then',
+        '  file receipts',
+        'CATEGORIES:Home,Bills',
+        'DUE;TZID=Europe/Berlin:20260105T090000',
+        'PRIORITY:3',
+        'RRULE:FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1;WKST=MO',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-P1W',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\n'),
+    );
+
+    expect(payload.reminders).toEqual([
+      {
+        title: 'Pay rent, then file receipts',
+        list: {name: 'Home'},
+        priority: 'high',
+        dueDate: expect.any(String),
+        dueDateIncludesTime: true,
+        alarms: [{type: 'relative', offset: 604800}],
+        recurrenceRule: {
+          frequency: 'monthly',
+          interval: 1,
+          daysOfWeek: [2],
+          weekPosition: 1,
+        },
+      },
+    ]);
+    expect(Date.parse(payload.reminders[0].dueDate!)).toBe(
+      Date.parse('2026-01-05T08:00:00Z'),
+    );
+  });
+
+  test('reports unsupported input with its line number', () => {
+    const parse =
+      (...lines: string[]) =>
+      () =>
+        parseICalendar(
+          ['BEGIN:VCALENDAR', 'BEGIN:VTODO', ...lines, 'END:VTODO'].join('\n') +
+            '\nEND:VCALENDAR',
+        );
+
+    expect(parse('SUMMARY:x', 'RRULE:FREQ=HOURLY')).toThrow(
+      "Line 4: Unsupported RRULE FREQ 'HOURLY'",
+    );
+    expect(parse('SUMMARY:x', 'RRULE:FREQ=DAILY;BYHOUR=9')).toThrow(
+      "Line 4: Unsupported RRULE part 'BYHOUR'",
+    );
+    expect(
+      parse('SUMMARY:x', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'),
+    ).toThrow('Line 4: BYSETPOS is only supported with a single BYDAY day');
+    expect(parse('SUMMARY:x', 'DUE:tomorrow')).toThrow(ICalendarError);
+    expect(parse('DESCRIPTION:no title')).toThrow(
+      'Line 2: VTODO without SUMMARY',
+    );
+  });
+
+  test('CLI exports a file', () => {
+    const output = join(dir, 'out.ics');
+    const result = spawnSync([
+      process.execPath,
+      `${import.meta.dir}/ical.ts`,
+      'export',
+      exportPath,
+      '-o',
+      output,
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(readFileSync(output, 'utf8')).toBe(ics);
+  });
+});
@@ -0,0 +1,598 @@
+#!/usr/bin/env bun
+
+/**
+ * Convert between export_reminders files and RFC 5545 iCalendar (.ics)
+ * VTODO components, for sharing tasks with other calendar apps.
+ *
+ * Mapping:
+ * - dueDate / dueDateIncludesTime → DUE (VALUE=DATE for all-day, else UTC DATE-TIME)
+ * - priority → PRIORITY (high=1, medium=5, low=9; none is omitted)
+ * - alarms → VALARM (relative: TRIGGER;RELATED=END duration, absolute: DATE-TIME)
+ * - recurrenceRules → RRULE
+ * - completion → STATUS:COMPLETED and COMPLETED
+ * - listName → CATEGORIES; notes → DESCRIPTION; url → URL; id → UID
+ *
+ * Importing goes through restore-export.ts, so completion, ID mapping,
+ * --dry-run, --list and --test-mode behave the same as a JSON restore.
+ *
+ * Usage:
+ *   bun test/ical.ts export <export.json> [-o out.ics]
+ *   bun test/ical.ts import <file.ics> [--payload] [restore options]
+ */
+
+import {readFileSync, writeFileSync} from 'fs';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import {
+  type AlarmOutput,
+  type ExportData,
+  fromISO8601,
+  Priority,
+  type PriorityName,
+  type RecurrenceRuleOutput,
+  type ReminderListOutput,
+  toISO8601UTC,
+  toISO8601WithTimezone,
+} from './reference-models';
+import {formatReport, restoreExport, toCreateInput} from './restore-export';
+import {recurrenceToRRule, RRuleError, rruleToRecurrence} from './rrule';
+import {fromWallTime} from './time-zones';
+import type {EncodedReminder} from './tool-results';
+import type {CreateRemindersArgs} from './tool-types.generated';
+
+const PRODID = '-//apple-reminders-mcp//Reminders Export//EN';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_LIST_NAME = 'Reminders';
+
+/** Malformed or unsupported iCalendar input; `line` is 1-based when known. */
+export class ICalendarError extends Error {
+  readonly line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line === undefined ? message : `Line ${line}: ${message}`);
+    this.name = 'ICalendarError';
+    this.line = line;
+  }
+}
+
+// Value encoding
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === 'n' || c === 'N' ? '\n' : c,
+  );
+}
+
+/** Splits on commas that are not escaped. */
+function splitText(value: string): string[] {
+  return value.split(/(?<!\\),/).map(unescapeText);
+}
+
+/** Folds a content line at 75 octets without splitting a character. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** `20260615T140000Z` */
+function formatUTCDateTime(date: Date): string {
+  return toISO8601UTC(date).replace(/[-:]/g, '');
+}
+
+/** Seconds → RFC 5545 duration, e.g. 5400 → `PT1H30M` */
+function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '';
+  let rest = Math.abs(seconds);
+  if (rest === 0) return 'PT0S';
+
+  let result = `${sign}P`;
+  const days = Math.floor(rest / 86400);
+  rest %= 86400;
+  if (days > 0) result += `${days}D`;
+  if (rest > 0) {
+    result += 'T';
+    const hours = Math.floor(rest / 3600);
+    const minutes = Math.floor((rest % 3600) / 60);
+    const secs = rest % 60;
+    if (hours > 0) result += `${hours}H`;
+    if (minutes > 0) result += `${minutes}M`;
+    if (secs > 0) result += `${secs}S`;
+  }
+  return result;
+}
+
+function parseDuration(value: string, line: number): number {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value,
+    );
+  if (!match || value.endsWith('P') || value.endsWith('T')) {
+    throw new ICalendarError(`Invalid duration '${value}'`, line);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 604800 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Parses DATE (`20260615`) and DATE-TIME (`20260615T140000`, optionally
+ * with `Z` or a TZID parameter) values. Floating times are local.
+ */
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  line: number,
+): {date: Date; isDate: boolean} {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value,
+  );
+  if (!match) {
+    throw new ICalendarError(`Invalid date value '${value}'`, line);
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const fields = [y, mo, d, h ?? '0', mi ?? '0', s ?? '0'].map(Number);
+  const [year, month, day, hour, minute, second] = fields;
+
+  if (h === undefined || params.VALUE === 'DATE') {
+    return {date: new Date(year, month - 1, day), isDate: true};
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(year, month - 1, day, hour, minute, second)),
+      isDate: false,
+    };
+  }
+  if (params.TZID) {
+    let date: Date;
+    try {
+      date = fromWallTime(
+        {year, month, day, hour, minute, second},
+        params.TZID,
+      );
+    } catch {
+      throw new ICalendarError(`Unknown TZID '${params.TZID}'`, line);
+    }
+    return {date, isDate: false};
+  }
+  return {
+    date: new Date(year, month - 1, day, hour, minute, second),
+    isDate: false,
+  };
+}
+
+// Export
+
+function alarmLines(alarm: AlarmOutput): string[] {
+  const trigger =
+    alarm.type === 'absolute'
+      ? `TRIGGER;VALUE=DATE-TIME:${formatUTCDateTime(fromISO8601(alarm.date!)!)}`
+      : `TRIGGER;RELATED=END:${formatDuration(-(alarm.offset ?? 0))}`;
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'DESCRIPTION:Reminder',
+    trigger,
+    'END:VALARM',
+  ];
+}
+
+function todoLines(reminder: EncodedReminder, dtstamp: string): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${reminder.id}`,
+    `DTSTAMP:${dtstamp}`,
+    `CREATED:${formatUTCDateTime(fromISO8601(reminder.createdDate)!)}`,
+    `LAST-MODIFIED:${formatUTCDateTime(fromISO8601(reminder.lastModifiedDate)!)}`,
+    `SUMMARY:${escapeText(reminder.title)}`,
+    `CATEGORIES:${escapeText(reminder.listName)}`,
+  ];
+
+  if (reminder.notes) lines.push(`DESCRIPTION:${escapeText(reminder.notes)}`);
+  if (reminder.url) lines.push(`URL:${reminder.url}`);
+
+  if (reminder.dueDate) {
+    lines.push(
+      reminder.dueDateIncludesTime === false
+        ? `DUE;VALUE=DATE:${reminder.dueDate.slice(0, 10).replace(/-/g, '')}`
+        : `DUE:${formatUTCDateTime(fromISO8601(reminder.dueDate)!)}`,
+    );
+  }
+
+  if (reminder.priority !== 'none') {
+    lines.push(`PRIORITY:${Priority.internalValue(reminder.priority)}`);
+  }
+
+  if (reminder.isCompleted) {
+    lines.push('STATUS:COMPLETED');
+    if (reminder.completionDate) {
+      lines.push(
+        `COMPLETED:${formatUTCDateTime(fromISO8601(reminder.completionDate)!)}`,
+      );
+    }
+  } else {
+    lines.push('STATUS:NEEDS-ACTION');
+  }
+
+  for (const rule of reminder.recurrenceRules ?? []) {
+    lines.push(`RRULE:${recurrenceToRRule(rule)}`);
+  }
+  for (const alarm of reminder.alarms ?? []) {
+    lines.push(...alarmLines(alarm));
+  }
+
+  lines.push('END:VTODO');
+  return lines;
+}
+
+export function exportToICalendar(data: ExportData): string {
+  const dtstamp = formatUTCDateTime(fromISO8601(data.exportDate)!);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...data.reminders.flatMap((reminder) => todoLines(reminder, dtstamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Import
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  line: number;
+}
+
+/** Unfolds and splits content lines into name, parameters and value. */
+function parseContentLines(text: string): ContentLine[] {
+  const result: ContentLine[] = [];
+  const physical = text.split(/\r?\n/);
+
+  for (let i = 0; i < physical.length; i++) {
+    if (physical[i] === '') continue;
+    const lineNumber = i + 1;
+    let logical = physical[i];
+    while (i + 1 < physical.length && /^[ \t]/.test(physical[i + 1])) {
+      logical += physical[++i].slice(1);
+    }
+
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let colon = -1;
+    for (let j = 0; j < logical.length; j++) {
+      if (logical[j] === '"') inQuotes = !inQuotes;
+      else if (logical[j] === ':' && !inQuotes) {
+        colon = j;
+        break;
+      }
+    }
+    if (colon === -1) {
+      throw new ICalendarError(`Expected 'NAME:value'`, lineNumber);
+    }
+
+    const [name, ...paramParts] = logical.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, value = ''] = part.split('=');
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    result.push({
+      name: name.toUpperCase(),
+      params,
+      value: logical.slice(colon + 1),
+      line: lineNumber,
+    });
+  }
+  return result;
+}
+
+function parsePriority(value: string, line: number): PriorityName {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0 || number > 9) {
+    throw new ICalendarError(`Invalid PRIORITY '${value}'`, line);
+  }
+  return Priority.fromInternal(number);
+}
+
+function parseAlarm(lines: ContentLine[], begin: number): AlarmOutput {
+  const trigger = lines.find((l) => l.name === 'TRIGGER');
+  if (!trigger) throw new ICalendarError('VALARM without TRIGGER', begin);
+
+  if (trigger.params.VALUE === 'DATE-TIME') {
+    const {date} = parseDateValue(trigger.value, trigger.params, trigger.line);
+    return {type: 'absolute', date: toISO8601WithTimezone(date)};
+  }
+  if (trigger.params.RELATED === 'START') {
+    // VTODOs exported here have no DTSTART; alarms are relative to DUE
+    throw new ICalendarError(
+      'Alarms relative to DTSTART are not supported',
+      trigger.line,
+    );
+  }
+  return {
+    type: 'relative',
+    offset: -parseDuration(trigger.value, trigger.line),
+  };
+}
+
+function parseTodo(
+  lines: ContentLine[],
+  alarms: AlarmOutput[],
+  index: number,
+  begin: number,
+  now: string,
+): EncodedReminder {
+  const reminder: Partial<EncodedReminder> & {alarms: AlarmOutput[]} = {
+    id: `ics-${index + 1}`,
+    listName: DEFAULT_LIST_NAME,
+    isCompleted: false,
+    priority: 'none',
+    alarms,
+  };
+  const rules: RecurrenceRuleOutput[] = [];
+  let status: string | undefined;
+
+  for (const {name, params, value, line} of lines) {
+    switch (name) {
+      case 'UID':
+        reminder.id = value;
+        break;
+      case 'SUMMARY':
+        reminder.title = unescapeText(value);
+        break;
+      case 'DESCRIPTION':
+        reminder.notes = unescapeText(value);
+        break;
+      case 'URL':
+        reminder.url = value;
+        break;
+      case 'CATEGORIES':
+        reminder.listName = splitText(value)[0] || DEFAULT_LIST_NAME;
+        break;
+      case 'PRIORITY':
+        reminder.priority = parsePriority(value, line);
+        break;
+      case 'STATUS':
+        status = value.toUpperCase();
+        break;
+      case 'DUE': {
+        const {date, isDate} = parseDateValue(value, params, line);
+        reminder.dueDate = toISO8601WithTimezone(date);
+        reminder.dueDateIncludesTime = !isDate;
+        break;
+      }
+      case 'COMPLETED':
+        reminder.completionDate = toISO8601WithTimezone(
+          parseDateValue(value, params, line).date,
+        );
+        break;
+      case 'CREATED':
+        reminder.createdDate = toISO8601WithTimezone(
+          parseDateValue(value, params, line).date,
+        );
+        break;
+      case 'LAST-MODIFIED':
+        reminder.lastModifiedDate = toISO8601WithTimezone(
+          parseDateValue(value, params, line).date,
+        );
+        break;
+      case 'RRULE':
+        try {
+          rules.push(rruleToRecurrence(value));
+        } catch (error) {
+          if (!(error instanceof RRuleError)) throw error;
+          throw new ICalendarError(error.message, line);
+        }
+        break;
+    }
+  }
+
+  if (reminder.title === undefined) {
+    throw new ICalendarError('VTODO without SUMMARY', begin);
+  }
+  reminder.isCompleted =
+    status === 'COMPLETED' || reminder.completionDate !== undefined;
+  reminder.createdDate ??= now;
+  reminder.lastModifiedDate ??= reminder.createdDate;
+  if (rules.length > 0) reminder.recurrenceRules = rules;
+  if (alarms.length === 0) delete (reminder as {alarms?: unknown}).alarms;
+
+  return reminder as EncodedReminder;
+}
+
+/**
+ * Parses the VTODOs in an iCalendar file into ExportData, with one list per
+ * first CATEGORIES value (or "Reminders"), so it can be restored or diffed
+ * like a JSON export. Other components (VEVENT, VTIMEZONE, ...) are ignored.
+ */
+export function parseICalendar(text: string): ExportData {
+  const now = new Date();
+  const lines = parseContentLines(text);
+  const reminders: EncodedReminder[] = [];
+
+  let todo: ContentLine[] | null = null;
+  let todoBegin = 0;
+  let alarm: ContentLine[] | null = null;
+  let alarms: AlarmOutput[] = [];
+
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VTODO') {
+      todo = [];
+      todoBegin = line.line;
+      alarms = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VTODO') {
+      if (!todo) throw new ICalendarError('END:VTODO without BEGIN', line.line);
+      reminders.push(
+        parseTodo(
+          todo,
+          alarms,
+          reminders.length,
+          todoBegin,
+          toISO8601WithTimezone(now),
+        ),
+      );
+      todo = null;
+    } else if (
+      todo &&
+      line.name === 'BEGIN' &&
+      line.value.toUpperCase() === 'VALARM'
+    ) {
+      alarm = [];
+    } else if (
+      alarm &&
+      line.name === 'END' &&
+      line.value.toUpperCase() === 'VALARM'
+    ) {
+      alarms.push(parseAlarm(alarm, line.line));
+      alarm = null;
+    } else if (alarm) {
+      alarm.push(line);
+    } else if (todo) {
+      todo.push(line);
+    }
+  }
+  if (todo) throw new ICalendarError('Unterminated VTODO', todoBegin);
+
+  const lists: ReminderListOutput[] = [];
+  for (const reminder of reminders) {
+    let list = lists.find((l) => l.name === reminder.listName);
+    if (!list) {
+      list = {
+        id: `ics-list-${lists.length + 1}`,
+        name: reminder.listName,
+        isDefault: false,
+      };
+      lists.push(list);
+    }
+    reminder.listId = list.id;
+  }
+
+  const completed = reminders.filter((r) => r.isCompleted).length;
+  return {
+    exportVersion: '1.0',
+    exportDate: toISO8601UTC(now),
+    source: 'iCalendar import',
+    stats: {
+      lists: lists.length,
+      reminders: reminders.length,
+      completed,
+      incomplete: reminders.length - completed,
+    },
+    lists,
+    reminders,
+  };
+}
+
+/**
+ * create_reminders payload for the VTODOs in `text`. Completion cannot be
+ * set on create; use restoreExport(parseICalendar(text)) to keep it.
+ */
+export function icalendarToCreatePayload(
+  text: string,
+  listName?: string,
+): CreateRemindersArgs {
+  return {
+    reminders: parseICalendar(text).reminders.map((reminder) =>
+      toCreateInput(reminder, listName ?? reminder.listName),
+    ),
+  };
+}
+
+async function main(): Promise<void> {
+  const [command, path, ...rest] = process.argv.slice(2);
+
+  if (command === 'export' && path) {
+    const output = rest[0] === '-o' ? rest[1] : undefined;
+    const ics = exportToICalendar(loadExport(path));
+    if (output) {
+      writeFileSync(output, ics);
+      console.log(`Wrote ${output}`);
+    } else {
+      process.stdout.write(ics);
+    }
+    return;
+  }
+
+  if (command === 'import' && path) {
+    const text = readFileSync(path, 'utf8');
+    if (rest.includes('--payload')) {
+      console.log(JSON.stringify(icalendarToCreatePayload(text), null, 2));
+      return;
+    }
+
+    const lists: string[] = [];
+    let idMapPath: string | undefined;
+    rest.forEach((arg, i) => {
+      if (arg === '--list') lists.push(rest[i + 1]);
+      if (arg === '--id-map') idMapPath = rest[i + 1];
+    });
+    const testMode =
+      rest.includes('--test-mode') || process.env.AR_MCP_TEST_MODE === '1';
+    const client = await MCPClient.create({
+      mockMode: rest.includes('--mock'),
+      testMode,
+    });
+    try {
+      const report = await restoreExport(client, parseICalendar(text), {
+        dryRun: rest.includes('--dry-run'),
+        lists: lists.length > 0 ? lists : undefined,
+        skipExisting: !rest.includes('--allow-duplicates'),
+        testMode,
+      });
+      if (idMapPath) {
+        writeFileSync(idMapPath, JSON.stringify(report.idMap, null, 2));
+      }
+      console.log(
+        rest.includes('--json')
+          ? JSON.stringify(report, null, 2)
+          : formatReport(report),
+      );
+      if (report.reminders.failed.length > 0) process.exitCode = 1;
+    } finally {
+      await client.cleanup();
+    }
+    return;
+  }
+
+  console.error('Usage:');
+  console.error('  bun test/ical.ts export <export.json> [-o out.ics]');
+  console.error('  bun test/ical.ts import <file.ics> [--payload] [options]');
+  process.exit(2);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(error instanceof ICalendarError ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for jmespath-conformance.ts: the reference side's post-processing,
+ * mismatch reporting, and the corpus agreeing with the server.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {
+  compareOutcomes,
+  CORPUS,
+  formatReport,
+  referenceOutcome,
+  runConformance,
+  seedFixtures,
+} from './jmespath-conformance';
+import {MCPClient} from './mcp-client';
+import type {ReminderOutput} from './reference-models';
+
+const reminders = [
+  {id: 'a', title: 'Alpha', notes: null},
+  {id: 'b', title: 'Beta', notes: 'x'},
+] as unknown as ReminderOutput[];
+
+describe('JMESPath conformance', () => {
+  test('the reference result gets the server post-processing', () => {
+    expect(referenceOutcome(reminders, '[*].title')).toEqual({
+      result: ['Alpha', 'Beta'],
+    });
+    expect(referenceOutcome(reminders, '[*].title', 1)).toEqual({
+      result: ['Alpha'],
+    });
+    expect(referenceOutcome(reminders, '[0].nonexistent')).toEqual({
+      result: [],
+    });
+    expect(referenceOutcome(reminders, '{first: [0].{n: notes}}')).toEqual({
+      result: {first: {n: null}},
+    });
+    expect(referenceOutcome(reminders, 'length(@)')).toEqual({
+      error: 'Top-level number is not a valid tool result',
+    });
+    expect(referenceOutcome(reminders, "[?title == 'x'")).toHaveProperty(
+      'error',
+    );
+  });
+
+  test('every error case in the corpus fails on the reference side', () => {
+    for (const c of CORPUS.filter((c) => c.category === 'errors')) {
+      const outcome = referenceOutcome(reminders, c.query);
+      if (c.name === 'null result') expect(outcome).toEqual({result: []});
+      else expect(outcome).toHaveProperty('error');
+    }
+  });
+
+  test('reports mismatches by path, and error against result', () => {
+    const c = CORPUS[0];
+    expect(compareOutcomes(c, {result: ['A']}, {result: ['A']})).toBeNull();
+    expect(compareOutcomes(c, {error: 'bad'}, {error: 'worse'})).toBeNull();
+
+    const differs = compareOutcomes(
+      c,
+      {result: [{t: 'A'}]},
+      {result: [{t: 'A', n: null}, {t: 'B'}]},
+    )!;
+    expect(differs.differences).toEqual([
+      {path: '$.length', server: 1, reference: 2},
+      {path: '$[0].n', server: undefined, reference: null},
+    ]);
+    const failed = compareOutcomes(c, {error: 'Invalid'}, {result: []})!;
+    expect(failed.differences).toEqual([]);
+
+    expect(
+      formatReport({
+        backend: 'swift',
+        reminders: 2,
+        cases: 2,
+        mismatches: [differs, failed],
+        knownDivergences: [],
+      }),
+    ).toBe(
+      [
+        'JMESPath conformance (swift): 2 expression(s) over 2 reminder(s), 2 mismatch(es)',
+        '',
+        '## filters',
+        `- equality: ${c.query}`,
+        '    $.length',
+        '      server:    1',
+        '      reference: 2',
+        '    $[0].n',
+        '      server:    (missing)',
+        '      reference: null',
+        `- equality: ${c.query}`,
+        '    server:    error: Invalid',
+        '    reference: []',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('JMESPath conformance against the server', () => {
+  let client: MCPClient;
+  let listName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    listName = await client.createTestList();
+    await seedFixtures(client, listName);
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('the corpus matches the reference implementation', async () => {
+    const report = await runConformance(client, listName);
+    expect(report.reminders).toBe(6);
+    expect(report.cases).toBe(CORPUS.length);
+    expect(report.mismatches).toEqual([]);
+    expect(formatReport(report)).toContain('\n\nNo mismatches.\n');
+  });
+
+  test('whole reminders and their keys are reported as known divergences', async () => {
+    const report = await runConformance(client, listName);
+    expect(report.knownDivergences.map((m) => m.case.name)).toEqual([
+      'whole reminder',
+      'keys of a reminder',
+      'length of a reminder',
+    ]);
+    expect(report.knownDivergences[0].differences.map((d) => d.path)).toContain(
+      '$.recurrenceRules',
+    );
+    expect(formatReport(report)).toContain(
+      "## known divergences\n- whole reminder: [0]\n    known: the server's input omits null fields\n",
+    );
+  });
+
+  test('a divergence outside the corpus is a mismatch', async () => {
+    const report = await runConformance(client, listName, [
+      {name: 'whole reminder', category: 'custom', query: '[?url] | [0]'},
+    ]);
+    expect(report.mismatches).toHaveLength(1);
+    expect(report.knownDivergences).toEqual([]);
+  });
+});
@@ -0,0 +1,452 @@
+#!/usr/bin/env bun
+
+/**
+ * JMESPath conformance: runs a corpus of query_reminders `query`
+ * expressions on the server, evaluates the same expressions with the
+ * reference TypeScript implementation (the jmespath package) over the
+ * reminders fetched with outputDetail 'full', and reports every mismatch.
+ *
+ * The tool description tells users to write expressions against the full
+ * field set, so that is the reference input. The server's own input is in
+ * its fetch order, not sorted; the harness recovers that order with
+ * `[*].id` before evaluating. The server's post-processing is applied to
+ * the reference result too: arrays are cut to the limit, null becomes [],
+ * and a top-level scalar (string, number, boolean) is an error.
+ * Expressions that return whole reminders or look at which keys exist
+ * (keys(@), length(@) on a reminder) differ, because full output shows
+ * null fields that the server's input omits. They are in the corpus as
+ * known divergences: reported in their own section, not as mismatches.
+ *
+ * Usage: bun test/jmespath-conformance.ts [--list <name>] [--query <expr>]...
+ *                                         [--real] [--json] [-o <report>]
+ *   Without --list the corpus runs over fixture reminders in a fresh test
+ *   list; --query runs the given expressions instead of the corpus. --real
+ *   uses EventKit (macOS, test mode on) instead of mock mode. Exits 0 when
+ *   every expression matches, 1 on mismatches, 2 on error.
+ */
+
+import jmespath from 'jmespath';
+import {writeFileSync} from 'fs';
+import {diffValues} from './differential';
+import {MCPClient} from './mcp-client';
+import type {ReminderOutput} from './reference-models';
+import type {CreateRemindersArgs} from './tool-types.generated';
+
+export type CaseCategory =
+  | 'filters'
+  | 'functions'
+  | 'projections'
+  | 'multiselect'
+  | 'defaults'
+  | 'pipes'
+  | 'errors'
+  /** Given with --query */
+  | 'custom';
+
+export interface ConformanceCase {
+  name: string;
+  category: CaseCategory;
+  query: string;
+  /** Why the server is expected to differ; such cases do not fail the run */
+  knownDivergence?: string;
+}
+
+/** An expression's result, or the error it produced */
+export type Outcome = {result: unknown} | {error: string};
+
+export interface Mismatch {
+  case: ConformanceCase;
+  server: Outcome;
+  reference: Outcome;
+  /** Where the results differ; empty when one side is an error */
+  differences: Array<{path: string; server: unknown; reference: unknown}>;
+}
+
+export interface ConformanceReport {
+  backend: string;
+  reminders: number;
+  cases: number;
+  mismatches: Mismatch[];
+  /** Mismatches of cases with a knownDivergence */
+  knownDivergences: Mismatch[];
+}
+
+const expr = (
+  category: CaseCategory,
+  name: string,
+  query: string,
+  knownDivergence?: string,
+): ConformanceCase => ({
+  name,
+  category,
+  query,
+  ...(knownDivergence && {knownDivergence}),
+});
+
+const OMITS_NULLS = "the server's input omits null fields";
+
+export const CORPUS: ConformanceCase[] = [
+  expr('filters', 'equality', "[?priority == 'high'].title"),
+  expr('filters', 'inequality', "[?priority != 'none'].title"),
+  expr('filters', 'boolean literal', '[?isCompleted == `true`].title'),
+  expr('filters', 'null fields', '[?notes == null].title'),
+  expr('filters', 'truthiness', '[?alarms].title'),
+  expr(
+    'filters',
+    'and, or, not',
+    "[?(priority == 'high' || priority == 'low') && !isCompleted].title",
+  ),
+  expr('functions', 'contains', "[?contains(title, 'Call')].title"),
+  expr('functions', 'starts_with', "[?starts_with(title, 'Pay')].title"),
+  expr('functions', 'ends_with', "[?ends_with(title, 's')].title"),
+  expr('functions', 'length in a filter', '[?length(title) > `10`].title'),
+  expr('functions', 'length of a projection', '{count: length(@)}'),
+  expr('functions', 'sort_by', 'sort_by(@, &title)[*].title'),
+  expr(
+    'functions',
+    'sort_by on a defaulted field',
+    "sort_by(@, &dueDate || '')[*].title",
+  ),
+  expr('functions', 'sort and reverse', '{titles: reverse(sort([*].title))}'),
+  expr('functions', 'max_by', '{longest: max_by(@, &length(title)).title}'),
+  expr('functions', 'map', 'map(&length(title), @)'),
+  expr('functions', 'join', "{titles: join(', ', sort([*].title))}"),
+  expr('functions', 'to_string', '[*].to_string(isCompleted)'),
+  expr('projections', 'list projection', '[*].title'),
+  expr('projections', 'nested index', '[*].recurrenceRules[0].frequency'),
+  expr('projections', 'flatten', '[*].alarms[].type'),
+  expr('projections', 'slice', '[1:3].title'),
+  expr('projections', 'filter then project', '[?dueDate].dueDate'),
+  expr('projections', 'whole reminder', '[0]', OMITS_NULLS),
+  expr('functions', 'keys of a reminder', '[0] | keys(@)', OMITS_NULLS),
+  expr('functions', 'length of a reminder', '{n: length([0])}', OMITS_NULLS),
+  expr('multiselect', 'hash', '[*].{t: title, p: priority}'),
+  expr('multiselect', 'hash with null values', '[*].{t: title, n: notes}'),
+  expr('multiselect', 'list', '[*].[title, isCompleted]'),
+  expr(
+    'multiselect',
+    'nested hash',
+    '[0].{title: title, list: {name: listName}}',
+  ),
+  expr('defaults', 'null notes', "[*].{t: title, notes: notes || 'none'}"),
+  expr('defaults', 'in a filter', "[?contains(notes || '', 'call')].title"),
+  expr('defaults', 'in map', "map(&(dueDate || 'no date'), @)"),
+  expr('defaults', 'first non-null', '[*].(url || notes || title)'),
+  expr('pipes', 'filter | index', '[?isCompleted == `false`] | [0].{t: title}'),
+  expr(
+    'pipes',
+    'sort | last | hash',
+    'sort_by(@, &title) | [-1].{title: title}',
+  ),
+  expr('pipes', 'project | sort', '[*].priority | sort(@)'),
+  expr(
+    'pipes',
+    'project | hash',
+    "[?priority != 'none'] | {high: [?priority == 'high'].title, count: length(@)}",
+  ),
+  expr('errors', 'top-level number', 'length(@)'),
+  expr('errors', 'top-level string', '[0].title'),
+  expr('errors', 'null result', '[0].nonexistent'),
+  expr('errors', 'invalid syntax', "[?title == 'x'"),
+  expr('errors', 'unknown function', 'no_such_function(@)'),
+  expr('errors', 'wrong argument type', 'contains(`1`, `2`)'),
+];
+
+/** Varied enough for the corpus: nulls, priorities, alarms, repeats, completion */
+export const FIXTURES: CreateRemindersArgs['reminders'] = [
+  {
+    title: 'Buy milk',
+    notes: 'Oat, not soy',
+    priority: 'high',
+    dueDate: '2026-11-02T17:00:00Z',
+    alarms: [{type: 'relative', offset: 3600}],
+  },
+  {
+    title: 'Call mum',
+    priority: 'medium',
+    dueDate: '2026-11-01',
+    recurrenceRule: {frequency: 'weekly', interval: 1},
+  },
+  {
+    title: 'Call plumber about the leaks',
+    notes: 'call before 9',
+    priority: 'low',
+    url: 'https://example.com/plumber',
+  },
+  {title: 'Pay bills', priority: 'high'},
+  {
+    title: 'Water plants',
+    dueDate: '2026-11-03T08:00:00Z',
+    alarms: [
+      {type: 'absolute', date: '2026-11-03T07:30:00Z'},
+      {type: 'relative', offset: 0},
+    ],
+    recurrenceRule: {frequency: 'daily', interval: 2, endCount: 5},
+  },
+  {title: 'Zebra crossing report', notes: ''},
+];
+
+/** The title of a fixture reminder to mark completed, so status matters */
+const COMPLETED_FIXTURE = 'Pay bills';
+
+const LIMIT = 200;
+
+/**
+ * The reference answer to `query` over `reminders`, after the same
+ * post-processing query_reminders applies to its JMESPath result.
+ */
+export function referenceOutcome(
+  reminders: ReminderOutput[],
+  query: string,
+  limit = LIMIT,
+): Outcome {
+  let result: unknown;
+  try {
+    result = jmespath.search(reminders, query);
+  } catch (error) {
+    return {error: (error as Error).message};
+  }
+  if (Array.isArray(result)) return {result: result.slice(0, limit)};
+  if (result === null || result === undefined) return {result: []};
+  if (typeof result !== 'object') {
+    return {error: `Top-level ${typeof result} is not a valid tool result`};
+  }
+  return {result};
+}
+
+/** null when the outcomes agree; both being errors counts as agreeing */
+export function compareOutcomes(
+  conformanceCase: ConformanceCase,
+  server: Outcome,
+  reference: Outcome,
+): Mismatch | null {
+  if ('error' in server && 'error' in reference) return null;
+  if ('error' in server || 'error' in reference) {
+    return {case: conformanceCase, server, reference, differences: []};
+  }
+  const found: Array<{path: string; left: unknown; right: unknown}> = [];
+  diffValues(server.result, reference.result, '$', found);
+  if (found.length === 0) return null;
+  return {
+    case: conformanceCase,
+    server,
+    reference,
+    differences: found.map((d) => ({
+      path: d.path,
+      server: d.left,
+      reference: d.right,
+    })),
+  };
+}
+
+async function serverOutcome(
+  client: MCPClient,
+  args: Record<string, unknown>,
+): Promise<Outcome> {
+  const result = await client.callTool('query_reminders', args);
+  if (!Array.isArray(result) && result._isError) {
+    return {error: String(result.error)};
+  }
+  return {result};
+}
+
+/** Creates FIXTURES in `listName` and completes one of them */
+export async function seedFixtures(
+  client: MCPClient,
+  listName: string,
+): Promise<void> {
+  const created = await client.tools.createReminders({
+    reminders: FIXTURES.map((r) => ({...r, list: {name: listName}})),
+  });
+  const reminders = Array.isArray(created) ? created : created.created;
+  const done = reminders.find((r) => r.title === COMPLETED_FIXTURE)!;
+  await client.tools.updateReminders({
+    reminders: [{id: done.id, completed: true}],
+  });
+}
+
+/**
+ * Runs `cases` over every reminder in `listName` (any status) on the
+ * server and on the reference implementation.
+ */
+export async function runConformance(
+  client: MCPClient,
+  listName: string,
+  cases: ConformanceCase[] = CORPUS,
+): Promise<ConformanceReport> {
+  const scope = {list: {name: listName}, status: 'all' as const, limit: LIMIT};
+  const full = await client.tools.queryReminders<ReminderOutput[]>({
+    ...scope,
+    outputDetail: 'full',
+  });
+  if (full.length >= LIMIT) {
+    throw new Error(
+      `'${listName}' has ${LIMIT} or more reminders; queries stop at ${LIMIT}, so use a smaller list`,
+    );
+  }
+  // The server evaluates over its fetch order; full output is sorted
+  const order = await client.tools.queryReminders<string[]>({
+    ...scope,
+    query: '[*].id',
+  });
+  const byId = new Map(full.map((r) => [r.id, r]));
+  const reminders = order.map((id) => {
+    const reminder = byId.get(id);
+    if (!reminder) throw new Error(`Reminder ${id} missing from full output`);
+    return reminder;
+  });
+
+  const mismatches: Mismatch[] = [];
+  const knownDivergences: Mismatch[] = [];
+  for (const conformanceCase of cases) {
+    const server = await serverOutcome(client, {
+      ...scope,
+      query: conformanceCase.query,
+    });
+    const reference = referenceOutcome(reminders, conformanceCase.query);
+    const mismatch = compareOutcomes(conformanceCase, server, reference);
+    if (!mismatch) continue;
+    if (conformanceCase.knownDivergence) knownDivergences.push(mismatch);
+    else mismatches.push(mismatch);
+  }
+  return {
+    backend: client.getBackend(),
+    reminders: reminders.length,
+    cases: cases.length,
+    mismatches,
+    knownDivergences,
+  };
+}
+
+const show = (value: unknown) =>
+  value === undefined ? '(missing)' : JSON.stringify(value);
+
+function formatMismatch(m: Mismatch): string[] {
+  const lines = [`- ${m.case.name}: ${m.case.query}`];
+  if (m.case.knownDivergence)
+    lines.push(`    known: ${m.case.knownDivergence}`);
+  if (m.differences.length === 0) {
+    const describe = (outcome: Outcome) =>
+      'error' in outcome ? `error: ${outcome.error}` : show(outcome.result);
+    lines.push(
+      `    server:    ${describe(m.server)}`,
+      `    reference: ${describe(m.reference)}`,
+    );
+    return lines;
+  }
+  for (const d of m.differences) {
+    lines.push(
+      `    ${d.path}`,
+      `      server:    ${show(d.server)}`,
+      `      reference: ${show(d.reference)}`,
+    );
+  }
+  return lines;
+}
+
+export function formatReport(report: ConformanceReport): string {
+  const known = report.knownDivergences;
+  const header = `JMESPath conformance (${report.backend}): ${report.cases} expression(s) over ${report.reminders} reminder(s), ${report.mismatches.length} mismatch(es)${known.length > 0 ? `, ${known.length} known divergence(s)` : ''}`;
+
+  const lines = [header];
+  if (report.mismatches.length === 0) lines.push('', 'No mismatches.');
+  const categories = [
+    ...new Set(report.mismatches.map((m) => m.case.category)),
+  ];
+  for (const category of categories) {
+    lines.push('', `## ${category}`);
+    for (const m of report.mismatches) {
+      if (m.case.category === category) lines.push(...formatMismatch(m));
+    }
+  }
+  if (known.length > 0) {
+    lines.push('', '## known divergences', ...known.flatMap(formatMismatch));
+  }
+  return lines.join('\n');
+}
+
+interface Options {
+  list?: string;
+  queries: string[];
+  real: boolean;
+  json: boolean;
+  output?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {queries: [], real: false, json: false};
+  const value = (flag: string, next: string | undefined) => {
+    if (next === undefined) throw new Error(`${flag} needs a value`);
+    return next;
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--list':
+        options.list = value('--list', argv[++i]);
+        break;
+      case '--query':
+        options.queries.push(value('--query', argv[++i]));
+        break;
+      case '--real':
+        options.real = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '-o':
+      case '--output':
+        options.output = value('--output', argv[++i]);
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: Options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/jmespath-conformance.ts [--list <name>] [--query <expr>]... [--real] [--json] [-o <report>]',
+    );
+    process.exit(2);
+  }
+
+  const cases = options.queries.length
+    ? options.queries.map((query, i) =>
+        expr('custom', `--query ${i + 1}`, query),
+      )
+    : CORPUS;
+  const client = options.real
+    ? await MCPClient.createWithRealEventKit()
+    : await MCPClient.create();
+  let report: ConformanceReport;
+  try {
+    let listName = options.list;
+    if (listName === undefined) {
+      listName = await client.createTestList();
+      await seedFixtures(client, listName);
+    }
+    report = await runConformance(client, listName, cases);
+  } finally {
+    await client.cleanup();
+  }
+
+  const text = options.json
+    ? JSON.stringify(report, null, 2)
+    : formatReport(report);
+  if (options.output) writeFileSync(options.output, text + '\n');
+  else console.log(text);
+  process.exit(report.mismatches.length === 0 ? 0 : 1);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(2);
+  });
+}
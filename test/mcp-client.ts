@@ -1,6 +1,8 @@
 /**
  * MCP Client utility for testing the Apple Reminders MCP server.
  * Spawns the server process and communicates via JSON-RPC over stdin/stdout.
+ * A single reader frames stdout into lines and routes each response to the
+ * pending request with the same id, so concurrent calls are safe.
  *
  * Updated for the new 6-tool API.
  *
@@ -8,16 +10,73 @@
  * - Mock mode (default): Uses in-memory storage, no EventKit access needed
  * - Real mode: Uses actual Apple Reminders via EventKit (requires macOS)
  *
+ * And two backends:
+ * - 'swift': The built binary at .build/release/apple-reminders-mcp
+ * - 'reference': The TypeScript reference server (test/reference-server.ts),
+ *   mock mode only. Used automatically when the binary has not been built.
+ *
+ * Sessions can also be recorded to and replayed from a cassette file
+ * (see cassette.ts); a replaying client spawns no server.
+ *
  * Environment variables:
  * - AR_MCP_MOCK_MODE=1: Enable mock mode (in-memory storage)
  * - AR_MCP_TEST_MODE=1: Enable test mode (restricts writes to test lists)
+ * - AR_MCP_BACKEND=swift|reference: Force a backend for mock-mode clients
  */
 
 import {spawn, type Subprocess} from 'bun';
 import {randomUUID} from 'crypto';
+import {EventEmitter} from 'events';
+import {existsSync} from 'fs';
+import {
+  CassettePlayer,
+  CassetteRecorder,
+  type CassetteOptions,
+} from './cassette';
+import {ToolWrappers} from './tool-types.generated';
+import {
+  assertValid,
+  type JsonSchema,
+  ValidationError,
+  type ValidationIssue,
+  type Validator,
+  validators,
+} from './validators';
+
+export {ValidationError, type ValidationIssue, validators} from './validators';
 
 const EXECUTABLE_PATH = '.build/release/apple-reminders-mcp';
+const REFERENCE_SERVER_PATH = `${import.meta.dir}/reference-server.ts`;
 const TEST_LIST_PREFIX = '[AR-MCP TEST]';
+const TEMPORARY_LIST_PREFIX = `${TEST_LIST_PREFIX} - TMP (`;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Name for a throwaway real-mode test list: a random id and the creation
+ * time in UTC, e.g. `[AR-MCP TEST] - TMP (1a2b3c4d 20261019T120000Z)`.
+ * cleanup-test-lists.ts reads the time back for --older-than.
+ */
+export function temporaryListName(
+  now = new Date(),
+  id = randomUUID().split('-')[0],
+): string {
+  const stamp = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${TEMPORARY_LIST_PREFIX}${id} ${stamp.replace(/[-:]/g, '')})`;
+}
+
+/** When a temporaryListName list was created; null for any other name */
+export function temporaryListCreatedAt(name: string): Date | null {
+  if (!name.startsWith(TEMPORARY_LIST_PREFIX)) return null;
+  const match =
+    /^[0-9a-f]{8} (\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z\)$/.exec(
+      name.slice(TEMPORARY_LIST_PREFIX.length),
+    );
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+export type MCPBackend = 'swift' | 'reference';
 
 interface MCPRequest {
   jsonrpc: '2.0';
@@ -34,7 +93,7 @@ interface MCPTool {
 
 interface MCPResponse {
   jsonrpc: '2.0';
-  id: number;
+  id: number | string;
   result?: {
     content?: Array<{type: string; text: string}>;
     tools?: MCPTool[];
@@ -54,27 +113,143 @@ interface ToolResult {
   [key: string]: unknown;
 }
 
+/** A server-initiated message (no matching pending request). */
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+  id?: number | string;
+}
+
+interface PendingRequest {
+  method: string;
+  params?: Record<string, unknown>;
+  resolve: (response: MCPResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Rejected when a request gets no response within its timeout.
+ * Carries the method and params so the failing call can be identified.
+ */
+export class MCPRequestTimeoutError extends Error {
+  readonly method: string;
+  readonly params: Record<string, unknown> | undefined;
+  readonly timeoutMs: number;
+
+  constructor(
+    method: string,
+    params: Record<string, unknown> | undefined,
+    timeoutMs: number,
+  ) {
+    super(
+      `MCP request '${method}' timed out after ${timeoutMs}ms. Params: ${JSON.stringify(params ?? {})}`,
+    );
+    this.name = 'MCPRequestTimeoutError';
+    this.method = method;
+    this.params = params;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Thrown by the typed `client.tools` wrappers when a tool returns isError. */
+export class MCPToolCallError extends Error {
+  readonly toolName: string;
+  readonly args: Record<string, unknown>;
+
+  constructor(
+    toolName: string,
+    args: Record<string, unknown>,
+    message: string,
+  ) {
+    super(`Tool '${toolName}' failed: ${message}`);
+    this.name = 'MCPToolCallError';
+    this.toolName = toolName;
+    this.args = args;
+  }
+}
+
 interface MCPClientOptions {
   /** Use mock mode (in-memory storage). Default: true */
   mockMode?: boolean;
   /** Use test mode (restricts writes to test lists). Default: true for real mode */
   testMode?: boolean;
+  /**
+   * Server implementation to spawn. Default: AR_MCP_BACKEND if set, otherwise
+   * 'swift' when the binary is built and 'reference' when it is not.
+   * Real mode always requires 'swift'.
+   */
+  backend?: MCPBackend;
+  /** Spawn this command instead of a backend (e.g. a wrapper around the server) */
+  command?: string[];
+  /** Per-request timeout in milliseconds. Default: 30000 */
+  requestTimeoutMs?: number;
+  /** Record the session to, or replay it from, a cassette file */
+  cassette?: CassetteOptions;
+  /** Default for callTool's `validateArgs`. Default: false */
+  validateArgs?: ArgumentValidation;
 }
 
+/**
+ * Checking tool arguments against the inputSchema before sending:
+ * true returns invalid calls as {_isError, error, issues}; 'strict' throws
+ * a ValidationError instead.
+ */
+export type ArgumentValidation = boolean | 'strict';
+
 export class MCPClient {
-  private process: Subprocess<'pipe', 'pipe', 'pipe'>;
+  /** null when replaying a cassette */
+  private process: Subprocess<'pipe', 'pipe', 'pipe'> | null;
   private requestId = 0;
   private testListName: string | null = null;
   private createdReminderIds: string[] = [];
   private useMockMode: boolean;
+  private backend: MCPBackend | 'custom' | 'cassette';
+  private recorder: CassetteRecorder | null = null;
+  private player: CassettePlayer | null = null;
+  private requestTimeoutMs: number;
+  private pending = new Map<number, PendingRequest>();
+  private closed = false;
   private initializeResult: MCPResponse['result'] | null = null;
+  private validateArgs: ArgumentValidation = false;
+  /** Input schemas by tool name, fetched once per session */
+  private inputSchemas: Promise<Map<string, JsonSchema>> | null = null;
+
+  /**
+   * Emits:
+   * - 'notification' (MCPNotification): server-initiated messages
+   * - 'unmatched' (MCPResponse): responses whose id has no pending request,
+   *   e.g. errors for requests the server could not parse (id -1)
+   * - 'close': the server's stdout ended; pending requests are rejected
+   */
+  readonly events = new EventEmitter();
+
+  /**
+   * Typed wrappers for each tool, generated from the tools/list schemas,
+   * e.g. `client.tools.queryReminders({status: 'completed'})`.
+   * Unlike callTool, these reject with MCPToolCallError on tool errors.
+   */
+  readonly tools = new ToolWrappers((name, args) =>
+    this.callToolOrThrow(name, args as Record<string, unknown>),
+  );
 
   private constructor(
-    proc: Subprocess<'pipe', 'pipe', 'pipe'>,
+    proc: Subprocess<'pipe', 'pipe', 'pipe'> | null,
     useMockMode: boolean,
+    backend: MCPBackend | 'custom' | 'cassette',
+    requestTimeoutMs: number,
   ) {
     this.process = proc;
     this.useMockMode = useMockMode;
+    this.backend = backend;
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.events.on('notification', (message: MCPNotification) => {
+      if (message.method === 'notifications/tools/list_changed') {
+        this.inputSchemas = null;
+      }
+    });
+    if (proc) void this.readMessages();
   }
 
   /**
@@ -90,10 +265,37 @@ export class MCPClient {
   static async create(options: MCPClientOptions = {}): Promise<MCPClient> {
     const {mockMode = true, testMode} = options;
 
+    if (options.cassette?.mode === 'replay') {
+      const client = new MCPClient(
+        null,
+        mockMode,
+        'cassette',
+        options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      );
+      client.player = new CassettePlayer(options.cassette.path);
+      client.validateArgs = options.validateArgs ?? false;
+      await client.initialize();
+      return client;
+    }
+
+    const backend = options.backend ?? MCPClient.defaultBackend(mockMode);
+
+    if (backend === 'reference' && !mockMode) {
+      throw new Error(
+        'The reference backend only supports mock mode. Build the Swift binary for real EventKit tests.',
+      );
+    }
+
     // For real mode, default to test mode enabled for safety
     const useTestMode = testMode ?? !mockMode;
 
-    const proc = spawn([EXECUTABLE_PATH], {
+    const command =
+      options.command ??
+      (backend === 'swift'
+        ? [EXECUTABLE_PATH]
+        : [process.execPath, REFERENCE_SERVER_PATH]);
+
+    const proc = spawn(command, {
       stdin: 'pipe',
       stdout: 'pipe',
       stderr: 'pipe',
@@ -104,7 +306,16 @@ export class MCPClient {
       },
     });
 
-    const client = new MCPClient(proc, mockMode);
+    const client = new MCPClient(
+      proc,
+      mockMode,
+      options.command ? 'custom' : backend,
+      options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    );
+    if (options.cassette) {
+      client.recorder = new CassetteRecorder(options.cassette.path);
+    }
+    client.validateArgs = options.validateArgs ?? false;
 
     // Wait a bit for the server to start
     await new Promise((resolve) => setTimeout(resolve, 500));
@@ -148,6 +359,22 @@ export class MCPClient {
     return this.useMockMode;
   }
 
+  /**
+   * Get the server implementation this client is talking to.
+   */
+  getBackend(): MCPBackend | 'custom' | 'cassette' {
+    return this.backend;
+  }
+
+  private static defaultBackend(mockMode: boolean): MCPBackend {
+    if (!mockMode) return 'swift';
+
+    const fromEnv = process.env.AR_MCP_BACKEND;
+    if (fromEnv === 'swift' || fromEnv === 'reference') return fromEnv;
+
+    return existsSync(EXECUTABLE_PATH) ? 'swift' : 'reference';
+  }
+
   private async initialize(): Promise<void> {
     const response = await this.sendRequest('initialize', {
       protocolVersion: '2024-11-05',
@@ -158,68 +385,161 @@ export class MCPClient {
   }
 
   /**
-   * Send a JSON-RPC request and get the response.
-   * Handles large responses by reading until we have a complete JSON object.
+   * Send a JSON-RPC request and wait for the response with the same id.
+   * Safe to call concurrently; rejects with MCPRequestTimeoutError if no
+   * response arrives within the timeout.
    */
   async sendRequest(
     method: string,
     params?: Record<string, unknown>,
+    options: {timeoutMs?: number} = {},
   ): Promise<MCPResponse> {
+    if (this.closed) {
+      throw new Error(`Cannot send '${method}': the server has exited`);
+    }
+
     const request: MCPRequest = {
       jsonrpc: '2.0',
       id: ++this.requestId,
       method,
       params,
     };
+    if (this.player) {
+      const {result, error} = this.player.respond(method, params);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        ...(result === undefined ? {} : {result}),
+        ...(error === undefined ? {} : {error}),
+      } as MCPResponse;
+    }
+    const record = this.recorder?.begin(method, params);
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+
+    const response = new Promise<MCPResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(new MCPRequestTimeoutError(method, params, timeoutMs));
+      }, timeoutMs);
+      this.pending.set(request.id, {method, params, resolve, reject, timer});
+    });
+
+    const proc = this.process!;
+    proc.stdin.write(JSON.stringify(request) + '\n');
+    await proc.stdin.flush();
 
-    const requestLine = JSON.stringify(request) + '\n';
-    this.process.stdin.write(requestLine);
-    await this.process.stdin.flush();
+    if (!record) return response;
+    return response.then((message) => {
+      record(message);
+      return message;
+    });
+  }
 
-    // Read response from stdout, buffering until we have complete JSON
-    const reader = this.process.stdout.getReader();
+  /**
+   * Read stdout for the lifetime of the process, one JSON message per line,
+   * and route each message to its pending request or to `events`.
+   */
+  private async readMessages(): Promise<void> {
+    const reader = this.process!.stdout.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
-    const maxAttempts = 100; // Safety limit
-    let attempts = 0;
-
-    while (attempts < maxAttempts) {
-      const {value, done} = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, {stream: true});
-
-      // Try to find a complete JSON line
-      const lines = buffer.split('\n');
-      for (const line of lines) {
-        if (line.startsWith('{')) {
-          try {
-            const parsed = JSON.parse(line) as MCPResponse;
-            reader.releaseLock();
-            return parsed;
-          } catch {
-            // Not complete yet, keep reading
+
+    try {
+      while (true) {
+        const {value, done} = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, {stream: true});
+
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex !== -1) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
+          if (line.startsWith('{')) {
+            this.dispatchMessage(line);
           }
+          newlineIndex = buffer.indexOf('\n');
         }
       }
+    } catch {
+      // Stream errors mean the process is gone; handled below
+    } finally {
+      reader.releaseLock();
+      this.handleClose();
+    }
+  }
 
-      attempts++;
+  private dispatchMessage(line: string): void {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      return; // Not JSON-RPC (e.g. stray output); ignore
     }
 
-    reader.releaseLock();
-    throw new Error(
-      `Failed to get complete response after ${maxAttempts} attempts. Buffer: ${buffer.slice(0, 500)}...`,
-    );
+    if (typeof message.method === 'string') {
+      this.events.emit('notification', message as unknown as MCPNotification);
+      return;
+    }
+
+    const pending =
+      typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      this.events.emit('unmatched', message as unknown as MCPResponse);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id as number);
+    pending.resolve(message as unknown as MCPResponse);
+  }
+
+  private handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(
+        new Error(
+          `Server exited before responding to '${pending.method}' (id ${id})`,
+        ),
+      );
+    }
+    this.pending.clear();
+    this.events.emit('close');
   }
 
   /**
    * Call an MCP tool and return the parsed result.
    * The new API returns tool errors with isError: true rather than success: false.
+   *
+   * With `validate`, a successful result is checked against the expected
+   * shape (`true` picks it from the tool name and outputDetail) and a
+   * ValidationError listing each offending path is thrown on mismatch.
+   *
+   * With `validateArgs` (default: the client's `validateArgs` option), the
+   * arguments are first checked against the tool's inputSchema and nothing
+   * is sent if they fail; see ArgumentValidation.
    */
   async callTool(
     toolName: string,
     args: Record<string, unknown> = {},
+    options: {
+      validate?: boolean | Validator;
+      validateArgs?: ArgumentValidation;
+    } = {},
   ): Promise<ToolResult> {
+    const validateArgs = options.validateArgs ?? this.validateArgs;
+    if (validateArgs) {
+      const issues = await this.validateArguments(toolName, args);
+      if (issues.length > 0) {
+        const error = new ValidationError(`${toolName} arguments`, issues);
+        if (validateArgs === 'strict') throw error;
+        return {_isError: true, error: error.message, issues};
+      }
+    }
+
     const response = await this.sendRequest('tools/call', {
       name: toolName,
       arguments: args,
@@ -239,12 +559,61 @@ export class MCPClient {
       return {_isError: true, error: content.text};
     }
 
+    let result: ToolResult;
     try {
-      return JSON.parse(content.text) as ToolResult;
+      result = JSON.parse(content.text) as ToolResult;
     } catch {
       // If parsing fails, it might be a plain text error
       return {_isError: true, error: content.text};
     }
+
+    const validator =
+      options.validate === true
+        ? validators.forTool(toolName, args)
+        : options.validate || null;
+    if (validator) {
+      assertValid(validator, result, `${toolName} result`);
+    }
+    return result;
+  }
+
+  private async callToolOrThrow(
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<unknown> {
+    const result = await this.callTool(toolName, args);
+    if (!Array.isArray(result) && result._isError) {
+      throw new MCPToolCallError(toolName, args, String(result.error));
+    }
+    return result;
+  }
+
+  /**
+   * Check tool arguments against the tool's inputSchema. Schemas come from
+   * tools/list, fetched once per session and again after a
+   * notifications/tools/list_changed. An unknown tool is an issue at `$`.
+   */
+  async validateArguments(
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<ValidationIssue[]> {
+    this.inputSchemas ??= this.listToolsWithSchemas().then(
+      (tools) =>
+        new Map(
+          tools.map((t) => [t.name, (t.inputSchema ?? {}) as JsonSchema]),
+        ),
+    );
+    let schemas: Map<string, JsonSchema>;
+    try {
+      schemas = await this.inputSchemas;
+    } catch (error) {
+      this.inputSchemas = null;
+      throw error;
+    }
+
+    const schema = schemas.get(toolName);
+    if (!schema) return [{path: '$', message: `unknown tool '${toolName}'`}];
+    return validators.arguments(schema)(args);
   }
 
   /**
@@ -283,13 +652,11 @@ export class MCPClient {
    * In real mode, uses the test prefix to comply with test mode restrictions.
    */
   async createTestList(): Promise<string> {
-    const uuid = randomUUID().split('-')[0];
-
     // In mock mode, we can use simpler names since it's all in-memory
     // In real mode, we need the test prefix for test mode validation
     this.testListName = this.useMockMode
-      ? `Test List (${uuid})`
-      : `${TEST_LIST_PREFIX} - TMP (${uuid})`;
+      ? `Test List (${randomUUID().split('-')[0]})`
+      : temporaryListName();
 
     const result = await this.callTool('create_list', {
       name: this.testListName,
@@ -371,8 +738,10 @@ export class MCPClient {
       }
     }
 
+    this.recorder?.save();
+
     // Kill the server process
-    this.process.kill();
+    this.process?.kill();
   }
 
   /**
@@ -0,0 +1,423 @@
+/**
+ * Tests for operation-journal.ts through the audit proxy: the journal tools
+ * appear in tools/list, and undo_operation issues the inverse calls. An undo
+ * that fails part way runs against a scripted server.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {
+  type AuditRecord,
+  readAuditLog,
+  type ReminderStates,
+} from './audit-proxy';
+import {MCPClient} from './mcp-client';
+import {
+  type OperationSummary,
+  type UndoResult,
+  undoOperations,
+} from './operation-journal';
+import type {EncodedReminder} from './tool-results';
+
+const PROXY_PATH = `${import.meta.dir}/audit-proxy.ts`;
+const SERVER_PATH = `${import.meta.dir}/reference-server.ts`;
+
+describe('Operation journal', () => {
+  let client: MCPClient;
+  let dir: string;
+  let logPath: string;
+  let listName: string;
+
+  const create = async (title: string, extra: object = {}) => {
+    const [reminder] = (await client.tools.createReminders({
+      reminders: [{title, list: {name: listName}, ...extra}],
+    })) as EncodedReminder[];
+    return reminder;
+  };
+  const find = async (id: string) =>
+    (
+      (await client.tools.queryReminders({
+        list: {all: true},
+        status: 'all',
+        outputDetail: 'full',
+        query: `[?id == '${id}']`,
+      })) as EncodedReminder[]
+    )[0];
+  const findByTitle = async (title: string) =>
+    (
+      (await client.tools.queryReminders({
+        list: {name: listName},
+        status: 'all',
+        outputDetail: 'full',
+        query: `[?title == '${title}']`,
+      })) as EncodedReminder[]
+    )[0];
+  const recent = async (limit?: number) =>
+    (await client.callTool(
+      'list_recent_operations',
+      limit ? {limit} : {},
+    )) as unknown as OperationSummary[];
+  const undo = async (args: object = {}) =>
+    (await client.callTool('undo_operation', {
+      ...args,
+    })) as unknown as UndoResult & {_isError?: boolean; error?: string};
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'operation-journal-'));
+    logPath = join(dir, 'audit.jsonl');
+    client = await MCPClient.create({
+      command: [
+        process.execPath,
+        PROXY_PATH,
+        '--log',
+        logPath,
+        '--',
+        process.execPath,
+        SERVER_PATH,
+      ],
+    });
+    listName = await client.createTestList();
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('adds the journal tools to tools/list', async () => {
+    const names = (await client.listTools()).map((t) => t.name);
+    expect(names).toHaveLength(9);
+    expect(names.slice(-2)).toEqual([
+      'list_recent_operations',
+      'undo_operation',
+    ]);
+  });
+
+  test('lists write operations newest first', async () => {
+    const reminder = await create('Journaled', {priority: 'low'});
+    await client.tools.queryReminders({list: {name: listName}});
+    await client.callTool('update_reminders', {});
+    await client.tools.updateReminders({
+      reminders: [{id: reminder.id, title: 'Journaled (renamed)'}],
+    });
+
+    const operations = await recent(2);
+    expect(operations.map((o) => o.tool)).toEqual([
+      'update_reminders',
+      'create_reminders',
+    ]);
+    expect(operations[0]).toMatchObject({
+      summary: 'Updated 1 reminder(s): "Journaled" (title)',
+      reminderIds: [reminder.id],
+    });
+    expect(operations[1].summary).toBe('Created 1 reminder(s): "Journaled"');
+    expect(operations[0].operationId).not.toBe(operations[1].operationId);
+
+    // Journal calls are logged like any other
+    const last = readAuditLog(logPath).at(-1)!;
+    expect(last.tool).toBe('list_recent_operations');
+    expect(last.arguments).toEqual({limit: 2});
+  });
+
+  test('undoes an update, clearing fields that were empty', async () => {
+    const reminder = await create('Before edit', {priority: 'medium'});
+    await client.tools.updateReminders({
+      reminders: [
+        {
+          id: reminder.id,
+          title: 'After edit',
+          notes: 'added',
+          dueDate: '2026-09-01T10:00:00Z',
+          priority: 'high',
+          url: 'https://example.com',
+          alarms: [{type: 'relative', offset: 600}],
+          completed: true,
+        },
+      ],
+    });
+
+    const [operation] = await recent(1);
+    const result = await undo({operationId: operation.operationId});
+
+    expect(result.undone).toHaveLength(1);
+    expect(result.undone[0].calls[0]).toEqual({
+      tool: 'update_reminders',
+      arguments: {
+        reminders: [
+          {
+            id: reminder.id,
+            title: 'Before edit',
+            notes: null,
+            dueDate: null,
+            priority: 'medium',
+            url: null,
+            alarms: null,
+            completedDate: null,
+          },
+        ],
+      },
+    });
+    const restored = await find(reminder.id);
+    expect(restored).toMatchObject({
+      title: 'Before edit',
+      priority: 'medium',
+      isCompleted: false,
+    });
+    expect(restored.notes ?? null).toBeNull();
+    expect(restored.dueDate ?? null).toBeNull();
+    expect(restored.alarms ?? []).toEqual([]);
+
+    // Undone operations drop out of the list and can't be undone twice
+    expect((await recent()).map((o) => o.operationId)).not.toContain(
+      operation.operationId,
+    );
+    const again = await undo({operationId: operation.operationId});
+    expect(again.error).toBe(
+      `Operation ${operation.operationId} has already been undone`,
+    );
+  });
+
+  test('undoes a create by deleting and a delete by re-creating', async () => {
+    const created = await create('Created then undone');
+    const [createOp] = await recent(1);
+    await undo({operationId: createOp.operationId});
+    expect(await find(created.id)).toBeUndefined();
+
+    const doomed = await create('Deleted then restored', {
+      notes: 'keep me',
+      dueDate: '2026-10-01',
+      dueDateIncludesTime: false,
+      recurrenceRule: {frequency: 'weekly', interval: 2},
+    });
+    await client.tools.updateReminders({
+      reminders: [{id: doomed.id, priority: 'high'}],
+    });
+    await client.tools.deleteReminders({ids: [doomed.id]});
+
+    // Undo the delete, then the update on the (re-created) reminder
+    const result = await undo({last: 2});
+    expect(result.undone.map((u) => u.tool)).toEqual([
+      'delete_reminders',
+      'update_reminders',
+    ]);
+    const newId = result.undone[0].idMap![doomed.id];
+    expect(newId).not.toBe(doomed.id);
+    expect(result.undone[1].calls[0].arguments).toEqual({
+      reminders: [{id: newId, priority: 'none'}],
+    });
+
+    const restored = await find(newId);
+    expect(restored).toMatchObject({
+      title: 'Deleted then restored',
+      listName,
+      notes: 'keep me',
+      dueDate: doomed.dueDate,
+      dueDateIncludesTime: false,
+      priority: 'none',
+      recurrenceRules: [expect.objectContaining({frequency: 'weekly'})],
+    });
+  });
+
+  test('refuses to overwrite later changes unless forced', async () => {
+    const reminder = await create('Contested');
+    await client.tools.updateReminders({
+      reminders: [{id: reminder.id, title: 'Contested v2'}],
+    });
+    const [operation] = await recent(1);
+    await client.callTool('update_reminders', {
+      reminders: [{id: reminder.id, title: 'Contested v3'}],
+    });
+
+    const refused = await undo({operationId: operation.operationId});
+    expect(refused._isError).toBe(true);
+    expect(refused.error).toBe(
+      'Reminder "Contested v3" changed since the operation (title). Pass force: true to restore it anyway.',
+    );
+    expect((await find(reminder.id)).title).toBe('Contested v3');
+
+    await undo({operationId: operation.operationId, force: true});
+    expect((await find(reminder.id)).title).toBe('Contested');
+  });
+
+  test('re-creates completed reminders as completed', async () => {
+    const reminder = await create('Done and deleted');
+    await client.tools.updateReminders({
+      reminders: [{id: reminder.id, completed: true}],
+    });
+    await client.tools.deleteReminders({ids: [reminder.id]});
+
+    await undo();
+    const restored = await findByTitle('Done and deleted');
+    expect(restored.id).not.toBe(reminder.id);
+    expect(restored.isCompleted).toBe(true);
+  });
+
+  test('rejects unknown operations and conflicting arguments', async () => {
+    expect((await undo({operationId: 'nope'})).error).toBe(
+      'No operation with ID nope',
+    );
+    expect((await undo({operationId: 'nope', last: 1})).error).toBe(
+      "Pass either 'operationId' or 'last', not both",
+    );
+  });
+});
+
+describe('Undo that fails part way', () => {
+  const reminder = (id: string, extra: object = {}) =>
+    ({
+      id,
+      title: `Task ${id}`,
+      listId: 'L',
+      listName: 'Work',
+      isCompleted: false,
+      priority: 'none',
+      ...extra,
+    }) as EncodedReminder;
+  const deleteOp: AuditRecord = {
+    operationId: 'op-delete',
+    timestamp: '2026-10-19T12:00:00Z',
+    requestId: 1,
+    tool: 'delete_reminders',
+    arguments: {ids: ['a', 'b']},
+    result: {deleted: ['a', 'b'], failed: []},
+    isError: false,
+    durationMs: 1,
+    before: {
+      a: reminder('a', {
+        isCompleted: true,
+        completionDate: '2026-10-18T09:00:00Z',
+      }),
+      b: reminder('b'),
+    },
+  };
+
+  /**
+   * Answers each call with the next scripted result, recording the calls;
+   * reads reminders from `state`
+   */
+  const server = (...results: unknown[]) => {
+    const calls: Array<[string, object]> = [];
+    const state: ReminderStates = {};
+    return {
+      calls,
+      state,
+      call: async (name: string, args: object) => {
+        calls.push([name, args]);
+        return results.shift();
+      },
+      readState: async (ids: string[]) =>
+        Object.fromEntries(ids.map((id) => [id, state[id] ?? null])),
+    };
+  };
+  /** The journal after `undo` ran against `operation` */
+  const journaled = (operation: AuditRecord, undo: UndoResult) => [
+    operation,
+    {
+      ...operation,
+      operationId: 'op-undo',
+      tool: 'undo_operation',
+      arguments: {},
+      result: undo,
+      before: undefined,
+      after: undefined,
+    },
+  ];
+
+  test('records what was re-created, and a retry only finishes the rest', async () => {
+    const first = server(
+      {created: [reminder('a2')], failed: [{index: 1, error: 'List gone'}]},
+      {updated: [], failed: [{id: 'a2', error: 'Read-only'}]},
+    );
+    const failed = await undoOperations([deleteOp], {}, first);
+    expect(failed.undone).toEqual([]);
+    expect(failed.failed).toMatchObject({
+      operationId: 'op-delete',
+      error:
+        'Could not re-create "Task b": List gone; Could not complete re-created reminder a2: Read-only',
+      partial: {idMap: {a: 'a2'}},
+    });
+    expect(first.calls.map(([name]) => name)).toEqual([
+      'create_reminders',
+      'update_reminders',
+    ]);
+
+    const retry = server([reminder('b2')], [reminder('a2')]);
+    const result = await undoOperations(journaled(deleteOp, failed), {}, retry);
+    expect(retry.calls).toEqual([
+      [
+        'create_reminders',
+        {reminders: [expect.objectContaining({title: 'Task b'})]},
+      ],
+      [
+        'update_reminders',
+        {reminders: [{id: 'a2', completedDate: '2026-10-18T09:00:00Z'}]},
+      ],
+    ]);
+    expect(result.undone[0].idMap).toEqual({a: 'a2', b: 'b2'});
+    expect(result.failed).toBeUndefined();
+  });
+
+  test('a create undo that deletes only some reminders can be retried', async () => {
+    const createOp: AuditRecord = {
+      ...deleteOp,
+      operationId: 'op-create',
+      tool: 'create_reminders',
+      result: [reminder('a'), reminder('b')],
+      before: undefined,
+    };
+    const first = server({
+      deleted: ['a'],
+      failed: [{id: 'b', error: 'Locked'}],
+    });
+    Object.assign(first.state, {a: reminder('a'), b: reminder('b')});
+    const failed = await undoOperations([createOp], {}, first);
+    expect(failed.failed).toMatchObject({
+      operationId: 'op-create',
+      error: 'Could not delete b: Locked',
+      partial: {calls: [{tool: 'delete_reminders'}]},
+    });
+
+    const retry = server({deleted: ['b'], failed: []});
+    retry.state.b = reminder('b');
+    const result = await undoOperations(journaled(createOp, failed), {}, retry);
+    expect(retry.calls).toEqual([['delete_reminders', {ids: ['b']}]]);
+    expect(result.undone.map((u) => u.operationId)).toEqual(['op-create']);
+  });
+
+  test('an update undo that restores only some reminders can be retried', async () => {
+    const after = {
+      a: reminder('a', {title: 'Renamed a'}),
+      b: reminder('b', {title: 'Renamed b'}),
+    };
+    const updateOp: AuditRecord = {
+      ...deleteOp,
+      operationId: 'op-update',
+      tool: 'update_reminders',
+      result: [after.a, after.b],
+      before: {a: reminder('a'), b: reminder('b')},
+      after,
+    };
+    const first = server({
+      updated: [reminder('a')],
+      failed: [{id: 'b', error: 'Locked'}],
+    });
+    Object.assign(first.state, after);
+    const failed = await undoOperations([updateOp], {}, first);
+    expect(failed.failed).toMatchObject({
+      operationId: 'op-update',
+      error: 'Could not restore b: Locked',
+      partial: {calls: [{tool: 'update_reminders'}]},
+    });
+
+    // a is back to its old title, so only b is restored
+    const retry = server([reminder('b')]);
+    Object.assign(retry.state, {a: reminder('a'), b: after.b});
+    const result = await undoOperations(journaled(updateOp, failed), {}, retry);
+    expect(retry.calls).toEqual([
+      ['update_reminders', {reminders: [{id: 'b', title: 'Task b'}]}],
+    ]);
+    expect(result.undone.map((u) => u.operationId)).toEqual(['op-update']);
+  });
+});
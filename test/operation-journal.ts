@@ -0,0 +1,646 @@
+/**
+ * Operation journal over the audit log written by audit-proxy.ts, and the
+ * two tools the proxy adds next to the server's own:
+ *
+ * - list_recent_operations: recent create/update/delete calls, newest first
+ * - undo_operation: revert one operation, or the last N, by issuing the
+ *   inverse calls (delete_reminders for a create, update_reminders with the
+ *   prior values for an update, create_reminders for a delete)
+ *
+ * Undo refuses to overwrite reminders that changed after the operation
+ * unless `force` is set. Re-created reminders get new ids; the mapping is
+ * kept in the undo record so older operations on them can still be undone.
+ */
+
+import type {AuditRecord, ReminderStates} from './audit-proxy';
+import type {ToolDefinition} from './reference-tools';
+import {toCreateInput} from './restore-export';
+import type {
+  CreateRemindersResult,
+  DeleteRemindersResult,
+  EncodedReminder,
+  ToolCaller,
+  UpdateRemindersResult,
+} from './tool-results';
+import type {UpdateRemindersArgs} from './tool-types.generated';
+
+const DEFAULT_LIMIT = 10;
+const MAX_OPERATIONS = 50;
+
+export const JOURNAL_TOOLS: ToolDefinition[] = [
+  {
+    name: 'list_recent_operations',
+    description: `List recent changes made through this server (create_reminders, update_reminders, delete_reminders), newest first. Use the operationId with undo_operation.
+
+**Parameters:**
+
+limit — Maximum number of operations to return (default 10, max 50)`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_OPERATIONS,
+          default: DEFAULT_LIMIT,
+          description: 'Maximum number of operations to return',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'undo_operation',
+    description: `Undo a change made through this server: deletes created reminders, restores the previous values of updated reminders, and re-creates deleted reminders (with new IDs).
+
+**Parameters:**
+
+operationId — Operation to undo (from list_recent_operations)
+last — Undo the last N operations that have not been undone, newest first (default 1)
+force — Undo even if the reminders changed after the operation (default false)
+
+**Examples:**
+
+Undo the most recent change:
+  {}
+
+Undo a specific change:
+  {"operationId": "3F2A..."}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operationId: {
+          type: 'string',
+          description: 'Operation to undo (from list_recent_operations)',
+        },
+        last: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_OPERATIONS,
+          description:
+            'Undo the last N operations that have not been undone, newest first',
+        },
+        force: {
+          type: 'boolean',
+          default: false,
+          description: 'Undo even if the reminders changed after the operation',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+];
+
+export const JOURNAL_TOOL_NAMES = new Set(JOURNAL_TOOLS.map((t) => t.name));
+
+const UNDOABLE_TOOLS = new Set([
+  'create_reminders',
+  'update_reminders',
+  'delete_reminders',
+]);
+
+export interface OperationSummary {
+  operationId: string;
+  timestamp: string;
+  tool: string;
+  summary: string;
+  reminderIds: string[];
+}
+
+export interface UndoneOperation {
+  operationId: string;
+  tool: string;
+  calls: Array<{tool: string; arguments: Record<string, unknown>}>;
+  /** Deleted reminder ID → ID of the re-created reminder */
+  idMap?: Record<string, string>;
+}
+
+export interface UndoResult {
+  undone: UndoneOperation[];
+  /** Set when undo stopped early; operations after it were not attempted */
+  failed?: {
+    operationId: string;
+    error: string;
+    /** Calls made before the failure; a retry reuses its idMap */
+    partial?: UndoneOperation;
+  };
+}
+
+export interface UndoArgs {
+  operationId?: string;
+  last?: number;
+  force?: boolean;
+}
+
+/**
+ * Refused undo (unknown operation, already undone, changed since), or one
+ * that failed after some of its calls went through (`partial`).
+ */
+export class UndoError extends Error {
+  constructor(
+    message: string,
+    readonly partial?: UndoneOperation,
+  ) {
+    super(message);
+    this.name = 'UndoError';
+  }
+}
+
+type ReminderUpdate = UpdateRemindersArgs['reminders'][number];
+
+// Reading the journal
+
+function createdReminders(record: AuditRecord): EncodedReminder[] {
+  const result = record.result as CreateRemindersResult;
+  return Array.isArray(result) ? result : (result?.created ?? []);
+}
+
+/** IDs the operation actually changed (failed items excluded). */
+function reminderIds(record: AuditRecord): string[] {
+  switch (record.tool) {
+    case 'create_reminders':
+      return createdReminders(record).map((r) => r.id);
+    case 'update_reminders': {
+      const result = record.result as UpdateRemindersResult;
+      return (Array.isArray(result) ? result : (result?.updated ?? [])).map(
+        (r) => r.id,
+      );
+    }
+    case 'delete_reminders':
+      return (record.result as DeleteRemindersResult)?.deleted ?? [];
+    default:
+      return [];
+  }
+}
+
+function isOperation(record: AuditRecord): boolean {
+  return (
+    UNDOABLE_TOOLS.has(record.tool) &&
+    !record.isError &&
+    record.operationId !== undefined &&
+    reminderIds(record).length > 0
+  );
+}
+
+function undoResults(records: AuditRecord[]): UndoResult[] {
+  return records
+    .filter((r) => r.tool === 'undo_operation' && !r.isError)
+    .map((r) => r.result as UndoResult);
+}
+
+function undoneOperationIds(records: AuditRecord[]): Set<string> {
+  return new Set(
+    undoResults(records).flatMap((r) => r.undone.map((u) => u.operationId)),
+  );
+}
+
+/** Old ID → current ID, following reminders re-created by earlier undos */
+function idResolver(records: AuditRecord[]): (id: string) => string {
+  const map = new Map<string, string>();
+  for (const result of undoResults(records)) {
+    const partial = result.failed?.partial;
+    const operations = partial ? [...result.undone, partial] : result.undone;
+    for (const undone of operations) {
+      for (const [from, to] of Object.entries(undone.idMap ?? {})) {
+        map.set(from, to);
+      }
+    }
+  }
+  return (id) => {
+    let current = id;
+    while (map.has(current)) current = map.get(current)!;
+    return current;
+  };
+}
+
+/** Undoable operations that have not been undone, newest first */
+function pendingOperations(records: AuditRecord[]): AuditRecord[] {
+  const undone = undoneOperationIds(records);
+  return records
+    .filter((r) => isOperation(r) && !undone.has(r.operationId!))
+    .reverse();
+}
+
+// Field-level comparison
+
+type Field =
+  | 'title'
+  | 'notes'
+  | 'list'
+  | 'dueDate'
+  | 'priority'
+  | 'url'
+  | 'alarms'
+  | 'recurrence'
+  | 'completion';
+
+const FIELDS: Field[] = [
+  'title',
+  'notes',
+  'list',
+  'dueDate',
+  'priority',
+  'url',
+  'alarms',
+  'recurrence',
+  'completion',
+];
+
+function fieldValue(reminder: EncodedReminder, field: Field): unknown {
+  switch (field) {
+    case 'title':
+      return reminder.title;
+    case 'notes':
+      return reminder.notes ?? null;
+    case 'list':
+      return reminder.listId;
+    case 'dueDate':
+      return reminder.dueDate
+        ? [reminder.dueDate, reminder.dueDateIncludesTime ?? true]
+        : null;
+    case 'priority':
+      return reminder.priority;
+    case 'url':
+      return reminder.url ?? null;
+    case 'alarms':
+      return reminder.alarms ?? [];
+    case 'recurrence':
+      return reminder.recurrenceRules?.[0] ?? null;
+    case 'completion':
+      return reminder.isCompleted ? (reminder.completionDate ?? true) : null;
+  }
+}
+
+/** Key order independent JSON, for comparing alarm and recurrence objects */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : v,
+  );
+}
+
+function changedFields(a: EncodedReminder, b: EncodedReminder): Field[] {
+  return FIELDS.filter(
+    (f) => canonical(fieldValue(a, f)) !== canonical(fieldValue(b, f)),
+  );
+}
+
+/** update_reminders input that sets `fields` back to their values in `before` */
+function revert(
+  id: string,
+  before: EncodedReminder,
+  fields: Field[],
+): ReminderUpdate {
+  const update: ReminderUpdate = {id};
+  for (const field of fields) {
+    switch (field) {
+      case 'title':
+        update.title = before.title;
+        break;
+      case 'notes':
+        update.notes = before.notes ?? null;
+        break;
+      case 'list':
+        update.list = {id: before.listId};
+        break;
+      case 'dueDate':
+        if (before.dueDate) {
+          update.dueDate = before.dueDate;
+          update.dueDateIncludesTime = before.dueDateIncludesTime ?? true;
+        } else {
+          update.dueDate = null;
+        }
+        break;
+      case 'priority':
+        update.priority = before.priority;
+        break;
+      case 'url':
+        update.url = before.url ?? null;
+        break;
+      case 'alarms':
+        update.alarms = before.alarms?.length ? before.alarms : null;
+        break;
+      case 'recurrence':
+        update.recurrenceRule = before.recurrenceRules?.[0] ?? null;
+        break;
+      case 'completion':
+        if (!before.isCompleted) update.completedDate = null;
+        else if (before.completionDate) {
+          update.completedDate = before.completionDate;
+        } else update.completed = true;
+        break;
+    }
+  }
+  return update;
+}
+
+// Tools
+
+function titles(reminders: Array<{title: string}>): string {
+  const shown = reminders.slice(0, 3).map((r) => JSON.stringify(r.title));
+  if (reminders.length > 3) shown.push(`and ${reminders.length - 3} more`);
+  return shown.join(', ');
+}
+
+function summarize(record: AuditRecord): string {
+  const ids = reminderIds(record);
+  switch (record.tool) {
+    case 'create_reminders':
+      return `Created ${ids.length} reminder(s): ${titles(createdReminders(record))}`;
+    case 'update_reminders': {
+      const updated = ids
+        .map((id) => [record.before?.[id], record.after?.[id]])
+        .filter((pair): pair is [EncodedReminder, EncodedReminder] =>
+          Boolean(pair[0] && pair[1]),
+        );
+      const fields = [
+        ...new Set(updated.flatMap(([a, b]) => changedFields(a, b))),
+      ];
+      return (
+        `Updated ${ids.length} reminder(s): ${titles(updated.map(([a]) => a))}` +
+        (fields.length > 0 ? ` (${fields.join(', ')})` : '')
+      );
+    }
+    default: {
+      const deleted = ids
+        .map((id) => record.before?.[id])
+        .filter((r): r is EncodedReminder => Boolean(r));
+      return `Deleted ${ids.length} reminder(s): ${titles(deleted)}`;
+    }
+  }
+}
+
+export function listRecentOperations(
+  records: AuditRecord[],
+  limit = DEFAULT_LIMIT,
+): OperationSummary[] {
+  return pendingOperations(records)
+    .slice(0, Math.min(Math.max(limit, 1), MAX_OPERATIONS))
+    .map((record) => ({
+      operationId: record.operationId!,
+      timestamp: record.timestamp,
+      tool: record.tool,
+      summary: summarize(record),
+      reminderIds: reminderIds(record),
+    }));
+}
+
+function selectOperations(records: AuditRecord[], args: UndoArgs) {
+  if (args.operationId !== undefined && args.last !== undefined) {
+    throw new UndoError("Pass either 'operationId' or 'last', not both");
+  }
+
+  const pending = pendingOperations(records);
+  if (args.operationId === undefined) {
+    const selected = pending.slice(0, args.last ?? 1);
+    if (selected.length === 0) throw new UndoError('No operations to undo');
+    return selected;
+  }
+
+  const record = pending.find((r) => r.operationId === args.operationId);
+  if (record) return [record];
+
+  const known = records.some(
+    (r) => isOperation(r) && r.operationId === args.operationId,
+  );
+  throw new UndoError(
+    known
+      ? `Operation ${args.operationId} has already been undone`
+      : `No operation with ID ${args.operationId}`,
+  );
+}
+
+async function undoOne(
+  record: AuditRecord,
+  resolve: (id: string) => string,
+  force: boolean,
+  call: ToolCaller,
+  readState: (ids: string[]) => Promise<ReminderStates>,
+): Promise<UndoneOperation> {
+  const undone: UndoneOperation = {
+    operationId: record.operationId!,
+    tool: record.tool,
+    calls: [],
+  };
+  const ids = reminderIds(record);
+
+  if (record.tool === 'create_reminders') {
+    const created = createdReminders(record);
+    const current = await readState(created.map((r) => resolve(r.id)));
+    const existing = created.filter((r) => current[resolve(r.id)]);
+    const modified = existing.filter(
+      (r) => changedFields(r, current[resolve(r.id)]!).length > 0,
+    );
+    if (modified.length > 0 && !force) {
+      throw new UndoError(
+        `Created reminder(s) changed since the operation: ${titles(modified)}. Pass force: true to delete them anyway.`,
+      );
+    }
+    if (existing.length > 0) {
+      const args = {ids: existing.map((r) => resolve(r.id))};
+      const result = (await call(
+        'delete_reminders',
+        args,
+      )) as DeleteRemindersResult;
+      undone.calls.push({tool: 'delete_reminders', arguments: args});
+      // A retry finds the deleted ones gone and deletes the rest
+      if (result.failed.length > 0) {
+        throw new UndoError(
+          result.failed
+            .map((f) => `Could not delete ${f.id}: ${f.error}`)
+            .join('; '),
+          undone,
+        );
+      }
+    }
+    return undone;
+  }
+
+  if (record.tool === 'update_reminders') {
+    const current = await readState(ids.map(resolve));
+    const updates: ReminderUpdate[] = [];
+    for (const id of ids) {
+      const before = record.before?.[id];
+      const after = record.after?.[id];
+      if (!before || !after) continue;
+      const fields = changedFields(before, after);
+      if (fields.length === 0) continue;
+
+      const now = current[resolve(id)];
+      if (!now) {
+        throw new UndoError(
+          `Reminder ${JSON.stringify(before.title)} no longer exists`,
+        );
+      }
+      // Already reverted, by an earlier undo that failed part way
+      if (
+        fields.every(
+          (f) =>
+            canonical(fieldValue(now, f)) === canonical(fieldValue(before, f)),
+        )
+      ) {
+        continue;
+      }
+      const drifted = fields.filter(
+        (f) =>
+          canonical(fieldValue(now, f)) !== canonical(fieldValue(after, f)),
+      );
+      if (drifted.length > 0 && !force) {
+        throw new UndoError(
+          `Reminder ${JSON.stringify(now.title)} changed since the operation (${drifted.join(', ')}). Pass force: true to restore it anyway.`,
+        );
+      }
+      updates.push(revert(resolve(id), before, fields));
+    }
+    if (updates.length > 0) {
+      const args = {reminders: updates};
+      const result = (await call(
+        'update_reminders',
+        args,
+      )) as UpdateRemindersResult;
+      undone.calls.push({tool: 'update_reminders', arguments: args});
+      if (!Array.isArray(result)) {
+        throw new UndoError(
+          result.failed
+            .map((f) => `Could not restore ${f.id}: ${f.error}`)
+            .join('; '),
+          undone,
+        );
+      }
+    }
+    return undone;
+  }
+
+  // delete_reminders: re-create from the before state. Reminders an earlier,
+  // partly failed undo already re-created are only completed again.
+  const deleted = ids
+    .map((id) => record.before?.[id])
+    .filter((r): r is EncodedReminder => Boolean(r));
+  const idMap: Record<string, string> = {};
+  for (const r of deleted) {
+    if (resolve(r.id) !== r.id) idMap[r.id] = resolve(r.id);
+  }
+  const missing = deleted.filter((r) => !(r.id in idMap));
+  const failures: string[] = [];
+
+  if (missing.length > 0) {
+    const createArgs = {
+      reminders: missing.map((r) => ({
+        ...toCreateInput(r, r.listName),
+        list: {id: r.listId},
+      })),
+    };
+    const result = (await call(
+      'create_reminders',
+      createArgs,
+    )) as CreateRemindersResult;
+    undone.calls.push({tool: 'create_reminders', arguments: createArgs});
+
+    // {created, failed} on partial failure; created keeps input order
+    const created = Array.isArray(result) ? result : result.created;
+    const failedByIndex = new Map(
+      (Array.isArray(result) ? [] : result.failed).map((f) => [
+        f.index,
+        f.error,
+      ]),
+    );
+    let next = 0;
+    missing.forEach((r, index) => {
+      const error = failedByIndex.get(index);
+      if (error !== undefined) {
+        failures.push(
+          `Could not re-create ${JSON.stringify(r.title)}: ${error}`,
+        );
+      } else {
+        idMap[r.id] = created[next++].id;
+      }
+    });
+  }
+  undone.idMap = idMap;
+
+  const completions = deleted
+    .filter((r) => r.isCompleted && r.id in idMap)
+    .map((r) =>
+      r.completionDate
+        ? {id: idMap[r.id], completedDate: r.completionDate}
+        : {id: idMap[r.id], completed: true},
+    );
+  if (completions.length > 0) {
+    const args = {reminders: completions};
+    try {
+      const result = (await call(
+        'update_reminders',
+        args,
+      )) as UpdateRemindersResult;
+      if (!Array.isArray(result)) {
+        failures.push(
+          ...result.failed.map(
+            (f) => `Could not complete re-created reminder ${f.id}: ${f.error}`,
+          ),
+        );
+      }
+    } catch (error) {
+      failures.push(
+        `Could not complete re-created reminders: ${(error as Error).message}`,
+      );
+    }
+    undone.calls.push({tool: 'update_reminders', arguments: args});
+  }
+
+  if (failures.length > 0) throw new UndoError(failures.join('; '), undone);
+  return undone;
+}
+
+/**
+ * Undo the selected operations newest first. Stops at the first failure;
+ * operations undone before it are still reported (and journaled) as undone,
+ * and so are the calls an undo made before failing part way.
+ */
+export async function undoOperations(
+  records: AuditRecord[],
+  args: UndoArgs,
+  server: {
+    call: ToolCaller;
+    readState: (ids: string[]) => Promise<ReminderStates>;
+  },
+): Promise<UndoResult> {
+  const selected = selectOperations(records, args);
+  const result: UndoResult = {undone: []};
+  const resolveFromJournal = idResolver(records);
+  const idMap = new Map<string, string>();
+  const resolve = (id: string) => {
+    let current = resolveFromJournal(id);
+    while (idMap.has(current)) current = idMap.get(current)!;
+    return current;
+  };
+
+  for (const record of selected) {
+    try {
+      const undone = await undoOne(
+        record,
+        resolve,
+        args.force ?? false,
+        server.call,
+        server.readState,
+      );
+      for (const [from, to] of Object.entries(undone.idMap ?? {})) {
+        idMap.set(from, to);
+      }
+      result.undone.push(undone);
+    } catch (error) {
+      const partial = error instanceof UndoError ? error.partial : undefined;
+      // Nothing changed: fail the call instead of journaling an empty undo
+      if (result.undone.length === 0 && !partial) throw error;
+      result.failed = {
+        operationId: record.operationId!,
+        error: (error as Error).message,
+        ...(partial && {partial}),
+      };
+      break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,347 @@
+/**
+ * Tests for policy.ts: config validation, each rule on its own, and
+ * enforcement through the audit proxy (`--policy`).
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {randomUUID} from 'crypto';
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {MCPClient} from './mcp-client';
+import {
+  type ListContext,
+  parsePolicy,
+  Policy,
+  type PolicyConfig,
+  PolicyError,
+} from './policy';
+import type {EncodedReminder} from './tool-results';
+
+const PROXY_PATH = `${import.meta.dir}/audit-proxy.ts`;
+const SERVER_PATH = `${import.meta.dir}/reference-server.ts`;
+
+/** Client talking to the reference server through the proxy under `config` */
+async function clientWithPolicy(dir: string, config: PolicyConfig) {
+  const policyPath = join(dir, `policy-${randomUUID()}.json`);
+  writeFileSync(policyPath, JSON.stringify(config));
+  return MCPClient.create({
+    command: [
+      process.execPath,
+      PROXY_PATH,
+      '--log',
+      join(dir, 'audit.jsonl'),
+      '--no-snapshots',
+      '--policy',
+      policyPath,
+      '--',
+      process.execPath,
+      SERVER_PATH,
+    ],
+  });
+}
+
+const CONTEXT: ListContext = {
+  lists: [
+    {id: 'L-inbox', name: 'Inbox', isDefault: true},
+    {id: 'L-archive', name: 'Archive', isDefault: false},
+    {id: 'L-work', name: 'Work', isDefault: false},
+  ],
+  before: {
+    'in-archive': {
+      id: 'in-archive',
+      listId: 'L-archive',
+      listName: 'Archive',
+    } as EncodedReminder,
+    'in-work': {
+      id: 'in-work',
+      listId: 'L-work',
+      listName: 'Work',
+    } as EncodedReminder,
+    'in-inbox': {
+      id: 'in-inbox',
+      listId: 'L-inbox',
+      listName: 'Inbox',
+    } as EncodedReminder,
+    missing: null,
+  },
+};
+
+describe('Policy config', () => {
+  test('rejects unknown rules, profiles and malformed values', () => {
+    expect(() => parsePolicy('{"readOnlyList": []}', 'p.json')).toThrow(
+      "p.json: unknown rule 'readOnlyList'",
+    );
+    expect(() => parsePolicy('{"profile": "admin"}')).toThrow(
+      "unknown profile 'admin' (expected read-only)",
+    );
+    expect(() =>
+      parsePolicy('{"maxBatchSize": {"delete_reminders": 0}}'),
+    ).toThrow('maxBatchSize.delete_reminders must be a positive integer');
+    expect(() => parsePolicy('{"noDeleteLists": "Work"}')).toThrow(PolicyError);
+    expect(() => parsePolicy('[]')).toThrow('expected a JSON object');
+  });
+});
+
+describe('Policy rule: deniedTools', () => {
+  test('deniedTools blocks the named tools only', () => {
+    const policy = new Policy({deniedTools: ['delete_reminders']});
+    expect(policy.checkCall('delete_reminders', {ids: ['a']})).toEqual({
+      rule: 'deniedTools',
+      message: 'delete_reminders is not allowed',
+    });
+    expect(policy.checkCall('update_reminders', {reminders: []})).toBeNull();
+  });
+
+  test('the read-only profile exposes only reads', () => {
+    const policy = new Policy({profile: 'read-only'});
+    expect(
+      [
+        'query_reminders',
+        'get_lists',
+        'export_reminders',
+        'create_list',
+        'create_reminders',
+        'undo_operation',
+      ].filter((tool) => policy.isToolAllowed(tool)),
+    ).toEqual(['query_reminders', 'get_lists', 'export_reminders']);
+  });
+
+  describe('through the proxy', () => {
+    let client: MCPClient;
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'policy-'));
+      client = await clientWithPolicy(dir, {profile: 'read-only'});
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+      rmSync(dir, {recursive: true, force: true});
+    });
+
+    test('hides denied tools and rejects calls to them', async () => {
+      const tools = (await client.listTools()).map((t) => t.name);
+      expect(tools.sort()).toEqual([
+        'export_reminders',
+        'get_lists',
+        'query_reminders',
+      ]);
+
+      const result = await client.callTool('create_list', {name: 'Nope'});
+      expect(result).toEqual({
+        _isError: true,
+        error:
+          "Policy violation (deniedTools): create_list is not allowed by profile 'read-only'",
+      });
+      expect(await client.tools.getLists()).not.toContainEqual(
+        expect.objectContaining({name: 'Nope'}),
+      );
+    });
+  });
+});
+
+describe('Policy rule: maxBatchSize', () => {
+  test('limits items per call for the configured tools', () => {
+    const policy = new Policy({
+      maxBatchSize: {delete_reminders: 2, create_reminders: 1},
+    });
+    expect(policy.checkCall('delete_reminders', {ids: ['a', 'b']})).toBeNull();
+    expect(
+      policy.checkCall('delete_reminders', {ids: ['a', 'b', 'c']}),
+    ).toEqual({
+      rule: 'maxBatchSize',
+      message: 'delete_reminders is limited to 2 item(s) per call (got 3)',
+    });
+    expect(
+      policy.checkCall('create_reminders', {
+        reminders: [{title: 'a'}, {title: 'b'}],
+      })?.rule,
+    ).toBe('maxBatchSize');
+    expect(
+      policy.checkCall('update_reminders', {reminders: [{}, {}, {}]}),
+    ).toBeNull();
+  });
+});
+
+describe('Policy rule: allowedFields', () => {
+  test('checks each reminder of a batch, always allowing id', () => {
+    const policy = new Policy({
+      allowedFields: {update_reminders: ['completed', 'completedDate']},
+    });
+    expect(
+      policy.checkCall('update_reminders', {
+        reminders: [{id: 'a', completed: true}],
+      }),
+    ).toBeNull();
+    expect(
+      policy.checkCall('update_reminders', {
+        reminders: [
+          {id: 'a', completed: true},
+          {id: 'b', title: 'x', notes: null},
+        ],
+      }),
+    ).toEqual({
+      rule: 'allowedFields',
+      message:
+        'update_reminders may not set title, notes (allowed: completed, completedDate)',
+    });
+  });
+
+  test('checks top-level arguments of other tools', () => {
+    const policy = new Policy({allowedFields: {export_reminders: ['lists']}});
+    expect(policy.checkCall('export_reminders', {lists: []})).toBeNull();
+    expect(
+      policy.checkCall('export_reminders', {path: '/etc/x'})?.message,
+    ).toBe('export_reminders may not set path (allowed: lists)');
+  });
+});
+
+describe('Policy rule: readOnlyLists', () => {
+  const policy = new Policy({readOnlyLists: ['archive']});
+
+  test('blocks creating in, changing, moving into and deleting from the list', () => {
+    const check = (tool: string, args: Record<string, unknown>) =>
+      policy.checkLists(tool, args, CONTEXT)?.message ?? null;
+
+    expect(
+      check('create_reminders', {
+        reminders: [{title: 'x', list: {id: 'L-archive'}}],
+      }),
+    ).toBe(
+      "list 'Archive' is read-only; create_reminders cannot create reminders in it",
+    );
+    expect(
+      check('update_reminders', {reminders: [{id: 'in-archive', title: 'x'}]}),
+    ).toBe(
+      "list 'Archive' is read-only; update_reminders cannot change reminders in it",
+    );
+    expect(
+      check('update_reminders', {
+        reminders: [{id: 'in-work', list: {name: 'ARCHIVE'}}],
+      }),
+    ).toBe(
+      "list 'Archive' is read-only; update_reminders cannot move reminders into it",
+    );
+    expect(check('delete_reminders', {ids: ['missing', 'in-archive']})).toBe(
+      "list 'Archive' is read-only; delete_reminders cannot delete from it",
+    );
+
+    // Other lists, including the default list, are untouched
+    expect(check('create_reminders', {reminders: [{title: 'x'}]})).toBeNull();
+    expect(
+      check('update_reminders', {reminders: [{id: 'in-work', title: 'x'}]}),
+    ).toBeNull();
+  });
+
+  test('default list is read-only when it is listed', () => {
+    const inboxPolicy = new Policy({readOnlyLists: ['L-inbox']});
+    expect(
+      inboxPolicy.checkLists(
+        'create_reminders',
+        {reminders: [{title: 'x'}]},
+        CONTEXT,
+      )?.rule,
+    ).toBe('readOnlyLists');
+  });
+});
+
+describe('Policy rule: noDeleteLists', () => {
+  test('blocks deletion', () => {
+    const policy = new Policy({noDeleteLists: ['Work']});
+    expect(policy.usesLists('create_reminders')).toBe(false);
+    expect(
+      policy.checkLists('delete_reminders', {ids: ['in-work']}, CONTEXT),
+    ).toEqual({
+      rule: 'noDeleteLists',
+      message:
+        "list 'Work' is protected from deletion; delete_reminders cannot delete from it",
+    });
+    expect(
+      policy.checkLists('delete_reminders', {ids: ['in-inbox']}, CONTEXT),
+    ).toBeNull();
+  });
+
+  test('blocks moving reminders out, not changing them in place', () => {
+    const policy = new Policy({noDeleteLists: ['Work']});
+    const update = (item: Record<string, unknown>) =>
+      policy.checkLists('update_reminders', {reminders: [item]}, CONTEXT);
+
+    expect(policy.usesLists('update_reminders')).toBe(true);
+    expect(update({id: 'in-work', list: {name: 'Inbox'}})).toEqual({
+      rule: 'noDeleteLists',
+      message:
+        "list 'Work' is protected from deletion; update_reminders cannot move reminders out of it",
+    });
+    expect(update({id: 'in-work', list: {name: 'New List'}})?.rule).toBe(
+      'noDeleteLists',
+    );
+    expect(update({id: 'in-work', list: {id: 'L-work'}})).toBeNull();
+    expect(update({id: 'in-work', title: 'Renamed'})).toBeNull();
+    expect(update({id: 'in-inbox', list: {name: 'Work'}})).toBeNull();
+  });
+});
+
+describe('Policy list rules through the proxy', () => {
+  let client: MCPClient;
+  let dir: string;
+  const suffix = randomUUID().split('-')[0];
+  const archive = `Policy Archive (${suffix})`;
+  const work = `Policy Work (${suffix})`;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'policy-'));
+    client = await clientWithPolicy(dir, {
+      readOnlyLists: [archive],
+      noDeleteLists: [work],
+    });
+    await client.tools.createList({name: archive});
+    await client.tools.createList({name: work});
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('looks up lists and reminders to enforce the rules', async () => {
+    const [reminder] = (await client.tools.createReminders({
+      reminders: [{title: 'Protected', list: {name: work}}],
+    })) as EncodedReminder[];
+
+    const intoArchive = await client.callTool('create_reminders', {
+      reminders: [{title: 'Blocked', list: {name: archive}}],
+    });
+    expect(intoArchive.error).toBe(
+      `Policy violation (readOnlyLists): list '${archive}' is read-only; create_reminders cannot create reminders in it`,
+    );
+
+    const deletion = await client.callTool('delete_reminders', {
+      ids: [reminder.id],
+    });
+    expect(deletion._isError).toBe(true);
+    expect(deletion.error).toStartWith('Policy violation (noDeleteLists)');
+
+    // Moving it out first would let the delete through
+    const moved = await client.callTool('update_reminders', {
+      reminders: [{id: reminder.id, list: {name: 'Reminders'}}],
+    });
+    expect(moved.error).toBe(
+      `Policy violation (noDeleteLists): list '${work}' is protected from deletion; update_reminders cannot move reminders out of it`,
+    );
+    const retried = await client.callTool('delete_reminders', {
+      ids: [reminder.id],
+    });
+    expect(retried.error).toStartWith('Policy violation (noDeleteLists)');
+
+    // Allowed changes still go through
+    await client.tools.updateReminders({
+      reminders: [{id: reminder.id, title: 'Still here'}],
+    });
+    const [current] = (await client.tools.queryReminders({
+      list: {name: work},
+    })) as EncodedReminder[];
+    expect(current.title).toBe('Still here');
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Declarative policy for tool calls, enforced by audit-proxy.ts
+ * (`--policy <file>` or AR_MCP_POLICY). Where AR_MCP_TEST_MODE hard-codes
+ * one rule in the server, a policy file combines these:
+ *
+ * - profile / allowedTools / deniedTools: which tools may be called (and
+ *   appear in tools/list). The 'read-only' profile exposes only
+ *   query_reminders, get_lists and export_reminders.
+ * - maxBatchSize: items per call, by tool
+ * - allowedFields: argument fields a tool may use (per reminder for
+ *   create_reminders/update_reminders; `id` is always allowed)
+ * - readOnlyLists: lists no reminder may be created in, moved into, changed
+ *   or deleted from
+ * - noDeleteLists: lists reminders may never be deleted from, nor moved
+ *   out of (a move then a delete would get around the rule)
+ *
+ * Lists are given by name (case-insensitive) or ID. A call that breaks a
+ * rule is rejected as a whole, with an error naming the rule.
+ *
+ * Example:
+ *   {
+ *     "readOnlyLists": ["Archive"],
+ *     "noDeleteLists": ["Work"],
+ *     "maxBatchSize": {"delete_reminders": 5},
+ *     "allowedFields": {"update_reminders": ["completed", "completedDate"]}
+ *   }
+ */
+
+import {readFileSync} from 'fs';
+import type {ReminderStates} from './audit-proxy';
+import type {ReminderListOutput} from './reference-models';
+
+export type PolicyRule =
+  | 'deniedTools'
+  | 'maxBatchSize'
+  | 'allowedFields'
+  | 'readOnlyLists'
+  | 'noDeleteLists';
+
+export interface PolicyConfig {
+  profile?: string;
+  allowedTools?: string[];
+  deniedTools?: string[];
+  maxBatchSize?: Record<string, number>;
+  allowedFields?: Record<string, string[]>;
+  readOnlyLists?: string[];
+  noDeleteLists?: string[];
+}
+
+export const PROFILES: Record<string, PolicyConfig> = {
+  'read-only': {
+    allowedTools: ['query_reminders', 'get_lists', 'export_reminders'],
+  },
+};
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+/** Lists and reminder states needed by the list rules. */
+export interface ListContext {
+  lists: ReminderListOutput[];
+  /** Current state of the reminders the call touches */
+  before: ReminderStates;
+}
+
+/** Invalid policy file. */
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+const CONFIG_KEYS: Array<keyof PolicyConfig> = [
+  'profile',
+  'allowedTools',
+  'deniedTools',
+  'maxBatchSize',
+  'allowedFields',
+  'readOnlyLists',
+  'noDeleteLists',
+];
+
+/** Tools whose arguments carry one item per reminder */
+const ITEM_TOOLS = new Set(['create_reminders', 'update_reminders']);
+
+export function formatViolation(violation: PolicyViolation): string {
+  return `Policy violation (${violation.rule}): ${violation.message}`;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function validateConfig(value: unknown, source: string): PolicyConfig {
+  const fail = (message: string): never => {
+    throw new PolicyError(`${source}: ${message}`);
+  };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    fail('expected a JSON object');
+  }
+  const config = value as Record<string, unknown>;
+
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_KEYS.includes(key as keyof PolicyConfig)) {
+      fail(`unknown rule '${key}'`);
+    }
+  }
+  if (config.profile !== undefined && !PROFILES[config.profile as string]) {
+    fail(
+      `unknown profile '${String(config.profile)}' (expected ${Object.keys(PROFILES).join(', ')})`,
+    );
+  }
+  for (const key of [
+    'allowedTools',
+    'deniedTools',
+    'readOnlyLists',
+    'noDeleteLists',
+  ]) {
+    if (config[key] !== undefined && !isStringArray(config[key])) {
+      fail(`'${key}' must be an array of strings`);
+    }
+  }
+  for (const [tool, size] of Object.entries(
+    (config.maxBatchSize ?? {}) as Record<string, unknown>,
+  )) {
+    if (!Number.isInteger(size) || (size as number) < 1) {
+      fail(`maxBatchSize.${tool} must be a positive integer`);
+    }
+  }
+  for (const [tool, fields] of Object.entries(
+    (config.allowedFields ?? {}) as Record<string, unknown>,
+  )) {
+    if (!isStringArray(fields)) {
+      fail(`allowedFields.${tool} must be an array of strings`);
+    }
+  }
+  return config as PolicyConfig;
+}
+
+export function parsePolicy(text: string, source = 'policy'): Policy {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new PolicyError(`${source}: ${(error as Error).message}`);
+  }
+  return new Policy(validateConfig(value, source));
+}
+
+export function loadPolicy(path: string): Policy {
+  return parsePolicy(readFileSync(path, 'utf8'), path);
+}
+
+function matchesList(entries: string[], list: {id: string; name: string}) {
+  return entries.some(
+    (entry) =>
+      entry === list.id || entry.toLowerCase() === list.name.toLowerCase(),
+  );
+}
+
+export class Policy {
+  readonly config: PolicyConfig;
+  private allowedTools?: Set<string>;
+  private deniedTools: Set<string>;
+
+  constructor(config: PolicyConfig) {
+    this.config = config;
+    const profile = config.profile ? PROFILES[config.profile] : {};
+    const allowed = config.allowedTools ?? profile.allowedTools;
+    this.allowedTools = allowed && new Set(allowed);
+    this.deniedTools = new Set([
+      ...(profile.deniedTools ?? []),
+      ...(config.deniedTools ?? []),
+    ]);
+  }
+
+  isToolAllowed(tool: string): boolean {
+    return (
+      !this.deniedTools.has(tool) &&
+      (this.allowedTools === undefined || this.allowedTools.has(tool))
+    );
+  }
+
+  /** Whether checkLists has anything to check for this tool. */
+  usesLists(tool: string): boolean {
+    const {readOnlyLists = [], noDeleteLists = []} = this.config;
+    if (tool === 'delete_reminders' || tool === 'update_reminders') {
+      return readOnlyLists.length + noDeleteLists.length > 0;
+    }
+    return tool === 'create_reminders' && readOnlyLists.length > 0;
+  }
+
+  /** Rules that need only the call itself: tools, batch size, fields. */
+  checkCall(
+    tool: string,
+    args: Record<string, unknown>,
+  ): PolicyViolation | null {
+    if (!this.isToolAllowed(tool)) {
+      const by = this.config.profile
+        ? ` by profile '${this.config.profile}'`
+        : '';
+      return {
+        rule: 'deniedTools',
+        message: `${tool} is not allowed${by}`,
+      };
+    }
+
+    const max = this.config.maxBatchSize?.[tool];
+    const size = batchSize(tool, args);
+    if (max !== undefined && size > max) {
+      return {
+        rule: 'maxBatchSize',
+        message: `${tool} is limited to ${max} item(s) per call (got ${size})`,
+      };
+    }
+
+    const allowed = this.config.allowedFields?.[tool];
+    if (allowed) {
+      const items = ITEM_TOOLS.has(tool)
+        ? Array.isArray(args.reminders)
+          ? (args.reminders as Array<Record<string, unknown>>)
+          : []
+        : [args];
+      const permitted = new Set([
+        ...allowed,
+        ...(ITEM_TOOLS.has(tool) ? ['id'] : []),
+      ]);
+      const fields = [
+        ...new Set(
+          items.flatMap((item) =>
+            Object.keys(item ?? {}).filter((f) => !permitted.has(f)),
+          ),
+        ),
+      ];
+      if (fields.length > 0) {
+        return {
+          rule: 'allowedFields',
+          message: `${tool} may not set ${fields.join(', ')} (allowed: ${allowed.join(', ')})`,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Rules on the lists a call writes to: readOnlyLists, noDeleteLists. */
+  checkLists(
+    tool: string,
+    args: Record<string, unknown>,
+    context: ListContext,
+  ): PolicyViolation | null {
+    const {readOnlyLists = [], noDeleteLists = []} = this.config;
+    const readOnly = (list: {id: string; name: string} | undefined) =>
+      list !== undefined && matchesList(readOnlyLists, list);
+    const listOf = (selector: unknown) => {
+      const {id, name} = (selector ?? {}) as {id?: string; name?: string};
+      // A list that doesn't exist yet still matches by name
+      return (
+        findList(context.lists, {id, name}) ??
+        (name === undefined ? undefined : {id: '', name})
+      );
+    };
+    const currentList = (id: unknown) => {
+      const reminder = typeof id === 'string' ? context.before[id] : null;
+      return reminder
+        ? {id: reminder.listId, name: reminder.listName}
+        : undefined;
+    };
+    const violation = (
+      rule: PolicyRule,
+      list: {name: string},
+      action: string,
+    ): PolicyViolation => ({
+      rule,
+      message: `list '${list.name}' is ${rule === 'readOnlyLists' ? 'read-only' : 'protected from deletion'}; ${tool} cannot ${action}`,
+    });
+
+    const items = Array.isArray(args.reminders)
+      ? (args.reminders as Array<Record<string, unknown>>)
+      : [];
+
+    if (tool === 'create_reminders') {
+      for (const item of items) {
+        const target = listOf(item?.list);
+        if (readOnly(target)) {
+          return violation('readOnlyLists', target!, 'create reminders in it');
+        }
+      }
+    }
+
+    if (tool === 'update_reminders') {
+      for (const item of items) {
+        const current = currentList(item?.id);
+        if (readOnly(current)) {
+          return violation('readOnlyLists', current!, 'change reminders in it');
+        }
+        const target = item?.list === undefined ? undefined : listOf(item.list);
+        if (readOnly(target)) {
+          return violation('readOnlyLists', target!, 'move reminders into it');
+        }
+        if (
+          target &&
+          current &&
+          matchesList(noDeleteLists, current) &&
+          target.id !== current.id
+        ) {
+          return violation(
+            'noDeleteLists',
+            current,
+            'move reminders out of it',
+          );
+        }
+      }
+    }
+
+    if (tool === 'delete_reminders' && Array.isArray(args.ids)) {
+      for (const id of args.ids) {
+        const current = currentList(id);
+        if (readOnly(current)) {
+          return violation('readOnlyLists', current!, 'delete from it');
+        }
+        if (current && matchesList(noDeleteLists, current)) {
+          return violation('noDeleteLists', current, 'delete from it');
+        }
+      }
+    }
+    return null;
+  }
+}
+
+/** Items in a batch call; 1 for other tools. */
+export function batchSize(tool: string, args: Record<string, unknown>): number {
+  if (ITEM_TOOLS.has(tool) && Array.isArray(args.reminders)) {
+    return args.reminders.length;
+  }
+  if (tool === 'delete_reminders' && Array.isArray(args.ids)) {
+    return args.ids.length;
+  }
+  return 1;
+}
+
+/**
+ * The list a selector names: {id}, {name} (case-insensitive), or the
+ * default list when absent.
+ */
+function findList(
+  lists: ReminderListOutput[],
+  selector: {id?: string; name?: string},
+): ReminderListOutput | undefined {
+  if (selector.id !== undefined) return lists.find((l) => l.id === selector.id);
+  if (selector.name !== undefined) {
+    const name = selector.name.toLowerCase();
+    return lists.find((l) => l.name.toLowerCase() === name);
+  }
+  return lists.find((l) => l.isDefault);
+}
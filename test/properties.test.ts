@@ -0,0 +1,136 @@
+/**
+ * Tests for properties.ts: seeded generation, the invariants holding on the
+ * mock server, and shrinking a failure caused by an injected bug down to a
+ * minimal sequence that reproduces from its seed.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {MCPClient} from './mcp-client';
+import {
+  checkProperties,
+  formatResult,
+  generateOperations,
+  type PropertyTarget,
+  Random,
+  targetFor,
+} from './properties';
+import type {QueriedReminder} from './tool-results';
+
+describe('Property generation', () => {
+  test('the same seed gives the same sequence', () => {
+    expect(generateOperations(7, 40)).toEqual(generateOperations(7, 40));
+    expect(generateOperations(7, 40)).not.toEqual(generateOperations(8, 40));
+    expect(new Random(3).int(1, 6)).toBe(new Random(3).int(1, 6));
+  });
+
+  test('covers every operation and only targets live reminders', () => {
+    const operations = generateOperations(42, 200);
+    expect(new Set(operations.map((o) => o.op))).toEqual(
+      new Set(['create', 'update', 'complete', 'delete', 'query']),
+    );
+
+    const live = new Set<number>();
+    for (const operation of operations) {
+      if (operation.op === 'create') {
+        for (const r of operation.reminders) live.add(r.ref);
+      } else if (operation.op === 'update' || operation.op === 'complete') {
+        expect(live.has(operation.ref)).toBe(true);
+      } else if (operation.op === 'delete') {
+        for (const ref of operation.refs) {
+          expect(live.delete(ref)).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+describe('Property invariants', () => {
+  let client: MCPClient;
+  let target: PropertyTarget;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    target = targetFor(client);
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('hold on the mock server', async () => {
+    const result = await checkProperties(target, {
+      seed: 2026,
+      runs: 4,
+      steps: 25,
+    });
+    if (result.failure) console.log(formatResult(result));
+    expect(result.failure).toBeNull();
+  });
+
+  describe('with an injected bug', () => {
+    /** Completed-only queries drop reminders that were created with alarms */
+    const buggy = (): PropertyTarget => {
+      const alarmed = new Set<string>();
+      return {
+        ...target,
+        call: async (name, args) => {
+          const result = await target.call(name, args);
+          if (name === 'create_reminders' && Array.isArray(result)) {
+            for (const r of result as QueriedReminder[]) {
+              if (r.alarms) alarmed.add(r.id);
+            }
+          }
+          if (
+            name === 'query_reminders' &&
+            (args as {status?: string}).status === 'completed'
+          ) {
+            return (result as QueriedReminder[]).filter(
+              (r) => !alarmed.has(r.id),
+            );
+          }
+          return result;
+        },
+      };
+    };
+
+    test('shrinks the failure to a minimal sequence', async () => {
+      const result = await checkProperties(buggy(), {
+        seed: 1,
+        runs: 10,
+        steps: 30,
+      });
+      const failure = result.failure!;
+      expect(failure).not.toBeNull();
+      expect(failure.invariant).toBe('statuses partition the live set');
+
+      // Create one reminder with alarms, complete it; nothing else survives
+      expect(failure.operations.map((o) => o.op)).toEqual([
+        'create',
+        'complete',
+      ]);
+      const [create] = failure.operations;
+      if (create.op !== 'create') throw new Error('expected a create');
+      expect(create.reminders).toHaveLength(1);
+      expect(Object.keys(create.reminders[0]).sort()).toEqual([
+        'alarms',
+        'ref',
+        'title',
+      ]);
+      expect(create.reminders[0].title).toBe('a');
+      expect(failure.originalLength).toBeGreaterThan(2);
+
+      const text = formatResult(result);
+      expect(text).toContain(
+        `Reproduce: bun test/properties.ts --seed ${failure.seed} --runs 1 --steps 30`,
+      );
+
+      // The run seed alone reproduces the same minimal sequence
+      const again = await checkProperties(buggy(), {
+        seed: failure.seed,
+        runs: 1,
+        steps: 30,
+      });
+      expect(again.failure?.operations).toEqual(failure.operations);
+    });
+  });
+});
@@ -0,0 +1,818 @@
+#!/usr/bin/env bun
+
+/**
+ * Seeded property-based testing of the reminder tools.
+ *
+ * Each run generates a random sequence of create, update, complete, delete
+ * and query calls (unicode and very long titles, empty notes, date-only and
+ * timed due dates, every priority, relative and absolute alarms, recurrence
+ * rules) from a seed, plays it against a fresh test list and keeps a model
+ * of what the list should contain. After every step these invariants are
+ * checked:
+ *
+ * - every call succeeds, and create echoes the titles it was given
+ * - query_reminders with status 'all' returns exactly the live set, once each
+ * - each reminder's fields match the model
+ * - status 'incomplete' and 'completed' partition the live set
+ * - a query with `limit` returns min(limit, matches) reminders, all matching
+ * - delete removes exactly the ids it was given
+ *
+ * A failing sequence is shrunk (dropping steps, then simplifying the
+ * remaining ones) to a minimal one that still breaks the same invariant.
+ * Generation and shrinking are deterministic, so the reported run seed
+ * reproduces both.
+ *
+ * Usage: bun test/properties.ts [--seed <n>] [--runs <n>] [--steps <n>] [--json]
+ *   Runs against the mock server. Exits 1 when an invariant fails.
+ */
+
+import {MCPClient} from './mcp-client';
+import type {PriorityName} from './reference-models';
+import type {QueriedReminder, ToolCaller} from './tool-results';
+
+export type AlarmSpec =
+  | {type: 'relative'; offset: number}
+  | {type: 'absolute'; date: string};
+
+export interface ReminderSpec {
+  /** Stable handle for the reminder across steps (and shrinking) */
+  ref: number;
+  title: string;
+  notes?: string;
+  dueDate?: string;
+  priority?: PriorityName;
+  alarms?: AlarmSpec[];
+  recurrenceRule?: Record<string, unknown>;
+}
+
+export interface ReminderChanges {
+  title?: string;
+  notes?: string | null;
+  dueDate?: string | null;
+  priority?: PriorityName;
+  alarms?: AlarmSpec[] | null;
+  recurrenceRule?: Record<string, unknown> | null;
+}
+
+export type QueryStatus = 'all' | 'incomplete' | 'completed';
+
+export type Operation =
+  | {op: 'create'; reminders: ReminderSpec[]}
+  | {op: 'update'; ref: number; changes: ReminderChanges}
+  | {op: 'complete'; ref: number; completed: boolean}
+  | {op: 'delete'; refs: number[]}
+  | {op: 'query'; status: QueryStatus; limit: number};
+
+/** What the tools are run against; see targetFor(). */
+export interface PropertyTarget {
+  call: ToolCaller;
+  /** Create an empty list for one sequence and return its name */
+  createList(): Promise<string>;
+}
+
+export interface SequenceFailure {
+  /** Index of the step after which the invariant failed */
+  step: number;
+  invariant: string;
+  message: string;
+}
+
+export interface PropertyFailure extends SequenceFailure {
+  /** Seed of the failing run; reproduces it with runs = 1 */
+  seed: number;
+  /** Minimal failing sequence */
+  operations: Operation[];
+  originalLength: number;
+  shrinkAttempts: number;
+}
+
+export interface PropertyOptions {
+  seed: number;
+  runs: number;
+  steps: number;
+  /** Upper bound on sequences replayed while shrinking */
+  maxShrinkAttempts?: number;
+}
+
+export interface PropertyResult {
+  seed: number;
+  runs: number;
+  steps: number;
+  failure: PropertyFailure | null;
+}
+
+/** An invariant that did not hold. */
+export class InvariantViolation extends Error {
+  constructor(
+    readonly invariant: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'InvariantViolation';
+  }
+}
+
+/** Small seeded PRNG (mulberry32); the same seed gives the same sequence. */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Float in [0, 1) */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** `count` distinct items, in random order */
+  sample<T>(items: readonly T[], count: number): T[] {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length > 0) {
+      picked.push(pool.splice(this.int(0, pool.length - 1), 1)[0]);
+    }
+    return picked;
+  }
+}
+
+const TITLE_FRAGMENTS = [
+  'Buy milk',
+  'Café ☕',
+  '日本語のタスク',
+  'שלום עולם',
+  'éclair',
+  '👩‍👩‍👧 family',
+  'Ω≈ç√∫',
+  '"quotes" & <tags>',
+  "it's",
+  'tab\tseparated',
+  '  padded  ',
+  'null',
+  '[?priority]',
+];
+
+const NOTES = ['', 'Short note', 'Line one\nLine two', '🚀'.repeat(40)];
+const PRIORITIES: PriorityName[] = ['none', 'low', 'medium', 'high'];
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+const STATUSES: QueryStatus[] = ['all', 'incomplete', 'completed'];
+
+/** Keeps the live set well under query_reminders' 200-result cap */
+const MAX_LIVE = 60;
+const FULL_QUERY_LIMIT = 200;
+
+function generateTitle(random: Random): string {
+  if (random.chance(0.1)) return 'x'.repeat(random.int(256, 2048));
+  const parts = random.int(1, 3);
+  return Array.from({length: parts}, () => random.pick(TITLE_FRAGMENTS)).join(
+    ' ',
+  );
+}
+
+function generateDate(random: Random): string {
+  const day = new Date(Date.UTC(2026, 0, 1) + random.int(0, 729) * 86_400_000);
+  const date = day.toISOString().slice(0, 10);
+  if (random.chance(0.4)) return date;
+  const hh = String(random.int(0, 23)).padStart(2, '0');
+  const mm = random.pick(['00', '15', '30', '45']);
+  return `${date}T${hh}:${mm}:00Z`;
+}
+
+function generateAlarms(random: Random): AlarmSpec[] {
+  return Array.from({length: random.int(1, 3)}, () =>
+    random.chance(0.5)
+      ? {type: 'relative' as const, offset: random.pick([0, 300, 3600, 86400])}
+      : {type: 'absolute' as const, date: generateDate(random)},
+  );
+}
+
+function generateRecurrence(random: Random): Record<string, unknown> {
+  const frequency = random.pick(FREQUENCIES);
+  const rule: Record<string, unknown> = {
+    frequency,
+    interval: random.int(1, 3),
+  };
+  if (frequency === 'weekly' && random.chance(0.5)) {
+    rule.daysOfWeek = random
+      .sample([1, 2, 3, 4, 5, 6, 7], random.int(1, 3))
+      .sort();
+  }
+  if (frequency === 'monthly' && random.chance(0.5)) {
+    rule.daysOfMonth = [random.pick([1, 15, 28, 31, -1])];
+  }
+  if (random.chance(0.3)) rule.endCount = random.int(1, 10);
+  else if (random.chance(0.2)) rule.endDate = generateDate(random);
+  return rule;
+}
+
+function generateReminder(random: Random, ref: number): ReminderSpec {
+  const spec: ReminderSpec = {ref, title: generateTitle(random)};
+  if (random.chance(0.4)) spec.notes = random.pick(NOTES);
+  if (random.chance(0.5)) spec.dueDate = generateDate(random);
+  if (random.chance(0.6)) spec.priority = random.pick(PRIORITIES);
+  if (random.chance(0.25)) spec.alarms = generateAlarms(random);
+  if (random.chance(0.2)) spec.recurrenceRule = generateRecurrence(random);
+  return spec;
+}
+
+function generateChanges(random: Random): ReminderChanges {
+  const changes: ReminderChanges = {};
+  while (Object.keys(changes).length === 0) {
+    if (random.chance(0.4)) changes.title = generateTitle(random);
+    if (random.chance(0.3)) {
+      changes.notes = random.chance(0.3) ? null : random.pick(NOTES);
+    }
+    if (random.chance(0.3)) {
+      changes.dueDate = random.chance(0.3) ? null : generateDate(random);
+    }
+    if (random.chance(0.3)) changes.priority = random.pick(PRIORITIES);
+    if (random.chance(0.15)) {
+      changes.alarms = random.chance(0.4) ? null : generateAlarms(random);
+    }
+    if (random.chance(0.1)) {
+      changes.recurrenceRule = random.chance(0.4)
+        ? null
+        : generateRecurrence(random);
+    }
+  }
+  return changes;
+}
+
+/** A random sequence of `steps` operations; the seed fixes it. */
+export function generateOperations(seed: number, steps: number): Operation[] {
+  const random = new Random(seed);
+  const live: number[] = [];
+  const operations: Operation[] = [];
+  let nextRef = 1;
+
+  while (operations.length < steps) {
+    const roll = random.next();
+    if (live.length === 0 || (roll < 0.35 && live.length < MAX_LIVE)) {
+      const reminders = Array.from({length: random.int(1, 3)}, () =>
+        generateReminder(random, nextRef++),
+      );
+      live.push(...reminders.map((r) => r.ref));
+      operations.push({op: 'create', reminders});
+    } else if (roll < 0.6) {
+      operations.push({
+        op: 'update',
+        ref: random.pick(live),
+        changes: generateChanges(random),
+      });
+    } else if (roll < 0.75) {
+      operations.push({
+        op: 'complete',
+        ref: random.pick(live),
+        completed: random.chance(0.75),
+      });
+    } else if (roll < 0.85) {
+      const refs = random.sample(live, random.int(1, 3));
+      for (const ref of refs) live.splice(live.indexOf(ref), 1);
+      operations.push({op: 'delete', refs});
+    } else {
+      operations.push({
+        op: 'query',
+        status: random.pick(STATUSES),
+        limit: random.int(1, 20),
+      });
+    }
+  }
+  return operations;
+}
+
+interface ModelReminder {
+  id: string;
+  title: string;
+  notes: string | null;
+  priority: PriorityName;
+  isCompleted: boolean;
+  hasDueDate: boolean;
+  alarms: number;
+  recurring: boolean;
+}
+
+function fail(invariant: string, message: string): never {
+  throw new InvariantViolation(invariant, message);
+}
+
+const describeIds = (ids: string[]) =>
+  ids.length === 0 ? '(none)' : ids.join(', ');
+
+function sameIds(actual: string[], expected: string[]): boolean {
+  const a = [...actual].sort();
+  const b = [...expected].sort();
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+function matchesStatus(reminder: ModelReminder, status: QueryStatus) {
+  if (status === 'all') return true;
+  return reminder.isCompleted === (status === 'completed');
+}
+
+/** Plays sequences against a target and checks the invariants. */
+class SequenceRunner {
+  private model = new Map<number, ModelReminder>();
+  private byId = new Map<string, number>();
+
+  constructor(
+    private target: PropertyTarget,
+    private listName: string,
+  ) {}
+
+  async run(operations: Operation[]): Promise<SequenceFailure | null> {
+    for (const [step, operation] of operations.entries()) {
+      try {
+        await this.execute(operation);
+        await this.checkInvariants();
+      } catch (error) {
+        if (error instanceof InvariantViolation) {
+          return {step, invariant: error.invariant, message: error.message};
+        }
+        return {
+          step,
+          invariant: 'call succeeds',
+          message: (error as Error).message,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Delete whatever the sequence left behind. */
+  async cleanup(): Promise<void> {
+    const ids = [...this.model.values()].map((r) => r.id);
+    if (ids.length > 0) {
+      await this.target.call('delete_reminders', {ids}).catch(() => {});
+    }
+  }
+
+  private query(status: QueryStatus, limit: number, outputDetail?: string) {
+    return this.target.call('query_reminders', {
+      list: {name: this.listName},
+      status,
+      limit,
+      ...(outputDetail ? {outputDetail} : {}),
+    }) as Promise<QueriedReminder[]>;
+  }
+
+  private async execute(operation: Operation): Promise<void> {
+    switch (operation.op) {
+      case 'create': {
+        const result = await this.target.call('create_reminders', {
+          reminders: operation.reminders.map(({ref: _ref, ...spec}) => ({
+            ...spec,
+            list: {name: this.listName},
+          })),
+        });
+        if (!Array.isArray(result)) {
+          fail(
+            'call succeeds',
+            `create_reminders partially failed: ${JSON.stringify((result as {failed?: unknown}).failed)}`,
+          );
+        }
+        const created = result as QueriedReminder[];
+        operation.reminders.forEach((spec, i) => {
+          if (created[i]?.title !== spec.title) {
+            fail(
+              'create echoes its input',
+              `reminder ${i} came back titled ${JSON.stringify(created[i]?.title)}, expected ${JSON.stringify(spec.title)}`,
+            );
+          }
+          this.model.set(spec.ref, {
+            id: created[i].id,
+            title: spec.title,
+            notes: spec.notes ?? null,
+            priority: spec.priority ?? 'none',
+            isCompleted: false,
+            hasDueDate: spec.dueDate !== undefined,
+            alarms: spec.alarms?.length ?? 0,
+            recurring: spec.recurrenceRule !== undefined,
+          });
+          this.byId.set(created[i].id, spec.ref);
+        });
+        return;
+      }
+
+      case 'update': {
+        const reminder = this.model.get(operation.ref);
+        if (!reminder) return; // Deleted, or its create was shrunk away
+        await this.updateOne({id: reminder.id, ...operation.changes});
+        const {changes} = operation;
+        if (changes.title !== undefined) reminder.title = changes.title;
+        if (changes.notes !== undefined) reminder.notes = changes.notes;
+        if (changes.dueDate !== undefined) {
+          reminder.hasDueDate = changes.dueDate !== null;
+        }
+        if (changes.priority !== undefined) {
+          reminder.priority = changes.priority;
+        }
+        if (changes.alarms !== undefined) {
+          reminder.alarms = changes.alarms?.length ?? 0;
+        }
+        if (changes.recurrenceRule !== undefined) {
+          reminder.recurring = changes.recurrenceRule !== null;
+        }
+        return;
+      }
+
+      case 'complete': {
+        const reminder = this.model.get(operation.ref);
+        if (!reminder) return;
+        await this.updateOne({
+          id: reminder.id,
+          completed: operation.completed,
+        });
+        reminder.isCompleted = operation.completed;
+        return;
+      }
+
+      case 'delete': {
+        const refs = operation.refs.filter((ref) => this.model.has(ref));
+        if (refs.length === 0) return;
+        const ids = refs.map((ref) => this.model.get(ref)!.id);
+        const result = (await this.target.call('delete_reminders', {ids})) as {
+          deleted: string[];
+          failed: unknown[];
+        };
+        if (!sameIds(result.deleted, ids) || result.failed.length > 0) {
+          fail(
+            'delete removes exactly the given ids',
+            `asked to delete ${describeIds(ids)}; deleted ${describeIds(result.deleted)}, failed ${JSON.stringify(result.failed)}`,
+          );
+        }
+        for (const ref of refs) {
+          this.byId.delete(this.model.get(ref)!.id);
+          this.model.delete(ref);
+        }
+        return;
+      }
+
+      case 'query': {
+        const matching = [...this.model.values()].filter((r) =>
+          matchesStatus(r, operation.status),
+        );
+        const result = await this.query(operation.status, operation.limit);
+        const expected = Math.min(operation.limit, matching.length);
+        if (result.length !== expected) {
+          fail(
+            'limit is respected',
+            `status '${operation.status}' with limit ${operation.limit} returned ${result.length} reminder(s); ${matching.length} match, expected ${expected}`,
+          );
+        }
+        const ids = new Set(matching.map((r) => r.id));
+        const stray = result.filter((r) => !ids.has(r.id));
+        if (stray.length > 0) {
+          fail(
+            'status filter',
+            `status '${operation.status}' returned non-matching ${describeIds(stray.map((r) => r.id))}`,
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  private async updateOne(item: Record<string, unknown>): Promise<void> {
+    const result = await this.target.call('update_reminders', {
+      reminders: [item],
+    });
+    if (!Array.isArray(result)) {
+      fail(
+        'call succeeds',
+        `update_reminders failed: ${JSON.stringify((result as {failed?: unknown}).failed)}`,
+      );
+    }
+  }
+
+  private async checkInvariants(): Promise<void> {
+    const live = [...this.model.values()];
+    const all = await this.query('all', FULL_QUERY_LIMIT, 'full');
+    const ids = all.map((r) => r.id);
+
+    if (new Set(ids).size !== ids.length) {
+      fail(
+        'status all returns the live set',
+        `duplicate ids in ${describeIds(ids)}`,
+      );
+    }
+    if (
+      !sameIds(
+        ids,
+        live.map((r) => r.id),
+      )
+    ) {
+      const expected = new Set(live.map((r) => r.id));
+      fail(
+        'status all returns the live set',
+        `missing ${describeIds(live.filter((r) => !ids.includes(r.id)).map((r) => r.id))}; unexpected ${describeIds(ids.filter((id) => !expected.has(id)))}`,
+      );
+    }
+
+    for (const actual of all) {
+      const ref = this.byId.get(actual.id)!;
+      const expected = this.model.get(ref)!;
+      const fields: Array<[string, unknown, unknown]> = [
+        ['title', actual.title, expected.title],
+        // EventKit stores empty notes as nil
+        ['notes', actual.notes || null, expected.notes || null],
+        ['priority', actual.priority, expected.priority],
+        ['isCompleted', actual.isCompleted, expected.isCompleted],
+        ['dueDate set', actual.dueDate != null, expected.hasDueDate],
+        ['alarms', actual.alarms?.length ?? 0, expected.alarms],
+        [
+          'recurring',
+          (actual.recurrenceRules?.length ?? 0) > 0,
+          expected.recurring,
+        ],
+      ];
+      for (const [field, got, want] of fields) {
+        if (got !== want) {
+          fail(
+            'fields match the model',
+            `reminder #${ref} ${field}: got ${JSON.stringify(got)}, expected ${JSON.stringify(want)}`,
+          );
+        }
+      }
+    }
+
+    for (const status of ['incomplete', 'completed'] as const) {
+      const result = await this.query(status, FULL_QUERY_LIMIT);
+      const expected = live.filter((r) => matchesStatus(r, status));
+      if (
+        !sameIds(
+          result.map((r) => r.id),
+          expected.map((r) => r.id),
+        )
+      ) {
+        fail(
+          'statuses partition the live set',
+          `status '${status}' returned ${describeIds(result.map((r) => r.id))}; expected ${describeIds(expected.map((r) => r.id))}`,
+        );
+      }
+    }
+  }
+}
+
+/** Play a sequence in a fresh list; null when every invariant holds. */
+export async function runSequence(
+  target: PropertyTarget,
+  operations: Operation[],
+): Promise<SequenceFailure | null> {
+  const runner = new SequenceRunner(target, await target.createList());
+  try {
+    return await runner.run(operations);
+  } finally {
+    await runner.cleanup();
+  }
+}
+
+/** Simpler variants of one operation, most aggressive first. */
+function simplifications(operation: Operation): Operation[] {
+  switch (operation.op) {
+    case 'create': {
+      const {reminders} = operation;
+      const variants: Operation[] = [];
+      if (reminders.length > 1) {
+        for (const reminder of reminders) {
+          variants.push({op: 'create', reminders: [reminder]});
+        }
+      }
+      reminders.forEach((reminder, i) => {
+        const replace = (simpler: ReminderSpec): Operation => ({
+          op: 'create',
+          reminders: reminders.map((r, j) => (j === i ? simpler : r)),
+        });
+        for (const key of Object.keys(reminder)) {
+          if (key === 'ref' || key === 'title') continue;
+          const {[key as keyof ReminderSpec]: _dropped, ...rest} = reminder;
+          variants.push(replace(rest as ReminderSpec));
+        }
+        if (reminder.title !== 'a')
+          variants.push(replace({...reminder, title: 'a'}));
+      });
+      return variants;
+    }
+    case 'update': {
+      const keys = Object.keys(operation.changes);
+      if (keys.length < 2) return [];
+      return keys.map((key) => ({
+        ...operation,
+        changes: {[key]: operation.changes[key as keyof ReminderChanges]},
+      }));
+    }
+    case 'delete':
+      return operation.refs.length < 2
+        ? []
+        : operation.refs.map((ref) => ({op: 'delete', refs: [ref]}));
+    case 'query':
+      return [
+        ...(operation.status === 'all' ? [] : [{...operation, status: 'all'}]),
+        ...(operation.limit === 1 ? [] : [{...operation, limit: 1}]),
+      ] as Operation[];
+    default:
+      return [];
+  }
+}
+
+/** Candidate sequences: drop chunks of steps, then simplify single steps. */
+function* shrinkCandidates(operations: Operation[]): Generator<Operation[]> {
+  for (
+    let size = Math.max(1, Math.floor(operations.length / 2));
+    size >= 1;
+    size = size === 1 ? 0 : Math.floor(size / 2)
+  ) {
+    for (let start = 0; start + size <= operations.length; start += size) {
+      yield [...operations.slice(0, start), ...operations.slice(start + size)];
+    }
+  }
+  for (const [i, operation] of operations.entries()) {
+    for (const simpler of simplifications(operation)) {
+      yield operations.map((op, j) => (j === i ? simpler : op));
+    }
+  }
+}
+
+/**
+ * Shrink a failing sequence to one that still breaks the same invariant
+ * and has no step or field that can be removed.
+ */
+export async function shrink(
+  target: PropertyTarget,
+  operations: Operation[],
+  failure: SequenceFailure,
+  maxAttempts = 500,
+): Promise<{
+  operations: Operation[];
+  failure: SequenceFailure;
+  attempts: number;
+}> {
+  let current = operations.slice(0, failure.step + 1);
+  let attempts = 0;
+  let progress = true;
+
+  while (progress && attempts < maxAttempts) {
+    progress = false;
+    for (const candidate of shrinkCandidates(current)) {
+      if (candidate.length === 0 || attempts >= maxAttempts) continue;
+      attempts++;
+      const result = await runSequence(target, candidate);
+      if (result && result.invariant === failure.invariant) {
+        current = candidate.slice(0, result.step + 1);
+        failure = result;
+        progress = true;
+        break;
+      }
+    }
+  }
+  return {operations: current, failure, attempts};
+}
+
+/** Run `runs` generated sequences, seeds seed..seed+runs-1; stop at the first failure. */
+export async function checkProperties(
+  target: PropertyTarget,
+  options: PropertyOptions,
+): Promise<PropertyResult> {
+  const {seed, runs, steps} = options;
+  for (let run = 0; run < runs; run++) {
+    const runSeed = seed + run;
+    const operations = generateOperations(runSeed, steps);
+    const failure = await runSequence(target, operations);
+    if (!failure) continue;
+
+    const shrunk = await shrink(
+      target,
+      operations,
+      failure,
+      options.maxShrinkAttempts,
+    );
+    return {
+      seed,
+      runs: run + 1,
+      steps,
+      failure: {
+        ...shrunk.failure,
+        seed: runSeed,
+        operations: shrunk.operations,
+        originalLength: failure.step + 1,
+        shrinkAttempts: shrunk.attempts,
+      },
+    };
+  }
+  return {seed, runs, steps, failure: null};
+}
+
+/** A property target backed by an MCPClient; tool errors reject. */
+export function targetFor(client: MCPClient): PropertyTarget {
+  return {
+    call: async (name, args) => {
+      const result = await client.callTool(
+        name,
+        args as Record<string, unknown>,
+      );
+      if (!Array.isArray(result) && result._isError) {
+        throw new Error(`${name}: ${result.error}`);
+      }
+      return result;
+    },
+    createList: () => client.createTestList(),
+  };
+}
+
+export function formatResult(result: PropertyResult): string {
+  const {failure} = result;
+  if (!failure) {
+    return `${result.runs} run(s) of ${result.steps} steps from seed ${result.seed}: all invariants held.`;
+  }
+  return [
+    `Invariant failed: ${failure.invariant} (run seed ${failure.seed}, step ${failure.step + 1})`,
+    `  ${failure.message}`,
+    '',
+    `Minimal sequence (shrunk from ${failure.originalLength} steps in ${failure.shrinkAttempts} attempts):`,
+    ...failure.operations.map((op, i) => `  ${i + 1}. ${JSON.stringify(op)}`),
+    '',
+    `Reproduce: bun test/properties.ts --seed ${failure.seed} --runs 1 --steps ${result.steps}`,
+  ].join('\n');
+}
+
+function parseArgs(argv: string[]): PropertyOptions & {json: boolean} {
+  const options = {
+    seed: Date.now() % 2 ** 31,
+    runs: 20,
+    steps: 30,
+    json: false,
+  };
+  const number = (flag: string, value: string | undefined) => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`${flag} needs a non-negative integer`);
+    }
+    return n;
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--seed':
+        options.seed = number('--seed', argv[++i]);
+        break;
+      case '--runs':
+        options.runs = number('--runs', argv[++i]);
+        break;
+      case '--steps':
+        options.steps = number('--steps', argv[++i]);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: PropertyOptions & {json: boolean};
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/properties.ts [--seed <n>] [--runs <n>] [--steps <n>] [--json]',
+    );
+    process.exit(2);
+  }
+
+  const client = await MCPClient.create();
+  let result: PropertyResult;
+  try {
+    result = await checkProperties(targetFor(client), options);
+  } finally {
+    await client.cleanup();
+  }
+  console.log(
+    options.json ? JSON.stringify(result, null, 2) : formatResult(result),
+  );
+  process.exit(result.failure ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(2);
+  });
+}
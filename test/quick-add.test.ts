@@ -0,0 +1,151 @@
+/**
+ * Tests for quick-add.ts against a fixed reference date and zone:
+ * Monday 2026-06-15 10:00 in Europe/Berlin (UTC+2).
+ */
+
+import {describe, test, expect} from 'bun:test';
+import {buildRequest} from './cli';
+import {parseQuickAdd, QuickAddError} from './quick-add';
+
+const now = new Date('2026-06-15T08:00:00Z');
+const timeZone = 'Europe/Berlin';
+const parse = (input: string) => parseQuickAdd(input, {now, timeZone});
+
+describe('Quick add', () => {
+  test('the full example', () => {
+    expect(
+      parse(
+        'Call dentist tomorrow 9am !high #Personal every 2 weeks remind 1h before',
+      ),
+    ).toEqual({
+      title: 'Call dentist',
+      dueDate: '2026-06-16T09:00:00+02:00',
+      dueDateIncludesTime: true,
+      priority: 'high',
+      list: {name: 'Personal'},
+      recurrenceRule: {frequency: 'weekly', interval: 2},
+      alarms: [{type: 'relative', offset: 3600}],
+    });
+  });
+
+  test('dates without a time are all-day', () => {
+    const due = (input: string) => parse(input).dueDate;
+    expect(parse('Pay rent today')).toEqual({
+      title: 'Pay rent',
+      dueDate: '2026-06-15',
+      dueDateIncludesTime: false,
+    });
+    expect(due('Report friday')).toBe('2026-06-19');
+    expect(due('Report on mon')).toBe('2026-06-22');
+    expect(due('Report next monday')).toBe('2026-06-22');
+    expect(due('Renew in 3 weeks')).toBe('2026-07-06');
+    expect(due('Renew in 1 month')).toBe('2026-07-15');
+    expect(due('Trip 2026-08-01')).toBe('2026-08-01');
+    expect(due('Gift jun 20')).toBe('2026-06-20');
+    expect(due('Gift 3rd march')).toBe('2027-03-03');
+    expect(due('Gift on june 1st 2028')).toBe('2028-06-01');
+  });
+
+  test('times, with and without a date', () => {
+    const due = (input: string) => parse(input).dueDate;
+    expect(due('Standup 11:30')).toBe('2026-06-15T11:30:00+02:00');
+    // Already past today
+    expect(due('Standup 9:30 am')).toBe('2026-06-16T09:30:00+02:00');
+    expect(due('Lunch friday noon')).toBe('2026-06-19T12:00:00+02:00');
+    expect(due('Call at 14 jun 16')).toBe('2026-06-16T14:00:00+02:00');
+    expect(due('Check oven in 90 minutes')).toBe('2026-06-15T11:30:00+02:00');
+    expect(due('Check in 2 hours')).toBe('2026-06-15T12:00:00+02:00');
+  });
+
+  test('the zone decides the offset, including across DST', () => {
+    expect(
+      parseQuickAdd('Standup tomorrow 9am', {
+        now: new Date('2026-03-07T17:00:00Z'),
+        timeZone: 'America/New_York',
+      }).dueDate,
+    ).toBe('2026-03-08T09:00:00-04:00');
+    expect(
+      parseQuickAdd('Standup tomorrow 9am', {
+        now: new Date('2026-06-15T08:00:00Z'),
+        timeZone: 'Asia/Tokyo',
+      }).dueDate,
+    ).toBe('2026-06-16T09:00:00+09:00');
+  });
+
+  test('repeats', () => {
+    const rule = (input: string) => parse(input).recurrenceRule;
+    expect(rule('Water plants daily')).toEqual({frequency: 'daily'});
+    expect(rule('Backup every other month')).toEqual({
+      frequency: 'monthly',
+      interval: 2,
+    });
+    expect(rule('Gym every mon, wed and fri')).toEqual({
+      frequency: 'weekly',
+      daysOfWeek: [2, 4, 6],
+    });
+
+    // Without a date the first occurrence is the due date
+    expect(parse('Hike every weekend')).toMatchObject({
+      title: 'Hike',
+      dueDate: '2026-06-20',
+      recurrenceRule: {frequency: 'weekly', daysOfWeek: [1, 7]},
+    });
+    expect(parse('Timesheet every weekday 9am').dueDate).toBe(
+      '2026-06-16T09:00:00+02:00',
+    );
+  });
+
+  test('priorities, lists, alarms and literal text', () => {
+    expect(parse('Milk !! #"Grocery List"')).toEqual({
+      title: 'Milk',
+      priority: 'medium',
+      list: {name: 'Grocery List'},
+    });
+    expect(
+      parse('Flight friday 7am remind me 2h before remind 1 day before').alarms,
+    ).toEqual([
+      {type: 'relative', offset: 7200},
+      {type: 'relative', offset: 86400},
+    ]);
+    expect(parse('Read "next monday" tomorrow').title).toBe('Read next monday');
+    // Ordinary words that only look like dates stay in the title
+    expect(parse('Fix sun roof at home in the evening')).toEqual({
+      title: 'Fix sun roof at home in the evening',
+    });
+  });
+
+  test('errors', () => {
+    const fails = (input: string, message: string) =>
+      expect(() => parse(input)).toThrow(new QuickAddError(message));
+    fails('tomorrow 9am', 'Missing title');
+    fails('Call today tomorrow', 'More than one due date: tomorrow');
+    fails('Call 9am in 2 hours', 'More than one due date: in 2 hours');
+    fails('Call #Work #Home', 'More than one list: #Home');
+    fails('Call feb 30', 'Invalid date: feb 30');
+    fails('Call 13pm', 'Invalid time: 13pm');
+    fails('Call remind 1h before', '"remind ... before" needs a due date');
+    expect(() =>
+      parseQuickAdd('Call', {timeZone: 'Mars/Olympus_Mons'}),
+    ).toThrow(new QuickAddError('Unknown time zone: Mars/Olympus_Mons'));
+  });
+
+  test('cli add builds a create_reminders call', () => {
+    expect(
+      buildRequest(
+        ['add', 'Call', 'dentist', 'tomorrow', '9am', '--time-zone', timeZone],
+        now,
+      ),
+    ).toEqual({
+      tool: 'create_reminders',
+      args: {
+        reminders: [
+          {
+            title: 'Call dentist',
+            dueDate: '2026-06-16T09:00:00+02:00',
+            dueDateIncludesTime: true,
+          },
+        ],
+      },
+    });
+  });
+});
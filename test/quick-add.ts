@@ -0,0 +1,682 @@
+#!/usr/bin/env bun
+
+/**
+ * Natural-language quick add: turns a line like
+ *
+ *   Call dentist tomorrow 9am !high #Personal every 2 weeks remind 1h before
+ *
+ * into a create_reminders item. Recognized phrases are removed and the rest
+ * becomes the title; put words in double quotes to keep them literal
+ * (`Read "next monday" tomorrow`).
+ *
+ *   Dates      today, tomorrow, friday / on fri / next friday (the next
+ *              one, never today), in 3 days|weeks|months|years,
+ *              2026-06-15, jun 15 / june 15th 2027 / 15 june
+ *   Times      9am, 9:30pm, 21:00, at 9, noon, midnight; in 2 hours|minutes
+ *   Priority   !high !medium !low !none, or ! !! !!! (low to high)
+ *   List       #Personal, #"Work Tasks"
+ *   Repeat     daily / weekly / monthly / yearly, every day|week|month|year,
+ *              every 2 weeks, every other month, every monday and friday,
+ *              every weekday, every weekend
+ *   Alarms     remind [me] 1h|30m|2d|1w before, remind 15 minutes before
+ *
+ * A time without a date is today, or tomorrow once it has passed; a repeat
+ * without a date starts on its first occurrence from then.
+ *
+ * Usage:
+ *   bun test/quick-add.ts [--now <iso>] [--time-zone <iana>] <text...>
+ *
+ * Prints the create_reminders item as JSON. `bun test/cli.ts add` creates it.
+ */
+
+import {fromISO8601, type PriorityName} from './reference-models';
+import {
+  addDays,
+  addMonths,
+  type CivilDate,
+  compareDates,
+  formatDate,
+  formatInZone,
+  fromWallTime,
+  isValidDate,
+  isValidTimeZone,
+  localTimeZone,
+  wallTime,
+  weekday,
+} from './time-zones';
+import type {CreateRemindersArgs} from './tool-types.generated';
+
+export type QuickAddReminder = CreateRemindersArgs['reminders'][number];
+type RecurrenceRule = NonNullable<QuickAddReminder['recurrenceRule']>;
+
+export class QuickAddError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuickAddError';
+  }
+}
+
+export interface QuickAddOptions {
+  /** Reference instant for relative dates. Default: now */
+  now?: Date;
+  /** IANA zone the input is read in. Default: the process's zone */
+  timeZone?: string;
+}
+
+interface Word {
+  /** Lowercased, for matching */
+  text: string;
+  /** As typed, for the title */
+  raw: string;
+  /** Came from a "quoted" span: always title text */
+  literal: boolean;
+}
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const PRIORITIES: Record<string, PriorityName> = {
+  '!high': 'high',
+  '!medium': 'medium',
+  '!med': 'medium',
+  '!low': 'low',
+  '!none': 'none',
+  '!!!': 'high',
+  '!!': 'medium',
+  '!': 'low',
+};
+
+const FREQUENCIES: Record<string, RecurrenceRule['frequency']> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  year: 'yearly',
+};
+
+const ADVERBS: Record<string, RecurrenceRule['frequency']> = {
+  daily: 'daily',
+  weekly: 'weekly',
+  monthly: 'monthly',
+  yearly: 'yearly',
+  annually: 'yearly',
+};
+
+/** Seconds per alarm unit, by every spelling accepted */
+const DURATION_UNITS: Record<string, number> = {
+  m: 60,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+  d: 86400,
+  day: 86400,
+  days: 86400,
+  w: 604800,
+  week: 604800,
+  weeks: 604800,
+};
+
+/**
+ * `friday`, `fri,` → 0-6 (Sunday first). Abbreviations only count with
+ * `short`, i.e. after on/next/every, so "sun roof" stays in the title.
+ */
+function weekdayIndex(text: string, short: boolean): number {
+  const name = text.replace(/,$/, '');
+  if (name.length < 3) return -1;
+  return WEEKDAYS.findIndex((day) =>
+    short ? day.startsWith(name) : day === name,
+  );
+}
+
+function monthIndex(text: string): number {
+  const name = text.replace(/[.,]$/, '');
+  if (name.length < 3) return -1;
+  return MONTHS.findIndex((month) => month.startsWith(name));
+}
+
+/** `unit` or `units` → the singular, if it's one of `units` */
+function unitOf(text: string, units: string[]): string | undefined {
+  const singular = text.replace(/s$/, '');
+  return units.includes(singular) ? singular : undefined;
+}
+
+function isCount(text: string | undefined): boolean {
+  return text !== undefined && /^[1-9]\d*$/.test(text);
+}
+
+/** What a run of words means; `length` words are consumed */
+type Match = {length: number} & (
+  | {kind: 'date'; date: CivilDate}
+  | {kind: 'time'; hour: number; minute: number}
+  | {kind: 'instant'; date: Date}
+  | {kind: 'priority'; priority: PriorityName}
+  | {kind: 'list'; name: string}
+  | {kind: 'repeat'; rule: RecurrenceRule}
+  | {kind: 'alarm'; offset: number}
+);
+
+class QuickAddParser {
+  private readonly words: Word[];
+  private readonly today: CivilDate;
+  private readonly now: Date;
+
+  constructor(words: Word[], now: Date, timeZone: string) {
+    this.words = words;
+    this.now = now;
+    const {year, month, day} = wallTime(now, timeZone);
+    this.today = {year, month, day};
+  }
+
+  /** Lowercased word at `i`, or undefined past the end / for literals */
+  private at(i: number): string | undefined {
+    const word = this.words[i];
+    return word && !word.literal ? word.text : undefined;
+  }
+
+  match(i: number): Match | null {
+    return (
+      this.priority(i) ??
+      this.list(i) ??
+      this.repeat(i) ??
+      this.alarm(i) ??
+      this.relative(i) ??
+      this.date(i) ??
+      this.time(i)
+    );
+  }
+
+  private priority(i: number): Match | null {
+    const priority = PRIORITIES[this.at(i) ?? ''];
+    return priority ? {kind: 'priority', priority, length: 1} : null;
+  }
+
+  private list(i: number): Match | null {
+    const word = this.words[i];
+    if (word.literal || !word.raw.startsWith('#') || word.raw.length < 2) {
+      return null;
+    }
+    return {kind: 'list', name: word.raw.slice(1), length: 1};
+  }
+
+  private repeat(i: number): Match | null {
+    const first = this.at(i);
+    if (first && ADVERBS[first]) {
+      return {kind: 'repeat', rule: {frequency: ADVERBS[first]}, length: 1};
+    }
+    if (first !== 'every') return null;
+
+    const next = this.at(i + 1);
+    const units = Object.keys(FREQUENCIES);
+    if (next === 'weekday' || next === 'weekdays') {
+      return {
+        kind: 'repeat',
+        rule: {frequency: 'weekly', daysOfWeek: [2, 3, 4, 5, 6]},
+        length: 2,
+      };
+    }
+    if (next === 'weekend' || next === 'weekends') {
+      return {
+        kind: 'repeat',
+        rule: {frequency: 'weekly', daysOfWeek: [1, 7]},
+        length: 2,
+      };
+    }
+
+    // every [N|other] day|week|month|year
+    let interval = 1;
+    let j = i + 1;
+    if (next === 'other') {
+      interval = 2;
+      j++;
+    } else if (isCount(next)) {
+      interval = Number(next);
+      j++;
+    }
+    const unit = unitOf(this.at(j) ?? '', units);
+    if (unit) {
+      const rule: RecurrenceRule = {frequency: FREQUENCIES[unit]};
+      if (interval > 1) rule.interval = interval;
+      return {kind: 'repeat', rule, length: j + 1 - i};
+    }
+
+    // every monday, wednesday and friday
+    const days: number[] = [];
+    j = i + 1;
+    while (true) {
+      const day = weekdayIndex(this.at(j) ?? '', true);
+      if (day < 0) break;
+      days.push(day + 1);
+      j++;
+      if (
+        this.at(j) === 'and' &&
+        weekdayIndex(this.at(j + 1) ?? '', true) >= 0
+      ) {
+        j++;
+      }
+    }
+    if (days.length === 0) return null;
+    return {
+      kind: 'repeat',
+      rule: {
+        frequency: 'weekly',
+        daysOfWeek: [...new Set(days)].sort((a, b) => a - b),
+      },
+      length: j - i,
+    };
+  }
+
+  /** remind [me] 1h before / remind 15 minutes before */
+  private alarm(i: number): Match | null {
+    if (this.at(i) !== 'remind') return null;
+    let j = i + 1;
+    if (this.at(j) === 'me') j++;
+
+    let seconds: number | undefined;
+    const compact = /^(\d+)([a-z]+)$/.exec(this.at(j) ?? '');
+    if (compact && DURATION_UNITS[compact[2]]) {
+      seconds = Number(compact[1]) * DURATION_UNITS[compact[2]];
+      j++;
+    } else if (/^\d+$/.test(this.at(j) ?? '')) {
+      const unit = DURATION_UNITS[this.at(j + 1) ?? ''];
+      if (unit) {
+        seconds = Number(this.at(j)) * unit;
+        j += 2;
+      }
+    }
+    if (seconds === undefined || this.at(j) !== 'before') return null;
+    return {kind: 'alarm', offset: seconds, length: j + 1 - i};
+  }
+
+  /** in 3 days|weeks|months|years (a date), in 2 hours|minutes (a time) */
+  private relative(i: number): Match | null {
+    const count = this.at(i + 1);
+    if (this.at(i) !== 'in' || !isCount(count)) return null;
+    const amount = Number(count);
+    const unit = unitOf(this.at(i + 2) ?? '', [
+      'minute',
+      'hour',
+      'day',
+      'week',
+      'month',
+      'year',
+    ]);
+    if (!unit) return null;
+
+    if (unit === 'minute' || unit === 'hour') {
+      const ms = amount * (unit === 'hour' ? 3600_000 : 60_000);
+      return {
+        kind: 'instant',
+        date: new Date(this.now.getTime() + ms),
+        length: 3,
+      };
+    }
+    const date =
+      unit === 'day'
+        ? addDays(this.today, amount)
+        : unit === 'week'
+          ? addDays(this.today, amount * 7)
+          : addMonths(this.today, unit === 'month' ? amount : amount * 12);
+    return {kind: 'date', date, length: 3};
+  }
+
+  private date(i: number): Match | null {
+    // An optional lead-in word, counted in the match length
+    const lead = ['on', 'due', 'next'].includes(this.at(i) ?? '') ? 1 : 0;
+    const word = this.at(i + lead);
+    if (word === undefined) return null;
+
+    if (!lead && word === 'today') {
+      return {kind: 'date', date: this.today, length: 1};
+    }
+    if (!lead && word === 'tomorrow') {
+      return {kind: 'date', date: addDays(this.today, 1), length: 1};
+    }
+
+    const day = weekdayIndex(word, lead > 0);
+    if (day >= 0) {
+      const ahead = (day - weekday(this.today) + 7) % 7 || 7;
+      return {
+        kind: 'date',
+        date: addDays(this.today, ahead),
+        length: lead + 1,
+      };
+    }
+    if (this.at(i) === 'next') return null;
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+    if (iso) {
+      const [year, month, dayOfMonth] = iso.slice(1).map(Number);
+      return this.calendarDate(year, month, dayOfMonth, lead + 1, word);
+    }
+    return this.monthDay(i + lead, lead);
+  }
+
+  /** jun 15 [2027], june 15th, 15 june [2027] */
+  private monthDay(i: number, lead: number): Match | null {
+    const dayPattern = /^([1-9]|[12]\d|3[01])(st|nd|rd|th)?,?$/;
+    let month = monthIndex(this.at(i) ?? '');
+    let dayMatch: RegExpExecArray | null = null;
+    if (month >= 0) {
+      dayMatch = dayPattern.exec(this.at(i + 1) ?? '');
+    } else {
+      dayMatch = dayPattern.exec(this.at(i) ?? '');
+      month = monthIndex(this.at(i + 1) ?? '');
+      if (month < 0) return null;
+    }
+    if (!dayMatch) return null;
+
+    const day = Number(dayMatch[1]);
+    const yearWord = this.at(i + 2);
+    if (yearWord && /^\d{4}$/.test(yearWord)) {
+      return this.calendarDate(
+        Number(yearWord),
+        month + 1,
+        day,
+        lead + 3,
+        `${this.words[i].raw} ${this.words[i + 1].raw} ${yearWord}`,
+      );
+    }
+
+    // Without a year: the next time that date comes round
+    let date = {year: this.today.year, month: month + 1, day};
+    if (isValidDate(date) && compareDates(date, this.today) < 0) {
+      date = {...date, year: date.year + 1};
+    }
+    return this.calendarDate(
+      date.year,
+      date.month,
+      date.day,
+      lead + 2,
+      `${this.words[i].raw} ${this.words[i + 1].raw}`,
+    );
+  }
+
+  private calendarDate(
+    year: number,
+    month: number,
+    day: number,
+    length: number,
+    text: string,
+  ): Match {
+    const date = {year, month, day};
+    if (!isValidDate(date)) throw new QuickAddError(`Invalid date: ${text}`);
+    return {kind: 'date', date, length};
+  }
+
+  private time(i: number): Match | null {
+    const at = this.at(i) === 'at' ? 1 : 0;
+    const word = this.at(i + at);
+    if (word === undefined) return null;
+
+    if (word === 'noon' || word === 'midnight') {
+      return {
+        kind: 'time',
+        hour: word === 'noon' ? 12 : 0,
+        minute: 0,
+        length: at + 1,
+      };
+    }
+
+    // 9am, 9:30pm, or 9 am as two words
+    let meridiem = /^(\d{1,2})(?::(\d{2}))?([ap])\.?m\.?$/.exec(word);
+    let length = at + 1;
+    if (!meridiem && /^\d{1,2}(:\d{2})?$/.test(word)) {
+      const suffix = /^([ap])\.?m\.?$/.exec(this.at(i + at + 1) ?? '');
+      if (suffix) {
+        meridiem = /^(\d{1,2})(?::(\d{2}))?$/.exec(word)!;
+        meridiem[3] = suffix[1];
+        length++;
+      }
+    }
+    if (meridiem) {
+      const hour = Number(meridiem[1]);
+      const minute = Number(meridiem[2] ?? 0);
+      if (hour < 1 || hour > 12 || minute > 59) {
+        throw new QuickAddError(`Invalid time: ${word}`);
+      }
+      return {
+        kind: 'time',
+        hour: (hour % 12) + (meridiem[3] === 'p' ? 12 : 0),
+        minute,
+        length,
+      };
+    }
+
+    // 21:00 anywhere; a bare hour only after "at"
+    const clock = /^(\d{1,2})(?::(\d{2}))?$/.exec(word);
+    if (clock && (clock[2] !== undefined || at)) {
+      const hour = Number(clock[1]);
+      const minute = Number(clock[2] ?? 0);
+      if (hour > 23 || minute > 59) {
+        throw new QuickAddError(`Invalid time: ${word}`);
+      }
+      return {kind: 'time', hour, minute, length};
+    }
+    return null;
+  }
+}
+
+/** Splits input into words; "quoted spans" and #"list names" stay whole */
+function splitWords(input: string): Word[] {
+  const words: Word[] = [];
+  for (const [token] of input.matchAll(/#"[^"]*"|"[^"]*"|\S+/g)) {
+    if (token.startsWith('#"')) {
+      const name = token.slice(2, -1);
+      words.push({
+        text: `#${name}`.toLowerCase(),
+        raw: `#${name}`,
+        literal: false,
+      });
+    } else if (
+      token.startsWith('"') &&
+      token.length > 1 &&
+      token.endsWith('"')
+    ) {
+      const text = token.slice(1, -1);
+      words.push({text: text.toLowerCase(), raw: text, literal: true});
+    } else {
+      words.push({text: token.toLowerCase(), raw: token, literal: false});
+    }
+  }
+  return words;
+}
+
+/** First occurrence of a weekly rule's days on or after `from` */
+function firstOccurrence(rule: RecurrenceRule, from: CivilDate): CivilDate {
+  if (rule.frequency !== 'weekly' || !rule.daysOfWeek?.length) return from;
+  for (let ahead = 0; ahead < 7; ahead++) {
+    const date = addDays(from, ahead);
+    if (rule.daysOfWeek.includes(weekday(date) + 1)) return date;
+  }
+  return from;
+}
+
+/**
+ * Parses a quick-add line into a create_reminders item. Throws
+ * QuickAddError for an empty title, conflicting phrases (two dates, two
+ * lists, ...), impossible dates, and alarms on a reminder with no due date.
+ */
+export function parseQuickAdd(
+  input: string,
+  options: QuickAddOptions = {},
+): QuickAddReminder {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? localTimeZone();
+  if (!isValidTimeZone(timeZone)) {
+    throw new QuickAddError(`Unknown time zone: ${timeZone}`);
+  }
+
+  const words = splitWords(input);
+  const parser = new QuickAddParser(words, now, timeZone);
+  const title: string[] = [];
+  const found: Partial<Record<Match['kind'], Match>> = {};
+  const alarms: number[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    const match = parser.match(i);
+    if (!match) {
+      title.push(words[i].raw);
+      i++;
+      continue;
+    }
+    const text = words
+      .slice(i, i + match.length)
+      .map((w) => w.raw)
+      .join(' ');
+    if (match.kind === 'alarm') {
+      alarms.push(match.offset);
+    } else {
+      // A time of day and a date can combine; anything else only once
+      const clash =
+        found[match.kind] ??
+        (match.kind === 'instant' ? (found.date ?? found.time) : undefined) ??
+        (match.kind === 'date' || match.kind === 'time'
+          ? found.instant
+          : undefined);
+      if (clash) {
+        throw new QuickAddError(`More than one ${phrase(match)}: ${text}`);
+      }
+      found[match.kind] = match;
+    }
+    i += match.length;
+  }
+
+  const reminder: QuickAddReminder = {title: title.join(' ').trim()};
+  if (!reminder.title) throw new QuickAddError('Missing title');
+
+  const {date, time, instant, priority, list, repeat} = found as {
+    [K in Match['kind']]?: Extract<Match, {kind: K}>;
+  };
+  const today = wallTime(now, timeZone);
+
+  if (instant) {
+    const due = new Date(Math.floor(instant.date.getTime() / 60_000) * 60_000);
+    reminder.dueDate = formatInZone(due, timeZone);
+    reminder.dueDateIncludesTime = true;
+  } else if (date || time || repeat) {
+    let day: CivilDate = date?.date ?? today;
+    if (!date) {
+      // Without a date: the next time the time of day (and repeat) comes round
+      const passed =
+        time && time.hour * 60 + time.minute <= today.hour * 60 + today.minute;
+      if (passed) day = addDays(day, 1);
+      if (repeat) day = firstOccurrence(repeat.rule, day);
+    }
+    if (time) {
+      const due = fromWallTime(
+        {...day, hour: time.hour, minute: time.minute, second: 0},
+        timeZone,
+      );
+      reminder.dueDate = formatInZone(due, timeZone);
+      reminder.dueDateIncludesTime = true;
+    } else {
+      reminder.dueDate = formatDate(day);
+      reminder.dueDateIncludesTime = false;
+    }
+  }
+
+  if (priority) reminder.priority = priority.priority;
+  if (list) reminder.list = {name: list.name};
+  if (repeat) reminder.recurrenceRule = repeat.rule;
+  if (alarms.length > 0) {
+    if (!reminder.dueDate) {
+      throw new QuickAddError('"remind ... before" needs a due date');
+    }
+    reminder.alarms = alarms.map((offset) => ({type: 'relative', offset}));
+  }
+  return reminder;
+}
+
+function phrase(match: Match): string {
+  switch (match.kind) {
+    case 'instant':
+    case 'date':
+    case 'time':
+      return 'due date';
+    case 'repeat':
+      return 'repeat rule';
+    default:
+      return match.kind;
+  }
+}
+
+function parseArgs(args: string[]) {
+  const options: {now?: Date; timeZone?: string; words: string[]} = {
+    words: [],
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--now': {
+        const now = fromISO8601(args[++i] ?? '');
+        if (!now) throw new Error(`Invalid --now date: ${args[i]}`);
+        options.now = now;
+        break;
+      }
+      case '--time-zone':
+        options.timeZone = args[++i];
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`);
+        options.words.push(arg);
+    }
+  }
+  if (options.words.length === 0) throw new Error('Missing text');
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/quick-add.ts [--now <iso>] [--time-zone <iana>] <text...>',
+    );
+    process.exit(2);
+  }
+
+  try {
+    const reminder = parseQuickAdd(options.words.join(' '), options);
+    console.log(JSON.stringify(reminder, null, 2));
+  } catch (error) {
+    if (!(error instanceof QuickAddError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Quick add failed:', error);
+    process.exit(1);
+  });
+}
@@ -6,7 +6,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('Read-only operations', () => {
   let client: MCPClient;
@@ -46,11 +46,7 @@ describe('Read-only operations', () => {
     expect(lists.length).toBeGreaterThanOrEqual(1);
 
     // Should have at least one list with required fields
-    for (const list of lists) {
-      expect(list.id).toBeDefined();
-      expect(list.name).toBeDefined();
-      expect(typeof list.isDefault).toBe('boolean');
-    }
+    expect(validators.reminderLists(result)).toEqual([]);
 
     // Exactly one list should be default
     const defaultLists = lists.filter((l) => l.isDefault);
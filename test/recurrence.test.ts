@@ -0,0 +1,390 @@
+/**
+ * Tests for recurrence.ts: expansion edge cases (month ends, leap days,
+ * DST, week positions, ends), recurrences created through the server
+ * matching what the engine predicts, and the upcoming view.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {buildRequest, tokenize} from './cli';
+import {MCPClient} from './mcp-client';
+import {
+  formatUpcoming,
+  nextOccurrences,
+  occurrencesBetween,
+  RecurrenceError,
+  type RecurrenceRule,
+  type RecurrenceStart,
+  upcoming,
+} from './recurrence';
+import type {QueriedReminder} from './tool-results';
+
+const timeZone = 'America/New_York';
+const dues = (rule: RecurrenceRule, dueDate: string, count = 6) =>
+  nextOccurrences(rule, {dueDate}, count, {timeZone}).map((o) => o.dueDate);
+
+describe('Recurrence expansion', () => {
+  test('daily, weekly and intervals', () => {
+    expect(dues({frequency: 'daily', interval: 3}, '2026-06-29', 3)).toEqual([
+      '2026-06-29',
+      '2026-07-02',
+      '2026-07-05',
+    ]);
+    // Every other week on Monday and Friday, from a Monday
+    expect(
+      dues(
+        {frequency: 'weekly', interval: 2, daysOfWeek: [2, 6]},
+        '2026-06-15T09:00:00-04:00',
+        4,
+      ),
+    ).toEqual([
+      '2026-06-15T09:00:00-04:00',
+      '2026-06-19T09:00:00-04:00',
+      '2026-06-29T09:00:00-04:00',
+      '2026-07-03T09:00:00-04:00',
+    ]);
+    // Days before the due date in its first week are not occurrences
+    expect(
+      dues({frequency: 'weekly', daysOfWeek: [2, 5]}, '2026-06-17', 3),
+    ).toEqual(['2026-06-17', '2026-06-18', '2026-06-22']);
+  });
+
+  test('month ends: missing days are skipped, -1 is the last day', () => {
+    expect(dues({frequency: 'monthly'}, '2026-01-31', 4)).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+    ]);
+    expect(
+      dues({frequency: 'monthly', daysOfMonth: [-1]}, '2026-01-31', 4),
+    ).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(
+      dues({frequency: 'monthly', daysOfMonth: [1, 15, 30]}, '2026-02-01', 5),
+    ).toEqual([
+      '2026-02-01',
+      '2026-02-15',
+      '2026-03-01',
+      '2026-03-15',
+      '2026-03-30',
+    ]);
+    expect(dues({frequency: 'yearly'}, '2024-02-29', 3)).toEqual([
+      '2024-02-29',
+      '2028-02-29',
+      '2032-02-29',
+    ]);
+  });
+
+  test('week positions', () => {
+    // The position applies to each day: the last Monday and the last Friday
+    expect(
+      dues(
+        {frequency: 'monthly', daysOfWeek: [2, 6], weekPosition: -1},
+        '2026-06-26',
+        4,
+      ),
+    ).toEqual(['2026-06-26', '2026-06-29', '2026-07-27', '2026-07-31']);
+    // Second Tuesday
+    expect(
+      dues(
+        {frequency: 'monthly', daysOfWeek: [3], weekPosition: 2},
+        '2026-06-09',
+        3,
+      ),
+    ).toEqual(['2026-06-09', '2026-07-14', '2026-08-11']);
+    // First Sunday of March and November
+    expect(
+      dues(
+        {
+          frequency: 'yearly',
+          monthsOfYear: [3, 11],
+          daysOfWeek: [1],
+          weekPosition: 1,
+        },
+        '2026-03-01',
+        4,
+      ),
+    ).toEqual(['2026-03-01', '2026-11-01', '2027-03-07', '2027-11-07']);
+  });
+
+  test('wall-clock time is kept across DST', () => {
+    expect(dues({frequency: 'weekly'}, '2026-10-25T09:00:00-04:00', 3)).toEqual(
+      [
+        '2026-10-25T09:00:00-04:00',
+        '2026-11-01T09:00:00-05:00',
+        '2026-11-08T09:00:00-05:00',
+      ],
+    );
+    // 02:30 doesn't exist on 2026-03-08; that day's occurrence is 03:30
+    const daily = nextOccurrences(
+      {frequency: 'daily'},
+      {dueDate: '2026-03-07T02:30:00-05:00'},
+      3,
+      {timeZone},
+    );
+    expect(daily.map((o) => o.dueDate)).toEqual([
+      '2026-03-07T02:30:00-05:00',
+      '2026-03-08T03:30:00-04:00',
+      '2026-03-09T02:30:00-04:00',
+    ]);
+    expect(daily[2].date.getTime() - daily[1].date.getTime()).toBe(
+      23 * 3600_000,
+    );
+  });
+
+  test('ends: endCount includes the first, endDate is inclusive', () => {
+    expect(dues({frequency: 'daily', endCount: 3}, '2026-06-15', 10)).toEqual([
+      '2026-06-15',
+      '2026-06-16',
+      '2026-06-17',
+    ]);
+    expect(
+      dues(
+        {frequency: 'daily', endDate: '2026-06-17T09:00:00-04:00'},
+        '2026-06-15T09:00:00-04:00',
+        10,
+      ),
+    ).toHaveLength(3);
+    expect(
+      dues(
+        {frequency: 'daily', endDate: '2026-06-17T00:00:00-04:00'},
+        '2026-06-15',
+        10,
+      ),
+    ).toEqual(['2026-06-15', '2026-06-16', '2026-06-17']);
+    // A rule that can never match again stops instead of spinning
+    expect(
+      dues(
+        {frequency: 'yearly', monthsOfYear: [2], daysOfMonth: [30]},
+        '2026-01-01',
+      ),
+    ).toEqual(['2026-01-01']);
+  });
+
+  test('windows and after', () => {
+    const start: RecurrenceStart = {dueDate: '2026-06-01T08:00:00-04:00'};
+    const weekly = {frequency: 'weekly', interval: 1} as const;
+    expect(
+      occurrencesBetween(
+        weekly,
+        start,
+        new Date('2026-06-10T00:00:00-04:00'),
+        new Date('2026-06-29T08:00:00-04:00'),
+        {timeZone},
+      ).map((o) => [o.index, o.dueDate]),
+    ).toEqual([
+      [2, '2026-06-15T08:00:00-04:00'],
+      [3, '2026-06-22T08:00:00-04:00'],
+    ]);
+    expect(
+      nextOccurrences(weekly, start, 1, {
+        timeZone,
+        after: new Date('2026-06-08T08:00:00-04:00'),
+      })[0].dueDate,
+    ).toBe('2026-06-15T08:00:00-04:00');
+  });
+
+  test('invalid rules', () => {
+    const fails = (rule: RecurrenceRule, message: string) =>
+      expect(() => dues(rule, '2026-06-15')).toThrow(
+        new RecurrenceError(message),
+      );
+    fails({frequency: 'daily', interval: 0}, 'Invalid interval: 0');
+    fails({frequency: 'weekly', daysOfWeek: [0]}, 'Invalid daysOfWeek: 0');
+    fails({frequency: 'monthly', daysOfMonth: [32]}, 'Invalid daysOfMonth: 32');
+    expect(() =>
+      nextOccurrences({frequency: 'daily'}, {dueDate: 'soon'}, 1),
+    ).toThrow(new RecurrenceError('Invalid dueDate: soon'));
+  });
+});
+
+describe('Recurrences created through the server', () => {
+  let client: MCPClient;
+  let listName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    listName = await client.createTestList();
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  const cases: Array<{
+    dueDate: string;
+    recurrenceRule: RecurrenceRule;
+  }> = [
+    {
+      dueDate: '2026-01-31T09:00:00-05:00',
+      recurrenceRule: {frequency: 'monthly'},
+    },
+    {
+      dueDate: '2026-06-15T18:30:00-04:00',
+      recurrenceRule: {frequency: 'weekly', interval: 2, daysOfWeek: [2, 4, 6]},
+    },
+    {
+      dueDate: '2026-03-01T07:00:00-05:00',
+      recurrenceRule: {frequency: 'daily', endCount: 10},
+    },
+    {
+      dueDate: '2026-06-30T12:00:00-04:00',
+      recurrenceRule: {
+        frequency: 'monthly',
+        daysOfWeek: [2, 3, 4, 5, 6],
+        weekPosition: -1,
+        endDate: '2027-06-30T12:00:00-04:00',
+      },
+    },
+  ];
+
+  test('the stored rule expands to the predicted occurrences', async () => {
+    const created = await client.tools.createReminders({
+      reminders: cases.map((c, i) => ({
+        title: `Repeat ${i}`,
+        list: {name: listName},
+        ...c,
+      })),
+    });
+    expect(Array.isArray(created)).toBe(true);
+
+    const stored = await client.tools.queryReminders<QueriedReminder[]>({
+      list: {name: listName},
+      outputDetail: 'full',
+      sortBy: 'oldest',
+    });
+    for (const [i, c] of cases.entries()) {
+      const reminder = stored.find((r) => r.title === `Repeat ${i}`)!;
+      expect(reminder.recurrenceRules).toHaveLength(1);
+
+      const predicted = nextOccurrences(c.recurrenceRule, c, 15, {timeZone});
+      const actual = nextOccurrences(
+        reminder.recurrenceRules![0],
+        {dueDate: reminder.dueDate!, dueDateIncludesTime: true},
+        15,
+        {timeZone},
+      );
+      expect(actual.map((o) => o.date)).toEqual(predicted.map((o) => o.date));
+    }
+  });
+
+  test('upcoming lists each occurrence in the window', async () => {
+    const reminders = await client.tools.queryReminders<QueriedReminder[]>({
+      list: {name: listName},
+      outputDetail: 'full',
+    });
+    const entries = upcoming(reminders, {
+      from: new Date('2026-03-01T00:00:00-05:00'),
+      days: 7,
+      timeZone,
+    });
+    expect(entries.map((e) => [e.title, e.dueDate, e.occurrence])).toEqual([
+      ['Repeat 2', '2026-03-01T07:00:00-05:00', 0],
+      ['Repeat 2', '2026-03-02T07:00:00-05:00', 1],
+      ['Repeat 2', '2026-03-03T07:00:00-05:00', 2],
+      ['Repeat 2', '2026-03-04T07:00:00-05:00', 3],
+      ['Repeat 2', '2026-03-05T07:00:00-05:00', 4],
+      ['Repeat 2', '2026-03-06T07:00:00-05:00', 5],
+      ['Repeat 2', '2026-03-07T07:00:00-05:00', 6],
+    ]);
+    expect(entries.every((e) => e.recurring)).toBe(true);
+  });
+});
+
+describe('Upcoming view', () => {
+  const reminders: QueriedReminder[] = [
+    {
+      id: 'A',
+      title: 'Bins',
+      listName: 'Home',
+      dueDate: '2026-06-16',
+      dueDateIncludesTime: false,
+      recurrenceRules: [{frequency: 'weekly', interval: 1}],
+    },
+    {
+      id: 'B',
+      title: 'Dentist',
+      dueDate: '2026-06-17T09:30:00-04:00',
+      dueDateIncludesTime: true,
+      recurrenceRules: null,
+    },
+    {id: 'C', title: 'Someday'},
+    {
+      id: 'D',
+      title: 'Done',
+      dueDate: '2026-06-16T10:00:00-04:00',
+      isCompleted: true,
+    },
+  ];
+
+  test('expands repeats, keeps one-offs, skips undated and completed', () => {
+    const entries = upcoming(reminders, {
+      from: new Date('2026-06-15T12:00:00-04:00'),
+      days: 14,
+      timeZone,
+    });
+    expect(entries.map((e) => [e.id, e.dueDate])).toEqual([
+      ['A', '2026-06-16'],
+      ['B', '2026-06-17T09:30:00-04:00'],
+      ['A', '2026-06-23'],
+    ]);
+    expect(formatUpcoming(entries)).toBe(
+      [
+        '2026-06-16',
+        '  all day  Bins [Home] (repeats)',
+        '',
+        '2026-06-17',
+        '  09:30    Dentist',
+        '',
+        '2026-06-23',
+        '  all day  Bins [Home] (repeats)',
+      ].join('\n'),
+    );
+    expect(formatUpcoming([])).toBe('Nothing upcoming');
+  });
+
+  test('cli upcoming queries full incomplete reminders and expands them', () => {
+    const now = new Date('2026-06-15T12:00:00-04:00');
+    const request = buildRequest(
+      tokenize('upcoming --days 3 --time-zone America/New_York'),
+      now,
+    );
+    expect(request.tool).toBe('query_reminders');
+    expect(request.args).toEqual({
+      list: {all: true},
+      status: 'incomplete',
+      outputDetail: 'full',
+      limit: 200,
+    });
+    expect(request.view!(reminders).data).toEqual([
+      {
+        id: 'A',
+        title: 'Bins',
+        listName: 'Home',
+        dueDate: '2026-06-16',
+        dueDateIncludesTime: false,
+        occurrence: 0,
+        recurring: true,
+      },
+      {
+        id: 'B',
+        title: 'Dentist',
+        dueDate: '2026-06-17T09:30:00-04:00',
+        dueDateIncludesTime: true,
+        occurrence: 0,
+        recurring: false,
+      },
+    ]);
+    expect(request.view!(reminders).warning).toBeUndefined();
+  });
+
+  test('cli upcoming warns when the query may have been cut off', () => {
+    const request = buildRequest(tokenize('upcoming'), new Date());
+    const page = Array.from({length: 200}, (_, i) => ({
+      id: `R${i}`,
+      title: `Reminder ${i}`,
+    }));
+    expect(request.view!(page).warning).toContain(
+      'Only the first 200 incomplete reminders were read',
+    );
+  });
+});
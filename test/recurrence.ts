@@ -0,0 +1,508 @@
+#!/usr/bin/env bun
+
+/**
+ * Expands a reminder's recurrence rule into its occurrences, and builds an
+ * "upcoming" view (every occurrence in a window, across reminders) from
+ * query_reminders results.
+ *
+ * The reminder's dueDate is the first occurrence; later ones follow the
+ * rule with RFC 5545 semantics, the way EventKit applies them:
+ *
+ *   daily     every `interval` days
+ *   weekly    every `interval` weeks (weeks start on Sunday) on daysOfWeek,
+ *             default the due date's weekday
+ *   monthly   every `interval` months on daysOfMonth (negative counts from
+ *             the end: -1 is the last day) and/or daysOfWeek; default the
+ *             due date's day of month
+ *   yearly    every `interval` years in monthsOfYear (default the due
+ *             date's month), picking days as monthly does
+ *
+ * weekPosition picks the nth of each of daysOfWeek in the month (1 first,
+ * -1 last), as EventKit does: daysOfWeek [2, 6] with -1 is the last Monday
+ * and the last Friday, not whichever of them comes last. Dates that
+ * don't exist are skipped, not clamped: monthly on the 31st skips 30-day
+ * months and yearly on February 29 waits for a leap year. Timed
+ * occurrences keep their wall-clock time in the given zone across DST; a
+ * time that falls in a spring-forward gap moves forward by the gap. The
+ * sequence stops after endCount occurrences (the first one included) or
+ * after endDate.
+ *
+ * Usage:
+ *   bun test/recurrence.ts upcoming [--days N] [--list <name>] [--time-zone <iana>]
+ *                                   [--mock] [--test-mode] [--json]
+ *
+ * `bun test/cli.ts upcoming` shows the same view.
+ */
+
+import {MCPClient} from './mcp-client';
+import {fromISO8601, type RecurrenceRuleOutput} from './reference-models';
+import {readCurrentState} from './restore-export';
+import {
+  addDays,
+  type CivilDate,
+  compareDates,
+  daysInMonth,
+  formatDate,
+  formatInZone,
+  fromWallTime,
+  isValidTimeZone,
+  localTimeZone,
+  type WallTime,
+  wallTime,
+  weekday,
+} from './time-zones';
+import type {QueriedReminder} from './tool-results';
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+/** Rule fields as returned in recurrenceRules; interval defaults to 1 */
+export type RecurrenceRule = Omit<RecurrenceRuleOutput, 'interval'> & {
+  interval?: number;
+};
+
+/** The reminder fields the first occurrence comes from */
+export interface RecurrenceStart {
+  dueDate: string;
+  dueDateIncludesTime?: boolean | null;
+}
+
+export interface Occurrence {
+  /** 0 for the due date itself */
+  index: number;
+  /** The instant; local midnight in the zone for all-day occurrences */
+  date: Date;
+  /** Formatted like a dueDate: with the zone's offset, or `YYYY-MM-DD` all-day */
+  dueDate: string;
+}
+
+export interface ExpandOptions {
+  /** Zone whose wall-clock time occurrences keep. Default: the process's zone */
+  timeZone?: string;
+}
+
+/**
+ * Periods in a row without an occurrence before giving up; only rules that
+ * can never match (yearly on February 30) get that far.
+ */
+const MAX_EMPTY_PERIODS = 1000;
+
+function validate(rule: RecurrenceRule): void {
+  const interval = rule.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RecurrenceError(`Invalid interval: ${rule.interval}`);
+  }
+  const check = (
+    field: string,
+    values: number[] | undefined,
+    ok: (n: number) => boolean,
+  ) => {
+    const bad = values?.find((n) => !Number.isInteger(n) || !ok(n));
+    if (bad !== undefined) {
+      throw new RecurrenceError(`Invalid ${field}: ${bad}`);
+    }
+  };
+  check('daysOfWeek', rule.daysOfWeek, (n) => n >= 1 && n <= 7);
+  check('daysOfMonth', rule.daysOfMonth, (n) => n !== 0 && Math.abs(n) <= 31);
+  check('monthsOfYear', rule.monthsOfYear, (n) => n >= 1 && n <= 12);
+  if (rule.endCount !== undefined && rule.endCount < 1) {
+    throw new RecurrenceError(`Invalid endCount: ${rule.endCount}`);
+  }
+}
+
+/** Matching days of one month, after weekPosition */
+function monthDays(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  defaultDay: number,
+): number[] {
+  const last = daysInMonth(year, month);
+  const position = rule.weekPosition ?? 0;
+  let days: number[];
+  if (rule.daysOfMonth?.length) {
+    days = rule.daysOfMonth
+      .map((day) => (day > 0 ? day : last + 1 + day))
+      .filter((day) => day >= 1 && day <= last);
+  } else if (rule.daysOfWeek?.length) {
+    days = Array.from({length: last}, (_, i) => i + 1);
+  } else {
+    days = defaultDay <= last ? [defaultDay] : [];
+  }
+  if (rule.daysOfWeek?.length) {
+    const all = Array.from({length: last}, (_, i) => i + 1);
+    const allowed = rule.daysOfWeek.flatMap((dayOfWeek) => {
+      const matching = all.filter(
+        (day) => weekday({year, month, day}) + 1 === dayOfWeek,
+      );
+      if (position === 0) return matching;
+      const picked =
+        position > 0
+          ? matching[position - 1]
+          : matching[matching.length + position];
+      return picked === undefined ? [] : [picked];
+    });
+    days = days.filter((day) => allowed.includes(day));
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/** Candidate dates of the `period`th period after the start's, in order */
+function periodDates(
+  rule: RecurrenceRule,
+  start: CivilDate,
+  period: number,
+): CivilDate[] {
+  const step = period * (rule.interval ?? 1);
+  const inMonths = (dates: CivilDate[]) =>
+    rule.monthsOfYear?.length
+      ? dates.filter((d) => rule.monthsOfYear!.includes(d.month))
+      : dates;
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const date = addDays(start, step);
+      const dayOk =
+        !rule.daysOfWeek?.length || rule.daysOfWeek.includes(weekday(date) + 1);
+      return dayOk ? inMonths([date]) : [];
+    }
+    case 'weekly': {
+      const sunday = addDays(start, step * 7 - weekday(start));
+      const days = rule.daysOfWeek?.length
+        ? [...new Set(rule.daysOfWeek)].sort((a, b) => a - b)
+        : [weekday(start) + 1];
+      return inMonths(days.map((day) => addDays(sunday, day - 1)));
+    }
+    case 'monthly': {
+      const index = start.year * 12 + start.month - 1 + step;
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      if (rule.monthsOfYear?.length && !rule.monthsOfYear.includes(month)) {
+        return [];
+      }
+      return monthDays(rule, year, month, start.day).map((day) => ({
+        year,
+        month,
+        day,
+      }));
+    }
+    case 'yearly': {
+      const year = start.year + step;
+      const months = rule.monthsOfYear?.length
+        ? [...new Set(rule.monthsOfYear)].sort((a, b) => a - b)
+        : [start.month];
+      return months.flatMap((month) =>
+        monthDays(rule, year, month, start.day).map((day) => ({
+          year,
+          month,
+          day,
+        })),
+      );
+    }
+    default:
+      throw new RecurrenceError(`Unknown frequency: ${rule.frequency}`);
+  }
+}
+
+/** The start as a wall-clock time in the zone; null time for all-day */
+function parseStart(
+  start: RecurrenceStart,
+  timeZone: string,
+): {date: CivilDate; time: WallTime | null} {
+  const allDay =
+    start.dueDateIncludesTime === false ||
+    /^\d{4}-\d{2}-\d{2}$/.test(start.dueDate);
+  const instant = fromISO8601(start.dueDate);
+  if (!instant) throw new RecurrenceError(`Invalid dueDate: ${start.dueDate}`);
+  if (allDay) {
+    const [year, month, day] = start.dueDate
+      .slice(0, 10)
+      .split('-')
+      .map(Number);
+    return {date: {year, month, day}, time: null};
+  }
+  const time = wallTime(instant, timeZone);
+  return {date: time, time};
+}
+
+/**
+ * Occurrences of `rule` starting at `start`, in order, lazily. Infinite
+ * unless the rule has endCount or endDate.
+ */
+export function* occurrences(
+  rule: RecurrenceRule,
+  start: RecurrenceStart,
+  options: ExpandOptions = {},
+): Generator<Occurrence> {
+  validate(rule);
+  const timeZone = options.timeZone ?? localTimeZone();
+  if (!isValidTimeZone(timeZone)) {
+    throw new RecurrenceError(`Unknown time zone: ${timeZone}`);
+  }
+  const {date: first, time} = parseStart(start, timeZone);
+
+  let end: Date | null = null;
+  if (rule.endDate !== undefined) {
+    end = fromISO8601(rule.endDate);
+    if (!end) throw new RecurrenceError(`Invalid endDate: ${rule.endDate}`);
+  }
+  const endDay = end && wallTime(end, timeZone);
+
+  const occurrence = (date: CivilDate, index: number): Occurrence => {
+    if (!time) {
+      return {
+        index,
+        date: fromWallTime({...date, hour: 0, minute: 0, second: 0}, timeZone),
+        dueDate: formatDate(date),
+      };
+    }
+    const instant = fromWallTime(
+      {...date, hour: time.hour, minute: time.minute, second: time.second},
+      timeZone,
+    );
+    return {index, date: instant, dueDate: formatInZone(instant, timeZone)};
+  };
+  const ended = (next: Occurrence, date: CivilDate) => {
+    if (rule.endCount !== undefined && next.index >= rule.endCount) return true;
+    if (!end) return false;
+    // All-day occurrences run through the end date's whole day
+    return time ? next.date > end : compareDates(date, endDay!) > 0;
+  };
+
+  yield occurrence(first, 0);
+  let index = 1;
+  for (let period = 0, empty = 0; empty < MAX_EMPTY_PERIODS; period++) {
+    const dates = periodDates(rule, first, period).filter(
+      (date) => compareDates(date, first) > 0,
+    );
+    empty = dates.length === 0 ? empty + 1 : 0;
+    for (const date of dates) {
+      const next = occurrence(date, index);
+      if (ended(next, date)) return;
+      yield next;
+      index++;
+    }
+  }
+}
+
+/** The first `count` occurrences, or the first `count` after `after` */
+export function nextOccurrences(
+  rule: RecurrenceRule,
+  start: RecurrenceStart,
+  count: number,
+  options: ExpandOptions & {after?: Date} = {},
+): Occurrence[] {
+  const result: Occurrence[] = [];
+  if (count <= 0) return result;
+  for (const occurrence of occurrences(rule, start, options)) {
+    if (options.after && occurrence.date <= options.after) continue;
+    result.push(occurrence);
+    if (result.length === count) break;
+  }
+  return result;
+}
+
+/** Occurrences at or after `from` and before `to` */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  start: RecurrenceStart,
+  from: Date,
+  to: Date,
+  options: ExpandOptions = {},
+): Occurrence[] {
+  const result: Occurrence[] = [];
+  for (const occurrence of occurrences(rule, start, options)) {
+    if (occurrence.date >= to) break;
+    if (occurrence.date >= from) result.push(occurrence);
+  }
+  return result;
+}
+
+// Upcoming view
+
+export interface UpcomingEntry {
+  id: string;
+  title: string;
+  listName?: string;
+  dueDate: string;
+  dueDateIncludesTime: boolean;
+  /** 0 for the reminder's own due date, n for the nth repeat after it */
+  occurrence: number;
+  recurring: boolean;
+}
+
+export interface UpcomingOptions extends ExpandOptions {
+  /** Start of the window. Default: now */
+  from?: Date;
+  /** Window length in days. Default: 7 */
+  days?: number;
+}
+
+/**
+ * Every occurrence due inside the window, soonest first, for reminders
+ * from query_reminders (compact or full). Completed reminders and ones
+ * without a due date are left out. Overdue reminders are not occurrences
+ * in the window either; query for those separately.
+ */
+export function upcoming(
+  reminders: QueriedReminder[],
+  options: UpcomingOptions = {},
+): UpcomingEntry[] {
+  const from = options.from ?? new Date();
+  const to = new Date(from.getTime() + (options.days ?? 7) * 86_400_000);
+  const entries: Array<UpcomingEntry & {date: Date}> = [];
+
+  for (const reminder of reminders) {
+    if (reminder.isCompleted || !reminder.dueDate) continue;
+    const start = {
+      dueDate: reminder.dueDate,
+      dueDateIncludesTime: reminder.dueDateIncludesTime,
+    };
+    const rule = reminder.recurrenceRules?.[0];
+    // A one-off reminder is a rule with a single occurrence
+    const found = occurrencesBetween(
+      rule ?? {frequency: 'daily', endCount: 1},
+      start,
+      from,
+      to,
+      options,
+    );
+    for (const occurrence of found) {
+      entries.push({
+        id: reminder.id,
+        title: reminder.title,
+        ...(reminder.listName !== undefined && {listName: reminder.listName}),
+        dueDate: occurrence.dueDate,
+        dueDateIncludesTime: reminder.dueDateIncludesTime !== false,
+        occurrence: occurrence.index,
+        recurring: rule !== undefined,
+        date: occurrence.date,
+      });
+    }
+  }
+
+  return entries
+    .sort(
+      (a, b) =>
+        a.date.getTime() - b.date.getTime() || a.title.localeCompare(b.title),
+    )
+    .map(({date: _date, ...entry}) => entry);
+}
+
+/** One line per occurrence, grouped under a heading per day */
+export function formatUpcoming(entries: UpcomingEntry[]): string {
+  if (entries.length === 0) return 'Nothing upcoming';
+  const lines: string[] = [];
+  let day = '';
+  for (const entry of entries) {
+    const date = entry.dueDate.slice(0, 10);
+    if (date !== day) {
+      if (day) lines.push('');
+      lines.push(date);
+      day = date;
+    }
+    const time = entry.dueDateIncludesTime
+      ? entry.dueDate.slice(11, 16)
+      : 'all day';
+    const list = entry.listName ? ` [${entry.listName}]` : '';
+    const repeat = entry.recurring ? ' (repeats)' : '';
+    lines.push(`  ${time.padEnd(7)}  ${entry.title}${list}${repeat}`);
+  }
+  return lines.join('\n');
+}
+
+function parseArgs(args: string[]) {
+  const [command, ...rest] = args;
+  const options = {
+    command,
+    days: 7,
+    list: undefined as string | undefined,
+    timeZone: undefined as string | undefined,
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--days':
+        options.days = Number(rest[++i]);
+        if (!Number.isInteger(options.days) || options.days < 1) {
+          throw new Error(`Invalid --days: ${rest[i]}`);
+        }
+        break;
+      case '--list':
+        options.list = rest[++i];
+        break;
+      case '--time-zone':
+        options.timeZone = rest[++i];
+        break;
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (command !== 'upcoming') {
+    throw new Error(`Unknown command: ${command ?? '(none)'}`);
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/recurrence.ts upcoming [--days N] [--list <name>] [--time-zone <iana>] [--mock] [--test-mode] [--json]',
+    );
+    process.exit(2);
+  }
+
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+  });
+  try {
+    // Through export: query_reminders returns at most 200
+    const {lists, reminders: all} = await readCurrentState(client);
+    const list = options.list?.toLowerCase();
+    if (
+      list !== undefined &&
+      !lists.some((l) => l.name.toLowerCase() === list)
+    ) {
+      throw new RecurrenceError(`List not found: ${options.list}`);
+    }
+    const reminders = all.filter(
+      (r) =>
+        !r.isCompleted &&
+        (list === undefined || r.listName.toLowerCase() === list),
+    );
+    const entries = upcoming(reminders, options);
+    console.log(
+      options.json ? JSON.stringify(entries, null, 2) : formatUpcoming(entries),
+    );
+  } finally {
+    await client.cleanup();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Upcoming failed:', error);
+    process.exit(1);
+  });
+}
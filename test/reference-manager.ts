@@ -0,0 +1,895 @@
+/**
+ * Reminder operations for the TypeScript reference server.
+ * Mirrors Sources/RemindersManager.swift: list resolution, query filtering,
+ * sorting, outputDetail formatting, batch create/update/delete, export and
+ * the AR_MCP_TEST_MODE write restrictions.
+ */
+
+import {mkdirSync, writeFileSync} from 'fs';
+import {homedir, tmpdir} from 'os';
+import {dirname, join} from 'path';
+import jmespath from 'jmespath';
+import {
+  type AlarmInput,
+  type AlarmOutput,
+  type CreateReminderInput,
+  type ExportData,
+  type ExportResult,
+  type ExportStats,
+  fromISO8601,
+  isListSelectorEmpty,
+  type ListSelector,
+  MCPToolError,
+  Priority,
+  type PriorityName,
+  type RecurrenceRuleInput,
+  type RecurrenceRuleOutput,
+  type ReminderListOutput,
+  type ReminderOutput,
+  TestModeConfig,
+  toISO8601UTC,
+  toISO8601WithTimezone,
+  type UpdateReminderInput,
+} from './reference-models';
+import {
+  dateComponentsFrom,
+  dateFromComponents,
+  type ReferenceCalendar,
+  type ReferenceReminder,
+  type ReferenceReminderStore,
+  type ReminderAlarm,
+  type ReminderRecurrenceRule,
+  type ReminderStatus,
+} from './reference-store';
+
+export function log(message: string): void {
+  process.stderr.write(`[${toISO8601UTC(new Date())}] ${message}\n`);
+}
+
+export interface QueryOptions {
+  list: ListSelector | null;
+  status?: string;
+  sortBy?: string;
+  query?: string;
+  limit?: number;
+  searchText?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  outputDetail?: string;
+}
+
+// Field sets for each output detail level ("full" uses all fields)
+const MINIMAL_FIELDS = new Set(['id', 'title', 'listName', 'isCompleted']);
+const COMPACT_FIELDS = new Set([
+  'id',
+  'title',
+  'notes',
+  'listName',
+  'isCompleted',
+  'dueDate',
+  'priority',
+  'createdDate',
+  'lastModifiedDate',
+]);
+
+const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export class ReferenceRemindersManager {
+  private store: ReferenceReminderStore;
+
+  constructor(store: ReferenceReminderStore) {
+    this.store = store;
+  }
+
+  // List Operations
+
+  getAllLists(): ReminderListOutput[] {
+    const defaultCalendar = this.store.getDefaultCalendar();
+
+    return this.store.getAllCalendars().map((calendar) => ({
+      id: calendar.id,
+      name: calendar.name,
+      isDefault: calendar.id === defaultCalendar?.id,
+    }));
+  }
+
+  resolveList(selector: ListSelector | null): ReferenceCalendar[] {
+    const allCalendars = this.store.getAllCalendars();
+
+    if (!selector || isListSelectorEmpty(selector)) {
+      // No selector → default list
+      const defaultCalendar = this.store.getDefaultCalendar();
+      if (!defaultCalendar) {
+        throw new MCPToolError('No default list found');
+      }
+      return [defaultCalendar];
+    }
+
+    // Validate exactly one key is set
+    const setCount = [
+      selector.id !== undefined,
+      selector.name !== undefined,
+      selector.all === true,
+    ].filter(Boolean).length;
+    if (setCount !== 1) {
+      throw new MCPToolError(
+        "List selector must specify exactly one of: 'id', 'name', or 'all'",
+      );
+    }
+
+    if (selector.all === true) {
+      return allCalendars;
+    }
+
+    return [this.findCalendar(selector)];
+  }
+
+  resolveListForCreate(selector: ListSelector | null): ReferenceCalendar {
+    if (!selector || isListSelectorEmpty(selector)) {
+      // No selector → default list
+      const defaultCalendar = this.store.getDefaultCalendar();
+      if (!defaultCalendar) {
+        throw new MCPToolError('No default list found');
+      }
+      return defaultCalendar;
+    }
+
+    // Validate: only name or id allowed (not all)
+    if (selector.all === true) {
+      throw new MCPToolError(
+        "Cannot create reminder in 'all' lists. Specify a single list by name or ID.",
+      );
+    }
+
+    const setCount = [
+      selector.id !== undefined,
+      selector.name !== undefined,
+    ].filter(Boolean).length;
+    if (setCount !== 1) {
+      throw new MCPToolError(
+        "List selector must specify exactly one of: 'id' or 'name'",
+      );
+    }
+
+    return this.findCalendar(selector);
+  }
+
+  private findCalendar(selector: ListSelector): ReferenceCalendar {
+    const allCalendars = this.store.getAllCalendars();
+
+    if (selector.id !== undefined) {
+      const match = allCalendars.find((c) => c.id === selector.id);
+      if (!match) {
+        throw new MCPToolError(`No list found with ID: '${selector.id}'`);
+      }
+      return match;
+    }
+
+    const name = selector.name ?? '';
+    const match = allCalendars.find(
+      (c) => c.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (!match) {
+      const available = allCalendars.map((c) => c.name).join(', ');
+      throw new MCPToolError(
+        `No list found with name: '${name}'. Available lists: ${available}.`,
+      );
+    }
+    return match;
+  }
+
+  createList(name: string): ReminderListOutput {
+    // Test mode validation
+    if (TestModeConfig.isEnabled() && !TestModeConfig.isTestList(name)) {
+      throw new MCPToolError(
+        `TEST MODE: Cannot create list '${name}'. ` +
+          `List name must start with '${TestModeConfig.testListPrefix}'`,
+      );
+    }
+
+    const calendar = this.store.createCalendar(name);
+
+    log(`Created reminder list '${name}' with ID: ${calendar.id}`);
+    return {id: calendar.id, name: calendar.name, isDefault: false};
+  }
+
+  // Query Operations
+
+  queryReminders(options: QueryOptions): unknown {
+    // 1. Resolve list(s)
+    const calendars = this.resolveList(options.list);
+
+    // 2. Fetch reminders with status filter
+    let reminderStatus: ReminderStatus;
+    switch (options.status ?? 'incomplete') {
+      case 'completed':
+        reminderStatus = 'completed';
+        break;
+      case 'incomplete':
+        reminderStatus = 'incomplete';
+        break;
+      default:
+        reminderStatus = 'all';
+    }
+
+    let filtered = this.store.fetchReminders(calendars, reminderStatus);
+
+    // 2b. Apply searchText filter (case-insensitive across title and notes)
+    const {searchText, dateFrom, dateTo} = options;
+    if (searchText) {
+      const lowercasedSearch = searchText.toLowerCase();
+      filtered = filtered.filter(
+        (reminder) =>
+          reminder.title.toLowerCase().includes(lowercasedSearch) ||
+          (reminder.notes?.toLowerCase().includes(lowercasedSearch) ?? false),
+      );
+    }
+
+    // 2c. Apply date range filter
+    if (dateFrom !== undefined || dateTo !== undefined) {
+      const fromDate = dateFrom !== undefined ? fromISO8601(dateFrom) : null;
+      const toDate = dateTo !== undefined ? fromISO8601(dateTo) : null;
+
+      if (dateFrom !== undefined && !fromDate) {
+        throw new MCPToolError(
+          `Invalid dateFrom format: '${dateFrom}'. Expected ISO 8601.`,
+        );
+      }
+      if (dateTo !== undefined && !toDate) {
+        throw new MCPToolError(
+          `Invalid dateTo format: '${dateTo}'. Expected ISO 8601.`,
+        );
+      }
+
+      filtered = filtered.filter((reminder) => {
+        // For completed reminders, filter by completionDate
+        // For incomplete reminders, filter by dueDate
+        const reminderDate = reminder.isCompleted
+          ? reminder.completionDate
+          : reminder.dueDateComponents
+            ? dateFromComponents(reminder.dueDateComponents)
+            : null;
+
+        if (!reminderDate) return false; // No date = excluded
+
+        if (fromDate && reminderDate < fromDate) return false;
+        if (toDate && reminderDate > toDate) return false;
+        return true;
+      });
+    }
+
+    let outputs = filtered.map((r) => this.convertToOutput(r));
+    const maxResults = Math.max(0, Math.min(options.limit ?? 50, 200));
+
+    // 3. Apply JMESPath if provided — always uses full fields, outputDetail is ignored
+    if (options.query) {
+      let result: unknown;
+      try {
+        result = jmespath.search(outputs.map(encodeReminder), options.query);
+      } catch (error) {
+        throw new MCPToolError(
+          `Invalid JMESPath expression: ${(error as Error).message}. Expression: '${options.query}'.`,
+        );
+      }
+      if (Array.isArray(result)) {
+        return result.slice(0, maxResults);
+      }
+      if (result === null || result === undefined) {
+        return [];
+      }
+      if (typeof result !== 'object') {
+        // JSONSerialization only accepts top-level arrays and objects
+        throw new MCPToolError('Invalid top-level type in JSON write');
+      }
+      return result;
+    }
+
+    // 4. Apply sortBy (only if no JMESPath query)
+    outputs = applySorting(outputs, options.sortBy ?? 'newest');
+
+    // 5. Apply limit
+    outputs = outputs.slice(0, maxResults);
+
+    // 6. Apply outputDetail field filtering
+    const detail = options.outputDetail ?? 'compact';
+    const isSingleList = options.list === null || options.list.all !== true;
+    return formatReminders(outputs, detail, isSingleList, reminderStatus);
+  }
+
+  convertToOutput(reminder: ReferenceReminder): ReminderOutput {
+    const alarms: AlarmOutput[] | null =
+      reminder.alarms.length === 0
+        ? null
+        : reminder.alarms.map((alarm) =>
+            alarm.absoluteDate
+              ? {
+                  type: 'absolute',
+                  date: toISO8601WithTimezone(alarm.absoluteDate),
+                }
+              : {type: 'relative', offset: -(alarm.relativeOffset ?? 0) || 0},
+          );
+
+    const recurrenceRules: RecurrenceRuleOutput[] | null =
+      reminder.recurrenceRules.length === 0
+        ? null
+        : reminder.recurrenceRules.map((rule) =>
+            stripUndefined({
+              frequency: rule.frequency,
+              interval: rule.interval,
+              daysOfWeek: rule.daysOfWeek ?? undefined,
+              daysOfMonth: rule.daysOfMonth ?? undefined,
+              monthsOfYear: rule.monthsOfYear ?? undefined,
+              weekPosition: rule.weekPosition ?? undefined,
+              endDate: rule.endDate
+                ? toISO8601WithTimezone(rule.endDate)
+                : undefined,
+              endCount: rule.endCount ?? undefined,
+            }),
+          );
+
+    return {
+      id: reminder.id,
+      title: reminder.title,
+      notes: reminder.notes,
+      listId: reminder.calendarId,
+      listName: this.store.getCalendarName(reminder),
+      isCompleted: reminder.isCompleted,
+      priority: Priority.fromInternal(reminder.priority),
+      dueDate: reminder.dueDateComponents
+        ? toISO8601WithTimezone(dateFromComponents(reminder.dueDateComponents))
+        : null,
+      dueDateIncludesTime: reminder.dueDateComponents
+        ? !reminder.isAllDay
+        : null,
+      completionDate: reminder.completionDate
+        ? toISO8601WithTimezone(reminder.completionDate)
+        : null,
+      createdDate: toISO8601WithTimezone(reminder.creationDate),
+      lastModifiedDate: toISO8601WithTimezone(reminder.lastModifiedDate),
+      url: reminder.url,
+      alarms,
+      recurrenceRules,
+    };
+  }
+
+  // Create Operations
+
+  createReminders(inputs: CreateReminderInput[]): {
+    created: ReminderOutput[];
+    failed: Array<{index: number; error: string}>;
+  } {
+    const created: ReminderOutput[] = [];
+    const failed: Array<{index: number; error: string}> = [];
+
+    inputs.forEach((input, index) => {
+      try {
+        created.push(this.createSingleReminder(input));
+      } catch (error) {
+        failed.push({index, error: (error as Error).message});
+      }
+    });
+
+    return {created, failed};
+  }
+
+  private createSingleReminder(input: CreateReminderInput): ReminderOutput {
+    const calendar = this.resolveListForCreate(input.list);
+
+    // Test mode validation
+    if (
+      TestModeConfig.isEnabled() &&
+      !TestModeConfig.isTestList(calendar.name)
+    ) {
+      throw new MCPToolError(
+        `TEST MODE: Cannot create reminder in list '${calendar.name}'. ` +
+          `Target list must start with '${TestModeConfig.testListPrefix}'`,
+      );
+    }
+
+    const reminder = this.store.createReminder(calendar);
+    reminder.title = input.title;
+
+    if (input.notes !== undefined) {
+      reminder.notes = input.notes;
+    }
+
+    if (input.dueDate !== undefined) {
+      reminder.dueDateComponents = dateComponentsFrom(parseDate(input.dueDate));
+    }
+
+    if (input.priority !== undefined) {
+      reminder.priority = Priority.internalValue(parsePriority(input.priority));
+    }
+
+    if (input.url !== undefined) {
+      reminder.url = parseURL(input.url);
+    }
+
+    if (input.dueDateIncludesTime !== undefined) {
+      if (!reminder.dueDateComponents) {
+        throw new MCPToolError(
+          'dueDateIncludesTime requires a dueDate to be set.',
+        );
+      }
+      reminder.isAllDay = !input.dueDateIncludesTime;
+    }
+
+    if (input.alarms !== undefined) {
+      reminder.alarms = input.alarms.map(parseAlarmInput);
+    }
+
+    if (input.recurrenceRule !== undefined) {
+      reminder.recurrenceRules = [parseRecurrenceInput(input.recurrenceRule)];
+    }
+
+    this.store.saveReminder(reminder);
+    log(`Created reminder '${input.title}' in list '${calendar.name}'`);
+
+    return this.convertToOutput(reminder);
+  }
+
+  // Update Operations
+
+  updateReminders(inputs: UpdateReminderInput[]): {
+    updated: ReminderOutput[];
+    failed: Array<{id: string; error: string}>;
+  } {
+    const updated: ReminderOutput[] = [];
+    const failed: Array<{id: string; error: string}> = [];
+
+    for (const input of inputs) {
+      try {
+        updated.push(this.updateSingleReminder(input));
+      } catch (error) {
+        failed.push({id: input.id, error: (error as Error).message});
+      }
+    }
+
+    return {updated, failed};
+  }
+
+  // Like the Swift mock, fields are applied to the live reminder in order, so
+  // a failure part-way through leaves the earlier fields changed (unsaved).
+  private updateSingleReminder(input: UpdateReminderInput): ReminderOutput {
+    const reminder = this.store.getReminder(input.id);
+    if (!reminder) {
+      throw new MCPToolError(`No reminder found with ID: '${input.id}'`);
+    }
+
+    const calendarName = this.store.getCalendarName(reminder);
+
+    // Test mode validation
+    if (
+      TestModeConfig.isEnabled() &&
+      !TestModeConfig.isTestList(calendarName)
+    ) {
+      throw new MCPToolError(
+        `TEST MODE: Cannot modify reminder in list '${calendarName}'. ` +
+          `Reminder must be in a list starting with '${TestModeConfig.testListPrefix}'`,
+      );
+    }
+
+    if (input.title !== undefined) {
+      reminder.title = input.title;
+    }
+
+    if (input.notes) {
+      reminder.notes = 'clear' in input.notes ? null : input.notes.value;
+    }
+
+    // Move to different list
+    if (input.list && !isListSelectorEmpty(input.list)) {
+      const newCalendar = this.resolveListForCreate(input.list);
+
+      if (
+        TestModeConfig.isEnabled() &&
+        !TestModeConfig.isTestList(newCalendar.name)
+      ) {
+        throw new MCPToolError(
+          `TEST MODE: Cannot move reminder to list '${newCalendar.name}'. ` +
+            `Target list must start with '${TestModeConfig.testListPrefix}'`,
+        );
+      }
+
+      reminder.calendarId = newCalendar.id;
+    }
+
+    if (input.dueDate) {
+      reminder.dueDateComponents =
+        'clear' in input.dueDate
+          ? null
+          : dateComponentsFrom(parseDate(input.dueDate.value));
+    }
+
+    if (input.priority !== undefined) {
+      reminder.priority = Priority.internalValue(parsePriority(input.priority));
+    }
+
+    // Handle completion - completedDate takes precedence over completed
+    if (input.completedDate) {
+      reminder.completionDate =
+        'clear' in input.completedDate
+          ? null
+          : parseDate(input.completedDate.value);
+    } else if (input.completed !== undefined) {
+      reminder.completionDate = input.completed ? new Date() : null;
+    }
+
+    if (input.url) {
+      reminder.url = 'clear' in input.url ? null : parseURL(input.url.value);
+    }
+
+    if (input.dueDateIncludesTime !== undefined) {
+      if (!reminder.dueDateComponents) {
+        throw new MCPToolError(
+          'dueDateIncludesTime requires a dueDate to be set.',
+        );
+      }
+      reminder.isAllDay = !input.dueDateIncludesTime;
+    }
+
+    if (input.alarms) {
+      reminder.alarms =
+        'clear' in input.alarms ? [] : input.alarms.value.map(parseAlarmInput);
+    }
+
+    if (input.recurrenceRule) {
+      reminder.recurrenceRules =
+        'clear' in input.recurrenceRule
+          ? []
+          : [parseRecurrenceInput(input.recurrenceRule.value)];
+    }
+
+    this.store.saveReminder(reminder);
+    log(`Updated reminder '${reminder.title}'`);
+
+    return this.convertToOutput(reminder);
+  }
+
+  // Delete Operations
+
+  deleteReminders(ids: string[]): {
+    deleted: string[];
+    failed: Array<{id: string; error: string}>;
+  } {
+    const deleted: string[] = [];
+    const failed: Array<{id: string; error: string}> = [];
+
+    for (const id of ids) {
+      try {
+        this.deleteSingleReminder(id);
+        deleted.push(id);
+      } catch (error) {
+        failed.push({id, error: (error as Error).message});
+      }
+    }
+
+    return {deleted, failed};
+  }
+
+  private deleteSingleReminder(id: string): void {
+    const reminder = this.store.getReminder(id);
+    if (!reminder) {
+      throw new MCPToolError(`No reminder found with ID: '${id}'`);
+    }
+
+    const calendarName = this.store.getCalendarName(reminder);
+
+    // Test mode validation
+    if (
+      TestModeConfig.isEnabled() &&
+      !TestModeConfig.isTestList(calendarName)
+    ) {
+      throw new MCPToolError(
+        `TEST MODE: Cannot delete reminder in list '${calendarName}'. ` +
+          `Reminder must be in a list starting with '${TestModeConfig.testListPrefix}'`,
+      );
+    }
+
+    this.store.deleteReminder(reminder);
+    log(`Deleted reminder '${reminder.title}'`);
+  }
+
+  // Export Operations
+
+  exportReminders(
+    path: string | undefined,
+    lists: ListSelector[] | undefined,
+    includeCompleted: boolean,
+  ): ExportResult {
+    const now = new Date();
+    const exportDate = toISO8601UTC(now);
+    const fileTimestamp = toISO8601WithTimezone(now)
+      .slice(0, 19)
+      .replace(/:/g, '');
+
+    // Determine output path
+    const outputPath =
+      path !== undefined
+        ? path.replace(/^~(?=$|\/)/, homedir())
+        : join(tmpdir(), `reminders-export-${fileTimestamp}.json`);
+
+    // Determine which calendars to export
+    const calendarsToExport =
+      lists && lists.length > 0
+        ? lists.flatMap((selector) => this.resolveList(selector))
+        : this.store.getAllCalendars();
+
+    const status: ReminderStatus = includeCompleted ? 'all' : 'incomplete';
+    const reminderOutputs = this.store
+      .fetchReminders(calendarsToExport, status)
+      .map((r) => this.convertToOutput(r));
+
+    const defaultCalendar = this.store.getDefaultCalendar();
+    const listOutputs: ReminderListOutput[] = calendarsToExport.map(
+      (calendar) => ({
+        id: calendar.id,
+        name: calendar.name,
+        isDefault: calendar.id === defaultCalendar?.id,
+      }),
+    );
+
+    const completedCount = reminderOutputs.filter((r) => r.isCompleted).length;
+    const stats: ExportStats = {
+      lists: listOutputs.length,
+      reminders: reminderOutputs.length,
+      completed: completedCount,
+      incomplete: reminderOutputs.length - completedCount,
+    };
+
+    const exportData: ExportData = {
+      exportVersion: '1.0',
+      exportDate,
+      source: 'apple-reminders-mcp',
+      stats,
+      lists: listOutputs,
+      reminders: reminderOutputs.map(encodeReminder),
+    };
+
+    const json = JSON.stringify(sortKeys(exportData), null, 2);
+    mkdirSync(dirname(outputPath), {recursive: true});
+    writeFileSync(outputPath, json);
+    log(`Exported ${reminderOutputs.length} reminders to ${outputPath}`);
+
+    return {
+      success: true,
+      path: outputPath,
+      exportDate,
+      stats,
+      fileSizeBytes: Buffer.byteLength(json),
+      note: 'File is in temp directory. Move it to a permanent location to keep it.',
+    };
+  }
+}
+
+// Input Parsing Helpers
+
+function parseDate(value: string): Date {
+  const date = fromISO8601(value);
+  if (!date) {
+    throw new MCPToolError(
+      `Invalid date format: '${value}'. Expected ISO 8601 format like '2024-01-15T10:00:00-05:00'.`,
+    );
+  }
+  return date;
+}
+
+function parsePriority(value: string): PriorityName {
+  const priority = Priority.fromString(value);
+  if (!priority) {
+    throw new MCPToolError(
+      `Invalid priority: '${value}'. Must be one of: none, low, medium, high.`,
+    );
+  }
+  return priority;
+}
+
+/** Approximates Foundation's URL(string:), which rejects empty and unescaped strings. */
+function parseURL(value: string): string {
+  if (value === '' || /[\s"<>\\^`{|}]/.test(value)) {
+    throw new MCPToolError(`Invalid URL: '${value}'`);
+  }
+  return value;
+}
+
+function parseAlarmInput(input: AlarmInput): ReminderAlarm {
+  switch (input.type) {
+    case 'absolute': {
+      if (input.date === undefined) {
+        throw new MCPToolError("Absolute alarm requires 'date' field");
+      }
+      const date = fromISO8601(input.date);
+      if (!date) {
+        throw new MCPToolError(
+          `Invalid alarm date format: '${input.date}'. Expected ISO 8601.`,
+        );
+      }
+      return {absoluteDate: date, relativeOffset: null};
+    }
+    case 'relative':
+      if (input.offset === undefined) {
+        throw new MCPToolError(
+          "Relative alarm requires 'offset' field (seconds before due date)",
+        );
+      }
+      if (input.offset < 0) {
+        throw new MCPToolError(
+          `Alarm offset must be a positive number of seconds (e.g., 3600 = 1 hour before due date). Got ${input.offset}.`,
+        );
+      }
+      return {absoluteDate: null, relativeOffset: -input.offset};
+    default:
+      throw new MCPToolError(
+        `Invalid alarm type: '${input.type}'. Must be 'absolute' or 'relative'.`,
+      );
+  }
+}
+
+function parseRecurrenceInput(
+  input: RecurrenceRuleInput,
+): ReminderRecurrenceRule {
+  const frequency = input.frequency.toLowerCase();
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new MCPToolError(
+      `Invalid recurrence frequency: '${input.frequency}'. Must be one of: daily, weekly, monthly, yearly.`,
+    );
+  }
+
+  const interval = input.interval ?? 1;
+  if (interval < 1) {
+    throw new MCPToolError('Recurrence interval must be at least 1');
+  }
+
+  if (input.endDate !== undefined && input.endCount !== undefined) {
+    throw new MCPToolError(
+      'Cannot specify both endDate and endCount in a recurrence rule. Use one or the other.',
+    );
+  }
+
+  const position = input.weekPosition;
+  if (
+    position !== undefined &&
+    position !== 0 &&
+    !(position >= -4 && position <= -1) &&
+    !(position >= 1 && position <= 5)
+  ) {
+    throw new MCPToolError(
+      `Invalid weekPosition: ${position}. Must be 1-5 (first through fifth), -1 to -4 (last through fourth-to-last), or 0.`,
+    );
+  }
+
+  let endDate: Date | null = null;
+  if (input.endDate !== undefined) {
+    endDate = fromISO8601(input.endDate);
+    if (!endDate) {
+      throw new MCPToolError(
+        `Invalid recurrence end date: '${input.endDate}'. Expected ISO 8601.`,
+      );
+    }
+  }
+
+  return {
+    frequency: frequency as ReminderRecurrenceRule['frequency'],
+    interval,
+    daysOfWeek: input.daysOfWeek ?? null,
+    daysOfMonth: input.daysOfMonth ?? null,
+    monthsOfYear: input.monthsOfYear ?? null,
+    weekPosition: input.weekPosition ?? null,
+    endDate,
+    endCount: input.endCount ?? null,
+  };
+}
+
+// Output Formatting Helpers
+
+function applySorting(
+  reminders: ReminderOutput[],
+  sortBy: string,
+): ReminderOutput[] {
+  const sorted = [...reminders];
+  switch (sortBy) {
+    case 'oldest':
+      return sorted.sort((a, b) =>
+        compareStrings(a.createdDate, b.createdDate),
+      );
+    case 'priority':
+      return sorted.sort(
+        (a, b) => prioritySortOrder(a.priority) - prioritySortOrder(b.priority),
+      );
+    case 'dueDate':
+      // Nulls last
+      return sorted.sort((a, b) => {
+        if (a.dueDate === null) return b.dueDate === null ? 0 : 1;
+        if (b.dueDate === null) return -1;
+        return compareStrings(a.dueDate, b.dueDate);
+      });
+    case 'newest':
+    default:
+      return sorted.sort((a, b) =>
+        compareStrings(b.createdDate, a.createdDate),
+      );
+  }
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function prioritySortOrder(priority: string): number {
+  switch (priority) {
+    case 'high':
+      return 0;
+    case 'medium':
+      return 1;
+    case 'low':
+      return 2;
+    default:
+      return 3; // "none"
+  }
+}
+
+/**
+ * Applies outputDetail field filtering.
+ * - "full": all fields included, null values shown explicitly
+ * - "compact"/"minimal": only the field subset, null values omitted, and
+ *   listName/isCompleted omitted when implied by the query
+ */
+function formatReminders(
+  reminders: ReminderOutput[],
+  outputDetail: string,
+  isSingleList: boolean,
+  statusFilter: ReminderStatus,
+): Array<Record<string, unknown>> {
+  const allowedFields =
+    outputDetail === 'minimal'
+      ? MINIMAL_FIELDS
+      : outputDetail === 'full'
+        ? null
+        : COMPACT_FIELDS;
+  const stripNulls = outputDetail !== 'full';
+  const omitListName = isSingleList && outputDetail !== 'full';
+  const omitIsCompleted = statusFilter !== 'all' && outputDetail !== 'full';
+
+  return reminders.map((reminder) =>
+    Object.fromEntries(
+      Object.entries(reminder).filter(([key, value]) => {
+        if (allowedFields && !allowedFields.has(key)) return false;
+        if (omitListName && key === 'listName') return false;
+        if (omitIsCompleted && key === 'isCompleted') return false;
+        if (stripNulls && value === null) return false;
+        return true;
+      }),
+    ),
+  );
+}
+
+/**
+ * Encodes a reminder the way Swift's JSONEncoder does for ReminderOutput:
+ * nil optionals are omitted. Used for create/update results, export files and
+ * the JMESPath input.
+ */
+export function encodeReminder(
+  reminder: ReminderOutput,
+): ExportData['reminders'][number] {
+  return Object.fromEntries(
+    Object.entries(reminder).filter(([, value]) => value !== null),
+  ) as ExportData['reminders'][number];
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as T;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
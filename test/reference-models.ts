@@ -0,0 +1,305 @@
+/**
+ * Data models for the TypeScript reference server.
+ * Mirrors Sources/Models.swift and Sources/Configuration.swift so the
+ * reference implementation produces the same shapes as the Swift binary.
+ */
+
+// API Data Models
+
+export interface AlarmOutput {
+  type: 'absolute' | 'relative';
+  /** ISO 8601 for absolute alarms */
+  date?: string;
+  /** Seconds before due date for relative alarms */
+  offset?: number;
+}
+
+export interface RecurrenceRuleOutput {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  daysOfWeek?: number[];
+  daysOfMonth?: number[];
+  monthsOfYear?: number[];
+  weekPosition?: number;
+  endDate?: string;
+  endCount?: number;
+}
+
+export interface ReminderOutput {
+  id: string;
+  title: string;
+  notes: string | null;
+  listId: string;
+  listName: string;
+  isCompleted: boolean;
+  priority: PriorityName;
+  dueDate: string | null;
+  dueDateIncludesTime: boolean | null;
+  completionDate: string | null;
+  createdDate: string;
+  lastModifiedDate: string;
+  url: string | null;
+  alarms: AlarmOutput[] | null;
+  recurrenceRules: RecurrenceRuleOutput[] | null;
+}
+
+export interface ReminderListOutput {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+// Export Types
+
+export interface ExportStats {
+  lists: number;
+  reminders: number;
+  completed: number;
+  incomplete: number;
+}
+
+/**
+ * Contents of an export_reminders file. Reminders are encoded the way
+ * Swift's JSONEncoder writes them: nil fields are omitted, not null.
+ */
+export interface ExportData {
+  exportVersion: string;
+  exportDate: string;
+  source: string;
+  stats: ExportStats;
+  lists: ReminderListOutput[];
+  reminders: Array<
+    Partial<ReminderOutput> & Pick<ReminderOutput, RequiredReminderField>
+  >;
+}
+
+export interface ExportResult {
+  success: boolean;
+  path: string;
+  exportDate: string;
+  stats: ExportStats;
+  fileSizeBytes: number;
+  note: string;
+}
+
+type RequiredReminderField =
+  | 'id'
+  | 'title'
+  | 'listId'
+  | 'listName'
+  | 'isCompleted'
+  | 'priority'
+  | 'createdDate'
+  | 'lastModifiedDate';
+
+// Input Types
+
+export interface ListSelector {
+  name?: string;
+  id?: string;
+  all?: boolean;
+}
+
+/** Builds a ListSelector from raw arguments, keeping only correctly typed keys. */
+export function listSelectorFrom(raw: unknown): ListSelector | null {
+  if (!isPlainObject(raw)) return null;
+  return {
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    id: typeof raw.id === 'string' ? raw.id : undefined,
+    all: typeof raw.all === 'boolean' ? raw.all : undefined,
+  };
+}
+
+export function isListSelectorEmpty(selector: ListSelector): boolean {
+  return (
+    selector.name === undefined &&
+    selector.id === undefined &&
+    selector.all !== true
+  );
+}
+
+/**
+ * Represents a field that can be set to a value or explicitly cleared (null).
+ * `undefined` means "don't change"; `{clear: true}` means "clear".
+ */
+export type Clearable<T> = {value: T} | {clear: true};
+
+export interface AlarmInput {
+  type: string;
+  date?: string;
+  offset?: number;
+}
+
+export interface RecurrenceRuleInput {
+  frequency: string;
+  interval?: number;
+  daysOfWeek?: number[];
+  daysOfMonth?: number[];
+  monthsOfYear?: number[];
+  weekPosition?: number;
+  endDate?: string;
+  endCount?: number;
+}
+
+export interface CreateReminderInput {
+  title: string;
+  notes?: string;
+  list: ListSelector | null;
+  dueDate?: string;
+  priority?: string;
+  url?: string;
+  dueDateIncludesTime?: boolean;
+  alarms?: AlarmInput[];
+  recurrenceRule?: RecurrenceRuleInput;
+}
+
+export interface UpdateReminderInput {
+  id: string;
+  title?: string;
+  notes?: Clearable<string>;
+  list: ListSelector | null;
+  dueDate?: Clearable<string>;
+  priority?: string;
+  completed?: boolean;
+  completedDate?: Clearable<string>;
+  url?: Clearable<string>;
+  dueDateIncludesTime?: boolean;
+  alarms?: Clearable<AlarmInput[]>;
+  recurrenceRule?: Clearable<RecurrenceRuleInput>;
+}
+
+// Priority Conversion
+
+export type PriorityName = 'none' | 'low' | 'medium' | 'high';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const Priority = {
+  names: ['none', 'low', 'medium', 'high'] as const,
+
+  internalValue(priority: PriorityName): number {
+    switch (priority) {
+      case 'none':
+        return 0;
+      case 'low':
+        return 9;
+      case 'medium':
+        return 5;
+      case 'high':
+        return 1;
+    }
+  },
+
+  fromInternal(value: number): PriorityName {
+    if (value >= 1 && value <= 4) return 'high';
+    if (value === 5) return 'medium';
+    if (value >= 6 && value <= 9) return 'low';
+    return 'none';
+  },
+
+  fromString(value: string): PriorityName | null {
+    const lowered = value.toLowerCase();
+    return (Priority.names as readonly string[]).includes(lowered)
+      ? (lowered as PriorityName)
+      : null;
+  },
+};
+
+// Date Formatting
+
+const DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})$/;
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+/**
+ * Formats a date as `yyyy-MM-dd'T'HH:mm:ssXXX` in the local time zone,
+ * matching Date.toISO8601WithTimezone() in the Swift server.
+ */
+export function toISO8601WithTimezone(date: Date): string {
+  const offsetMinutes = -date.getTimezoneOffset();
+  const absolute = Math.abs(offsetMinutes);
+  const zone =
+    offsetMinutes === 0
+      ? 'Z'
+      : `${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+
+  return (
+    `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${zone}`
+  );
+}
+
+/**
+ * Parses the date formats accepted by Date.fromISO8601() in the Swift server:
+ * date-time with offset (optionally with fractional seconds) or a bare
+ * `yyyy-MM-dd`, which is interpreted as local midnight.
+ */
+export function fromISO8601(value: string): Date | null {
+  if (DATE_TIME_PATTERN.test(value)) {
+    const normalized = value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+    const time = Date.parse(normalized);
+    return Number.isNaN(time) ? null : new Date(time);
+  }
+
+  const dateOnly = DATE_ONLY_PATTERN.exec(value);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return null;
+    }
+    return date;
+  }
+
+  return null;
+}
+
+/** ISO8601DateFormatter output used for exportDate: UTC, no fractional seconds. */
+export function toISO8601UTC(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// Configuration
+
+export const TestModeConfig = {
+  envVar: 'AR_MCP_TEST_MODE',
+  testListPrefix: '[AR-MCP TEST]',
+
+  isEnabled(): boolean {
+    return process.env[TestModeConfig.envVar] === '1';
+  },
+
+  isTestList(name: string): boolean {
+    return name.startsWith(TestModeConfig.testListPrefix);
+  },
+};
+
+export const MockModeConfig = {
+  envVar: 'AR_MCP_MOCK_MODE',
+
+  isEnabled(): boolean {
+    return process.env[MockModeConfig.envVar] === '1';
+  },
+};
+
+// Helpers
+
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validation Error
+
+/** Tool-level error whose message is returned verbatim with isError: true */
+export class MCPToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MCPToolError';
+  }
+}
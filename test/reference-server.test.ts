@@ -0,0 +1,147 @@
+/**
+ * Tests for the TypeScript reference server.
+ * The rest of the suite covers tool behavior through MCPClient; these tests
+ * cover backend selection and the JSON-RPC edges the other suites don't hit.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {MCPClient} from './mcp-client';
+import {ReferenceServer} from './reference-server';
+
+describe('Reference server', () => {
+  describe('via MCPClient', () => {
+    let client: MCPClient;
+
+    beforeAll(async () => {
+      client = await MCPClient.create({backend: 'reference'});
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+    });
+
+    test('reports the reference backend', () => {
+      expect(client.getBackend()).toBe('reference');
+      expect(client.isMockMode()).toBe(true);
+    });
+
+    test('starts with a single default Reminders list', async () => {
+      const result = await client.callTool('get_lists');
+
+      const lists = result as unknown as Array<{
+        name: string;
+        isDefault: boolean;
+      }>;
+      expect(lists.length).toBe(1);
+      expect(lists[0].name).toBe('Reminders');
+      expect(lists[0].isDefault).toBe(true);
+    });
+
+    test('rejects real mode', async () => {
+      await expect(
+        MCPClient.create({backend: 'reference', mockMode: false}),
+      ).rejects.toThrow('only supports mock mode');
+    });
+  });
+
+  describe('JSON-RPC handling', () => {
+    const server = new ReferenceServer();
+    let nextId = 0;
+
+    function call(name: string, args: Record<string, unknown> = {}) {
+      const response = server.handleLine(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: ++nextId,
+          method: 'tools/call',
+          params: {name, arguments: args},
+        }),
+      );
+      const content = response.result?.content as Array<{text: string}>;
+      return {
+        isError: response.result?.isError === true,
+        text: content[0].text,
+      };
+    }
+
+    test('unknown methods return a JSON-RPC error', () => {
+      const response = server.handleLine(
+        JSON.stringify({jsonrpc: '2.0', id: 7, method: 'resources/list'}),
+      );
+
+      expect(response.id).toBe(7);
+      expect(response.error?.code).toBe(-32603);
+      expect(response.error?.message).toBe('Unknown method: resources/list');
+    });
+
+    test('requests without an id are answered with id -1', () => {
+      const response = server.handleLine(
+        JSON.stringify({jsonrpc: '2.0', method: 'notifications/initialized'}),
+      );
+
+      expect(response.id).toBe(-1);
+      expect(response.error).toBeDefined();
+    });
+
+    test('unknown tools return isError', () => {
+      const result = call('complete_reminders');
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toBe('Unknown tool: complete_reminders');
+    });
+
+    test('all-day reminders keep the date and drop the time', () => {
+      const result = call('create_reminders', {
+        reminders: [
+          {
+            title: 'All day',
+            dueDate: '2026-06-15',
+            dueDateIncludesTime: false,
+          },
+        ],
+      });
+
+      const [created] = JSON.parse(result.text) as Array<{
+        dueDate: string;
+        dueDateIncludesTime: boolean;
+      }>;
+      expect(created.dueDate).toStartWith('2026-06-15T00:00:00');
+      expect(created.dueDateIncludesTime).toBe(false);
+    });
+
+    test('dueDateIncludesTime without a dueDate fails that item only', () => {
+      const result = call('create_reminders', {
+        reminders: [
+          {title: 'Fine'},
+          {title: 'Broken', dueDateIncludesTime: true},
+        ],
+      });
+
+      const parsed = JSON.parse(result.text) as {
+        created: unknown[];
+        failed: Array<{index: number; error: string}>;
+      };
+      expect(parsed.created.length).toBe(1);
+      expect(parsed.failed).toEqual([
+        {index: 1, error: 'dueDateIncludesTime requires a dueDate to be set.'},
+      ]);
+    });
+
+    test('relative alarms round-trip as positive offsets', () => {
+      const result = call('create_reminders', {
+        reminders: [
+          {
+            title: 'Alarmed',
+            dueDate: '2026-06-15T09:00:00Z',
+            alarms: [{type: 'relative', offset: 900}],
+          },
+        ],
+      });
+
+      const [created] = JSON.parse(result.text) as Array<{
+        alarms: Array<{type: string; offset: number}>;
+      }>;
+      expect(created.alarms).toEqual([{type: 'relative', offset: 900}]);
+    });
+  });
+});
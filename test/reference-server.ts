@@ -0,0 +1,357 @@
+#!/usr/bin/env bun
+
+/**
+ * TypeScript reference implementation of the Apple Reminders MCP server.
+ * Speaks the same JSON-RPC over stdin/stdout as the Swift binary, backed by
+ * an in-memory store that mirrors MockReminderStore. It lets the test suite
+ * run where the Swift build is unavailable (e.g. Linux CI).
+ *
+ * Mirrors Sources/MCPServer.swift: argument parsing, result shapes
+ * (including {created, failed} partial failures) and error handling.
+ *
+ * Environment variables:
+ * - AR_MCP_TEST_MODE=1: Restrict writes to lists prefixed with '[AR-MCP TEST]'
+ * - AR_MCP_MOCK_MODE is implied; there is no EventKit backend here
+ *
+ * Usage: bun test/reference-server.ts
+ */
+
+import * as readline from 'node:readline';
+import {
+  type AlarmInput,
+  type Clearable,
+  type CreateReminderInput,
+  isPlainObject,
+  type ListSelector,
+  listSelectorFrom,
+  MCPToolError,
+  type RecurrenceRuleInput,
+  TestModeConfig,
+  type UpdateReminderInput,
+} from './reference-models';
+import {
+  encodeReminder,
+  log,
+  ReferenceRemindersManager,
+} from './reference-manager';
+import {ReferenceReminderStore} from './reference-store';
+import {
+  INSTRUCTIONS,
+  PROTOCOL_VERSION,
+  SERVER_INFO,
+  TOOLS,
+} from './reference-tools';
+
+type RequestID = string | number;
+
+interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: RequestID;
+  result?: Record<string, unknown>;
+  error?: {code: number; message: string};
+}
+
+export class ReferenceServer {
+  private manager: ReferenceRemindersManager;
+
+  constructor(store: ReferenceReminderStore = new ReferenceReminderStore()) {
+    this.manager = new ReferenceRemindersManager(store);
+  }
+
+  /**
+   * Handle one line of input and return the response to write, mirroring
+   * MCPServer.handleRequest (malformed requests get an error with id -1).
+   */
+  handleLine(line: string): JSONRPCResponse {
+    let request: unknown;
+    try {
+      request = JSON.parse(line);
+    } catch (error) {
+      return errorResponse(-1, `Invalid JSON: ${(error as Error).message}`);
+    }
+
+    if (
+      !isPlainObject(request) ||
+      typeof request.method !== 'string' ||
+      !(typeof request.id === 'string' || Number.isInteger(request.id))
+    ) {
+      return errorResponse(
+        -1,
+        'The data couldn’t be read because it is missing.',
+      );
+    }
+
+    const id = request.id as RequestID;
+    try {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: this.processRequest(request.method, request.params),
+      };
+    } catch (error) {
+      return errorResponse(id, (error as Error).message);
+    }
+  }
+
+  private processRequest(
+    method: string,
+    params: unknown,
+  ): Record<string, unknown> {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {tools: {listChanged: false}},
+          serverInfo: SERVER_INFO,
+          instructions: INSTRUCTIONS,
+        };
+
+      case 'tools/list':
+        return {tools: TOOLS};
+
+      case 'tools/call': {
+        if (!isPlainObject(params) || typeof params.name !== 'string') {
+          throw new MCPToolError('Missing tool name');
+        }
+        const args = isPlainObject(params.arguments) ? params.arguments : {};
+
+        try {
+          const text = this.callTool(params.name, args);
+          return {content: [{type: 'text', text}]};
+        } catch (error) {
+          // Return tool errors with isError: true
+          return {
+            content: [{type: 'text', text: (error as Error).message}],
+            isError: true,
+          };
+        }
+      }
+
+      default:
+        throw new MCPToolError(`Unknown method: ${method}`);
+    }
+  }
+
+  private callTool(name: string, args: Record<string, unknown>): string {
+    switch (name) {
+      case 'get_lists':
+        return toJSON(this.manager.getAllLists());
+
+      case 'create_list': {
+        if (typeof args.name !== 'string') {
+          throw new MCPToolError("Missing required field: 'name'");
+        }
+        return toJSON(this.manager.createList(args.name));
+      }
+
+      case 'query_reminders':
+        return toJSON(
+          this.manager.queryReminders({
+            list: listSelectorFrom(args.list),
+            status: stringArg(args.status),
+            sortBy: stringArg(args.sortBy),
+            query: stringArg(args.query),
+            limit: intArg(args.limit),
+            searchText: stringArg(args.searchText),
+            dateFrom: stringArg(args.dateFrom),
+            dateTo: stringArg(args.dateTo),
+            outputDetail: stringArg(args.outputDetail),
+          }),
+        );
+
+      case 'create_reminders': {
+        const items = objectArrayArg(args.reminders);
+        if (!items) {
+          throw new MCPToolError("Missing required field: 'reminders'");
+        }
+
+        const inputs: CreateReminderInput[] = items.map((dict, index) => {
+          if (typeof dict.title !== 'string') {
+            throw new MCPToolError(
+              `Missing required field 'title' in reminder at index ${index}`,
+            );
+          }
+          const alarms = objectArrayArg(dict.alarms);
+          return {
+            title: dict.title,
+            notes: stringArg(dict.notes),
+            list: listSelectorFrom(dict.list),
+            dueDate: stringArg(dict.dueDate),
+            priority: stringArg(dict.priority),
+            url: stringArg(dict.url),
+            dueDateIncludesTime: boolArg(dict.dueDateIncludesTime),
+            alarms: alarms?.map(parseAlarmArg),
+            recurrenceRule: isPlainObject(dict.recurrenceRule)
+              ? parseRecurrenceArg(dict.recurrenceRule)
+              : undefined,
+          };
+        });
+
+        const {created, failed} = this.manager.createReminders(inputs);
+        return failed.length === 0
+          ? toJSON(created.map(encodeReminder))
+          : toJSON({created: created.map(encodeReminder), failed});
+      }
+
+      case 'update_reminders': {
+        const items = objectArrayArg(args.reminders);
+        if (!items) {
+          throw new MCPToolError("Missing required field: 'reminders'");
+        }
+
+        const inputs: UpdateReminderInput[] = items.map((dict, index) => {
+          if (typeof dict.id !== 'string') {
+            throw new MCPToolError(
+              `Missing required field 'id' in reminder at index ${index}`,
+            );
+          }
+
+          let alarms: Clearable<AlarmInput[]> | undefined;
+          if (dict.alarms === null) {
+            alarms = {clear: true};
+          } else {
+            const alarmsArray = objectArrayArg(dict.alarms);
+            if (alarmsArray) alarms = {value: alarmsArray.map(parseAlarmArg)};
+          }
+
+          let recurrenceRule: Clearable<RecurrenceRuleInput> | undefined;
+          if (dict.recurrenceRule === null) {
+            recurrenceRule = {clear: true};
+          } else if (isPlainObject(dict.recurrenceRule)) {
+            recurrenceRule = {value: parseRecurrenceArg(dict.recurrenceRule)};
+          }
+
+          return {
+            id: dict.id,
+            title: stringArg(dict.title),
+            notes: clearableString(dict.notes),
+            list: listSelectorFrom(dict.list),
+            dueDate: clearableString(dict.dueDate),
+            priority: stringArg(dict.priority),
+            completed: boolArg(dict.completed),
+            completedDate: clearableString(dict.completedDate),
+            url: clearableString(dict.url),
+            dueDateIncludesTime: boolArg(dict.dueDateIncludesTime),
+            alarms,
+            recurrenceRule,
+          };
+        });
+
+        const {updated, failed} = this.manager.updateReminders(inputs);
+        return failed.length === 0
+          ? toJSON(updated.map(encodeReminder))
+          : toJSON({updated: updated.map(encodeReminder), failed});
+      }
+
+      case 'delete_reminders': {
+        const ids = args.ids;
+        if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+          throw new MCPToolError("Missing required field: 'ids'");
+        }
+        return toJSON(this.manager.deleteReminders(ids as string[]));
+      }
+
+      case 'export_reminders': {
+        const lists: ListSelector[] | undefined = objectArrayArg(
+          args.lists,
+        )?.map((dict) => listSelectorFrom(dict) as ListSelector);
+
+        return toJSON(
+          this.manager.exportReminders(
+            stringArg(args.path),
+            lists,
+            boolArg(args.includeCompleted) ?? true,
+          ),
+        );
+      }
+
+      default:
+        throw new MCPToolError(`Unknown tool: ${name}`);
+    }
+  }
+}
+
+// Argument parsing helpers — mirror the `as? T` casts in MCPServer.swift,
+// where a value of the wrong type is treated as absent.
+
+function stringArg(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function intArg(value: unknown): number | undefined {
+  return Number.isInteger(value) ? (value as number) : undefined;
+}
+
+function boolArg(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+function intArrayArg(value: unknown): number[] | undefined {
+  return Array.isArray(value) && value.every((v) => Number.isInteger(v))
+    ? (value as number[])
+    : undefined;
+}
+
+function objectArrayArg(
+  value: unknown,
+): Array<Record<string, unknown>> | undefined {
+  return Array.isArray(value) && value.every(isPlainObject)
+    ? (value as Array<Record<string, unknown>>)
+    : undefined;
+}
+
+/** null → clear, string → value, absent or wrong type → unchanged */
+function clearableString(value: unknown): Clearable<string> | undefined {
+  if (value === null) return {clear: true};
+  if (typeof value === 'string') return {value};
+  return undefined;
+}
+
+function parseAlarmArg(dict: Record<string, unknown>): AlarmInput {
+  return {
+    type: stringArg(dict.type) ?? 'relative',
+    date: stringArg(dict.date),
+    offset: intArg(dict.offset),
+  };
+}
+
+function parseRecurrenceArg(
+  dict: Record<string, unknown>,
+): RecurrenceRuleInput {
+  return {
+    frequency: stringArg(dict.frequency) ?? 'daily',
+    interval: intArg(dict.interval),
+    daysOfWeek: intArrayArg(dict.daysOfWeek),
+    daysOfMonth: intArrayArg(dict.daysOfMonth),
+    monthsOfYear: intArrayArg(dict.monthsOfYear),
+    weekPosition: intArg(dict.weekPosition),
+    endDate: stringArg(dict.endDate),
+    endCount: intArg(dict.endCount),
+  };
+}
+
+function errorResponse(id: RequestID, message: string): JSONRPCResponse {
+  return {jsonrpc: '2.0', id, error: {code: -32603, message}};
+}
+
+function toJSON(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+if (import.meta.main) {
+  const server = new ReferenceServer();
+
+  log('MOCK MODE ENABLED - Using in-memory storage (no real reminders)');
+  if (TestModeConfig.isEnabled()) {
+    log(
+      `TEST MODE ENABLED - Write operations restricted to lists prefixed with '${TestModeConfig.testListPrefix}'`,
+    );
+  }
+  log('Apple Reminders MCP Server (TypeScript reference) running on stdio');
+
+  const rl = readline.createInterface({input: process.stdin});
+  rl.on('line', (line) => {
+    if (line.trim() === '') return;
+    process.stdout.write(JSON.stringify(server.handleLine(line)) + '\n');
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * In-memory reminder store for the TypeScript reference server.
+ * Mirrors Sources/MockStore.swift (MockReminderStore, MockCalendar,
+ * MockReminder), including the isAllDay heuristic on dueDateComponents.
+ */
+
+import {randomUUID} from 'crypto';
+import {MCPToolError, type RecurrenceFrequency} from './reference-models';
+
+/** Status filter for fetching reminders */
+export type ReminderStatus = 'incomplete' | 'completed' | 'all';
+
+/** Mirrors Foundation DateComponents with the fields the server sets. */
+export interface DueDateComponents {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+}
+
+/** Alarm representation (absolute date or relative offset) */
+export interface ReminderAlarm {
+  absoluteDate: Date | null;
+  /**
+   * Offset in seconds relative to the due date. Always stored as a negative
+   * value (e.g., -3600 = 1 hour before), matching EKAlarm.relativeOffset.
+   */
+  relativeOffset: number | null;
+}
+
+/** Recurrence rule representation */
+export interface ReminderRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  /** 1=Sunday ... 7=Saturday */
+  daysOfWeek: number[] | null;
+  /** 1-31, or negative (-1=last day, -2=second-to-last, etc.) */
+  daysOfMonth: number[] | null;
+  /** 1-12 */
+  monthsOfYear: number[] | null;
+  /** -1=last, 1=first, 2=second, etc. */
+  weekPosition: number | null;
+  endDate: Date | null;
+  endCount: number | null;
+}
+
+export class ReferenceCalendar {
+  readonly id: string;
+  name: string;
+
+  constructor(name: string, id: string = randomUUID().toUpperCase()) {
+    this.id = id;
+    this.name = name;
+  }
+}
+
+export class ReferenceReminder {
+  readonly id: string;
+  title = '';
+  notes: string | null = null;
+  calendarId: string;
+  priority = 0;
+  dueDateComponents: DueDateComponents | null = null;
+  completionDate: Date | null = null;
+  readonly creationDate: Date;
+  lastModifiedDate: Date;
+  url: string | null = null;
+  alarms: ReminderAlarm[] = [];
+  recurrenceRules: ReminderRecurrenceRule[] = [];
+
+  constructor(calendarId: string, id: string = randomUUID().toUpperCase()) {
+    this.id = id;
+    this.calendarId = calendarId;
+    this.creationDate = new Date();
+    this.lastModifiedDate = new Date();
+  }
+
+  get isCompleted(): boolean {
+    return this.completionDate !== null;
+  }
+
+  // Mirror EKReminderWrapper.isAllDay: infer from dueDateComponents and
+  // strip time components on set. Same heuristic limitations as Swift:
+  // - A reminder at exactly midnight (hour=0) reports isAllDay=false (has time)
+  // - A reminder with no due date returns false rather than null
+  get isAllDay(): boolean {
+    if (!this.dueDateComponents) return false;
+    return this.dueDateComponents.hour === undefined;
+  }
+
+  set isAllDay(newValue: boolean) {
+    if (!this.dueDateComponents) return;
+    if (newValue) {
+      const {year, month, day} = this.dueDateComponents;
+      this.dueDateComponents = {year, month, day};
+    }
+  }
+
+  updateModificationDate(): void {
+    this.lastModifiedDate = new Date();
+  }
+}
+
+/** Components in the local calendar, like Calendar.current.dateComponents. */
+export function dateComponentsFrom(date: Date): DueDateComponents {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  };
+}
+
+/** Resolves components to a Date in the local calendar; missing time is midnight. */
+export function dateFromComponents(components: DueDateComponents): Date {
+  return new Date(
+    components.year,
+    components.month - 1,
+    components.day,
+    components.hour ?? 0,
+    components.minute ?? 0,
+  );
+}
+
+/** In-memory reminder store, starting with a single default "Reminders" list */
+export class ReferenceReminderStore {
+  calendars: ReferenceCalendar[] = [];
+  reminders: ReferenceReminder[] = [];
+  defaultCalendarId: string | null;
+
+  constructor() {
+    const defaultCalendar = new ReferenceCalendar('Reminders');
+    this.calendars.push(defaultCalendar);
+    this.defaultCalendarId = defaultCalendar.id;
+  }
+
+  getAllCalendars(): ReferenceCalendar[] {
+    return this.calendars;
+  }
+
+  getDefaultCalendar(): ReferenceCalendar | null {
+    return this.calendars.find((c) => c.id === this.defaultCalendarId) ?? null;
+  }
+
+  createCalendar(name: string): ReferenceCalendar {
+    const calendar = new ReferenceCalendar(name);
+    this.calendars.push(calendar);
+    return calendar;
+  }
+
+  fetchReminders(
+    calendars: ReferenceCalendar[],
+    status: ReminderStatus,
+  ): ReferenceReminder[] {
+    const calendarIds = new Set(calendars.map((c) => c.id));
+
+    return this.reminders.filter((reminder) => {
+      if (!calendarIds.has(reminder.calendarId)) return false;
+
+      switch (status) {
+        case 'completed':
+          return reminder.isCompleted;
+        case 'incomplete':
+          return !reminder.isCompleted;
+        case 'all':
+          return true;
+      }
+    });
+  }
+
+  getReminder(id: string): ReferenceReminder | null {
+    return this.reminders.find((r) => r.id === id) ?? null;
+  }
+
+  getCalendarName(reminder: ReferenceReminder): string {
+    return this.calendars.find((c) => c.id === reminder.calendarId)?.name ?? '';
+  }
+
+  saveReminder(reminder: ReferenceReminder): void {
+    reminder.updateModificationDate();
+
+    const index = this.reminders.findIndex((r) => r.id === reminder.id);
+    if (index !== -1) {
+      this.reminders[index] = reminder;
+    } else {
+      this.reminders.push(reminder);
+    }
+  }
+
+  deleteReminder(reminder: ReferenceReminder): void {
+    const index = this.reminders.findIndex((r) => r.id === reminder.id);
+    if (index === -1) {
+      throw new MCPToolError('Reminder not found');
+    }
+    this.reminders.splice(index, 1);
+  }
+
+  /** Create a new (unsaved) reminder in the specified calendar */
+  createReminder(calendar: ReferenceCalendar): ReferenceReminder {
+    return new ReferenceReminder(calendar.id);
+  }
+}
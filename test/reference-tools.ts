@@ -0,0 +1,633 @@
+/**
+ * Tool definitions and initialize instructions for the TypeScript reference
+ * server. Mirrors getTools() and the initialize handler in
+ * Sources/MCPServer.swift. schema-snapshot.test.ts pins both servers to the
+ * same contract, so edit the two together.
+ */
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export const PROTOCOL_VERSION = '2024-11-05';
+
+export const SERVER_INFO = {name: 'apple-reminders', version: '2.0.0'};
+
+export const INSTRUCTIONS = `Apple Reminders MCP Server - Access Apple Reminders with 7 powerful tools.
+
+TOOLS:
+• query_reminders - Search and filter reminders (text search, date range, JMESPath)
+• get_lists - Get all reminder lists
+• create_list - Create a new list
+• create_reminders - Create reminders with alarms, recurrence, URLs
+• update_reminders - Update reminders (including mark complete/incomplete)
+• delete_reminders - Delete reminders
+• export_reminders - Export reminders to JSON file (for backup)
+
+QUICK START:
+1. Call query_reminders with {} to see incomplete reminders from default list
+2. Use get_lists to see all available lists
+3. Specify list by name: {"list": {"name": "Work"}}
+4. Specify list by ID: {"list": {"id": "x-apple-..."}}
+5. Search by text: {"searchText": "meeting"}
+6. Search all lists: {"list": {"all": true}}
+
+PRIORITY: Use "none", "low", "medium", or "high" (not numbers)
+DATES: ISO 8601 with timezone, e.g., "2024-01-15T10:00:00-05:00"
+ALARMS: [{"type": "relative", "offset": 3600}] (1 hour before)
+RECURRENCE: {"frequency": "weekly", "interval": 1}`;
+
+export const TOOLS: ToolDefinition[] = [
+  // query_reminders
+  {
+    name: 'query_reminders',
+    description: `Query reminders from Apple Reminders.
+
+**Default behavior (no parameters needed):**
+- Searches DEFAULT LIST only
+- Returns INCOMPLETE reminders only
+- Sorted by NEWEST CREATED first
+- Limited to 50 results
+- Uses "compact" output (most useful fields, nulls omitted)
+
+**Parameters (all optional):**
+
+list — Which list to search. Omit for default list.
+  • {"name": "Work"} → by exact name (case-insensitive)
+  • {"id": "x-apple-..."} → by exact ID
+  • {"all": true} → all lists
+
+status — "incomplete" (default), "completed", or "all"
+
+searchText — Case-insensitive text search across title and notes
+
+dateFrom / dateTo — Date range filter (ISO 8601). For incomplete reminders filters by dueDate, for completed by completionDate.
+
+sortBy — "newest" (default), "oldest", "priority", "dueDate"
+
+query — JMESPath expression for advanced filtering (overrides sortBy and outputDetail — always uses full fields as input)
+
+outputDetail — Controls which fields are returned:
+  • "minimal" — id, title only (plus listName if searching all lists, isCompleted if status is "all")
+  • "compact" (default) — id, title, notes, dueDate, priority, createdDate, lastModifiedDate (plus listName/isCompleted when contextually useful). Null fields omitted.
+  • "full" — All fields always included, null values shown explicitly
+
+limit — Max results (default 50, max 200)
+
+**Examples:**
+
+Recent incomplete from default list:
+  {}
+
+From specific list:
+  {"list": {"name": "Work"}}
+
+All lists, completed:
+  {"list": {"all": true}, "status": "completed"}
+
+Search by text:
+  {"searchText": "meeting"}
+
+Due this week:
+  {"dateFrom": "2024-01-15T00:00:00-05:00", "dateTo": "2024-01-21T23:59:59-05:00"}
+
+Full detail for debugging:
+  {"outputDetail": "full"}
+
+Minimal for quick overview:
+  {"outputDetail": "minimal"}
+
+High priority only:
+  {"query": "[?priority == 'high']"}
+
+Created today or later (via JMESPath):
+  {"query": "[?createdDate >= '2024-01-15']"}
+
+Modified in the last week (via JMESPath):
+  {"query": "[?lastModifiedDate >= '2024-01-08']"}
+
+**Reminder fields available in JMESPath (always full):**
+- id, title, notes, listId, listName, isCompleted
+- priority (string: "none", "low", "medium", "high")
+- dueDate, dueDateIncludesTime, completionDate, createdDate, lastModifiedDate
+- url, alarms, recurrenceRules`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list: {
+          type: 'object',
+          description: 'Which list to search. Omit for default list.',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'List name (case-insensitive match)',
+            },
+            id: {type: 'string', description: 'Exact list ID'},
+            all: {type: 'boolean', description: 'Set true to search all lists'},
+          },
+          additionalProperties: false,
+        },
+        status: {
+          type: 'string',
+          enum: ['incomplete', 'completed', 'all'],
+          default: 'incomplete',
+          description: 'Filter by completion status',
+        },
+        searchText: {
+          type: 'string',
+          description:
+            'Case-insensitive text search across reminder titles and notes',
+        },
+        dateFrom: {
+          type: 'string',
+          description:
+            'Start of date range (ISO 8601). Filters by dueDate for incomplete, completionDate for completed reminders.',
+        },
+        dateTo: {
+          type: 'string',
+          description:
+            'End of date range (ISO 8601). Filters by dueDate for incomplete, completionDate for completed reminders.',
+        },
+        sortBy: {
+          type: 'string',
+          enum: ['newest', 'oldest', 'priority', 'dueDate'],
+          default: 'newest',
+          description: "Sort order. Ignored if 'query' includes sorting.",
+        },
+        query: {
+          type: 'string',
+          description:
+            'JMESPath expression for advanced filtering/projection. Applied after list, status, searchText, and date filters. When provided, outputDetail is ignored (always uses full fields as input).',
+        },
+        outputDetail: {
+          type: 'string',
+          enum: ['minimal', 'compact', 'full'],
+          default: 'compact',
+          description:
+            "Controls which fields are returned. 'minimal': id, title. 'compact' (default): most useful fields, nulls omitted. 'full': all fields, nulls shown. Ignored when 'query' (JMESPath) is provided. listName and isCompleted are contextually omitted in minimal/compact when implied by query params.",
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          default: 50,
+          description: 'Maximum results to return',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  // get_lists
+  {
+    name: 'get_lists',
+    description: `Get all available reminder lists.
+
+Returns list names, IDs, and which one is the default. Call this if you need to know what lists exist before querying reminders.
+
+**Parameters:** None
+
+**Example:**
+  {}`,
+    inputSchema: {type: 'object', properties: {}, additionalProperties: false},
+  },
+  // create_list
+  {
+    name: 'create_list',
+    description: `Create a new reminder list.
+
+**Parameters:**
+
+name (required) — Name for the new list
+
+**Example:**
+
+Create a "Groceries" list:
+  {"name": "Groceries"}`,
+    inputSchema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: {type: 'string', description: 'Name for the new list'},
+      },
+      additionalProperties: false,
+    },
+  },
+  // create_reminders
+  {
+    name: 'create_reminders',
+    description: `Create one or more reminders.
+
+**Parameters:**
+
+reminders — Array of reminder objects to create. Each object:
+  • title (required) — Reminder title
+  • notes — Body text
+  • list — Target list as {"name": "..."} or {"id": "..."}. Default list if omitted.
+  • dueDate — ISO 8601 datetime (e.g., "2024-01-15T10:00:00-05:00")
+  • dueDateIncludesTime — Whether the due date has a specific time (default true). Set false for all-day reminders.
+  • priority — "none", "low", "medium", or "high"
+  • url — URL to associate with the reminder
+  • alarms — Array of alarm objects: {"type": "relative", "offset": 3600} or {"type": "absolute", "date": "..."}
+  • recurrenceRule — Recurrence rule: {"frequency": "daily|weekly|monthly|yearly", "interval": 1, ...}
+
+**Examples:**
+
+Single reminder:
+  {"reminders": [{"title": "Buy milk"}]}
+
+With details:
+  {"reminders": [{"title": "Call dentist", "list": {"name": "Personal"}, "dueDate": "2024-01-20T09:00:00-05:00", "priority": "high"}]}
+
+With alarm (1 hour before):
+  {"reminders": [{"title": "Meeting", "dueDate": "2024-01-20T14:00:00-05:00", "alarms": [{"type": "relative", "offset": 3600}]}]}
+
+Weekly recurrence:
+  {"reminders": [{"title": "Team standup", "dueDate": "2024-01-20T09:00:00-05:00", "recurrenceRule": {"frequency": "weekly", "interval": 1, "daysOfWeek": [2, 3, 4, 5, 6]}}]}
+
+Batch create:
+  {"reminders": [
+    {"title": "Buy milk"},
+    {"title": "Buy eggs"},
+    {"title": "Buy bread", "priority": "low"}
+  ]}`,
+    inputSchema: {
+      type: 'object',
+      required: ['reminders'],
+      properties: {
+        reminders: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['title'],
+            properties: {
+              title: {type: 'string', description: 'Reminder title'},
+              notes: {type: 'string', description: 'Reminder notes/body text'},
+              list: {
+                type: 'object',
+                description: 'Target list. Uses default list if omitted.',
+                properties: {name: {type: 'string'}, id: {type: 'string'}},
+                additionalProperties: false,
+              },
+              dueDate: {
+                type: 'string',
+                description: 'Due date in ISO 8601 format',
+              },
+              dueDateIncludesTime: {
+                type: 'boolean',
+                description:
+                  'Whether the due date includes a specific time. Set false for all-day reminders. Default: true.',
+              },
+              priority: {
+                type: 'string',
+                enum: ['none', 'low', 'medium', 'high'],
+                description: 'Priority level',
+              },
+              url: {
+                type: 'string',
+                description: 'URL to associate with the reminder',
+              },
+              alarms: {
+                type: 'array',
+                description: 'Alarm notifications for the reminder',
+                items: {
+                  type: 'object',
+                  required: ['type'],
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['relative', 'absolute'],
+                      description:
+                        "Alarm type: 'relative' (offset from due date) or 'absolute' (specific date/time)",
+                    },
+                    offset: {
+                      type: 'integer',
+                      description:
+                        'Seconds before due date (for relative alarms). E.g., 3600 = 1 hour before.',
+                    },
+                    date: {
+                      type: 'string',
+                      description: 'ISO 8601 date/time (for absolute alarms)',
+                    },
+                  },
+                  additionalProperties: false,
+                },
+              },
+              recurrenceRule: {
+                type: 'object',
+                description: 'Recurrence rule for repeating reminders',
+                required: ['frequency'],
+                properties: {
+                  frequency: {
+                    type: 'string',
+                    enum: ['daily', 'weekly', 'monthly', 'yearly'],
+                    description: 'How often the reminder repeats',
+                  },
+                  interval: {
+                    type: 'integer',
+                    minimum: 1,
+                    default: 1,
+                    description:
+                      'Repeat every N periods (e.g., 2 = every other week)',
+                  },
+                  daysOfWeek: {
+                    type: 'array',
+                    items: {type: 'integer', minimum: 1, maximum: 7},
+                    description:
+                      'Days of week (1=Sunday, 2=Monday, ..., 7=Saturday). For weekly/monthly frequency.',
+                  },
+                  daysOfMonth: {
+                    type: 'array',
+                    items: {type: 'integer', minimum: -31, maximum: 31},
+                    description:
+                      'Days of month (1-31, or negative for last N days: -1=last day, -2=second-to-last, etc.). For monthly frequency.',
+                  },
+                  monthsOfYear: {
+                    type: 'array',
+                    items: {type: 'integer', minimum: 1, maximum: 12},
+                    description: 'Months of year (1-12). For yearly frequency.',
+                  },
+                  weekPosition: {
+                    type: 'integer',
+                    description:
+                      "Week position within month: 1=first, 2=second, ..., -1=last. Used with daysOfWeek for 'first Monday' patterns.",
+                  },
+                  endDate: {
+                    type: 'string',
+                    description: 'ISO 8601 date when recurrence stops',
+                  },
+                  endCount: {
+                    type: 'integer',
+                    minimum: 1,
+                    description: 'Number of occurrences before stopping',
+                  },
+                },
+                additionalProperties: false,
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  // update_reminders
+  {
+    name: 'update_reminders',
+    description: `Update one or more reminders. Only specified fields are changed.
+
+**Parameters:**
+
+reminders — Array of update objects. Each object:
+  • id (required) — Reminder ID to update
+  • title — New title
+  • notes — New notes (null to clear)
+  • list — Move to list as {"name": "..."} or {"id": "..."}
+  • dueDate — New due date as ISO 8601 (null to clear)
+  • dueDateIncludesTime — Whether due date has specific time (false = all-day)
+  • priority — "none", "low", "medium", or "high"
+  • completed — true to complete, false to uncomplete
+  • completedDate — ISO 8601 completion date (null to uncomplete)
+  • url — URL to associate (null to clear)
+  • alarms — Array of alarm objects (null to clear all alarms)
+  • recurrenceRule — Recurrence rule object (null to clear)
+
+**Examples:**
+
+Update title:
+  {"reminders": [{"id": "...", "title": "Buy oat milk"}]}
+
+Move to different list:
+  {"reminders": [{"id": "...", "list": {"name": "Groceries"}}]}
+
+Complete a reminder:
+  {"reminders": [{"id": "...", "completed": true}]}
+
+Uncomplete a reminder:
+  {"reminders": [{"id": "...", "completed": false}]}
+
+Complete with specific date:
+  {"reminders": [{"id": "...", "completedDate": "2024-01-15T10:00:00-05:00"}]}
+
+Clear due date:
+  {"reminders": [{"id": "...", "dueDate": null}]}
+
+Add alarm:
+  {"reminders": [{"id": "...", "alarms": [{"type": "relative", "offset": 1800}]}]}
+
+Set weekly recurrence:
+  {"reminders": [{"id": "...", "recurrenceRule": {"frequency": "weekly"}}]}
+
+Clear recurrence:
+  {"reminders": [{"id": "...", "recurrenceRule": null}]}
+
+Batch update (complete multiple):
+  {"reminders": [
+    {"id": "abc", "completed": true},
+    {"id": "def", "completed": true},
+    {"id": "ghi", "completed": true}
+  ]}`,
+    inputSchema: {
+      type: 'object',
+      required: ['reminders'],
+      properties: {
+        reminders: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['id'],
+            properties: {
+              id: {type: 'string', description: 'Reminder ID to update'},
+              title: {type: 'string', description: 'New title'},
+              notes: {
+                type: 'string',
+                description: 'New notes. Set to null to clear.',
+              },
+              list: {
+                type: 'object',
+                description: 'Move to this list',
+                properties: {name: {type: 'string'}, id: {type: 'string'}},
+                additionalProperties: false,
+              },
+              dueDate: {
+                type: 'string',
+                description:
+                  'New due date in ISO 8601 format. Set to null to clear.',
+              },
+              dueDateIncludesTime: {
+                type: 'boolean',
+                description:
+                  'Whether the due date includes a specific time. Set false for all-day reminders.',
+              },
+              priority: {
+                type: 'string',
+                enum: ['none', 'low', 'medium', 'high'],
+                description: 'New priority level',
+              },
+              completed: {
+                type: 'boolean',
+                description: 'Set true to complete, false to uncomplete',
+              },
+              completedDate: {
+                type: 'string',
+                description:
+                  "Completion date in ISO 8601 format. Set to null to uncomplete. Overrides 'completed' if both provided.",
+              },
+              url: {
+                type: 'string',
+                description:
+                  'URL to associate with the reminder. Set to null to clear.',
+              },
+              alarms: {
+                type: 'array',
+                description:
+                  'Alarm notifications. Set to null to clear all alarms.',
+                items: {
+                  type: 'object',
+                  required: ['type'],
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['relative', 'absolute'],
+                      description: 'Alarm type',
+                    },
+                    offset: {
+                      type: 'integer',
+                      description:
+                        'Seconds before due date (for relative alarms)',
+                    },
+                    date: {
+                      type: 'string',
+                      description: 'ISO 8601 date/time (for absolute alarms)',
+                    },
+                  },
+                  additionalProperties: false,
+                },
+              },
+              recurrenceRule: {
+                type: 'object',
+                description: 'Recurrence rule. Set to null to clear.',
+                required: ['frequency'],
+                properties: {
+                  frequency: {
+                    type: 'string',
+                    enum: ['daily', 'weekly', 'monthly', 'yearly'],
+                  },
+                  interval: {type: 'integer', minimum: 1, default: 1},
+                  daysOfWeek: {type: 'array', items: {type: 'integer'}},
+                  daysOfMonth: {type: 'array', items: {type: 'integer'}},
+                  monthsOfYear: {type: 'array', items: {type: 'integer'}},
+                  weekPosition: {type: 'integer'},
+                  endDate: {type: 'string'},
+                  endCount: {type: 'integer', minimum: 1},
+                },
+                additionalProperties: false,
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  // delete_reminders
+  {
+    name: 'delete_reminders',
+    description: `Delete one or more reminders permanently.
+
+**Parameters:**
+
+ids — Array of reminder IDs to delete
+
+**Examples:**
+
+Single delete:
+  {"ids": ["abc123"]}
+
+Batch delete:
+  {"ids": ["abc123", "def456", "ghi789"]}`,
+    inputSchema: {
+      type: 'object',
+      required: ['ids'],
+      properties: {
+        ids: {
+          type: 'array',
+          minItems: 1,
+          items: {type: 'string'},
+          description: 'Array of reminder IDs to delete',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  // export_reminders
+  {
+    name: 'export_reminders',
+    description: `Export reminders to a JSON file for backup or data portability.
+
+Writes all reminder data to a file without consuming LLM context tokens.
+Default location is system temp directory; move the file to keep it permanently.
+
+**Parameters (all optional):**
+
+path — Custom file path (default: temp directory with timestamp)
+  • Supports ~ for home directory
+  • Example: "~/Desktop/my-backup.json"
+
+lists — Array of lists to export (default: all lists)
+  • Each item: {"name": "..."} or {"id": "..."}
+  • Example: [{"name": "Work"}, {"name": "Personal"}]
+
+includeCompleted — Include completed reminders (default: true)
+
+**Examples:**
+
+Export everything to temp:
+  {}
+
+Export to Desktop:
+  {"path": "~/Desktop/reminders-backup.json"}
+
+Export only incomplete reminders:
+  {"includeCompleted": false}
+
+Export specific lists:
+  {"lists": [{"name": "Work"}, {"name": "Shopping"}]}
+
+**File format:**
+JSON with exportVersion, exportDate, stats, lists[], and reminders[].`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description:
+            'Custom file path. Supports ~ for home directory. Default: temp directory with timestamp.',
+        },
+        lists: {
+          type: 'array',
+          description: 'Lists to export. Default: all lists.',
+          items: {
+            type: 'object',
+            properties: {
+              name: {type: 'string', description: 'List name'},
+              id: {type: 'string', description: 'List ID'},
+            },
+            additionalProperties: false,
+          },
+        },
+        includeCompleted: {
+          type: 'boolean',
+          default: true,
+          description: 'Include completed reminders in export',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+];
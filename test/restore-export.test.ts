@@ -0,0 +1,225 @@
+/**
+ * Tests for restore-export.ts: export from one in-memory server, restore
+ * into a fresh one, and compare what came back.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {mkdtempSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import type {ExportData} from './reference-models';
+import {restoreExport, targetListName} from './restore-export';
+import type {EncodedReminder} from './tool-results';
+
+async function exportFrom(client: MCPClient, dir: string): Promise<ExportData> {
+  const path = join(dir, `export-${Date.now()}-${Math.random()}.json`);
+  await client.tools.exportReminders({path});
+  return loadExport(path);
+}
+
+describe('restore-export', () => {
+  let dir: string;
+  let source: ExportData;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'restore-export-'));
+
+    const client = await MCPClient.create();
+    await client.tools.createList({name: 'Work'});
+    await client.tools.createList({name: 'Home'});
+    const created = await client.tools.createReminders({
+      reminders: [
+        {
+          title: 'Quarterly report',
+          list: {name: 'Work'},
+          notes: 'Numbers from finance',
+          dueDate: '2026-03-31T17:00:00Z',
+          priority: 'high',
+          url: 'https://example.com/report',
+          alarms: [
+            {type: 'relative', offset: 3600},
+            {type: 'absolute', date: '2026-03-30T09:00:00Z'},
+          ],
+          recurrenceRule: {
+            frequency: 'monthly',
+            interval: 3,
+            daysOfMonth: [-1],
+          },
+        },
+        {title: 'Old task', list: {name: 'Work'}},
+        {
+          title: 'Water plants',
+          list: {name: 'Home'},
+          dueDate: '2026-04-01',
+          dueDateIncludesTime: false,
+        },
+      ],
+    });
+    const oldTask = (created as Array<{id: string}>)[1];
+    await client.tools.updateReminders({
+      reminders: [{id: oldTask.id, completedDate: '2026-01-02T10:00:00Z'}],
+    });
+
+    source = await exportFrom(client, dir);
+    await client.cleanup();
+  });
+
+  afterAll(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  describe('into an empty server', () => {
+    let client: MCPClient;
+    let restored: ExportData;
+    let idMap: Record<string, string>;
+
+    beforeAll(async () => {
+      client = await MCPClient.create();
+      const report = await restoreExport(client, source);
+      idMap = report.idMap;
+      restored = await exportFrom(client, dir);
+
+      expect(report.lists.created).toEqual(['Work', 'Home']);
+      expect(report.lists.existing).toEqual(['Reminders']);
+      expect(report.reminders.created).toBe(3);
+      expect(report.reminders.failed).toEqual([]);
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+    });
+
+    test('maps every exported ID to a new reminder', () => {
+      const restoredIds = new Set(restored.reminders.map((r) => r.id));
+      expect(Object.keys(idMap).sort()).toEqual(
+        source.reminders.map((r) => r.id).sort(),
+      );
+      for (const newId of Object.values(idMap)) {
+        expect(restoredIds.has(newId)).toBe(true);
+      }
+    });
+
+    test('keeps content, alarms, recurrence and completion', () => {
+      const fields = (r: EncodedReminder) => ({
+        title: r.title,
+        notes: r.notes,
+        listName: r.listName,
+        dueDate: r.dueDate,
+        dueDateIncludesTime: r.dueDateIncludesTime,
+        priority: r.priority,
+        url: r.url,
+        alarms: r.alarms,
+        recurrenceRules: r.recurrenceRules,
+        isCompleted: r.isCompleted,
+        completionDate: r.completionDate,
+      });
+      const byId = new Map(restored.reminders.map((r) => [r.id, r]));
+
+      for (const original of source.reminders) {
+        const copy = byId.get(idMap[original.id])!;
+        expect(fields(copy)).toEqual(fields(original));
+      }
+    });
+
+    test('a second restore skips reminders that are already present', async () => {
+      const report = await restoreExport(client, source);
+
+      expect(report.lists.created).toEqual([]);
+      expect(report.reminders.created).toBe(0);
+      expect(report.reminders.skipped.length).toBe(3);
+    });
+  });
+
+  test('dry run reports the plan without writing', async () => {
+    const client = await MCPClient.create();
+    const report = await restoreExport(client, source, {dryRun: true});
+    const after = await exportFrom(client, dir);
+    await client.cleanup();
+
+    expect(report.lists.created).toEqual(['Work', 'Home']);
+    expect(report.reminders.created).toBe(3);
+    expect(report.idMap).toEqual({});
+    expect(after.lists.map((l) => l.name)).toEqual(['Reminders']);
+    expect(after.reminders).toEqual([]);
+  });
+
+  test('list filter restores only the named lists', async () => {
+    const client = await MCPClient.create();
+    const report = await restoreExport(client, source, {lists: ['home']});
+    const after = await exportFrom(client, dir);
+    await client.cleanup();
+
+    expect(report.lists.created).toEqual(['Home']);
+    expect(after.reminders.map((r) => r.title)).toEqual(['Water plants']);
+  });
+
+  test('a reminder that cannot be completed is reported as failed', async () => {
+    const oldTask = source.reminders.find((r) => r.title === 'Old task')!;
+    const client = await MCPClient.create();
+    const report = await restoreExport(client, {
+      ...source,
+      reminders: source.reminders.map((r) =>
+        r === oldTask ? {...r, completionDate: 'yesterday'} : r,
+      ),
+    });
+    const after = await exportFrom(client, dir);
+    await client.cleanup();
+
+    const newId = report.idMap[oldTask.id];
+    expect(report.reminders.created).toBe(2);
+    expect(report.reminders.failed).toEqual([
+      {
+        id: oldTask.id,
+        title: 'Old task',
+        error: expect.stringContaining(
+          `Restored as ${newId} but not completed:`,
+        ),
+      },
+    ]);
+    expect(after.reminders.find((r) => r.id === newId)?.isCompleted).toBe(
+      false,
+    );
+  });
+
+  test('test mode restores into prefixed lists the server accepts', async () => {
+    const client = await MCPClient.create({testMode: true});
+    const report = await restoreExport(client, source, {
+      testMode: true,
+      lists: ['Work'],
+    });
+    await client.cleanup();
+
+    expect(report.lists.created).toEqual([targetListName('Work', true)]);
+    expect(report.lists.created[0]).toBe('[AR-MCP TEST] - Work');
+    expect(report.reminders.created).toBe(2);
+    expect(report.reminders.failed).toEqual([]);
+  });
+
+  test('a test-mode rehearsal restores beside the originals', async () => {
+    const client = await MCPClient.create();
+    await client.tools.createList({name: 'Work'});
+    await client.tools.createReminders({
+      reminders: [{title: 'Still here', list: {name: 'Work'}}],
+    });
+    const live = await exportFrom(client, dir);
+    const report = await restoreExport(client, live, {
+      testMode: true,
+      lists: ['Work'],
+    });
+    const rehearsed = await restoreExport(client, live, {
+      testMode: true,
+      lists: ['Work'],
+    });
+    await client.cleanup();
+
+    expect(report.lists.created).toEqual(['[AR-MCP TEST] - Work']);
+    expect(report.reminders.created).toBe(1);
+    expect(report.reminders.skipped).toEqual([]);
+    // The copy is in the test list now, so it is found there
+    expect(rehearsed.reminders.skipped.map((r) => r.title)).toEqual([
+      'Still here',
+    ]);
+  });
+});
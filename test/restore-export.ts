@@ -0,0 +1,403 @@
+#!/usr/bin/env bun
+
+/**
+ * Restore reminders from an export_reminders file through the MCP tools.
+ * Missing lists are created with create_list and reminders with
+ * create_reminders (keeping notes, due date, priority, url, alarms and
+ * recurrence); completed reminders are then marked complete with
+ * update_reminders. Prints a mapping from exported IDs to new IDs; a
+ * reminder that couldn't be marked complete is reported as failed.
+ *
+ * Reminders that already exist in the target list are skipped: same ID,
+ * or same title and due date.
+ *
+ * Usage: bun test/restore-export.ts <export.json> [options]
+ *   --dry-run            Show what would be restored without writing
+ *   --list <name|id>     Only restore this list (repeatable)
+ *   --allow-duplicates   Restore reminders even if they already exist
+ *   --test-mode          Restore into '[AR-MCP TEST] - <name>' lists with
+ *                        AR_MCP_TEST_MODE=1 (default when that env var is set)
+ *   --mock               Restore into an in-memory server (rehearsal)
+ *   --id-map <path>      Write the old → new ID mapping as JSON
+ *   --json               Print the report as JSON
+ */
+
+import {existsSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {randomUUID} from 'crypto';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import type {ExportData, ReminderListOutput} from './reference-models';
+import type {EncodedReminder} from './tool-results';
+import type {
+  CreateRemindersArgs,
+  UpdateRemindersArgs,
+} from './tool-types.generated';
+
+/** create_reminders batch size */
+const BATCH_SIZE = 50;
+
+type ReminderInput = CreateRemindersArgs['reminders'][number];
+
+export interface RestoreOptions {
+  dryRun?: boolean;
+  /** Restore only these lists, by name (case-insensitive) or ID */
+  lists?: string[];
+  /** Skip reminders that already exist. Default: true */
+  skipExisting?: boolean;
+  /** Prefix every list name with the test list prefix */
+  testMode?: boolean;
+}
+
+export interface RestoreReport {
+  dryRun: boolean;
+  lists: {created: string[]; existing: string[]};
+  reminders: {
+    created: number;
+    skipped: Array<{id: string; title: string; reason: string}>;
+    failed: Array<{id: string; title: string; error: string}>;
+  };
+  /** Exported reminder ID → restored reminder ID */
+  idMap: Record<string, string>;
+}
+
+/** The list name to restore into, prefixed in test mode. */
+export function targetListName(name: string, testMode: boolean): string {
+  const prefix = MCPClient.getTestListPrefix();
+  if (!testMode || name.startsWith(prefix)) return name;
+  return `${prefix} - ${name}`;
+}
+
+/** Export fields → create_reminders input. Only the first recurrence rule can be restored. */
+export function toCreateInput(
+  reminder: EncodedReminder,
+  listName: string,
+): ReminderInput {
+  const input: ReminderInput = {
+    title: reminder.title,
+    list: {name: listName},
+    priority: reminder.priority,
+  };
+  if (reminder.notes !== undefined && reminder.notes !== null) {
+    input.notes = reminder.notes;
+  }
+  if (reminder.dueDate) {
+    input.dueDate = reminder.dueDate;
+    input.dueDateIncludesTime = reminder.dueDateIncludesTime ?? true;
+  }
+  if (reminder.url) input.url = reminder.url;
+  if (reminder.alarms?.length) input.alarms = reminder.alarms;
+  if (reminder.recurrenceRules?.length) {
+    input.recurrenceRule = reminder.recurrenceRules[0];
+  }
+  return input;
+}
+
+function presenceKey(listName: string, title: string, dueDate?: string | null) {
+  return JSON.stringify([listName.toLowerCase(), title, dueDate ?? null]);
+}
+
+/** Current server state, read through export_reminders (no result limit). */
+export async function readCurrentState(client: MCPClient): Promise<ExportData> {
+  const path = join(tmpdir(), `restore-current-${randomUUID()}.json`);
+  try {
+    await client.tools.exportReminders({path});
+    return JSON.parse(readFileSync(path, 'utf8')) as ExportData;
+  } finally {
+    if (existsSync(path)) rmSync(path);
+  }
+}
+
+export async function restoreExport(
+  client: MCPClient,
+  data: ExportData,
+  options: RestoreOptions = {},
+): Promise<RestoreReport> {
+  const {dryRun = false, skipExisting = true, testMode = false} = options;
+  const report: RestoreReport = {
+    dryRun,
+    lists: {created: [], existing: []},
+    reminders: {created: 0, skipped: [], failed: []},
+    idMap: {},
+  };
+
+  const filters = options.lists?.map((f) => f.toLowerCase());
+  const lists = data.lists.filter(
+    (list) =>
+      !filters ||
+      filters.includes(list.name.toLowerCase()) ||
+      filters.includes(list.id.toLowerCase()),
+  );
+
+  const current = await readCurrentState(client);
+  const currentListNames = new Set(
+    current.lists.map((l) => l.name.toLowerCase()),
+  );
+  // By ID only within the target list: in test mode the originals live elsewhere
+  const currentIds = new Set(
+    current.reminders.map((r) => presenceKey(r.listName, r.id)),
+  );
+  const present = new Set(
+    current.reminders.map((r) => presenceKey(r.listName, r.title, r.dueDate)),
+  );
+
+  for (const list of lists) {
+    const listName = targetListName(list.name, testMode);
+    await restoreList(client, data, list, listName, {
+      dryRun,
+      listExists: currentListNames.has(listName.toLowerCase()),
+      isPresent: (r) =>
+        skipExisting &&
+        (currentIds.has(presenceKey(listName, r.id)) ||
+          present.has(presenceKey(listName, r.title, r.dueDate))),
+      report,
+    });
+  }
+
+  return report;
+}
+
+async function restoreList(
+  client: MCPClient,
+  data: ExportData,
+  list: ReminderListOutput,
+  listName: string,
+  context: {
+    dryRun: boolean;
+    listExists: boolean;
+    isPresent: (reminder: EncodedReminder) => boolean;
+    report: RestoreReport;
+  },
+): Promise<void> {
+  const {dryRun, report} = context;
+
+  if (context.listExists) {
+    report.lists.existing.push(listName);
+  } else {
+    if (!dryRun) await client.tools.createList({name: listName});
+    report.lists.created.push(listName);
+  }
+
+  const pending: EncodedReminder[] = [];
+  for (const reminder of data.reminders) {
+    if (reminder.listId !== list.id) continue;
+    if (context.isPresent(reminder)) {
+      report.reminders.skipped.push({
+        id: reminder.id,
+        title: reminder.title,
+        reason: 'already present',
+      });
+    } else {
+      pending.push(reminder);
+    }
+  }
+
+  if (dryRun) {
+    report.reminders.created += pending.length;
+    return;
+  }
+
+  for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+    await createBatch(
+      client,
+      pending.slice(start, start + BATCH_SIZE),
+      listName,
+      report,
+    );
+  }
+}
+
+async function createBatch(
+  client: MCPClient,
+  batch: EncodedReminder[],
+  listName: string,
+  report: RestoreReport,
+): Promise<void> {
+  let result;
+  try {
+    result = await client.tools.createReminders({
+      reminders: batch.map((r) => toCreateInput(r, listName)),
+    });
+  } catch (error) {
+    for (const reminder of batch) {
+      report.reminders.failed.push({
+        id: reminder.id,
+        title: reminder.title,
+        error: (error as Error).message,
+      });
+    }
+    return;
+  }
+
+  // {created, failed} on partial failure; created keeps input order
+  const created = Array.isArray(result) ? result : result.created;
+  const failedByIndex = new Map(
+    (Array.isArray(result) ? [] : result.failed).map((f) => [f.index, f.error]),
+  );
+
+  const completions: UpdateRemindersArgs['reminders'] = [];
+  let next = 0;
+  batch.forEach((reminder, index) => {
+    const error = failedByIndex.get(index);
+    if (error !== undefined) {
+      report.reminders.failed.push({
+        id: reminder.id,
+        title: reminder.title,
+        error,
+      });
+      return;
+    }
+
+    const newId = created[next++].id;
+    report.idMap[reminder.id] = newId;
+    report.reminders.created++;
+    if (reminder.isCompleted) {
+      completions.push(
+        reminder.completionDate
+          ? {id: newId, completedDate: reminder.completionDate}
+          : {id: newId, completed: true},
+      );
+    }
+  });
+
+  if (completions.length > 0) {
+    await completeBatch(client, batch, completions, report);
+  }
+}
+
+/**
+ * Marks restored reminders completed. A reminder that stays open moves from
+ * created to failed; its idMap entry stays, since it was created.
+ */
+async function completeBatch(
+  client: MCPClient,
+  batch: EncodedReminder[],
+  completions: UpdateRemindersArgs['reminders'],
+  report: RestoreReport,
+): Promise<void> {
+  let failed: Array<{id: string; error: string}>;
+  try {
+    const result = await client.tools.updateReminders({
+      reminders: completions,
+    });
+    failed = Array.isArray(result) ? [] : result.failed;
+  } catch (error) {
+    failed = completions.map(({id}) => ({id, error: (error as Error).message}));
+  }
+
+  for (const {id: newId, error} of failed) {
+    const reminder = batch.find((r) => report.idMap[r.id] === newId);
+    if (!reminder) continue;
+    report.reminders.created--;
+    report.reminders.failed.push({
+      id: reminder.id,
+      title: reminder.title,
+      error: `Restored as ${newId} but not completed: ${error}`,
+    });
+  }
+}
+
+export function formatReport(report: RestoreReport): string {
+  const verb = report.dryRun ? 'Would create' : 'Created';
+  const lines = [
+    report.dryRun ? 'Dry run: nothing was written.\n' : '',
+    `${verb} ${report.lists.created.length} list(s)`,
+    ...report.lists.created.map((name) => `  + ${name}`),
+    `Using ${report.lists.existing.length} existing list(s)`,
+    ...report.lists.existing.map((name) => `  = ${name}`),
+    `${verb} ${report.reminders.created} reminder(s)`,
+    `Skipped ${report.reminders.skipped.length} reminder(s) already present`,
+  ];
+  if (report.reminders.failed.length > 0) {
+    lines.push(`Failed ${report.reminders.failed.length} reminder(s):`);
+    for (const f of report.reminders.failed) {
+      lines.push(`  ! ${f.title} (${f.id}): ${f.error}`);
+    }
+  }
+  return lines.filter((line) => line !== '').join('\n');
+}
+
+function parseArgs(argv: string[]) {
+  const options: RestoreOptions & {
+    path?: string;
+    mock: boolean;
+    json: boolean;
+    idMapPath?: string;
+  } = {
+    mock: false,
+    json: false,
+    testMode: process.env.AR_MCP_TEST_MODE === '1',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--list':
+        options.lists = [...(options.lists ?? []), argv[++i]];
+        break;
+      case '--allow-duplicates':
+        options.skipExisting = false;
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--id-map':
+        options.idMapPath = argv[++i];
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (arg.startsWith('--') || options.path) {
+          throw new Error(`Unexpected argument: ${arg}`);
+        }
+        options.path = arg;
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (!options.path) throw new Error('Missing export file');
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error('Usage: bun test/restore-export.ts <export.json> [options]');
+    process.exit(2);
+  }
+
+  const data = loadExport(options.path);
+  const client = await MCPClient.create({
+    mockMode: options.mock,
+    testMode: options.testMode,
+  });
+
+  try {
+    const report = await restoreExport(client, data, options);
+    if (options.idMapPath) {
+      writeFileSync(options.idMapPath, JSON.stringify(report.idMap, null, 2));
+    }
+    console.log(
+      options.json ? JSON.stringify(report, null, 2) : formatReport(report),
+    );
+    if (report.reminders.failed.length > 0) process.exitCode = 1;
+  } finally {
+    await client.cleanup();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('Restore failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Tests for rrule.ts: fixed conversions both ways, errors for what the
+ * server can't represent, seeded round-trip properties, and rules read
+ * back from the server converting to the RRULE they were created from.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {MCPClient} from './mcp-client';
+import {Random} from './properties';
+import {
+  type RecurrenceFrequency,
+  type RecurrenceRuleOutput,
+  toISO8601WithTimezone,
+} from './reference-models';
+import {recurrenceToRRule, RRuleError, rruleToRecurrence} from './rrule';
+import type {QueriedReminder} from './tool-results';
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+];
+const POSITIONS = [1, 2, 3, 4, 5, -1, -2, -3, -4];
+
+/** A valid rule in recurrenceRules form: interval always set, no empty fields */
+function randomRule(random: Random): RecurrenceRuleOutput {
+  const frequency = random.pick(FREQUENCIES);
+  const rule: RecurrenceRuleOutput = {
+    frequency,
+    interval: random.chance(0.5) ? 1 : random.int(2, 12),
+  };
+  const days = [1, 2, 3, 4, 5, 6, 7];
+  if (random.chance(0.5)) {
+    rule.daysOfWeek = random.sample(days, random.int(1, 7));
+    if (
+      (frequency === 'monthly' || frequency === 'yearly') &&
+      random.chance(0.5)
+    ) {
+      rule.weekPosition = random.pick(POSITIONS);
+    }
+  }
+  if (random.chance(0.3)) {
+    rule.daysOfMonth = Array.from({length: random.int(1, 3)}, () =>
+      random.chance(0.2) ? -random.int(1, 31) : random.int(1, 31),
+    );
+  }
+  if (random.chance(0.3)) {
+    rule.monthsOfYear = random.sample(
+      Array.from({length: 12}, (_, i) => i + 1),
+      random.int(1, 4),
+    );
+  }
+  if (random.chance(0.3)) {
+    const seconds = Date.UTC(2026, 0, 1) / 1000 + random.int(0, 3e8);
+    rule.endDate = toISO8601WithTimezone(new Date(seconds * 1000));
+  } else if (random.chance(0.3)) {
+    rule.endCount = random.int(1, 500);
+  }
+  return rule;
+}
+
+describe('RRULE conversion', () => {
+  test('the request example, both ways', () => {
+    const rule = rruleToRecurrence(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10',
+    );
+    expect(rule).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      daysOfWeek: [2, 4],
+      endCount: 10,
+    });
+    expect(recurrenceToRRule(rule)).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10',
+    );
+  });
+
+  test('every field the schema accepts', () => {
+    expect(
+      recurrenceToRRule({
+        frequency: 'yearly',
+        interval: 1,
+        daysOfWeek: [1],
+        weekPosition: -1,
+        monthsOfYear: [3, 10],
+        endDate: '2030-01-01T00:00:00Z',
+      }),
+    ).toBe('FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3,10;UNTIL=20300101T000000Z');
+    // Input form: interval optional, weekPosition 0 means none
+    expect(
+      recurrenceToRRule({
+        frequency: 'monthly',
+        daysOfMonth: [1, 15, -1],
+        weekPosition: 0,
+      }),
+    ).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15,-1');
+
+    expect(
+      rruleToRecurrence('RRULE:freq=monthly;byday=2tu;until=20301231T230000Z'),
+    ).toEqual({
+      frequency: 'monthly',
+      interval: 1,
+      daysOfWeek: [3],
+      weekPosition: 2,
+      endDate: toISO8601WithTimezone(new Date('2030-12-31T23:00:00Z')),
+    });
+    // A single day with BYSETPOS is the same as a BYDAY position
+    expect(rruleToRecurrence('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1')).toEqual(
+      rruleToRecurrence('FREQ=MONTHLY;BYDAY=-1FR'),
+    );
+    // An UNTIL date runs through the end of that day
+    expect(rruleToRecurrence('FREQ=DAILY;UNTIL=20301231').endDate).toBe(
+      toISO8601WithTimezone(new Date(2030, 11, 31, 23, 59, 59)),
+    );
+    expect(rruleToRecurrence('FREQ=WEEKLY;BYDAY=MO,FR;WKST=MO')).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      daysOfWeek: [2, 6],
+    });
+  });
+
+  test('errors for what the server cannot represent', () => {
+    const fails = (text: string, message: string) =>
+      expect(() => rruleToRecurrence(text)).toThrow(new RRuleError(message));
+
+    fails('FREQ=HOURLY', "Unsupported RRULE FREQ 'HOURLY'");
+    fails('FREQ=DAILY;BYHOUR=9', "Unsupported RRULE part 'BYHOUR'");
+    fails('FREQ=DAILY;BYMINUTE=30', "Unsupported RRULE part 'BYMINUTE'");
+    fails('FREQ=YEARLY;BYWEEKNO=20', "Unsupported RRULE part 'BYWEEKNO'");
+    fails(
+      'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      'BYSETPOS is only supported with a single BYDAY day (EventKit applies positions per day)',
+    );
+    fails(
+      'FREQ=MONTHLY;BYDAY=1MO,-1FR',
+      "BYDAY with different positions per day is not supported: '1MO,-1FR'",
+    );
+    fails(
+      'FREQ=WEEKLY;BYDAY=1MO',
+      'BYDAY positions need FREQ=MONTHLY or YEARLY, not WEEKLY',
+    );
+    fails(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=MO',
+      "WKST=MO is not supported here; the server's weeks start on Sunday",
+    );
+    fails(
+      'FREQ=DAILY;COUNT=3;UNTIL=20301231',
+      "endDate and endCount cannot both be set in RRULE 'FREQ=DAILY;COUNT=3;UNTIL=20301231'",
+    );
+    fails(
+      'FREQ=MONTHLY;BYDAY=5MO;BYMONTHDAY=32',
+      "Invalid daysOfMonth 32 in RRULE 'FREQ=MONTHLY;BYDAY=5MO;BYMONTHDAY=32'",
+    );
+    fails(
+      'FREQ=DAILY;INTERVAL=0',
+      "Invalid interval 0 in RRULE 'FREQ=DAILY;INTERVAL=0'",
+    );
+    fails('FREQ=DAILY;FREQ=WEEKLY', "RRULE part 'FREQ' given more than once");
+    fails('INTERVAL=2', 'RRULE without FREQ');
+    fails('FREQ=DAILY;;COUNT=2', "Malformed RRULE part ''");
+    fails('FREQ=DAILY;UNTIL=tomorrow', "Invalid UNTIL value 'tomorrow'");
+
+    expect(() =>
+      recurrenceToRRule({frequency: 'monthly', weekPosition: -1}),
+    ).toThrow(new RRuleError('weekPosition needs daysOfWeek'));
+    expect(() =>
+      recurrenceToRRule({frequency: 'fortnightly' as RecurrenceFrequency}),
+    ).toThrow(new RRuleError("Unsupported frequency 'fortnightly'"));
+  });
+
+  test('round trips hold for generated rules', () => {
+    const random = new Random(2026);
+    for (let i = 0; i < 500; i++) {
+      const rule = randomRule(random);
+      const text = recurrenceToRRule(rule);
+      expect(rruleToRecurrence(text)).toEqual(rule);
+      expect(recurrenceToRRule(rruleToRecurrence(`RRULE:${text}`))).toBe(text);
+
+      // Part order and case don't matter
+      const shuffled = random
+        .sample(text.split(';'), text.split(';').length)
+        .map((part) => (random.chance(0.5) ? part.toLowerCase() : part))
+        .join(';');
+      expect(rruleToRecurrence(shuffled)).toEqual(rule);
+    }
+  });
+});
+
+describe('RRULE rules through the server', () => {
+  let client: MCPClient;
+  let listName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    listName = await client.createTestList();
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('stored rules convert back to the RRULE they came from', async () => {
+    const rrules = [
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10',
+      'FREQ=MONTHLY;BYDAY=-1FR',
+      'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1,-1',
+      'FREQ=YEARLY;BYDAY=2SU;BYMONTH=5;UNTIL=20310101T120000Z',
+      'FREQ=DAILY',
+    ];
+    await client.tools.createReminders({
+      reminders: rrules.map((rrule, i) => ({
+        title: `RRULE ${i}`,
+        list: {name: listName},
+        dueDate: '2026-06-15T09:00:00Z',
+        recurrenceRule: rruleToRecurrence(rrule),
+      })),
+    });
+
+    const stored = await client.tools.queryReminders<QueriedReminder[]>({
+      list: {name: listName},
+      outputDetail: 'full',
+    });
+    for (const [i, rrule] of rrules.entries()) {
+      const reminder = stored.find((r) => r.title === `RRULE ${i}`)!;
+      expect(reminder.recurrenceRules).toHaveLength(1);
+      expect(recurrenceToRRule(reminder.recurrenceRules![0])).toBe(rrule);
+    }
+  });
+});
@@ -0,0 +1,329 @@
+#!/usr/bin/env bun
+
+/**
+ * RFC 5545 RRULE text ⇄ the server's recurrence rules: the recurrenceRule
+ * input of create_reminders / update_reminders and the recurrenceRules
+ * output of query_reminders.
+ *
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10
+ *     ⇄ {frequency: 'weekly', interval: 2, daysOfWeek: [2, 4], endCount: 10}
+ *
+ *   FREQ        frequency (DAILY, WEEKLY, MONTHLY, YEARLY)
+ *   INTERVAL    interval
+ *   BYDAY       daysOfWeek (SU=1 ... SA=7); a position prefix (-1MO, 2TU)
+ *               is weekPosition and must be the same on every day, since
+ *               the server keeps one position for all of them
+ *   BYMONTHDAY  daysOfMonth
+ *   BYMONTH     monthsOfYear
+ *   UNTIL       endDate (a DATE value means through the end of that day)
+ *   COUNT       endCount
+ *
+ * BYSETPOS is accepted only with a single BYDAY day, where it means the
+ * same as a BYDAY position; EventKit applies the position to each day, so
+ * "the last weekday" (BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1) has no equivalent.
+ * WKST is accepted where the week start can't change the result. Every
+ * other part (BYHOUR, BYMINUTE, BYSECOND, BYYEARDAY, BYWEEKNO, ...) and
+ * every other FREQ is an RRuleError.
+ *
+ * Usage:
+ *   bun test/rrule.ts <rrule>             Print the recurrenceRule as JSON
+ *   bun test/rrule.ts --from-json <json>  Print the RRULE for a rule
+ */
+
+import type {RecurrenceRule} from './recurrence';
+import {
+  fromISO8601,
+  type RecurrenceFrequency,
+  type RecurrenceRuleOutput,
+  toISO8601UTC,
+  toISO8601WithTimezone,
+} from './reference-models';
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RRuleError';
+  }
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+];
+
+/** What the server accepts for weekPosition, besides 0 (none) */
+function isWeekPosition(value: number): boolean {
+  return (value >= 1 && value <= 5) || (value >= -4 && value <= -1);
+}
+
+function checkRule(rule: RecurrenceRule): void {
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    throw new RRuleError(`Unsupported frequency '${rule.frequency}'`);
+  }
+  const {interval = 1, weekPosition = 0} = rule;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RRuleError(`Invalid interval ${interval}`);
+  }
+  const check = (
+    field: string,
+    values: number[] | undefined,
+    ok: (n: number) => boolean,
+  ) => {
+    const bad = values?.find((n) => !Number.isInteger(n) || !ok(n));
+    if (bad !== undefined) throw new RRuleError(`Invalid ${field} ${bad}`);
+  };
+  check('daysOfWeek', rule.daysOfWeek, (n) => n >= 1 && n <= 7);
+  check('daysOfMonth', rule.daysOfMonth, (n) => n !== 0 && Math.abs(n) <= 31);
+  check('monthsOfYear', rule.monthsOfYear, (n) => n >= 1 && n <= 12);
+  if (weekPosition !== 0) {
+    if (!isWeekPosition(weekPosition)) {
+      throw new RRuleError(`Invalid weekPosition ${weekPosition}`);
+    }
+    if (!rule.daysOfWeek?.length) {
+      throw new RRuleError('weekPosition needs daysOfWeek');
+    }
+  }
+  if (rule.endDate !== undefined && rule.endCount !== undefined) {
+    throw new RRuleError('endDate and endCount cannot both be set');
+  }
+  if (
+    rule.endCount !== undefined &&
+    (!Number.isInteger(rule.endCount) || rule.endCount < 1)
+  ) {
+    throw new RRuleError(`Invalid endCount ${rule.endCount}`);
+  }
+  if (rule.endDate !== undefined && !fromISO8601(rule.endDate)) {
+    throw new RRuleError(`Invalid endDate '${rule.endDate}'`);
+  }
+}
+
+/** A recurrenceRule (input, interval optional) or recurrenceRules entry as RRULE text, without the `RRULE:` prefix. */
+export function recurrenceToRRule(rule: RecurrenceRule): string {
+  checkRule(rule);
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if ((rule.interval ?? 1) !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.daysOfWeek?.length) {
+    const position = rule.weekPosition || '';
+    parts.push(
+      `BYDAY=${rule.daysOfWeek.map((d) => `${position}${WEEKDAYS[d - 1]}`).join(',')}`,
+    );
+  }
+  if (rule.daysOfMonth?.length) {
+    parts.push(`BYMONTHDAY=${rule.daysOfMonth.join(',')}`);
+  }
+  if (rule.monthsOfYear?.length) {
+    parts.push(`BYMONTH=${rule.monthsOfYear.join(',')}`);
+  }
+  if (rule.endDate) {
+    const until = toISO8601UTC(fromISO8601(rule.endDate)!);
+    parts.push(`UNTIL=${until.replace(/[-:]/g, '')}`);
+  }
+  if (rule.endCount !== undefined) parts.push(`COUNT=${rule.endCount}`);
+  return parts.join(';');
+}
+
+function intList(value: string, part: string): number[] {
+  return value.split(',').map((item) => {
+    if (!/^[+-]?\d+$/.test(item)) {
+      throw new RRuleError(`Invalid ${part} value '${item}'`);
+    }
+    return Number(item);
+  });
+}
+
+function single(value: string, part: string): number {
+  const values = intList(value, part);
+  if (values.length !== 1) {
+    throw new RRuleError(`${part} takes one value, got '${value}'`);
+  }
+  return values[0];
+}
+
+/**
+ * UNTIL: `20261231T235959Z` (UTC), `20261231T235959` (local) or `20261231`
+ * (through the end of that local day).
+ */
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(
+    value,
+  );
+  if (!match) throw new RRuleError(`Invalid UNTIL value '${value}'`);
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const [year, month, day] = [y, mo, d].map(Number);
+  const date =
+    h === undefined
+      ? new Date(year, month - 1, day, 23, 59, 59)
+      : utc
+        ? new Date(Date.UTC(year, month - 1, day, +h, +mi, +s))
+        : new Date(year, month - 1, day, +h, +mi, +s);
+  if ((utc ? date.getUTCDate() : date.getDate()) !== day) {
+    throw new RRuleError(`Invalid UNTIL value '${value}'`);
+  }
+  return date;
+}
+
+/**
+ * Parses RRULE text (with or without the `RRULE:` prefix) into a
+ * recurrenceRules-shaped rule, which create_reminders also accepts as its
+ * recurrenceRule. Throws RRuleError for parts the server can't represent.
+ */
+export function rruleToRecurrence(value: string): RecurrenceRuleOutput {
+  const text = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of text.split(';')) {
+    const [key, val, ...extra] = part.split('=');
+    const name = key.toUpperCase();
+    if (!name || val === undefined || val === '' || extra.length > 0) {
+      throw new RRuleError(`Malformed RRULE part '${part}'`);
+    }
+    if (parts.has(name)) {
+      throw new RRuleError(`RRULE part '${name}' given more than once`);
+    }
+    parts.set(name, val);
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq === undefined) throw new RRuleError('RRULE without FREQ');
+  const frequency = freq.toLowerCase() as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) {
+    throw new RRuleError(`Unsupported RRULE FREQ '${freq}'`);
+  }
+
+  const rule: RecurrenceRuleOutput = {frequency, interval: 1};
+  let setPosition: number | undefined;
+  let weekStart: string | undefined;
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = single(val, key);
+        break;
+      case 'BYDAY': {
+        const positions = new Set<number>();
+        rule.daysOfWeek = val.split(',').map((item) => {
+          const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(item.toUpperCase());
+          const day = match ? WEEKDAYS.indexOf(match[2]) : -1;
+          if (!match || day === -1) {
+            throw new RRuleError(`Invalid BYDAY value '${item}'`);
+          }
+          positions.add(Number(match[1] ?? 0));
+          return day + 1;
+        });
+        if (positions.size > 1) {
+          throw new RRuleError(
+            `BYDAY with different positions per day is not supported: '${val}'`,
+          );
+        }
+        const [position] = positions;
+        if (position !== 0) rule.weekPosition = position;
+        break;
+      }
+      case 'BYSETPOS':
+        setPosition = single(val, key);
+        break;
+      case 'BYMONTHDAY':
+        rule.daysOfMonth = intList(val, key);
+        break;
+      case 'BYMONTH':
+        rule.monthsOfYear = intList(val, key);
+        break;
+      case 'UNTIL':
+        rule.endDate = toISO8601WithTimezone(parseUntil(val));
+        break;
+      case 'COUNT':
+        rule.endCount = single(val, key);
+        break;
+      case 'WKST':
+        weekStart = val.toUpperCase();
+        if (!WEEKDAYS.includes(weekStart)) {
+          throw new RRuleError(`Invalid WKST value '${val}'`);
+        }
+        break;
+      default:
+        throw new RRuleError(`Unsupported RRULE part '${key}'`);
+    }
+  }
+
+  if (setPosition !== undefined) {
+    if (rule.daysOfWeek?.length !== 1 || rule.weekPosition !== undefined) {
+      throw new RRuleError(
+        'BYSETPOS is only supported with a single BYDAY day (EventKit applies positions per day)',
+      );
+    }
+    rule.weekPosition = setPosition;
+  }
+  if (
+    rule.weekPosition !== undefined &&
+    rule.frequency !== 'monthly' &&
+    rule.frequency !== 'yearly'
+  ) {
+    throw new RRuleError(
+      `BYDAY positions need FREQ=MONTHLY or YEARLY, not ${freq.toUpperCase()}`,
+    );
+  }
+  // Weeks only matter when a multi-week interval spans several days
+  if (
+    weekStart !== undefined &&
+    weekStart !== 'SU' &&
+    rule.frequency === 'weekly' &&
+    rule.interval > 1 &&
+    (rule.daysOfWeek?.length ?? 0) > 1
+  ) {
+    throw new RRuleError(
+      `WKST=${weekStart} is not supported here; the server's weeks start on Sunday`,
+    );
+  }
+
+  try {
+    checkRule(rule);
+  } catch (error) {
+    if (!(error instanceof RRuleError)) throw error;
+    throw new RRuleError(`${error.message} in RRULE '${text}'`);
+  }
+  return rule;
+}
+
+function parseArgs(args: string[]) {
+  if (args[0] === '--from-json' && args.length === 2) {
+    return {fromJson: true, value: args[1]};
+  }
+  if (args.length === 1 && !args[0].startsWith('--')) {
+    return {fromJson: false, value: args[0]};
+  }
+  throw new Error('Expected an RRULE, or --from-json and a rule');
+}
+
+function main(): void {
+  let options: ReturnType<typeof parseArgs>;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error('Usage: bun test/rrule.ts <rrule>');
+    console.error('       bun test/rrule.ts --from-json <json>');
+    process.exit(2);
+  }
+
+  try {
+    console.log(
+      options.fromJson
+        ? recurrenceToRRule(JSON.parse(options.value) as RecurrenceRule)
+        : JSON.stringify(rruleToRecurrence(options.value), null, 2),
+    );
+  } catch (error) {
+    if (!(error instanceof RRuleError) && !(error instanceof SyntaxError)) {
+      throw error;
+    }
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,212 @@
+/**
+ * Tests for safety-snapshot.ts: which batches are snapshotted, the snapshot
+ * the audit proxy writes before them, and listing/pruning by age.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {readAuditLog} from './audit-proxy';
+import {loadExport} from './diff-exports';
+import {MCPClient} from './mcp-client';
+import {
+  destructiveIds,
+  listSnapshots,
+  parseAge,
+  pruneSnapshots,
+  snapshotPath,
+  snapshotReason,
+} from './safety-snapshot';
+import type {EncodedReminder} from './tool-results';
+
+const PROXY_PATH = `${import.meta.dir}/audit-proxy.ts`;
+const SERVER_PATH = `${import.meta.dir}/reference-server.ts`;
+
+describe('Safety snapshots', () => {
+  let client: MCPClient;
+  let dir: string;
+  let snapshotDir: string;
+  let logPath: string;
+  let listName: string;
+  let otherList: string;
+
+  const createIn = async (list: string, titles: string[]) =>
+    (
+      (await client.tools.createReminders({
+        reminders: titles.map((title) => ({title, list: {name: list}})),
+      })) as EncodedReminder[]
+    ).map((r) => r.id);
+
+  /** Raw tools/call response, to see every content block */
+  const rawCall = async (name: string, args: object) =>
+    (await client.sendRequest('tools/call', {name, arguments: args})).result!;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'safety-snapshot-'));
+    snapshotDir = join(dir, 'snapshots');
+    logPath = join(dir, 'audit.jsonl');
+    client = await MCPClient.create({
+      command: [
+        process.execPath,
+        PROXY_PATH,
+        '--log',
+        logPath,
+        '--snapshot-dir',
+        snapshotDir,
+        '--snapshot-threshold',
+        '2',
+        '--snapshot-keep',
+        '3',
+        '--',
+        process.execPath,
+        SERVER_PATH,
+      ],
+    });
+    listName = await client.createTestList();
+    otherList = `${listName} (other)`;
+    await client.tools.createList({name: otherList});
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('counts deletions and completions as destructive', () => {
+    expect(destructiveIds('delete_reminders', {ids: ['a', 'b']})).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(
+      destructiveIds('update_reminders', {
+        reminders: [
+          {id: 'a', completed: true},
+          {id: 'b', completed: false},
+          {id: 'c', completedDate: '2026-10-01T09:00:00Z'},
+          {id: 'd', title: 'renamed'},
+        ],
+      }),
+    ).toEqual(['a', 'c']);
+
+    const before = {
+      a: {listId: 'L1'} as EncodedReminder,
+      b: {listId: 'L2'} as EncodedReminder,
+      c: null,
+    };
+    expect(snapshotReason(['a', 'c'], before, 10)).toBeNull();
+    expect(snapshotReason(['a', 'b'], before, 10)).toBe('2 lists');
+    expect(snapshotReason(['a', 'c', 'x'], before, 2)).toBe(
+      '3 reminders (threshold 2)',
+    );
+  });
+
+  test('snapshots a large delete and adds the path to the result', async () => {
+    const ids = await createIn(listName, ['One', 'Two', 'Three']);
+
+    const result = await rawCall('delete_reminders', {ids});
+
+    expect(JSON.parse(result.content![0].text).deleted).toEqual(ids);
+    const note = result.content![1].text;
+    const path = /saved before this call: (\S+)/.exec(note)![1];
+    expect(path.startsWith(snapshotDir)).toBe(true);
+    expect(note).toContain(`bun run export:restore ${path}`);
+    expect(note).toContain(
+      `use undo_operation with operationId ${readAuditLog(logPath).at(-1)!.operationId}`,
+    );
+
+    // The snapshot holds the reminders as they were, for the affected list only
+    const snapshot = loadExport(path);
+    expect(snapshot.lists.map((l) => l.name)).toEqual([listName]);
+    expect(snapshot.reminders.map((r) => r.id).sort()).toEqual([...ids].sort());
+    expect(readAuditLog(logPath).at(-1)!.snapshot).toBe(path);
+  });
+
+  test('snapshots completions that span lists', async () => {
+    const [a] = await createIn(listName, ['Here']);
+    const [b] = await createIn(otherList, ['There']);
+
+    const result = await rawCall('update_reminders', {
+      reminders: [
+        {id: a, completed: true},
+        {id: b, completed: true},
+      ],
+    });
+
+    expect(result.content).toHaveLength(2);
+    const path = readAuditLog(logPath).at(-1)!.snapshot!;
+    const snapshot = loadExport(path);
+    expect(snapshot.lists.map((l) => l.name).sort()).toEqual(
+      [listName, otherList].sort(),
+    );
+    expect(
+      snapshot.reminders.filter((r) => r.id === a || r.id === b),
+    ).toMatchObject([{isCompleted: false}, {isCompleted: false}]);
+  });
+
+  test('leaves small single-list batches alone', async () => {
+    const count = listSnapshots(snapshotDir).length;
+    const ids = await createIn(listName, ['Small one', 'Small two']);
+
+    const result = await rawCall('delete_reminders', {ids});
+    await rawCall('update_reminders', {
+      reminders: [{id: 'missing', title: 'Not destructive'}],
+    });
+
+    expect(result.content).toHaveLength(1);
+    expect(readAuditLog(logPath).at(-2)!.snapshot).toBeUndefined();
+    expect(listSnapshots(snapshotDir)).toHaveLength(count);
+  });
+
+  test('keeps only the newest snapshots', async () => {
+    for (let i = 0; i < 3; i++) {
+      const ids = await createIn(listName, ['R1', 'R2', 'R3']);
+      await client.tools.deleteReminders({ids});
+    }
+
+    const snapshots = listSnapshots(snapshotDir);
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots.map((s) => s.tool)).toEqual([
+      'delete_reminders',
+      'delete_reminders',
+      'delete_reminders',
+    ]);
+    expect(snapshots[0].createdAt.getTime()).toBeGreaterThan(
+      snapshots[2].createdAt.getTime(),
+    );
+  });
+
+  test('prunes snapshots by age', () => {
+    const pruneDir = join(dir, 'prune');
+    mkdirSync(pruneDir);
+    const now = new Date('2026-10-19T12:00:00Z');
+    const paths = [40, 10, 1].map((days) => {
+      const path = snapshotPath(
+        pruneDir,
+        'delete_reminders',
+        new Date(now.getTime() - days * 86_400_000),
+      );
+      writeFileSync(path, '{}');
+      return path;
+    });
+    writeFileSync(join(pruneDir, 'notes.txt'), 'not a snapshot');
+
+    expect(parseAge('30d')).toBe(30 * 86_400_000);
+    expect(() => parseAge('30 days')).toThrow('Invalid age');
+
+    const dryRun = pruneSnapshots(pruneDir, {
+      olderThanMs: parseAge('1w'),
+      now,
+      dryRun: true,
+    });
+    expect(dryRun.map((s) => s.path)).toEqual([paths[1], paths[0]]);
+    expect(existsSync(paths[0])).toBe(true);
+
+    pruneSnapshots(pruneDir, {olderThanMs: parseAge('30d'), now});
+    expect(listSnapshots(pruneDir).map((s) => s.path)).toEqual([
+      paths[2],
+      paths[1],
+    ]);
+    expect(existsSync(join(pruneDir, 'notes.txt'))).toBe(true);
+  });
+});
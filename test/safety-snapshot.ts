@@ -0,0 +1,303 @@
+#!/usr/bin/env bun
+
+/**
+ * Safety snapshots taken by audit-proxy.ts before destructive batches:
+ * delete_reminders, and update_reminders items that complete a reminder
+ * (`completed: true` or a completedDate). When a batch touches more
+ * reminders than the threshold, or more than one list, the proxy first runs
+ * export_reminders for the affected lists into the snapshot directory and
+ * adds the snapshot path to the tool result. Only the newest snapshots are
+ * kept (`keep`); older ones can also be pruned by age with this script.
+ *
+ * Usage: bun test/safety-snapshot.ts <command> [options]
+ *   list                      Snapshots, newest first
+ *   prune --older-than <age>  Delete snapshots older than <age>
+ *                             (e.g. 30d, 12h, 2w, 90m)
+ *   --dir <path>   Snapshot directory. Default: AR_MCP_SNAPSHOT_DIR, or
+ *                  ~/.apple-reminders-mcp/snapshots
+ *   --dry-run      prune: show what would be deleted
+ *   --json         Machine-readable output
+ *
+ * Re-create deleted reminders from a snapshot with: bun run export:restore
+ * <snapshot.json>. Reminders that still exist are skipped, so updates are
+ * reverted with the proxy's undo_operation instead.
+ */
+
+import {existsSync, readdirSync, readFileSync, rmSync, statSync} from 'fs';
+import {homedir} from 'os';
+import {join} from 'path';
+import type {ReminderStates} from './audit-proxy';
+import type {ExportData} from './reference-models';
+
+export const DEFAULT_SNAPSHOT_DIR = join(
+  homedir(),
+  '.apple-reminders-mcp',
+  'snapshots',
+);
+/** Batches with more destructive items than this are snapshotted */
+export const DEFAULT_THRESHOLD = 10;
+/** Snapshots kept after each new one */
+export const DEFAULT_KEEP = 50;
+
+const SNAPSHOT_PATTERN =
+  /^snapshot-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-([a-z_]+)\.json$/;
+
+export interface SnapshotOptions {
+  dir: string;
+  threshold: number;
+  keep: number;
+}
+
+export interface SnapshotInfo {
+  path: string;
+  createdAt: Date;
+  /** Tool whose call triggered the snapshot */
+  tool: string;
+  sizeBytes: number;
+  lists: number;
+  reminders: number;
+}
+
+export function defaultSnapshotOptions(): SnapshotOptions {
+  return {
+    dir: process.env.AR_MCP_SNAPSHOT_DIR ?? DEFAULT_SNAPSHOT_DIR,
+    threshold: DEFAULT_THRESHOLD,
+    keep: DEFAULT_KEEP,
+  };
+}
+
+/** IDs of reminders a call deletes or completes. */
+export function destructiveIds(
+  tool: string,
+  args: Record<string, unknown>,
+): string[] {
+  if (tool === 'delete_reminders' && Array.isArray(args.ids)) {
+    return args.ids.filter((id): id is string => typeof id === 'string');
+  }
+  if (tool === 'update_reminders' && Array.isArray(args.reminders)) {
+    return args.reminders
+      .filter(
+        (r: {completed?: unknown; completedDate?: unknown}) =>
+          r?.completed === true || typeof r?.completedDate === 'string',
+      )
+      .map((r: {id?: unknown}) => r.id)
+      .filter((id): id is string => typeof id === 'string');
+  }
+  return [];
+}
+
+/**
+ * Why a batch needs a snapshot, or null when it doesn't. `before` holds the
+ * current state of the ids (see AuditProxy), which gives their lists.
+ */
+export function snapshotReason(
+  ids: string[],
+  before: ReminderStates,
+  threshold: number,
+): string | null {
+  const count = new Set(ids).size;
+  const lists = affectedListIds(ids, before);
+  if (count > threshold) {
+    return `${count} reminders (threshold ${threshold})`;
+  }
+  if (lists.length > 1) return `${lists.length} lists`;
+  return null;
+}
+
+export function affectedListIds(
+  ids: string[],
+  before: ReminderStates,
+): string[] {
+  return [
+    ...new Set(
+      ids
+        .map((id) => before[id]?.listId)
+        .filter((id): id is string => id !== undefined),
+    ),
+  ];
+}
+
+/** File path for a new snapshot; names sort by creation time. */
+export function snapshotPath(dir: string, tool: string, date = new Date()) {
+  const stamp = date.toISOString().replace(/[:.]/g, '-');
+  return join(dir, `snapshot-${stamp}-${tool}.json`);
+}
+
+function parseStamp(stamp: string): Date {
+  const [date, time] = stamp.split('T');
+  const [h, m, s, ms] = time.replace('Z', '').split('-');
+  return new Date(`${date}T${h}:${m}:${s}.${ms}Z`);
+}
+
+/** Snapshots in `dir`, newest first. Unreadable files count 0 reminders. */
+export function listSnapshots(dir: string): SnapshotInfo[] {
+  if (!existsSync(dir)) return [];
+  const snapshots: SnapshotInfo[] = [];
+  for (const name of readdirSync(dir)) {
+    const match = SNAPSHOT_PATTERN.exec(name);
+    if (!match) continue;
+    const path = join(dir, name);
+    let stats = {lists: 0, reminders: 0};
+    try {
+      const data = JSON.parse(readFileSync(path, 'utf8')) as ExportData;
+      stats = data.stats ?? stats;
+    } catch {
+      // Partly written or edited by hand; still listed so it can be pruned
+    }
+    snapshots.push({
+      path,
+      createdAt: parseStamp(match[1]),
+      tool: match[2],
+      sizeBytes: statSync(path).size,
+      lists: stats.lists,
+      reminders: stats.reminders,
+    });
+  }
+  return snapshots.sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  );
+}
+
+/**
+ * Delete snapshots older than `olderThanMs` and/or beyond the newest
+ * `keep`. Returns the deleted (or, with dryRun, deletable) snapshots.
+ */
+export function pruneSnapshots(
+  dir: string,
+  options: {
+    olderThanMs?: number;
+    keep?: number;
+    now?: Date;
+    dryRun?: boolean;
+  },
+): SnapshotInfo[] {
+  const now = (options.now ?? new Date()).getTime();
+  const pruned = listSnapshots(dir).filter(
+    (snapshot, index) =>
+      (options.keep !== undefined && index >= options.keep) ||
+      (options.olderThanMs !== undefined &&
+        now - snapshot.createdAt.getTime() > options.olderThanMs),
+  );
+  if (!options.dryRun) {
+    for (const snapshot of pruned) rmSync(snapshot.path, {force: true});
+  }
+  return pruned;
+}
+
+const AGE_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/** Parse an age like "30d", "12h", "2w" or "90m" into milliseconds. */
+export function parseAge(value: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid age '${value}' (expected a number followed by m, h, d or w, e.g. 30d)`,
+    );
+  }
+  return Number(match[1]) * AGE_UNITS[match[2]];
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function formatSnapshots(snapshots: SnapshotInfo[]): string {
+  if (snapshots.length === 0) return 'No snapshots.';
+  return snapshots
+    .map(
+      (s) =>
+        `${s.createdAt.toISOString()}  ${s.tool.padEnd(16)}  ` +
+        `${s.lists} list(s), ${s.reminders} reminder(s), ${formatSize(s.sizeBytes)}\n` +
+        `  ${s.path}`,
+    )
+    .join('\n');
+}
+
+// CLI
+
+interface CliOptions {
+  command: 'list' | 'prune';
+  dir: string;
+  olderThan?: string;
+  dryRun: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'list' && command !== 'prune') {
+    throw new Error(
+      command ? `Unknown command: ${command}` : 'Missing command',
+    );
+  }
+
+  const options: CliOptions = {
+    command,
+    dir: defaultSnapshotOptions().dir,
+    dryRun: false,
+    json: false,
+  };
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--dir':
+        options.dir = rest[++i];
+        break;
+      case '--older-than':
+        options.olderThan = rest[++i];
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${rest[i]}`);
+    }
+  }
+  if (command === 'prune' && options.olderThan === undefined) {
+    throw new Error('prune requires --older-than <age>');
+  }
+  return options;
+}
+
+function main(): void {
+  let options: CliOptions;
+  let olderThanMs: number | undefined;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (options.olderThan !== undefined) {
+      olderThanMs = parseAge(options.olderThan);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/safety-snapshot.ts list|prune [--older-than <age>] [--dir <path>] [--dry-run] [--json]',
+    );
+    process.exit(2);
+  }
+
+  const snapshots =
+    options.command === 'list'
+      ? listSnapshots(options.dir)
+      : pruneSnapshots(options.dir, {olderThanMs, dryRun: options.dryRun});
+
+  if (options.json) {
+    console.log(JSON.stringify(snapshots, null, 2));
+  } else if (options.command === 'list') {
+    console.log(formatSnapshots(snapshots));
+  } else {
+    const verb = options.dryRun ? 'Would delete' : 'Deleted';
+    console.log(`${verb} ${snapshots.length} snapshot(s).`);
+    for (const s of snapshots) console.log(`  ${s.path}`);
+  }
+}
+
+if (import.meta.main) main();
@@ -0,0 +1,215 @@
+/**
+ * Tests for schema-compat.ts: classification of each kind of schema change
+ * against the stored snapshot, and acknowledging breaks in the allowlist.
+ */
+
+import {describe, test, expect} from 'bun:test';
+import {readFileSync} from 'fs';
+import {
+  parseSnapshotTools,
+  SNAPSHOT_PATH,
+  type ToolSchema,
+} from './generate-tool-types';
+import {
+  AllowlistError,
+  checkCompatibility,
+  diffTools,
+  formatReport,
+  parseAllowlist,
+} from './schema-compat';
+
+const SNAPSHOT = parseSnapshotTools(readFileSync(SNAPSHOT_PATH, 'utf8'));
+
+/** A copy of the snapshot with `edit` applied to one tool's inputSchema */
+function edited(
+  name: string,
+  edit: (schema: Record<string, any>) => void,
+): ToolSchema[] {
+  const tools = structuredClone(SNAPSHOT);
+  edit(tools.find((t) => t.name === name)!.inputSchema as Record<string, any>);
+  return tools;
+}
+
+const summary = (tools: ToolSchema[]) =>
+  diffTools(SNAPSHOT, tools).map((c) => [c.kind, c.path, c.change]);
+
+describe('Schema compatibility', () => {
+  test('the snapshot is compatible with itself', () => {
+    expect(diffTools(SNAPSHOT, structuredClone(SNAPSHOT))).toEqual([]);
+  });
+
+  test('removed and added tools', () => {
+    const tools = structuredClone(SNAPSHOT).filter(
+      (t) => t.name !== 'create_list',
+    );
+    tools.push({name: 'move_reminders', description: 'Move reminders'});
+    expect(
+      diffTools(SNAPSHOT, tools).map((c) => [c.kind, c.tool, c.change]),
+    ).toEqual([
+      ['breaking', 'create_list', 'tool-removed'],
+      ['additive', 'move_reminders', 'tool-added'],
+    ]);
+  });
+
+  test('properties: removed, new required, new optional, now required', () => {
+    expect(
+      summary(
+        edited('query_reminders', (s) => {
+          delete s.properties.searchText;
+          s.properties.tags = {type: 'array', items: {type: 'string'}};
+        }),
+      ),
+    ).toEqual([
+      ['breaking', '$.searchText', 'property-removed'],
+      ['additive', '$.tags', 'property-added'],
+    ]);
+
+    expect(
+      summary(
+        edited('create_reminders', (s) => {
+          const item = s.properties.reminders.items;
+          item.properties.location = {type: 'string'};
+          item.required.push('location', 'notes');
+        }),
+      ),
+    ).toEqual([
+      ['breaking', '$.reminders[].location', 'required-added'],
+      ['breaking', '$.reminders[].notes', 'required-added'],
+    ]);
+  });
+
+  test('enums: narrowed and widened', () => {
+    const changes = diffTools(
+      SNAPSHOT,
+      edited('query_reminders', (s) => {
+        s.properties.sortBy.enum = ['newest', 'priority', 'dueDate', 'title'];
+      }),
+    );
+    expect(changes.map((c) => [c.kind, c.change, c.message])).toEqual([
+      ['breaking', 'enum-narrowed', 'enum no longer accepts "oldest"'],
+      ['additive', 'enum-widened', 'enum now accepts "title"'],
+    ]);
+  });
+
+  test('bounds: lowered maximum breaks, raised maximum does not', () => {
+    expect(
+      diffTools(
+        SNAPSHOT,
+        edited('query_reminders', (s) => {
+          s.properties.limit.maximum = 100;
+        }),
+      ).map((c) => [c.kind, c.change, c.message]),
+    ).toEqual([
+      ['breaking', 'bound-tightened', 'maximum lowered from 200 to 100'],
+    ]);
+    expect(
+      summary(
+        edited('query_reminders', (s) => {
+          s.properties.limit.maximum = 500;
+          s.properties.limit.minimum = 0;
+        }),
+      ),
+    ).toEqual([
+      ['additive', '$.limit', 'bound-loosened'],
+      ['additive', '$.limit', 'bound-loosened'],
+    ]);
+    expect(
+      summary(
+        edited('delete_reminders', (s) => {
+          s.properties.ids.maxItems = 50;
+        }),
+      ),
+    ).toEqual([['breaking', '$.ids', 'bound-tightened']]);
+  });
+
+  test('types, defaults, closed objects and descriptions', () => {
+    expect(
+      summary(
+        edited('query_reminders', (s) => {
+          s.properties.limit.type = 'string';
+          s.properties.status.default = 'all';
+          s.properties.searchText.description = 'Reworded';
+        }),
+      ),
+    ).toEqual([
+      ['breaking', '$.limit', 'type-changed'],
+      ['docs', '$.searchText', 'description-changed'],
+      ['breaking', '$.status', 'default-changed'],
+    ]);
+    expect(
+      summary(
+        edited('query_reminders', (s) => {
+          s.properties.limit.type = ['integer', 'string'];
+          delete s.additionalProperties;
+        }),
+      ),
+    ).toEqual([
+      ['additive', '$', 'opened'],
+      ['additive', '$.limit', 'type-changed'],
+    ]);
+  });
+});
+
+describe('Schema compatibility allowlist', () => {
+  const narrowed = edited('query_reminders', (s) => {
+    s.properties.sortBy.enum = ['newest', 'priority', 'dueDate'];
+    s.properties.searchText.description = 'Reworded';
+  });
+
+  test('acknowledged breaks pass, others fail, unused entries are stale', () => {
+    const allowlist = parseAllowlist(
+      JSON.stringify({
+        acknowledged: [
+          {
+            tool: 'query_reminders',
+            path: '$.sortBy',
+            change: 'enum-narrowed',
+            reason: 'oldest is sortBy newest reversed',
+          },
+          {
+            tool: 'get_lists',
+            path: '$',
+            change: 'tool-removed',
+            reason: 'planned',
+          },
+        ],
+      }),
+    );
+
+    const report = checkCompatibility(SNAPSHOT, narrowed, allowlist);
+    expect(report.breaking).toEqual([]);
+    expect(report.acknowledged.map((c) => c.path)).toEqual(['$.sortBy']);
+    expect(report.staleEntries.map((e) => e.tool)).toEqual(['get_lists']);
+
+    expect(formatReport(report)).toBe(
+      [
+        'Schema compatibility: 2 change(s): 0 breaking, 1 acknowledged, 0 additive, 1 docs',
+        '',
+        'Acknowledged:',
+        '  query_reminders $.sortBy (enum-narrowed): enum no longer accepts "oldest" (oldest is sortBy newest reversed)',
+        '',
+        'Docs:',
+        '  query_reminders $.searchText (description-changed): description changed',
+        '',
+        'Stale allowlist entries (no matching change):',
+        '  get_lists $ (tool-removed)',
+      ].join('\n'),
+    );
+
+    expect(checkCompatibility(SNAPSHOT, narrowed).breaking).toHaveLength(1);
+  });
+
+  test('entries need a reason', () => {
+    expect(() =>
+      parseAllowlist(
+        '{"acknowledged": [{"tool": "x", "path": "$", "change": "tool-removed"}]}',
+        'allow.json',
+      ),
+    ).toThrow(
+      new AllowlistError(
+        'allow.json: acknowledged[0].reason must be a non-empty string',
+      ),
+    );
+    expect(() => parseAllowlist('[]')).toThrow(AllowlistError);
+  });
+});
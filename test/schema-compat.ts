@@ -0,0 +1,462 @@
+#!/usr/bin/env bun
+
+/**
+ * Semantic compatibility check of the live tools/list against the schema
+ * snapshot (__snapshots__/schema-snapshot.test.ts.snap). Each difference is
+ * classified by what it means for existing callers:
+ *
+ * - breaking: a removed tool or property, a new required property, a
+ *   narrowed enum or type, a tighter bound (lower maximum, higher minimum,
+ *   minItems...), a schema that newly rejects unknown properties, or a
+ *   changed default (callers that omit the property silently get the new
+ *   behavior, with nothing in their request to show it)
+ * - additive: a new tool, a new optional property, a widened enum or type,
+ *   a looser bound, a property that is no longer required
+ * - docs: description changes
+ *
+ * Breaking changes fail the check unless acknowledged in the allowlist
+ * (schema-compat-allowlist.json), matched by tool, path and change:
+ *
+ *   {"acknowledged": [{"tool": "query_reminders", "path": "$.sortBy",
+ *     "change": "enum-narrowed", "reason": "'title' sort was never shipped"}]}
+ *
+ * Paths are argument paths: `$.reminders[].alarms[].type`; `$` is the tool.
+ *
+ * Usage: bun test/schema-compat.ts [--allowlist <path>] [--json]
+ *   Exits 1 on unacknowledged breaking changes.
+ */
+
+import {existsSync, readFileSync} from 'fs';
+import {
+  parseSnapshotTools,
+  SNAPSHOT_PATH,
+  type ToolSchema,
+} from './generate-tool-types';
+import {MCPClient} from './mcp-client';
+import type {JsonSchema} from './validators';
+
+export const ALLOWLIST_PATH = `${import.meta.dir}/schema-compat-allowlist.json`;
+
+export type ChangeKind = 'breaking' | 'additive' | 'docs';
+
+export type ChangeType =
+  | 'tool-removed'
+  | 'tool-added'
+  | 'property-removed'
+  | 'property-added'
+  | 'required-added'
+  | 'required-removed'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'bound-tightened'
+  | 'bound-loosened'
+  | 'closed'
+  | 'opened'
+  | 'default-changed'
+  | 'description-changed';
+
+export interface SchemaChange {
+  kind: ChangeKind;
+  tool: string;
+  path: string;
+  change: ChangeType;
+  message: string;
+}
+
+export interface AllowlistEntry {
+  tool: string;
+  path: string;
+  change: ChangeType;
+  /** Why the break is acceptable; required */
+  reason: string;
+}
+
+export interface CompatibilityReport {
+  /** Every change, in tool and path order */
+  changes: SchemaChange[];
+  /** Breaking changes not in the allowlist; the check fails on these */
+  breaking: SchemaChange[];
+  acknowledged: Array<SchemaChange & {reason: string}>;
+  /** Allowlist entries that match no change (safe to remove) */
+  staleEntries: AllowlistEntry[];
+}
+
+type SchemaNode = JsonSchema & {description?: string; default?: unknown};
+
+/** Invalid allowlist file. */
+export class AllowlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllowlistError';
+  }
+}
+
+/** Bound keywords and which direction tightens them */
+const BOUNDS: Array<[keyof JsonSchema, 'min' | 'max']> = [
+  ['minimum', 'min'],
+  ['maximum', 'max'],
+  ['minItems', 'min'],
+  ['maxItems', 'max'],
+  ['minLength', 'min'],
+  ['maxLength', 'max'],
+];
+
+const quoteAll = (values: unknown[]) =>
+  values.map((v) => JSON.stringify(v)).join(', ');
+
+function typesOf(schema: SchemaNode): string[] | null {
+  if (schema.type === undefined) return null;
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/** Diff one schema node (and its children) into `changes`. */
+function diffSchema(
+  tool: string,
+  path: string,
+  before: SchemaNode,
+  after: SchemaNode,
+  changes: SchemaChange[],
+): void {
+  const add = (kind: ChangeKind, change: ChangeType, message: string) =>
+    changes.push({kind, tool, path, change, message});
+
+  const oldTypes = typesOf(before);
+  const newTypes = typesOf(after);
+  if (JSON.stringify(oldTypes) !== JSON.stringify(newTypes)) {
+    // Dropping the type, or adding types, only accepts more
+    const widened =
+      newTypes === null ||
+      (oldTypes !== null && oldTypes.every((t) => newTypes.includes(t)));
+    add(
+      widened ? 'additive' : 'breaking',
+      'type-changed',
+      `type changed from ${oldTypes?.join('|') ?? 'any'} to ${newTypes?.join('|') ?? 'any'}`,
+    );
+  }
+
+  if (before.enum || after.enum) {
+    if (!after.enum) {
+      add('additive', 'enum-widened', 'enum restriction removed');
+    } else if (!before.enum) {
+      add(
+        'breaking',
+        'enum-narrowed',
+        `now restricted to ${quoteAll(after.enum)}`,
+      );
+    } else {
+      const removed = before.enum.filter((v) => !after.enum!.includes(v));
+      const added = after.enum.filter((v) => !before.enum!.includes(v));
+      if (removed.length > 0) {
+        add(
+          'breaking',
+          'enum-narrowed',
+          `enum no longer accepts ${quoteAll(removed)}`,
+        );
+      }
+      if (added.length > 0) {
+        add('additive', 'enum-widened', `enum now accepts ${quoteAll(added)}`);
+      }
+    }
+  }
+
+  for (const [keyword, side] of BOUNDS) {
+    const old = before[keyword] as number | undefined;
+    const now = after[keyword] as number | undefined;
+    if (old === now) continue;
+    const tightened =
+      old === undefined
+        ? true
+        : now === undefined
+          ? false
+          : side === 'min'
+            ? now > old
+            : now < old;
+    const verb =
+      old === undefined
+        ? `added (${now})`
+        : now === undefined
+          ? `removed (was ${old})`
+          : `${(side === 'min') === tightened ? 'raised' : 'lowered'} from ${old} to ${now}`;
+    add(
+      tightened ? 'breaking' : 'additive',
+      tightened ? 'bound-tightened' : 'bound-loosened',
+      `${keyword} ${verb}`,
+    );
+  }
+
+  if (
+    before.additionalProperties !== false &&
+    after.additionalProperties === false
+  ) {
+    add('breaking', 'closed', 'no longer accepts unknown properties');
+  } else if (
+    before.additionalProperties === false &&
+    after.additionalProperties !== false
+  ) {
+    add('additive', 'opened', 'now accepts unknown properties');
+  }
+
+  if (JSON.stringify(before.default) !== JSON.stringify(after.default)) {
+    add(
+      'breaking',
+      'default-changed',
+      `default changed from ${JSON.stringify(before.default) ?? 'none'} to ${JSON.stringify(after.default) ?? 'none'}; callers that omit it get different behavior`,
+    );
+  }
+
+  if (before.description !== after.description) {
+    add('docs', 'description-changed', 'description changed');
+  }
+
+  // Properties
+  const oldProps = (before.properties ?? {}) as Record<string, SchemaNode>;
+  const newProps = (after.properties ?? {}) as Record<string, SchemaNode>;
+  const oldRequired = new Set(before.required ?? []);
+  const newRequired = new Set(after.required ?? []);
+  const keys = [
+    ...new Set([...Object.keys(oldProps), ...Object.keys(newProps)]),
+  ].sort();
+
+  for (const key of keys) {
+    const childPath = `${path}.${key}`;
+    const push = (kind: ChangeKind, change: ChangeType, message: string) =>
+      changes.push({kind, tool, path: childPath, change, message});
+
+    if (!(key in newProps)) {
+      push('breaking', 'property-removed', `property '${key}' removed`);
+      continue;
+    }
+    if (!(key in oldProps)) {
+      if (newRequired.has(key)) {
+        push('breaking', 'required-added', `new required property '${key}'`);
+      } else {
+        push('additive', 'property-added', `new optional property '${key}'`);
+      }
+      continue;
+    }
+    if (!oldRequired.has(key) && newRequired.has(key)) {
+      push('breaking', 'required-added', `property '${key}' is now required`);
+    } else if (oldRequired.has(key) && !newRequired.has(key)) {
+      push(
+        'additive',
+        'required-removed',
+        `property '${key}' is no longer required`,
+      );
+    }
+    diffSchema(tool, childPath, oldProps[key], newProps[key], changes);
+  }
+
+  if (before.items && after.items) {
+    diffSchema(tool, `${path}[]`, before.items, after.items, changes);
+  } else if (before.items || after.items) {
+    add(
+      after.items ? 'breaking' : 'additive',
+      'type-changed',
+      after.items
+        ? 'array items are now constrained'
+        : 'array items are no longer constrained',
+    );
+  }
+}
+
+/** Classified changes from `before` (the snapshot) to `after` (live). */
+export function diffTools(
+  before: ToolSchema[],
+  after: ToolSchema[],
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const oldTools = new Map(before.map((t) => [t.name, t]));
+  const newTools = new Map(after.map((t) => [t.name, t]));
+  const names = [...new Set([...oldTools.keys(), ...newTools.keys()])].sort();
+
+  for (const name of names) {
+    const old = oldTools.get(name);
+    const now = newTools.get(name);
+    if (!now) {
+      changes.push({
+        kind: 'breaking',
+        tool: name,
+        path: '$',
+        change: 'tool-removed',
+        message: `tool '${name}' removed`,
+      });
+      continue;
+    }
+    if (!old) {
+      changes.push({
+        kind: 'additive',
+        tool: name,
+        path: '$',
+        change: 'tool-added',
+        message: `new tool '${name}'`,
+      });
+      continue;
+    }
+    diffSchema(
+      name,
+      '$',
+      {
+        ...((old.inputSchema ?? {}) as SchemaNode),
+        description: old.description,
+      },
+      {
+        ...((now.inputSchema ?? {}) as SchemaNode),
+        description: now.description,
+      },
+      changes,
+    );
+  }
+  return changes;
+}
+
+export function parseAllowlist(
+  text: string,
+  source = 'allowlist',
+): AllowlistEntry[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new AllowlistError(`${source}: ${(error as Error).message}`);
+  }
+  const entries = (value as {acknowledged?: unknown})?.acknowledged;
+  if (!Array.isArray(entries)) {
+    throw new AllowlistError(`${source}: expected {"acknowledged": [...]}`);
+  }
+  entries.forEach((entry, index) => {
+    for (const key of ['tool', 'path', 'change', 'reason']) {
+      const field = (entry as Record<string, unknown>)?.[key];
+      if (typeof field !== 'string' || field === '') {
+        throw new AllowlistError(
+          `${source}: acknowledged[${index}].${key} must be a non-empty string`,
+        );
+      }
+    }
+  });
+  return entries as AllowlistEntry[];
+}
+
+export function loadAllowlist(path = ALLOWLIST_PATH): AllowlistEntry[] {
+  return existsSync(path)
+    ? parseAllowlist(readFileSync(path, 'utf8'), path)
+    : [];
+}
+
+export function checkCompatibility(
+  before: ToolSchema[],
+  after: ToolSchema[],
+  allowlist: AllowlistEntry[] = [],
+): CompatibilityReport {
+  const changes = diffTools(before, after);
+  const matches = (entry: AllowlistEntry, change: SchemaChange) =>
+    entry.tool === change.tool &&
+    entry.path === change.path &&
+    entry.change === change.change;
+
+  const breaking: SchemaChange[] = [];
+  const acknowledged: CompatibilityReport['acknowledged'] = [];
+  for (const change of changes) {
+    if (change.kind !== 'breaking') continue;
+    const entry = allowlist.find((e) => matches(e, change));
+    if (entry) acknowledged.push({...change, reason: entry.reason});
+    else breaking.push(change);
+  }
+  return {
+    changes,
+    breaking,
+    acknowledged,
+    staleEntries: allowlist.filter(
+      (entry) => !changes.some((change) => matches(entry, change)),
+    ),
+  };
+}
+
+export function formatReport(report: CompatibilityReport): string {
+  const {changes} = report;
+  if (changes.length === 0 && report.staleEntries.length === 0) {
+    return 'Schema compatibility: no changes against the snapshot.';
+  }
+  const count = (kind: ChangeKind) =>
+    changes.filter((c) => c.kind === kind).length;
+  const line = (c: SchemaChange) =>
+    `  ${c.tool} ${c.path} (${c.change}): ${c.message}`;
+
+  const lines = [
+    `Schema compatibility: ${changes.length} change(s): ${report.breaking.length} breaking, ${report.acknowledged.length} acknowledged, ${count('additive')} additive, ${count('docs')} docs`,
+  ];
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) lines.push('', title, ...items);
+  };
+  section(
+    'Breaking (add to the allowlist if intended):',
+    report.breaking.map(line),
+  );
+  section(
+    'Acknowledged:',
+    report.acknowledged.map((c) => `${line(c)} (${c.reason})`),
+  );
+  section('Additive:', changes.filter((c) => c.kind === 'additive').map(line));
+  section('Docs:', changes.filter((c) => c.kind === 'docs').map(line));
+  section(
+    'Stale allowlist entries (no matching change):',
+    report.staleEntries.map((e) => `  ${e.tool} ${e.path} (${e.change})`),
+  );
+  return lines.join('\n');
+}
+
+function parseArgs(argv: string[]): {allowlist: string; json: boolean} {
+  const options = {allowlist: ALLOWLIST_PATH, json: false};
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--allowlist':
+        options.allowlist = argv[++i];
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: {allowlist: string; json: boolean};
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: bun test/schema-compat.ts [--allowlist <path>] [--json]',
+    );
+    process.exit(2);
+  }
+
+  const snapshot = parseSnapshotTools(readFileSync(SNAPSHOT_PATH, 'utf8'));
+  const client = await MCPClient.create();
+  let live: ToolSchema[];
+  try {
+    live = (await client.listToolsWithSchemas()) as ToolSchema[];
+  } finally {
+    await client.cleanup();
+  }
+
+  const report = checkCompatibility(
+    snapshot,
+    live,
+    loadAllowlist(options.allowlist),
+  );
+  console.log(
+    options.json ? JSON.stringify(report, null, 2) : formatReport(report),
+  );
+  process.exit(report.breaking.length > 0 ? 1 : 0);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error((error as Error).message);
+    process.exit(2);
+  });
+}
@@ -2,16 +2,53 @@
  * Schema snapshot tests for the Apple Reminders MCP server.
  *
  * These tests snapshot the server's API contract: tool names, descriptions,
- * input schemas, and initialization instructions. Any change to these surfaces
- * will cause a snapshot mismatch, catching accidental regressions like field
- * renames, removed examples, or schema drift.
+ * input schemas, and initialization instructions. The instructions and
+ * server info must match exactly. Tool schemas are compared semantically
+ * (schema-compat.ts): only breaking changes fail, unless acknowledged in
+ * schema-compat-allowlist.json; additive and description changes are
+ * printed as a compatibility report.
  *
- * To update snapshots after intentional changes:
- *   bun test --update-snapshots
+ * To update the stored snapshot after intentional changes:
+ *   bun run schemas:update
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {readFileSync} from 'fs';
+import {
+  parseSnapshotTools,
+  SNAPSHOT_PATH,
+  type ToolSchema,
+} from './generate-tool-types';
 import {MCPClient} from './mcp-client';
+import {
+  checkCompatibility,
+  type CompatibilityReport,
+  formatReport,
+  loadAllowlist,
+} from './schema-compat';
+
+/** Set by `bun run schemas:update`: store the live schemas as the snapshot */
+const UPDATE_SCHEMAS = process.env.AR_MCP_UPDATE_SCHEMAS === '1';
+
+/**
+ * One test per tool. Updating snapshots every tool the server lists, new
+ * ones included; checking covers every tool in the stored snapshot.
+ */
+async function toolNames(): Promise<string[]> {
+  if (!UPDATE_SCHEMAS) {
+    return parseSnapshotTools(readFileSync(SNAPSHOT_PATH, 'utf8')).map(
+      (t) => t.name,
+    );
+  }
+  const client = await MCPClient.create();
+  try {
+    return (await client.listToolsWithSchemas()).map((t) => t.name);
+  } finally {
+    await client.cleanup();
+  }
+}
+
+const TOOL_NAMES = await toolNames();
 
 describe('MCP schema snapshots', () => {
   let client: MCPClient;
@@ -37,52 +74,44 @@ describe('MCP schema snapshots', () => {
   });
 
   describe('tool schemas', () => {
-    test('query_reminders', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'query_reminders');
-      expect(tool).toMatchSnapshot();
-    });
+    let live: ToolSchema[];
+    let report: CompatibilityReport;
 
-    test('get_lists', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'get_lists');
-      expect(tool).toMatchSnapshot();
+    beforeAll(async () => {
+      live = (await client.listToolsWithSchemas()) as ToolSchema[];
+      const stored = parseSnapshotTools(readFileSync(SNAPSHOT_PATH, 'utf8'));
+      report = checkCompatibility(stored, live, loadAllowlist());
     });
 
-    test('create_list', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'create_list');
-      expect(tool).toMatchSnapshot();
-    });
-
-    test('create_reminders', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'create_reminders');
-      expect(tool).toMatchSnapshot();
-    });
-
-    test('update_reminders', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'update_reminders');
-      expect(tool).toMatchSnapshot();
-    });
-
-    test('delete_reminders', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'delete_reminders');
-      expect(tool).toMatchSnapshot();
-    });
+    for (const name of TOOL_NAMES) {
+      test(name, () => {
+        const tool = live.find((t) => t.name === name);
+        if (UPDATE_SCHEMAS) {
+          expect(tool).toMatchSnapshot();
+          return;
+        }
+        expect(report.breaking.filter((c) => c.tool === name)).toEqual([]);
+      });
+    }
 
-    test('export_reminders', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const tool = tools.find((t) => t.name === 'export_reminders');
-      expect(tool).toMatchSnapshot();
+    test('no tool was removed', () => {
+      const names = live.map((t) => t.name).sort();
+      if (UPDATE_SCHEMAS) {
+        expect(names).toMatchSnapshot();
+        return;
+      }
+      const removed = report.breaking.filter(
+        (c) => c.change === 'tool-removed',
+      );
+      expect(removed).toEqual([]);
     });
 
-    test('tool count has not changed', async () => {
-      const tools = await client.listToolsWithSchemas();
-      const names = tools.map((t) => t.name).sort();
-      expect(names).toMatchSnapshot();
+    test('only breaking changes fail', () => {
+      if (report.changes.length > 0 && report.breaking.length === 0) {
+        console.log(formatReport(report));
+      }
+      // The failure diff shows the whole report, additive changes included
+      expect(report.breaking.length > 0 ? formatReport(report) : '').toBe('');
     });
   });
 });
@@ -6,7 +6,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('Query operations', () => {
   let client: MCPClient;
@@ -180,8 +180,8 @@ describe('Query operations', () => {
       });
 
       expect(Array.isArray(result)).toBe(true);
+      expect(validators.reminders('full')(result)).toEqual([]);
       const reminders = result as Array<{listId: string; listName: string}>;
-      expect(reminders[0].listId).toBeDefined();
       expect(reminders[0].listName).toBe(testListName);
     });
 
@@ -197,8 +197,7 @@ describe('Query operations', () => {
       // listName should be omitted since we queried a single list
       expect(reminders[0].listName).toBeUndefined();
       // But title, id, priority should still be present
-      expect(reminders[0].id).toBeDefined();
-      expect(reminders[0].title).toBeDefined();
+      expect(validators.reminders('compact')(result)).toEqual([]);
     });
 
     test('compact detail omits isCompleted for status-specific queries', async () => {
@@ -258,9 +257,8 @@ describe('Query operations', () => {
       });
 
       expect(Array.isArray(result)).toBe(true);
+      expect(validators.reminders('minimal')(result)).toEqual([]);
       const reminders = result as Array<Record<string, unknown>>;
-      expect(reminders[0].id).toBeDefined();
-      expect(reminders[0].title).toBeDefined();
       // These should NOT be present in minimal
       expect(reminders[0].notes).toBeUndefined();
       expect(reminders[0].priority).toBeUndefined();
@@ -278,8 +276,8 @@ describe('Query operations', () => {
       expect(Array.isArray(result)).toBe(true);
       const reminders = result as Array<Record<string, unknown>>;
       // isCompleted should be present since status is "all" (value isn't implied)
-      expect(reminders[0].isCompleted).toBeDefined();
       expect(typeof reminders[0].isCompleted).toBe('boolean');
+      expect(validators.reminders('compact')(result)).toEqual([]);
     });
 
     test('compact includes listName when searching all lists', async () => {
@@ -292,8 +290,8 @@ describe('Query operations', () => {
       expect(Array.isArray(result)).toBe(true);
       const reminders = result as Array<Record<string, unknown>>;
       // listName should be present since we searched all lists
-      expect(reminders[0].listName).toBeDefined();
       expect(typeof reminders[0].listName).toBe('string');
+      expect(validators.reminders('compact')(result)).toEqual([]);
     });
 
     test('JMESPath ignores outputDetail and receives full fields', async () => {
@@ -324,9 +322,8 @@ describe('Query operations', () => {
 
       expect(Array.isArray(result)).toBe(true);
       const reminders = result as Array<Record<string, unknown>>;
-      // New field names should be present
-      expect(reminders[0].createdDate).toBeDefined();
-      expect(reminders[0].lastModifiedDate).toBeDefined();
+      // New field names should be present (and nothing unexpected)
+      expect(validators.reminders('full')(result)).toEqual([]);
       // Old field names should NOT be present
       expect(reminders[0].creationDate).toBeUndefined();
       expect(reminders[0].modificationDate).toBeUndefined();
@@ -483,11 +480,8 @@ describe('Query operations', () => {
         isDefault: boolean;
       }>;
 
-      for (const list of lists) {
-        expect(list.id).toBeDefined();
-        expect(list.name).toBeDefined();
-        expect(typeof list.isDefault).toBe('boolean');
-      }
+      expect(lists.length).toBeGreaterThan(0);
+      expect(validators.reminderLists(result)).toEqual([]);
     });
 
     test('exactly one list is marked as default', async () => {
@@ -9,7 +9,7 @@
  */
 
 import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
-import {MCPClient} from './mcp-client';
+import {MCPClient, validators} from './mcp-client';
 
 describe('Test mode restrictions', () => {
   let client: MCPClient;
@@ -57,7 +57,7 @@ describe('Test mode restrictions', () => {
     });
 
     expect(result._isError).toBeUndefined();
-    expect(result.id).toBeDefined();
+    expect(validators.reminderList(result)).toEqual([]);
   });
 
   test('allows creating a reminder in test list', async () => {
@@ -77,7 +77,7 @@ describe('Test mode restrictions', () => {
     expect(Array.isArray(result)).toBe(true);
     const reminders = result as Array<{id: string}>;
     expect(reminders.length).toBe(1);
-    expect(reminders[0].id).toBeDefined();
+    expect(validators.reminders('encoded')(result)).toEqual([]);
 
     // Clean up
     await client.callTool('delete_reminders', {
@@ -0,0 +1,185 @@
+/**
+ * Wall-clock time in IANA time zones, via Intl, and zone-free calendar date
+ * arithmetic. Used where a date has to be read or written in a zone other
+ * than the process's local one (iCalendar TZIDs, quick add, recurrences).
+ */
+
+/** A calendar date; arithmetic goes through Date.UTC so no zone applies */
+export interface CivilDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+/** Calendar date and time of day as shown on a clock in some zone */
+export interface WallTime extends CivilDate {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 86_400_000;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/** Formatters are slow to create; recurrence expansion calls this a lot */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** The wall-clock time in `timeZone` at `date`; RangeError for unknown zones */
+export function wallTime(date: Date, timeZone: string): WallTime {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds. */
+export function zoneOffset(date: Date, timeZone: string): number {
+  const parts = wallTime(date, timeZone);
+  const asUTC = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a clock in `timeZone` shows `wall`. A time repeated when
+ * clocks go back resolves to its first occurrence; a time skipped when they
+ * go forward keeps the offset from before the gap (02:30 on a
+ * spring-forward night becomes 03:30).
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const asUTC = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+  );
+  const before = zoneOffset(new Date(asUTC - DAY_MS), timeZone);
+  const after = zoneOffset(new Date(asUTC + DAY_MS), timeZone);
+  const candidates = [...new Set([before, after])]
+    .map((offset) => asUTC - offset)
+    .filter((time) => asUTC - zoneOffset(new Date(time), timeZone) === time)
+    .sort((a, b) => a - b);
+  return new Date(candidates[0] ?? asUTC - before);
+}
+
+/** ISO 8601 with the zone's offset at that instant, e.g. `2026-06-15T09:00:00+02:00` */
+export function formatInZone(date: Date, timeZone: string): string {
+  const wall = wallTime(date, timeZone);
+  const offsetMinutes = Math.round(zoneOffset(date, timeZone) / 60_000);
+  const absolute = Math.abs(offsetMinutes);
+  const zone =
+    offsetMinutes === 0
+      ? 'Z'
+      : `${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+  return (
+    `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}` +
+    `T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}${zone}`
+  );
+}
+
+/** Whether Intl knows `timeZone` */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', {timeZone});
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The process's zone (TZ, else the system setting) */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Calendar dates
+
+function toUTC(date: CivilDate): Date {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+function fromUTC(date: Date): CivilDate {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+export function addDays(date: CivilDate, days: number): CivilDate {
+  const result = toUTC(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUTC(result);
+}
+
+/** Adds months, clamping to the month's last day (Jan 31 + 1 → Feb 28) */
+export function addMonths(date: CivilDate, months: number): CivilDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return {year, month, day: Math.min(date.day, daysInMonth(year, month))};
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** 0-6, Sunday first */
+export function weekday(date: CivilDate): number {
+  return toUTC(date).getUTCDay();
+}
+
+/** Negative, zero or positive as `a` is before, on or after `b` */
+export function compareDates(a: CivilDate, b: CivilDate): number {
+  return toUTC(a).getTime() - toUTC(b).getTime();
+}
+
+/** False for dates like February 30 */
+export function isValidDate(date: CivilDate): boolean {
+  const utc = fromUTC(toUTC(date));
+  return utc.month === date.month && utc.day === date.day;
+}
+
+/** `2026-06-15` */
+export function formatDate(date: CivilDate): string {
+  return `${pad(date.year, 4)}-${pad(date.month)}-${pad(date.day)}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Result types for each MCP tool. tools/list only describes inputs, so these
+ * are maintained by hand (against Sources/MCPServer.swift) and referenced by
+ * the generated wrappers in tool-types.generated.ts.
+ */
+
+import type {
+  ExportData,
+  ExportResult,
+  ReminderListOutput,
+  ReminderOutput,
+} from './reference-models';
+
+/** A reminder as returned by create/update: nil fields are omitted. */
+export type EncodedReminder = ExportData['reminders'][number];
+
+/**
+ * A reminder as returned by query_reminders. Which fields are present
+ * depends on outputDetail; nulls are omitted except in 'full'.
+ */
+export type QueriedReminder = Partial<ReminderOutput> &
+  Pick<ReminderOutput, 'id' | 'title'>;
+
+export type CreateRemindersResult =
+  | EncodedReminder[]
+  | {created: EncodedReminder[]; failed: Array<{index: number; error: string}>};
+
+export type UpdateRemindersResult =
+  | EncodedReminder[]
+  | {updated: EncodedReminder[]; failed: Array<{id: string; error: string}>};
+
+export interface DeleteRemindersResult {
+  deleted: string[];
+  failed: Array<{id: string; error: string}>;
+}
+
+export interface ToolResults {
+  get_lists: ReminderListOutput[];
+  create_list: ReminderListOutput;
+  /** Arbitrary JSON when `query` (JMESPath) is given */
+  query_reminders: QueriedReminder[];
+  create_reminders: CreateRemindersResult;
+  update_reminders: UpdateRemindersResult;
+  delete_reminders: DeleteRemindersResult;
+  export_reminders: ExportResult;
+}
+
+/** Result type for a tool name; `unknown` for tools without a mapping. */
+export type ResultOf<K extends string> = K extends keyof ToolResults
+  ? ToolResults[K]
+  : unknown;
+
+/** Calls a tool and resolves with its parsed result, or rejects on error. */
+export type ToolCaller = (name: string, args: object) => Promise<unknown>;
@@ -0,0 +1,245 @@
+/**
+ * Typed wrappers for the MCP tools, generated from their tools/list input
+ * schemas by test/generate-tool-types.ts. Do not edit by hand.
+ *
+ * Regenerate: bun run generate:tools
+ */
+
+import type {ResultOf, ToolCaller} from './tool-results';
+
+export interface CreateListArgs {
+  /** Name for the new list */
+  name: string;
+}
+
+export interface CreateRemindersArgs {
+  reminders: Array<{
+    /** Reminder title */
+    title: string;
+    /** Alarm notifications for the reminder */
+    alarms?: Array<{
+      /** Alarm type: 'relative' (offset from due date) or 'absolute' (specific date/time) */
+      type: 'relative' | 'absolute';
+      /** ISO 8601 date/time (for absolute alarms) */
+      date?: string;
+      /** Seconds before due date (for relative alarms). E.g., 3600 = 1 hour before. */
+      offset?: number;
+    }>;
+    /** Due date in ISO 8601 format */
+    dueDate?: string;
+    /** Whether the due date includes a specific time. Set false for all-day reminders. Default: true. */
+    dueDateIncludesTime?: boolean;
+    /** Target list. Uses default list if omitted. */
+    list?: {
+      id?: string;
+      name?: string;
+    };
+    /** Reminder notes/body text */
+    notes?: string;
+    /** Priority level */
+    priority?: 'none' | 'low' | 'medium' | 'high';
+    /** Recurrence rule for repeating reminders */
+    recurrenceRule?: {
+      /** How often the reminder repeats */
+      frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+      /** Days of month (1-31, or negative for last N days: -1=last day, -2=second-to-last, etc.). For monthly frequency. */
+      daysOfMonth?: number[];
+      /** Days of week (1=Sunday, 2=Monday, ..., 7=Saturday). For weekly/monthly frequency. */
+      daysOfWeek?: number[];
+      /** Number of occurrences before stopping */
+      endCount?: number;
+      /** ISO 8601 date when recurrence stops */
+      endDate?: string;
+      /**
+       * Repeat every N periods (e.g., 2 = every other week)
+       * @default 1
+       */
+      interval?: number;
+      /** Months of year (1-12). For yearly frequency. */
+      monthsOfYear?: number[];
+      /** Week position within month: 1=first, 2=second, ..., -1=last. Used with daysOfWeek for 'first Monday' patterns. */
+      weekPosition?: number;
+    };
+    /** URL to associate with the reminder */
+    url?: string;
+  }>;
+}
+
+export interface DeleteRemindersArgs {
+  /** Array of reminder IDs to delete */
+  ids: string[];
+}
+
+export interface ExportRemindersArgs {
+  /**
+   * Include completed reminders in export
+   * @default true
+   */
+  includeCompleted?: boolean;
+  /** Lists to export. Default: all lists. */
+  lists?: Array<{
+    /** List ID */
+    id?: string;
+    /** List name */
+    name?: string;
+  }>;
+  /** Custom file path. Supports ~ for home directory. Default: temp directory with timestamp. */
+  path?: string;
+}
+
+export type GetListsArgs = Record<string, never>;
+
+export interface QueryRemindersArgs {
+  /** Start of date range (ISO 8601). Filters by dueDate for incomplete, completionDate for completed reminders. */
+  dateFrom?: string;
+  /** End of date range (ISO 8601). Filters by dueDate for incomplete, completionDate for completed reminders. */
+  dateTo?: string;
+  /**
+   * Maximum results to return
+   * @default 50
+   */
+  limit?: number;
+  /** Which list to search. Omit for default list. */
+  list?: {
+    /** Set true to search all lists */
+    all?: boolean;
+    /** Exact list ID */
+    id?: string;
+    /** List name (case-insensitive match) */
+    name?: string;
+  };
+  /**
+   * Controls which fields are returned. 'minimal': id, title. 'compact' (default): most useful fields, nulls omitted. 'full': all fields, nulls shown. Ignored when 'query' (JMESPath) is provided. listName and isCompleted are contextually omitted in minimal/compact when implied by query params.
+   * @default "compact"
+   */
+  outputDetail?: 'minimal' | 'compact' | 'full';
+  /** JMESPath expression for advanced filtering/projection. Applied after list, status, searchText, and date filters. When provided, outputDetail is ignored (always uses full fields as input). */
+  query?: string;
+  /** Case-insensitive text search across reminder titles and notes */
+  searchText?: string;
+  /**
+   * Sort order. Ignored if 'query' includes sorting.
+   * @default "newest"
+   */
+  sortBy?: 'newest' | 'oldest' | 'priority' | 'dueDate';
+  /**
+   * Filter by completion status
+   * @default "incomplete"
+   */
+  status?: 'incomplete' | 'completed' | 'all';
+}
+
+export interface UpdateRemindersArgs {
+  reminders: Array<{
+    /** Reminder ID to update */
+    id: string;
+    /** Alarm notifications. Set to null to clear all alarms. */
+    alarms?: Array<{
+      /** Alarm type */
+      type: 'relative' | 'absolute';
+      /** ISO 8601 date/time (for absolute alarms) */
+      date?: string;
+      /** Seconds before due date (for relative alarms) */
+      offset?: number;
+    }> | null;
+    /** Set true to complete, false to uncomplete */
+    completed?: boolean;
+    /** Completion date in ISO 8601 format. Set to null to uncomplete. Overrides 'completed' if both provided. */
+    completedDate?: string | null;
+    /** New due date in ISO 8601 format. Set to null to clear. */
+    dueDate?: string | null;
+    /** Whether the due date includes a specific time. Set false for all-day reminders. */
+    dueDateIncludesTime?: boolean;
+    /** Move to this list */
+    list?: {
+      id?: string;
+      name?: string;
+    };
+    /** New notes. Set to null to clear. */
+    notes?: string | null;
+    /** New priority level */
+    priority?: 'none' | 'low' | 'medium' | 'high';
+    /** Recurrence rule. Set to null to clear. */
+    recurrenceRule?: {
+      frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+      daysOfMonth?: number[];
+      daysOfWeek?: number[];
+      endCount?: number;
+      endDate?: string;
+      /** @default 1 */
+      interval?: number;
+      monthsOfYear?: number[];
+      weekPosition?: number;
+    } | null;
+    /** New title */
+    title?: string;
+    /** URL to associate with the reminder. Set to null to clear. */
+    url?: string | null;
+  }>;
+}
+
+export interface ToolArgs {
+  create_list: CreateListArgs;
+  create_reminders: CreateRemindersArgs;
+  delete_reminders: DeleteRemindersArgs;
+  export_reminders: ExportRemindersArgs;
+  get_lists: GetListsArgs;
+  query_reminders: QueryRemindersArgs;
+  update_reminders: UpdateRemindersArgs;
+}
+
+export type ToolName = keyof ToolArgs;
+
+/** One method per tool. Methods reject when the tool returns isError. */
+export class ToolWrappers {
+  private call: ToolCaller;
+
+  constructor(call: ToolCaller) {
+    this.call = call;
+  }
+
+  /** Create a new reminder list. */
+  createList<T = ResultOf<'create_list'>>(args: CreateListArgs): Promise<T> {
+    return this.call('create_list', args) as Promise<T>;
+  }
+
+  /** Create one or more reminders. */
+  createReminders<T = ResultOf<'create_reminders'>>(
+    args: CreateRemindersArgs,
+  ): Promise<T> {
+    return this.call('create_reminders', args) as Promise<T>;
+  }
+
+  /** Delete one or more reminders permanently. */
+  deleteReminders<T = ResultOf<'delete_reminders'>>(
+    args: DeleteRemindersArgs,
+  ): Promise<T> {
+    return this.call('delete_reminders', args) as Promise<T>;
+  }
+
+  /** Export reminders to a JSON file for backup or data portability. */
+  exportReminders<T = ResultOf<'export_reminders'>>(
+    args: ExportRemindersArgs = {},
+  ): Promise<T> {
+    return this.call('export_reminders', args) as Promise<T>;
+  }
+
+  /** Get all available reminder lists. */
+  getLists<T = ResultOf<'get_lists'>>(args: GetListsArgs = {}): Promise<T> {
+    return this.call('get_lists', args) as Promise<T>;
+  }
+
+  /** Query reminders from Apple Reminders. */
+  queryReminders<T = ResultOf<'query_reminders'>>(
+    args: QueryRemindersArgs = {},
+  ): Promise<T> {
+    return this.call('query_reminders', args) as Promise<T>;
+  }
+
+  /** Update one or more reminders. Only specified fields are changed. */
+  updateReminders<T = ResultOf<'update_reminders'>>(
+    args: UpdateRemindersArgs,
+  ): Promise<T> {
+    return this.call('update_reminders', args) as Promise<T>;
+  }
+}
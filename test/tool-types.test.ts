@@ -0,0 +1,108 @@
+/**
+ * Tests for the generated typed tool wrappers (tool-types.generated.ts).
+ * The first group fails when the generated file no longer matches the live
+ * schemas; regenerate with `bun run generate:tools`.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {readFileSync} from 'fs';
+import {
+  GENERATED_PATH,
+  generateToolTypes,
+  parseSnapshotTools,
+  type ToolSchema,
+} from './generate-tool-types';
+import {MCPClient, MCPToolCallError} from './mcp-client';
+
+describe('Typed tool wrappers', () => {
+  let client: MCPClient;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  describe('generated file', () => {
+    test('matches the live tools/list schemas', async () => {
+      const tools = (await client.listToolsWithSchemas()) as ToolSchema[];
+      const generated = await generateToolTypes(tools);
+
+      expect(generated).toBe(readFileSync(GENERATED_PATH, 'utf8'));
+    });
+
+    test('is the same when generated from the schema snapshot', async () => {
+      const snapshot = readFileSync(
+        `${import.meta.dir}/__snapshots__/schema-snapshot.test.ts.snap`,
+        'utf8',
+      );
+      const generated = await generateToolTypes(parseSnapshotTools(snapshot));
+
+      expect(generated).toBe(readFileSync(GENERATED_PATH, 'utf8'));
+    });
+  });
+
+  describe('client.tools', () => {
+    let listName: string;
+
+    beforeAll(async () => {
+      listName = (await client.tools.createList({name: 'Typed Wrappers'})).name;
+    });
+
+    test('createReminders and queryReminders round-trip', async () => {
+      const created = await client.tools.createReminders({
+        reminders: [
+          {title: 'Typed open', list: {name: listName}, priority: 'high'},
+          {title: 'Typed done', list: {name: listName}},
+        ],
+      });
+      expect(Array.isArray(created)).toBe(true);
+      const [open, done] = created as Array<{id: string}>;
+
+      await client.tools.updateReminders({
+        reminders: [{id: done.id, completed: true}],
+      });
+
+      const completed = await client.tools.queryReminders({
+        list: {all: true},
+        status: 'completed',
+      });
+      expect(completed.map((r) => r.id)).toEqual([done.id]);
+
+      const incomplete = await client.tools.queryReminders({
+        list: {name: listName},
+      });
+      expect(incomplete.map((r) => r.priority)).toEqual(['high']);
+
+      await client.tools.deleteReminders({ids: [open.id, done.id]});
+    });
+
+    test('getLists includes the new list', async () => {
+      const lists = await client.tools.getLists();
+      expect(lists.map((l) => l.name)).toContain(listName);
+    });
+
+    test('the result type can be overridden for JMESPath queries', async () => {
+      const titles = await client.tools.queryReminders<string[]>({
+        list: {name: listName},
+        status: 'all',
+        query: '[].title',
+      });
+      expect(Array.isArray(titles)).toBe(true);
+    });
+
+    test('tool errors reject with MCPToolCallError', async () => {
+      const error = await client.tools
+        .queryReminders({list: {name: 'No Such List'}})
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MCPToolCallError);
+      expect((error as MCPToolCallError).toolName).toBe('query_reminders');
+      expect((error as MCPToolCallError).args).toEqual({
+        list: {name: 'No Such List'},
+      });
+    });
+  });
+});
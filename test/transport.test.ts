@@ -0,0 +1,147 @@
+/**
+ * Tests for the MCPClient transport: responses are routed to requests by id,
+ * so concurrent calls resolve independently of the order the server answers.
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {
+  MCPClient,
+  MCPRequestTimeoutError,
+  type MCPNotification,
+} from './mcp-client';
+
+/**
+ * A minimal stdio server that answers initialize immediately, holds every
+ * other request until three are queued and then answers them in reverse
+ * order, and never answers 'never/respond'. It sends a notification first.
+ */
+const OUT_OF_ORDER_SERVER = `
+const readline = require('node:readline');
+const send = (message) => process.stdout.write(JSON.stringify(message) + '\\n');
+let held = [];
+readline.createInterface({input: process.stdin}).on('line', (line) => {
+  const request = JSON.parse(line);
+  if (request.method === 'initialize') {
+    send({jsonrpc: '2.0', method: 'notifications/message', params: {level: 'info'}});
+    send({jsonrpc: '2.0', id: request.id, result: {}});
+    return;
+  }
+  if (request.method === 'never/respond') return;
+  held.push(request);
+  if (held.length === 3) {
+    for (const r of held.reverse()) {
+      send({jsonrpc: '2.0', id: r.id, result: {content: [{type: 'text', text: JSON.stringify(r.params)}]}});
+    }
+    held = [];
+  }
+});
+`;
+
+describe('MCPClient transport', () => {
+  describe('concurrent tool calls', () => {
+    let client: MCPClient;
+    let listName: string;
+
+    beforeAll(async () => {
+      client = await MCPClient.create();
+      listName = await client.createTestList();
+      for (const title of ['Alpha task', 'Beta task', 'Gamma task']) {
+        await client.createTestReminder(title);
+      }
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+    });
+
+    test('Promise.all over query_reminders keeps results apart', async () => {
+      const searches = ['Alpha', 'Beta', 'Gamma', 'Alpha', 'Beta'];
+
+      const results = await Promise.all(
+        searches.map((searchText) =>
+          client.callTool('query_reminders', {
+            list: {name: listName},
+            searchText,
+          }),
+        ),
+      );
+
+      results.forEach((result, index) => {
+        const reminders = result as unknown as Array<{title: string}>;
+        expect(reminders.length).toBe(1);
+        expect(reminders[0].title).toBe(`${searches[index]} task`);
+      });
+    });
+  });
+
+  describe('against an out-of-order server', () => {
+    let client: MCPClient;
+
+    beforeAll(async () => {
+      client = await MCPClient.create({
+        command: [process.execPath, '-e', OUT_OF_ORDER_SERVER],
+        requestTimeoutMs: 5000,
+      });
+    });
+
+    afterAll(async () => {
+      await client.cleanup();
+    });
+
+    test('reports a custom backend', () => {
+      expect(client.getBackend()).toBe('custom');
+    });
+
+    test('matches responses answered in reverse order', async () => {
+      const results = await Promise.all(
+        ['first', 'second', 'third'].map((tag) =>
+          client.callTool('echo', {tag}),
+        ),
+      );
+
+      expect(results.map((r) => (r.arguments as {tag: string}).tag)).toEqual([
+        'first',
+        'second',
+        'third',
+      ]);
+    });
+
+    test('times out with the method and params in the error', async () => {
+      const error = await client
+        .sendRequest('never/respond', {tag: 'lost'}, {timeoutMs: 100})
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MCPRequestTimeoutError);
+      const timeout = error as MCPRequestTimeoutError;
+      expect(timeout.method).toBe('never/respond');
+      expect(timeout.params).toEqual({tag: 'lost'});
+      expect(timeout.message).toContain("'never/respond'");
+      expect(timeout.message).toContain('"tag":"lost"');
+    });
+  });
+
+  test('server notifications are emitted as events', async () => {
+    const client = await MCPClient.create({
+      command: [process.execPath, '-e', OUT_OF_ORDER_SERVER],
+    });
+    // The server sends a notification ahead of every initialize response
+    const received = new Promise<MCPNotification>((resolve) =>
+      client.events.once('notification', resolve),
+    );
+    await client.sendRequest('initialize', {});
+
+    expect((await received).method).toBe('notifications/message');
+    await client.cleanup();
+  });
+
+  test('pending requests reject when the server exits', async () => {
+    const client = await MCPClient.create({
+      command: [process.execPath, '-e', OUT_OF_ORDER_SERVER],
+    });
+
+    const pending = client.sendRequest('never/respond');
+    await client.cleanup();
+
+    await expect(pending).rejects.toThrow('Server exited before responding');
+  });
+});
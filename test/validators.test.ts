@@ -0,0 +1,320 @@
+/**
+ * Tests for the runtime result validators (validators.ts): every
+ * outputDetail variant against live results, and path-precise issues for
+ * malformed payloads. Also argument validation against each tool's
+ * inputSchema (callTool `validateArgs`).
+ */
+
+import {describe, test, expect, beforeAll, afterAll} from 'bun:test';
+import {readFileSync, unlinkSync} from 'fs';
+import {MCPClient, ValidationError, validators} from './mcp-client';
+
+describe('Result validators', () => {
+  let client: MCPClient;
+  let testListName: string;
+
+  beforeAll(async () => {
+    client = await MCPClient.create();
+    testListName = await client.createTestList();
+
+    await client.callTool('create_reminders', {
+      reminders: [
+        {
+          title: 'Validated',
+          list: {name: testListName},
+          notes: 'Some notes',
+          dueDate: '2026-06-15T09:00:00Z',
+          priority: 'high',
+          url: 'https://example.com',
+          alarms: [
+            {type: 'relative', offset: 900},
+            {type: 'absolute', date: '2026-06-15T08:00:00Z'},
+          ],
+          recurrenceRule: {frequency: 'weekly', daysOfWeek: [2, 4]},
+        },
+        {title: 'Bare', list: {name: testListName}},
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  describe('live results', () => {
+    for (const outputDetail of ['minimal', 'compact', 'full'] as const) {
+      test(`query_reminders outputDetail '${outputDetail}'`, async () => {
+        for (const list of [{name: testListName}, {all: true}]) {
+          const result = await client.callTool('query_reminders', {
+            list,
+            status: 'all',
+            outputDetail,
+          });
+          expect(validators.reminders(outputDetail)(result)).toEqual([]);
+        }
+      });
+    }
+
+    test('create_reminders results are encoded reminders', async () => {
+      const result = await client.callTool(
+        'create_reminders',
+        {reminders: [{title: 'Encoded', list: {name: testListName}}]},
+        {validate: true},
+      );
+      expect(validators.reminders('encoded')(result)).toEqual([]);
+    });
+
+    test('export result and export file', async () => {
+      const result = await client.callTool(
+        'export_reminders',
+        {},
+        {validate: true},
+      );
+      const path = result.path as string;
+
+      const data = JSON.parse(readFileSync(path, 'utf8'));
+      expect(validators.exportData(data)).toEqual([]);
+      unlinkSync(path);
+    });
+
+    test('get_lists and create_list', async () => {
+      await client.callTool('get_lists', {}, {validate: true});
+      await client.callTool(
+        'create_list',
+        {name: 'Validated List'},
+        {validate: true},
+      );
+    });
+  });
+
+  describe('issues', () => {
+    const reminder = {
+      id: 'ABC',
+      title: 'Title',
+      priority: 'none',
+      createdDate: '2026-01-01T00:00:00Z',
+      lastModifiedDate: '2026-01-01T00:00:00Z',
+    };
+
+    test('report the path of a drifted alarm', () => {
+      const issues = validators.reminders('encoded')([
+        {
+          ...reminder,
+          listId: 'L',
+          listName: 'List',
+          isCompleted: false,
+          alarms: [
+            {type: 'relative', offset: 900},
+            {type: 'relative', offset: '900'},
+          ],
+        },
+      ]);
+
+      expect(issues).toEqual([
+        {
+          path: '$[0].alarms[1].offset',
+          message: 'expected integer, got string "900"',
+        },
+      ]);
+    });
+
+    test('report a stringly-typed isDefault', () => {
+      const issues = validators.reminderLists([
+        {id: 'A', name: 'Reminders', isDefault: 'true'},
+      ]);
+
+      expect(issues).toEqual([
+        {
+          path: '$[0].isDefault',
+          message: 'expected boolean, got string "true"',
+        },
+      ]);
+    });
+
+    test('distinguish the outputDetail variants', () => {
+      expect(validators.reminder('compact')(reminder)).toEqual([]);
+      expect(validators.reminder('minimal')(reminder)).toEqual([
+        {path: '$.priority', message: 'unexpected field'},
+        {path: '$.createdDate', message: 'unexpected field'},
+        {path: '$.lastModifiedDate', message: 'unexpected field'},
+      ]);
+      const missing = validators.reminder('full')(reminder);
+      expect(missing.every((i) => i.message === 'missing field')).toBe(true);
+      expect(missing.map((i) => i.path).sort()).toEqual(
+        [
+          '$.notes',
+          '$.listId',
+          '$.listName',
+          '$.isCompleted',
+          '$.dueDate',
+          '$.dueDateIncludesTime',
+          '$.completionDate',
+          '$.url',
+          '$.alarms',
+          '$.recurrenceRules',
+        ].sort(),
+      );
+      expect(
+        validators.reminder('compact')({...reminder, notes: null}),
+      ).toEqual([{path: '$.notes', message: 'expected string, got null'}]);
+    });
+
+    test('check export stats against the contents', () => {
+      const issues = validators.exportData({
+        exportVersion: '1.0',
+        exportDate: '2026-01-01T00:00:00Z',
+        source: 'Apple Reminders MCP Server',
+        stats: {lists: 1, reminders: 2, completed: 0, incomplete: 2},
+        lists: [{id: 'L', name: 'List', isDefault: true}],
+        reminders: [
+          {...reminder, listId: 'L', listName: 'List', isCompleted: false},
+        ],
+      });
+
+      expect(issues.map((i) => i.path)).toEqual([
+        '$.stats.reminders',
+        '$.stats.incomplete',
+      ]);
+    });
+
+    test('callTool throws a ValidationError listing each path', async () => {
+      const error = await client
+        .callTool('get_lists', {}, {validate: validators.reminders('minimal')})
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).message).toContain(
+        '$[0].name: unexpected field',
+      );
+    });
+  });
+});
+
+describe('Argument validation', () => {
+  let client: MCPClient;
+  let requests: string[];
+
+  beforeAll(async () => {
+    client = await MCPClient.create({validateArgs: true});
+    // Count what reaches the server
+    requests = [];
+    const send = client.sendRequest.bind(client);
+    client.sendRequest = (method, params, options) => {
+      requests.push(method === 'tools/call' ? String(params?.name) : method);
+      return send(method, params, options);
+    };
+  });
+
+  afterAll(async () => {
+    await client.cleanup();
+  });
+
+  test('returns every violation without calling the tool', async () => {
+    const result = await client.callTool('query_reminders', {
+      sortBy: 'title',
+      status: 'open',
+      outputDetail: 'verbose',
+      limit: 500,
+      list: {name: 'Work', owner: 'me'},
+      color: 'red',
+    });
+
+    expect(result._isError).toBe(true);
+    expect(result.issues).toEqual([
+      {
+        path: '$.sortBy',
+        message:
+          'expected one of newest|oldest|priority|dueDate, got string "title"',
+      },
+      {
+        path: '$.status',
+        message: 'expected one of incomplete|completed|all, got string "open"',
+      },
+      {
+        path: '$.outputDetail',
+        message: 'expected one of minimal|compact|full, got string "verbose"',
+      },
+      {
+        path: '$.limit',
+        message: 'expected integer in [1, 200], got integer 500',
+      },
+      {path: '$.list.owner', message: 'unexpected field'},
+      {path: '$.color', message: 'unexpected field'},
+    ]);
+    expect(result.error).toStartWith(
+      'query_reminders arguments failed validation:\n  $.sortBy:',
+    );
+    expect(requests).not.toContain('query_reminders');
+  });
+
+  test('checks required fields, nested items and types', async () => {
+    const result = await client.callTool('create_reminders', {
+      reminders: [
+        {notes: 'no title'},
+        {title: 'Alarm', alarms: [{type: 'relative', offset: 1.5}]},
+        {title: 7, recurrenceRule: {interval: 0}},
+      ],
+    });
+    expect(result.issues).toEqual([
+      {path: '$.reminders[0].title', message: 'missing field'},
+      {
+        path: '$.reminders[1].alarms[0].offset',
+        message: 'expected integer, got number 1.5',
+      },
+      {path: '$.reminders[2].title', message: 'expected string, got integer 7'},
+      {
+        path: '$.reminders[2].recurrenceRule.frequency',
+        message: 'missing field',
+      },
+      {
+        path: '$.reminders[2].recurrenceRule.interval',
+        message: 'expected integer in [1, ∞], got integer 0',
+      },
+    ]);
+
+    const empty = await client.callTool('delete_reminders', {ids: []});
+    expect(empty.issues).toEqual([
+      {path: '$.ids', message: 'expected at least 1 item(s), got 0'},
+    ]);
+    expect((await client.callTool('no_such_tool', {})).issues).toEqual([
+      {path: '$', message: "unknown tool 'no_such_tool'"},
+    ]);
+  });
+
+  test('lets valid calls through, including null to clear a field', async () => {
+    const listName = await client.createTestList();
+    const [created] = (await client.tools.createReminders({
+      reminders: [
+        {title: 'Valid', list: {name: listName}, dueDate: '2026-11-01'},
+      ],
+    })) as Array<{id: string}>;
+
+    const result = await client.callTool('update_reminders', {
+      reminders: [{id: created.id, dueDate: null, notes: null}],
+    });
+    expect(result._isError).toBeUndefined();
+    expect(requests).toContain('update_reminders');
+  });
+
+  test('fetches the schemas once per session', () => {
+    expect(requests.filter((m) => m === 'tools/list')).toHaveLength(1);
+  });
+
+  test('strict mode throws a ValidationError', async () => {
+    const error = await client
+      .callTool('query_reminders', {limit: 0}, {validateArgs: 'strict'})
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues).toEqual([
+      {path: '$.limit', message: 'expected integer in [1, 200], got integer 0'},
+    ]);
+
+    // Per-call false overrides the client default
+    const sent = await client.callTool(
+      'query_reminders',
+      {sortBy: 'title'},
+      {validateArgs: false},
+    );
+    expect(sent.issues).toBeUndefined();
+  });
+});
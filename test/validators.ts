@@ -0,0 +1,525 @@
+/**
+ * Runtime validators for tool results: reminders (per outputDetail variant),
+ * lists, export results and export files. Each validator returns a list of
+ * issues with a JSONPath-style location (e.g. `$[0].alarms[1].offset`), so
+ * shape drift is reported where it happens rather than as a later failed
+ * assertion. Tool arguments are checked the same way against the
+ * inputSchema from tools/list.
+ *
+ * Usage:
+ *   expect(validators.reminders('compact')(result)).toEqual([]);
+ *   client.callTool('query_reminders', args, {validate: true});
+ *   client.callTool('query_reminders', args, {validateArgs: true});
+ */
+
+import {Priority} from './reference-models';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** Returns the issues found in `value`; an empty array means it is valid. */
+export type Validator = (value: unknown, path?: string) => ValidationIssue[];
+
+/**
+ * Reminder shapes:
+ * - 'minimal' / 'compact' / 'full': query_reminders outputDetail variants
+ * - 'encoded': create/update results and export files (nil fields omitted)
+ */
+export type ReminderVariant = 'minimal' | 'compact' | 'full' | 'encoded';
+
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(label: string, issues: ValidationIssue[]) {
+    super(
+      `${label} failed validation:\n` +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n'),
+    );
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Throws a ValidationError listing every issue if `value` is invalid. */
+export function assertValid(
+  validator: Validator,
+  value: unknown,
+  label = 'Value',
+): void {
+  const issues = validator(value);
+  if (issues.length > 0) {
+    throw new ValidationError(label, issues);
+  }
+}
+
+// Field checks
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(Z|[+-]\d{2}:\d{2})$/;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value)}`;
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    return `number ${value}`;
+  }
+  return typeof value === 'number' ? `integer ${value}` : typeof value;
+}
+
+function expected(
+  what: string,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+): void {
+  issues.push({path, message: `expected ${what}, got ${describeValue(value)}`});
+}
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string') expected('string', value, path, issues);
+};
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') expected('boolean', value, path, issues);
+};
+
+const isoDate: Check = (value, path, issues) => {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) {
+    expected('ISO 8601 date-time with offset', value, path, issues);
+  }
+};
+
+function integer(min?: number, max?: number): Check {
+  return (value, path, issues) => {
+    if (!Number.isInteger(value)) {
+      expected('integer', value, path, issues);
+    } else if (
+      (min !== undefined && (value as number) < min) ||
+      (max !== undefined && (value as number) > max)
+    ) {
+      expected(
+        `integer in [${min ?? '-∞'}, ${max ?? '∞'}]`,
+        value,
+        path,
+        issues,
+      );
+    }
+  };
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      expected(`one of ${values.join('|')}`, value, path, issues);
+    }
+  };
+}
+
+function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  };
+}
+
+function arrayOf(check: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      expected('array', value, path, issues);
+      return;
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`, issues));
+  };
+}
+
+function object(
+  required: Record<string, Check>,
+  optional: Record<string, Check> = {},
+): Check {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      expected('object', value, path, issues);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+
+    for (const [key, check] of Object.entries(required)) {
+      if (!(key in record)) {
+        issues.push({path: `${path}.${key}`, message: 'missing field'});
+      } else {
+        check(record[key], `${path}.${key}`, issues);
+      }
+    }
+    for (const [key, fieldValue] of Object.entries(record)) {
+      if (key in required) continue;
+      const check = optional[key];
+      if (!check) {
+        issues.push({path: `${path}.${key}`, message: 'unexpected field'});
+      } else {
+        check(fieldValue, `${path}.${key}`, issues);
+      }
+    }
+  };
+}
+
+function toValidator(check: Check): Validator {
+  return (value, path = '$') => {
+    const issues: ValidationIssue[] = [];
+    check(value, path, issues);
+    return issues;
+  };
+}
+
+// Shapes
+
+const alarm: Check = (value, path, issues) => {
+  const type = (value as {type?: unknown} | null)?.type;
+  if (type === 'absolute') {
+    object({type: string, date: isoDate})(value, path, issues);
+  } else if (type === 'relative') {
+    object({type: string, offset: integer()})(value, path, issues);
+  } else if (typeof value !== 'object' || value === null) {
+    expected('object', value, path, issues);
+  } else {
+    expected('absolute|relative', type, `${path}.type`, issues);
+  }
+};
+
+const recurrenceRule = object(
+  {
+    frequency: oneOf(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: integer(1),
+  },
+  {
+    daysOfWeek: arrayOf(integer(1, 7)),
+    daysOfMonth: arrayOf(integer(-31, 31)),
+    monthsOfYear: arrayOf(integer(1, 12)),
+    weekPosition: integer(),
+    endDate: isoDate,
+    endCount: integer(1),
+  },
+);
+
+/** Every ReminderOutput field with its non-null check */
+const REMINDER_FIELDS: Record<string, Check> = {
+  id: string,
+  title: string,
+  notes: string,
+  listId: string,
+  listName: string,
+  isCompleted: boolean,
+  priority: oneOf(Priority.names),
+  dueDate: isoDate,
+  dueDateIncludesTime: boolean,
+  completionDate: isoDate,
+  createdDate: isoDate,
+  lastModifiedDate: isoDate,
+  url: string,
+  alarms: arrayOf(alarm),
+  recurrenceRules: arrayOf(recurrenceRule),
+};
+
+/** Fields that are never null in ReminderOutput */
+const NON_NULL_FIELDS = [
+  'id',
+  'title',
+  'listId',
+  'listName',
+  'isCompleted',
+  'priority',
+  'createdDate',
+  'lastModifiedDate',
+];
+
+function pick(keys: string[], wrap?: (check: Check) => Check) {
+  return Object.fromEntries(
+    keys.map((key) => [
+      key,
+      wrap ? wrap(REMINDER_FIELDS[key]) : REMINDER_FIELDS[key],
+    ]),
+  );
+}
+
+const ALL_FIELDS = Object.keys(REMINDER_FIELDS);
+const NULLABLE_FIELDS = ALL_FIELDS.filter((k) => !NON_NULL_FIELDS.includes(k));
+
+const reminderChecks: Record<ReminderVariant, Check> = {
+  // listName and isCompleted are omitted when implied by the query
+  minimal: object(pick(['id', 'title']), pick(['listName', 'isCompleted'])),
+  compact: object(
+    pick(['id', 'title', 'priority', 'createdDate', 'lastModifiedDate']),
+    pick(['notes', 'listName', 'isCompleted', 'dueDate']),
+  ),
+  // Every field is present; nulls are shown explicitly
+  full: object({
+    ...pick(NON_NULL_FIELDS),
+    ...pick(NULLABLE_FIELDS, nullable),
+  }),
+  encoded: object(pick(NON_NULL_FIELDS), pick(NULLABLE_FIELDS)),
+};
+
+const reminderList = object({id: string, name: string, isDefault: boolean});
+
+const exportStats = object({
+  lists: integer(0),
+  reminders: integer(0),
+  completed: integer(0),
+  incomplete: integer(0),
+});
+
+const exportResult = object({
+  success: boolean,
+  path: string,
+  exportDate: isoDate,
+  stats: exportStats,
+  fileSizeBytes: integer(0),
+  note: string,
+});
+
+const exportData: Check = (value, path, issues) => {
+  const before = issues.length;
+  object({
+    exportVersion: string,
+    exportDate: isoDate,
+    source: string,
+    stats: exportStats,
+    lists: arrayOf(reminderList),
+    reminders: arrayOf(reminderChecks.encoded),
+  })(value, path, issues);
+  if (issues.length > before) return;
+
+  // Stats must agree with the contents
+  const data = value as {
+    stats: Record<string, number>;
+    lists: unknown[];
+    reminders: Array<{isCompleted: boolean}>;
+  };
+  const completed = data.reminders.filter((r) => r.isCompleted).length;
+  const actual: Record<string, number> = {
+    lists: data.lists.length,
+    reminders: data.reminders.length,
+    completed,
+    incomplete: data.reminders.length - completed,
+  };
+  for (const [key, count] of Object.entries(actual)) {
+    if (data.stats[key] !== count) {
+      issues.push({
+        path: `${path}.stats.${key}`,
+        message: `expected ${count} to match the file contents, got ${data.stats[key]}`,
+      });
+    }
+  }
+};
+
+/** A batch result: a plain array on full success, else {<key>, failed}. */
+function batchResult(key: string, failure: Check): Check {
+  const items = arrayOf(reminderChecks.encoded);
+  return (value, path, issues) => {
+    if (Array.isArray(value)) {
+      items(value, path, issues);
+    } else {
+      object({[key]: items, failed: arrayOf(failure)})(value, path, issues);
+    }
+  };
+}
+
+// Tool arguments
+
+/** The subset of JSON Schema the tools' inputSchema uses */
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks a value against a JSON Schema: type, enum, required, properties,
+ * additionalProperties, items and the min/max keywords. Other keywords
+ * (description, default, format) are ignored.
+ */
+function jsonSchema(schema: JsonSchema): Check {
+  return (value, path, issues) => {
+    const types =
+      schema.type === undefined
+        ? []
+        : Array.isArray(schema.type)
+          ? schema.type
+          : [schema.type];
+    if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+      expected(types.join('|'), value, path, issues);
+      return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      expected(`one of ${schema.enum.join('|')}`, value, path, issues);
+      return;
+    }
+
+    if (typeof value === 'number') {
+      const {minimum: min, maximum: max} = schema;
+      if (
+        (min !== undefined && value < min) ||
+        (max !== undefined && value > max)
+      ) {
+        expected(
+          `${types[0] ?? 'number'} in [${min ?? '-∞'}, ${max ?? '∞'}]`,
+          value,
+          path,
+          issues,
+        );
+      }
+    }
+    if (typeof value === 'string') {
+      const {minLength: min = 0, maxLength: max = Infinity} = schema;
+      if (value.length < min || value.length > max) {
+        expected(
+          `string of length [${min}, ${max === Infinity ? '∞' : max}]`,
+          value,
+          path,
+          issues,
+        );
+      }
+    }
+
+    if (Array.isArray(value)) {
+      const {minItems: min = 0, maxItems: max = Infinity} = schema;
+      if (value.length < min || value.length > max) {
+        issues.push({
+          path,
+          message: `expected ${max === Infinity ? `at least ${min}` : `${min} to ${max}`} item(s), got ${value.length}`,
+        });
+      }
+      if (schema.items) {
+        const check = jsonSchema(schema.items);
+        value.forEach((item, index) =>
+          check(item, `${path}[${index}]`, issues),
+        );
+      }
+    }
+
+    if (hasType(value, 'object')) {
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const required = schema.required ?? [];
+      for (const key of required) {
+        if (!(key in record)) {
+          issues.push({path: `${path}.${key}`, message: 'missing field'});
+        }
+      }
+      for (const [key, fieldValue] of Object.entries(record)) {
+        const property = properties[key];
+        if (property) {
+          // The server reads null on an optional field as "clear" (e.g.
+          // update_reminders dueDate), which the schemas don't spell out
+          if (fieldValue === null && !required.includes(key)) continue;
+          jsonSchema(property)(fieldValue, `${path}.${key}`, issues);
+        } else if (schema.additionalProperties === false) {
+          issues.push({path: `${path}.${key}`, message: 'unexpected field'});
+        } else if (typeof schema.additionalProperties === 'object') {
+          jsonSchema(schema.additionalProperties)(
+            fieldValue,
+            `${path}.${key}`,
+            issues,
+          );
+        }
+      }
+    }
+  };
+}
+
+export const validators = {
+  reminder(variant: ReminderVariant = 'compact'): Validator {
+    return toValidator(reminderChecks[variant]);
+  },
+
+  reminders(variant: ReminderVariant = 'compact'): Validator {
+    return toValidator(arrayOf(reminderChecks[variant]));
+  },
+
+  reminderList: toValidator(reminderList),
+  reminderLists: toValidator(arrayOf(reminderList)),
+  exportResult: toValidator(exportResult),
+  exportData: toValidator(exportData),
+
+  createRemindersResult: toValidator(
+    batchResult('created', object({index: integer(0), error: string})),
+  ),
+  updateRemindersResult: toValidator(
+    batchResult('updated', object({id: string, error: string})),
+  ),
+  deleteRemindersResult: toValidator(
+    object({
+      deleted: arrayOf(string),
+      failed: arrayOf(object({id: string, error: string})),
+    }),
+  ),
+
+  /** Tool arguments, against the tool's inputSchema from tools/list. */
+  arguments(schema: JsonSchema): Validator {
+    return toValidator(jsonSchema(schema));
+  },
+
+  /**
+   * The validator for a tool's successful result, or null when the shape
+   * is not fixed (a JMESPath `query`, or an unknown tool).
+   */
+  forTool(
+    toolName: string,
+    args: Record<string, unknown> = {},
+  ): Validator | null {
+    switch (toolName) {
+      case 'get_lists':
+        return validators.reminderLists;
+      case 'create_list':
+        return validators.reminderList;
+      case 'query_reminders': {
+        if (args.query !== undefined) return null;
+        const detail = args.outputDetail;
+        return validators.reminders(
+          detail === 'minimal' || detail === 'full' ? detail : 'compact',
+        );
+      }
+      case 'create_reminders':
+        return validators.createRemindersResult;
+      case 'update_reminders':
+        return validators.updateRemindersResult;
+      case 'delete_reminders':
+        return validators.deleteRemindersResult;
+      case 'export_reminders':
+        return validators.exportResult;
+      default:
+        return null;
+    }
+  },
+};